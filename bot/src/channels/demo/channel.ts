@@ -77,5 +77,7 @@ function formatOutgoing(message: OutgoingMessage): string {
       return `\`\`\`${message.language ?? ''}\n${message.code}\n\`\`\``;
     case 'error':
       return `❌ ${message.message}${message.hint ? `\n💡 ${message.hint}` : ''}`;
+    case 'file':
+      return `📎 ${message.filename} (${message.data.length} bytes)${message.caption ? `\n${message.caption}` : ''}`;
   }
 }
@@ -4,17 +4,22 @@ import {
   Events,
   REST,
   Routes,
+  type ButtonInteraction,
   type ChatInputCommandInteraction,
   type Interaction,
 } from 'discord.js';
 import { BaseChannel } from '../../core/base-channel.js';
 import { DiscordFormatter } from './formatter.js';
+import { EditableReply } from '../../streaming/editable-reply.js';
 import { DISCORD_COMMANDS } from './commands.js';
-import type { OutgoingMessage, IncomingMessage } from '../../models/message.js';
+import { buildButtonRows } from './components.js';
+import { downloadFile } from '../download.js';
+import type { OutgoingMessage, IncomingMessage, Attachment } from '../../models/message.js';
+import { extractMachineFlag, parseCommand } from '../../models/command.js';
 import type { PermissionManager } from '../../core/permission-manager.js';
 import type { MessageDispatcher } from '../../core/dispatcher.js';
-import type { LoggerProtocol } from '../../core/types.js';
-import { DiscordError } from '../../errors.js';
+import type { AttachmentFetcher, LoggerProtocol } from '../../core/types.js';
+import { DiscordError, FileTooLargeError } from '../../errors.js';
 
 export interface DiscordChannelOptions {
   /** Bot token from Discord Developer Portal */
@@ -27,6 +32,8 @@ export interface DiscordChannelOptions {
   adminUsers?: string[];
   /** Max characters before truncating outgoing messages. Default: 1900 */
   maxMessageLength?: number;
+  /** Minimum interval between edits of a streamed reply. Default: 500 */
+  debounceMs?: number;
 }
 
 export class DiscordChannel extends BaseChannel {
@@ -36,6 +43,7 @@ export class DiscordChannel extends BaseChannel {
   private readonly guildId: string | undefined;
   private readonly formatter: DiscordFormatter;
   private readonly maxLength: number;
+  private readonly debounceMs: number;
   private messageHandlers: Array<(msg: IncomingMessage) => Promise<void>> = [];
 
   constructor(
@@ -50,6 +58,7 @@ export class DiscordChannel extends BaseChannel {
     this.guildId = options.guildId;
     this.formatter = new DiscordFormatter();
     this.maxLength = options.maxMessageLength ?? 1900;
+    this.debounceMs = options.debounceMs ?? 500;
   }
 
   async start(): Promise<void> {
@@ -61,8 +70,8 @@ export class DiscordChannel extends BaseChannel {
     });
 
     client.on(Events.InteractionCreate, (interaction: Interaction) => {
-      if (!interaction.isChatInputCommand()) return;
-      void this.handleInteraction(interaction);
+      if (interaction.isChatInputCommand()) void this.handleInteraction(interaction);
+      else if (interaction.isButton()) void this.handleButton(interaction);
     });
 
     client.on(Events.Error, (err) => {
@@ -129,6 +138,13 @@ export class DiscordChannel extends BaseChannel {
           await dm.send(errText);
           break;
         }
+        case 'file': {
+          await dm.send({
+            content: message.caption ? this.truncate(message.caption) : undefined,
+            files: [{ attachment: message.data, name: message.filename }],
+          });
+          break;
+        }
       }
     } catch (err) {
       throw new DiscordError(
@@ -145,23 +161,52 @@ export class DiscordChannel extends BaseChannel {
   // ─── Slash command handler ────────────────────────────────────────────────
 
   private async handleInteraction(interaction: ChatInputCommandInteraction): Promise<void> {
+    // Build the text representation that processMessage expects
+    const text = this.buildCommandText(interaction);
+    const file = interaction.options.getAttachment('file');
+    const attachments: Attachment[] = file
+      ? [{
+          type: 'document',
+          fileId: file.id,
+          url: file.url,
+          name: file.name,
+          mimeType: file.contentType ?? undefined,
+          size: file.size,
+        }]
+      : [];
+    await this.respond(interaction, text, { name: interaction.commandName, args: this.extractArgs(interaction) }, attachments);
+  }
+
+  /**
+   * Message buttons (see buildButtonRows) carry a command as their custom ID;
+   * a click runs it as if the user had typed it.
+   */
+  private async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const parsed = parseCommand(interaction.customId);
+    if (!parsed) return;
+    await this.respond(interaction, interaction.customId, parsed);
+  }
+
+  private async respond(
+    interaction: ChatInputCommandInteraction | ButtonInteraction,
+    text: string,
+    parsed: { name: string; args: string[] },
+    attachments: Attachment[] = [],
+  ): Promise<void> {
     // Defer reply immediately — operations may take >3 seconds
     await interaction.deferReply();
 
-    const commandName = interaction.commandName;
+    const commandName = parsed.name;
     const userId = interaction.user.id;
     const channelId = interaction.channelId ?? interaction.guildId ?? userId;
 
-    // Build the text representation that processMessage expects
-    const text = this.buildCommandText(interaction);
-
     const msg: IncomingMessage = {
       id: interaction.id,
       userId,
       channelId,
       text,
       timestamp: new Date(),
-      attachments: [],
+      attachments,
     };
 
     // Notify any external onMessage handlers
@@ -170,20 +215,47 @@ export class DiscordChannel extends BaseChannel {
     // Dispatch via base class, but we need to send the reply via editReply
     // Override: call dispatcher directly and edit the deferred reply
     try {
-      const parsed = { name: commandName, args: this.extractArgs(interaction) };
+      // Streamed drafts edit the deferred reply; the result replaces them below
+      const reply = new EditableReply<true>({
+        post: async (draft) => {
+          await interaction.editReply(this.truncate(draft));
+          return true;
+        },
+        edit: async (_, draft) => {
+          await interaction.editReply(this.truncate(draft));
+        },
+        finalize: async () => {},
+      }, { debounceMs: this.debounceMs, maxLength: this.maxLength });
+
       const ctx = {
         userId,
         command: parsed.name,
-        args: parsed.args,
         channelId,
+        channel: this.id,
         message: msg,
+        reply,
+        fetchAttachment: attachments.length > 0 ? this.attachmentFetcher() : undefined,
+        ...extractMachineFlag(parsed.args),
       } as const;
 
       const result = await this.dispatcher.dispatch(ctx);
+      if (reply.started) {
+        await reply.finish(result.ok ? result.value : { type: 'error', message: result.error.message });
+      }
 
-      if (result.ok) {
+      if (result.ok && result.value.type === 'file') {
+        const { caption, data, filename } = result.value;
+        await interaction.editReply({
+          content: caption ? this.truncate(caption) : '',
+          files: [{ attachment: data, name: filename }],
+        });
+      } else if (result.ok) {
         const reply = this.outgoingToString(result.value);
-        await interaction.editReply(this.truncate(reply));
+        const keyboard = result.value.type === 'text' ? result.value.keyboard : undefined;
+        await interaction.editReply({
+          content: this.truncate(reply),
+          ...(keyboard ? { components: buildButtonRows(keyboard) } : {}),
+        });
       } else {
         const errText = this.formatter.formatError(result.error);
         await interaction.editReply(errText);
@@ -200,32 +272,53 @@ export class DiscordChannel extends BaseChannel {
     }
   }
 
+  /** Attachments arrive as public CDN URLs; Discord reports their size up front */
+  protected override attachmentFetcher(): AttachmentFetcher {
+    return async (attachment, { maxBytes }) => {
+      const name = attachment.name ?? 'Attachment';
+      if (!attachment.url) throw new DiscordError(`${name} has no download URL`);
+      if (attachment.size !== undefined && attachment.size > maxBytes) {
+        throw new FileTooLargeError(name, attachment.size, maxBytes);
+      }
+      return downloadFile(attachment.url, { maxBytes, name });
+    };
+  }
+
   private buildCommandText(interaction: ChatInputCommandInteraction): string {
     const name = interaction.commandName;
+    const action = interaction.options.getString('action');
     const command = interaction.options.getString('command');
     const prompt = interaction.options.getString('prompt');
     const path = interaction.options.getString('path');
+    const hostname = interaction.options.getString('hostname');
     const machine = interaction.options.getString('machine');
 
+    // The machine flag is only recognised right after the command name
     const parts = [`/${name}`];
+    if (machine) parts.push(`--machine=${machine}`);
+    if (action) parts.push(action);
     if (command) parts.push(command);
     if (prompt) parts.push(prompt);
     if (path) parts.push(path);
-    if (machine) parts.push(`--machine=${machine}`);
+    if (hostname) parts.push(hostname);
     return parts.join(' ');
   }
 
   private extractArgs(interaction: ChatInputCommandInteraction): string[] {
     const args: string[] = [];
+    const action = interaction.options.getString('action');
     const command = interaction.options.getString('command');
     const prompt = interaction.options.getString('prompt');
     const path = interaction.options.getString('path');
+    const hostname = interaction.options.getString('hostname');
     const machine = interaction.options.getString('machine');
 
+    if (machine) args.push(`--machine=${machine}`);
+    if (action) args.push(action);
     if (command) args.push(...command.split(/\s+/).filter(Boolean));
     if (prompt) args.push(prompt);
     if (path) args.push(path);
-    if (machine) args.push(`--machine=${machine}`);
+    if (hostname) args.push(hostname);
     return args;
   }
 
@@ -237,6 +330,8 @@ export class DiscordChannel extends BaseChannel {
         return this.formatter.formatCode(msg.code, msg.language);
       case 'error':
         return `❌ ${msg.message}`;
+      case 'file':
+        return msg.caption ?? `📎 ${msg.filename}`;
     }
   }
 
@@ -45,11 +45,29 @@ export const DISCORD_COMMANDS: RESTPostAPIChatInputApplicationCommandsJSONBody[]
 
   new SlashCommandBuilder()
     .setName('files')
-    .setDescription('List files and directories on a remote machine')
+    .setDescription('Browse, download or upload files on a remote machine')
+    .addStringOption((opt) =>
+      opt
+        .setName('action')
+        .setDescription('What to do with the path (default: list)')
+        .setRequired(false)
+        .addChoices(
+          { name: 'list', value: 'list' },
+          { name: 'read', value: 'read' },
+          { name: 'get', value: 'get' },
+          { name: 'put', value: 'put' },
+        ),
+    )
     .addStringOption((opt) =>
       opt
         .setName('path')
-        .setDescription('Directory path to list (default: home directory)')
+        .setDescription('Remote path (default: home directory)')
+        .setRequired(false),
+    )
+    .addAttachmentOption((opt) =>
+      opt
+        .setName('file')
+        .setDescription('File to upload with the put action')
         .setRequired(false),
     )
     .addStringOption((opt) =>
@@ -60,6 +78,34 @@ export const DISCORD_COMMANDS: RESTPostAPIChatInputApplicationCommandsJSONBody[]
     )
     .toJSON(),
 
+  new SlashCommandBuilder()
+    .setName('shell')
+    .setDescription('Open an interactive terminal in this channel, or type into the open one')
+    .addStringOption((opt) =>
+      opt
+        .setName('command')
+        .setDescription('Input for the open shell (ctrl-c, ctrl-d, refresh and exit are keys)')
+        .setRequired(false),
+    )
+    .addStringOption((opt) =>
+      opt
+        .setName('machine')
+        .setDescription('Target machine hostname (uses default if omitted)')
+        .setRequired(false),
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('machine')
+    .setDescription('List online machines or select the one your commands run on')
+    .addStringOption((opt) =>
+      opt
+        .setName('hostname')
+        .setDescription('Machine to select (lists online machines if omitted)')
+        .setRequired(false),
+    )
+    .toJSON(),
+
   new SlashCommandBuilder()
     .setName('help')
     .setDescription('Show available CMDOP commands and usage examples')
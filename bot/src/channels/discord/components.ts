@@ -0,0 +1,28 @@
+import { ActionRowBuilder, ButtonBuilder } from '@discordjs/builders';
+import { ButtonStyle, type APIActionRowComponent, type APIButtonComponentWithCustomId } from 'discord.js';
+import type { KeyboardButton } from '../../models/message.js';
+
+/** Discord allows 5 action rows of 5 buttons; custom IDs up to 100 chars */
+const MAX_ROWS = 5;
+const MAX_BUTTONS = 5;
+const MAX_CUSTOM_ID = 100;
+
+/**
+ * Build message button rows from an OutgoingMessage keyboard.
+ * Each button's custom ID is its command, which the channel dispatches on click.
+ */
+export function buildButtonRows(rows: KeyboardButton[][]): APIActionRowComponent<APIButtonComponentWithCustomId>[] {
+  return rows.slice(0, MAX_ROWS).map((row) =>
+    new ActionRowBuilder<ButtonBuilder>()
+      .addComponents(
+        row
+          .filter((b) => b.command.length <= MAX_CUSTOM_ID)
+          .slice(0, MAX_BUTTONS)
+          .map((b) => new ButtonBuilder()
+            .setStyle(ButtonStyle.Secondary)
+            .setLabel(b.label.slice(0, 80))
+            .setCustomId(b.command)),
+      )
+      .toJSON() as APIActionRowComponent<APIButtonComponentWithCustomId>,
+  );
+}
@@ -2,3 +2,4 @@ export { DiscordChannel } from './channel.js';
 export type { DiscordChannelOptions } from './channel.js';
 export { DiscordFormatter, DISCORD_MAX_MESSAGE_LENGTH } from './formatter.js';
 export { DISCORD_COMMANDS, DISCORD_COMMAND_NAMES } from './commands.js';
+export { buildButtonRows } from './components.js';
@@ -0,0 +1,52 @@
+import { ChannelError, FileTooLargeError } from '../errors.js';
+
+export interface DownloadOptions {
+  maxBytes: number;
+  /** File name used in error messages */
+  name?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fetch a platform file into memory, giving up as soon as it grows past maxBytes.
+ * The Content-Length header is checked first, but not trusted.
+ */
+export async function downloadFile(url: string, options: DownloadOptions): Promise<Buffer> {
+  const name = options.name ?? 'Attachment';
+  let res: Response;
+  try {
+    res = await fetch(url, { headers: options.headers });
+  } catch (err) {
+    throw new ChannelError(`Failed to download ${name}`, {
+      code: 'DOWNLOAD_FAILED',
+      cause: err instanceof Error ? err : undefined,
+    });
+  }
+  if (!res.ok || !res.body) {
+    throw new ChannelError(`Failed to download ${name}: HTTP ${res.status}`, {
+      code: 'DOWNLOAD_FAILED',
+      context: { status: res.status },
+    });
+  }
+
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > options.maxBytes) {
+    await res.body.cancel();
+    throw new FileTooLargeError(name, declared, options.maxBytes);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > options.maxBytes) {
+      await reader.cancel();
+      throw new FileTooLargeError(name, received, options.maxBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
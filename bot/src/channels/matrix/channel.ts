@@ -0,0 +1,456 @@
+import { BaseChannel } from '../../core/base-channel.js';
+import { MatrixFormatter, MATRIX_MAX_MESSAGE_LENGTH } from './formatter.js';
+import { EditableReply } from '../../streaming/editable-reply.js';
+import { downloadFile } from '../download.js';
+import { extractMachineFlag, parseCommand } from '../../models/command.js';
+import type { OutgoingMessage, IncomingMessage, Attachment } from '../../models/message.js';
+import type { PermissionManager } from '../../core/permission-manager.js';
+import type { MessageDispatcher } from '../../core/dispatcher.js';
+import type { AttachmentFetcher, LoggerProtocol } from '../../core/types.js';
+import { FileTooLargeError, MatrixError } from '../../errors.js';
+
+export interface MatrixChannelOptions {
+  /** Homeserver base URL, e.g. https://matrix.example.org */
+  homeserverUrl: string;
+  /** Access token of the bot account */
+  accessToken: string;
+  /** Join rooms the bot is invited to. Default: true */
+  autoJoin?: boolean;
+  /** Max characters before truncating outgoing messages. Default: 16000 */
+  maxMessageLength?: number;
+  /** Minimum interval between edits of a streamed reply. Default: 500 */
+  debounceMs?: number;
+  /** Long-poll timeout of each /sync request. Default: 30000 */
+  syncTimeoutMs?: number;
+}
+
+/** Wait before retrying a failed /sync */
+const SYNC_RETRY_MS = 5000;
+
+type MessageContent = Record<string, unknown> & { msgtype: string; body: string };
+
+interface RoomEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts: number;
+  content: {
+    msgtype?: string;
+    body?: string;
+    filename?: string;
+    url?: string;
+    info?: { size?: number; mimetype?: string };
+    'm.relates_to'?: { rel_type?: string; event_id?: string };
+  };
+}
+
+interface SyncResponse {
+  next_batch: string;
+  account_data?: { events?: Array<{ type: string; content: Record<string, unknown> }> };
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: RoomEvent[] } }>;
+    invite?: Record<string, {
+      invite_state?: { events?: Array<{ type: string; state_key?: string; sender: string; content: { is_direct?: boolean } }> };
+    }>;
+  };
+}
+
+/**
+ * MatrixChannel — talks to a homeserver over the client-server API, no SDK needed.
+ *
+ * New events arrive through a /sync long-poll. In rooms, the bot answers commands
+ * (`!exec ls` — Element keeps `/` for its own commands); in direct chats plain text
+ * goes to the agent too. Replies go to the room, in the thread the command came from.
+ */
+export class MatrixChannel extends BaseChannel {
+  private readonly homeserverUrl: string;
+  private readonly accessToken: string;
+  private readonly autoJoin: boolean;
+  private readonly formatter: MatrixFormatter;
+  private readonly maxLength: number;
+  private readonly debounceMs: number;
+  private readonly syncTimeoutMs: number;
+  private botUserId = '';
+  private abort: AbortController | null = null;
+  private syncing: Promise<void> | null = null;
+  private txnCounter = 0;
+  /** userId → direct chat room, from the m.direct account data */
+  private directRooms = new Map<string, string>();
+  private messageHandlers: Array<(msg: IncomingMessage) => Promise<void>> = [];
+
+  constructor(
+    options: MatrixChannelOptions,
+    permissions: PermissionManager,
+    dispatcher: MessageDispatcher,
+    logger: LoggerProtocol,
+  ) {
+    super('matrix', 'Matrix', permissions, dispatcher, logger);
+    this.homeserverUrl = options.homeserverUrl.replace(/\/+$/, '');
+    this.accessToken = options.accessToken;
+    this.autoJoin = options.autoJoin ?? true;
+    this.formatter = new MatrixFormatter();
+    this.maxLength = Math.min(options.maxMessageLength ?? MATRIX_MAX_MESSAGE_LENGTH, MATRIX_MAX_MESSAGE_LENGTH);
+    this.debounceMs = options.debounceMs ?? 500;
+    this.syncTimeoutMs = options.syncTimeoutMs ?? 30_000;
+  }
+
+  async start(): Promise<void> {
+    const { user_id } = await this.api<{ user_id: string }>('GET', '/account/whoami');
+    this.botUserId = user_id;
+
+    // Skip the backlog: the first sync only fetches the position and account data
+    const filter = encodeURIComponent(JSON.stringify({ room: { timeline: { limit: 0 } } }));
+    const initial = await this.api<SyncResponse>('GET', `/sync?timeout=0&filter=${filter}`);
+    this.readAccountData(initial);
+
+    this.abort = new AbortController();
+    this.syncing = this.syncLoop(initial.next_batch, this.abort.signal);
+    this.logEvent('started (sync)', { userId: user_id });
+  }
+
+  async stop(): Promise<void> {
+    this.abort?.abort();
+    await this.syncing;
+    this.abort = null;
+    this.syncing = null;
+    this.messageHandlers = [];
+    this.logEvent('stopped');
+  }
+
+  async send(userId: string, message: OutgoingMessage): Promise<void> {
+    try {
+      await this.sendToRoom(await this.directRoom(userId), message);
+    } catch (err) {
+      throw new MatrixError(`Failed to send message to ${userId}`, err instanceof Error ? err : undefined);
+    }
+  }
+
+  onMessage(handler: (msg: IncomingMessage) => Promise<void>): void {
+    this.messageHandlers.push(handler);
+  }
+
+  // ─── Sync ─────────────────────────────────────────────────────────────────
+
+  private async syncLoop(since: string, signal: AbortSignal): Promise<void> {
+    let position = since;
+    while (!signal.aborted) {
+      try {
+        const res = await this.api<SyncResponse>(
+          'GET',
+          `/sync?since=${encodeURIComponent(position)}&timeout=${this.syncTimeoutMs}`,
+          undefined,
+          signal,
+        );
+        position = res.next_batch;
+        await this.handleSync(res);
+      } catch (err) {
+        if (signal.aborted) break;
+        this.logger.warn('Matrix sync failed; retrying', {
+          channel: this.id,
+          err: err instanceof Error ? err.message : String(err),
+        });
+        await sleep(SYNC_RETRY_MS, signal);
+      }
+    }
+  }
+
+  private async handleSync(res: SyncResponse): Promise<void> {
+    this.readAccountData(res);
+
+    if (this.autoJoin) {
+      for (const [roomId, room] of Object.entries(res.rooms?.invite ?? {})) {
+        try {
+          await this.api('POST', `/join/${encodeURIComponent(roomId)}`, {});
+          this.logEvent('joined room', { roomId });
+          const invite = room.invite_state?.events?.find((e) => e.type === 'm.room.member' && e.state_key === this.botUserId);
+          if (invite?.content.is_direct) await this.recordDirectRoom(invite.sender, roomId);
+        } catch (err) {
+          this.logger.warn('Failed to join Matrix room', {
+            roomId,
+            err: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+    }
+
+    for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+      for (const event of room.timeline?.events ?? []) {
+        const msg = this.toIncoming(roomId, event);
+        // Replies can take a while; the next sync must not wait for them
+        if (msg) void this.respond(msg);
+      }
+    }
+  }
+
+  private readAccountData(res: SyncResponse): void {
+    const direct = res.account_data?.events?.find((e) => e.type === 'm.direct');
+    if (!direct) return;
+    this.directRooms = new Map(Object.entries(direct.content as Record<string, string[]>)
+      .filter(([, rooms]) => Array.isArray(rooms) && rooms.length > 0)
+      .map(([userId, rooms]) => [userId, rooms[rooms.length - 1]!]));
+  }
+
+  private toIncoming(roomId: string, event: RoomEvent): IncomingMessage | null {
+    if (event.type !== 'm.room.message' || event.sender === this.botUserId) return null;
+    const { content } = event;
+    const relation = content['m.relates_to'];
+    // Edits repeat the message; only the original runs
+    if (relation?.rel_type === 'm.replace' || !content.body) return null;
+
+    const attachments: Attachment[] = [];
+    if (content.msgtype === 'm.file' || content.msgtype === 'm.image') {
+      // A file's body is its caption only when a separate filename is given
+      if (!content.filename || content.filename === content.body) return null;
+      attachments.push({
+        type: content.msgtype === 'm.image' ? 'photo' : 'document',
+        url: content.url,
+        name: content.filename,
+        mimeType: content.info?.mimetype,
+        size: content.info?.size,
+      });
+    } else if (content.msgtype !== 'm.text') {
+      return null;
+    }
+    return {
+      id: event.event_id,
+      userId: event.sender,
+      channelId: roomId,
+      text: content.body.trim(),
+      timestamp: new Date(event.origin_server_ts),
+      attachments,
+      threadId: relation?.rel_type === 'm.thread' ? relation.event_id : undefined,
+    };
+  }
+
+  // ─── Replies ──────────────────────────────────────────────────────────────
+
+  private async respond(msg: IncomingMessage): Promise<void> {
+    const parsed = parseCommand(msg.text);
+    // In shared rooms only commands are for the bot
+    const direct = this.directRooms.get(msg.userId) === msg.channelId;
+    if (!parsed && !direct) return;
+
+    try {
+      for (const h of this.messageHandlers) await h(msg);
+
+      const roomId = msg.channelId;
+      const reply = new EditableReply<string>({
+        post: (draft) => this.sendContent(roomId, this.plainContent(draft), msg.threadId),
+        edit: async (eventId, draft) => {
+          await this.replaceContent(roomId, eventId, this.plainContent(draft));
+        },
+        finalize: async (eventId, message) => {
+          if (eventId === null || message.type === 'file') await this.sendToRoom(roomId, message, msg.threadId);
+          else await this.replaceContent(roomId, eventId, this.render(message));
+        },
+      }, { debounceMs: this.debounceMs, maxLength: this.maxLength });
+
+      const ctx = parsed
+        ? {
+            userId: msg.userId,
+            command: parsed.name,
+            channelId: roomId,
+            channel: this.id,
+            message: msg,
+            reply,
+            fetchAttachment: msg.attachments.length > 0 ? this.attachmentFetcher() : undefined,
+            ...extractMachineFlag(parsed.args),
+          } as const
+        : {
+            userId: msg.userId,
+            command: 'agent',
+            args: [msg.text],
+            channelId: roomId,
+            channel: this.id,
+            message: msg,
+            reply,
+          } as const;
+
+      const result = await this.dispatcher.dispatch(ctx);
+      if (reply.started) {
+        await reply.finish(result.ok ? result.value : { type: 'error', message: result.error.message });
+      } else if (result.ok) {
+        await this.sendToRoom(roomId, result.value, msg.threadId);
+      } else {
+        await this.sendContent(roomId, {
+          msgtype: 'm.text',
+          body: `❌ ${result.error.message}`,
+          format: 'org.matrix.custom.html',
+          formatted_body: this.formatter.formatError(result.error),
+        }, msg.threadId);
+      }
+    } catch (err) {
+      this.logger.error('Matrix message processing error', {
+        userId: msg.userId,
+        err: err instanceof Error ? err.message : String(err),
+      });
+      await this.sendContent(msg.channelId, this.plainContent('❌ Something went wrong. Please try again.'), msg.threadId)
+        .catch(() => {});
+    }
+  }
+
+  /** Media is served to authenticated clients only */
+  protected override attachmentFetcher(): AttachmentFetcher {
+    return async (attachment, { maxBytes }) => {
+      const name = attachment.name ?? 'Attachment';
+      const media = attachment.url ? /^mxc:\/\/([^/]+)\/(.+)$/.exec(attachment.url) : null;
+      if (!media) throw new MatrixError(`${name} has no download URL`);
+      if (attachment.size !== undefined && attachment.size > maxBytes) {
+        throw new FileTooLargeError(name, attachment.size, maxBytes);
+      }
+      return downloadFile(
+        `${this.homeserverUrl}/_matrix/client/v1/media/download/${media[1]}/${encodeURIComponent(media[2]!)}`,
+        { maxBytes, name, headers: { Authorization: `Bearer ${this.accessToken}` } },
+      );
+    };
+  }
+
+  // ─── Sending ──────────────────────────────────────────────────────────────
+
+  private async sendToRoom(roomId: string, message: OutgoingMessage, threadId?: string): Promise<void> {
+    if (message.type !== 'file') {
+      await this.sendContent(roomId, this.render(message), threadId);
+      return;
+    }
+
+    const { content_uri } = await this.request<{ content_uri: string }>(
+      'POST',
+      `/_matrix/media/v3/upload?filename=${encodeURIComponent(message.filename)}`,
+      { body: new Blob([new Uint8Array(message.data)]), contentType: message.mimeType ?? 'application/octet-stream' },
+    );
+    await this.sendContent(roomId, {
+      msgtype: 'm.file',
+      body: message.caption ? this.truncate(message.caption) : message.filename,
+      filename: message.filename,
+      url: content_uri,
+      info: { size: message.data.length, ...(message.mimeType ? { mimetype: message.mimeType } : {}) },
+    }, threadId);
+  }
+
+  /** Send an m.room.message event; returns its event ID */
+  private async sendContent(roomId: string, content: MessageContent, threadId?: string): Promise<string> {
+    const body = threadId ? { ...content, 'm.relates_to': { rel_type: 'm.thread', event_id: threadId } } : content;
+    const txnId = `cmdop-${Date.now()}-${++this.txnCounter}`;
+    const { event_id } = await this.api<{ event_id: string }>(
+      'PUT',
+      `/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${txnId}`,
+      body,
+    );
+    return event_id;
+  }
+
+  private async replaceContent(roomId: string, eventId: string, content: MessageContent): Promise<void> {
+    await this.sendContent(roomId, {
+      ...content,
+      body: `* ${content.body}`,
+      'm.new_content': content,
+      'm.relates_to': { rel_type: 'm.replace', event_id: eventId },
+    });
+  }
+
+  private render(message: Exclude<OutgoingMessage, { type: 'file' }>): MessageContent {
+    switch (message.type) {
+      case 'text': {
+        const text = this.truncate(message.text);
+        const keyboard = message.keyboard ? this.formatter.formatKeyboard(message.keyboard) : null;
+        return {
+          msgtype: 'm.text',
+          body: keyboard ? `${text}\n\n${keyboard.text}` : text,
+          format: 'org.matrix.custom.html',
+          formatted_body: this.formatter.formatText(text) + (keyboard ? `<br><br>${keyboard.html}` : ''),
+        };
+      }
+      case 'code': {
+        const code = this.truncate(message.code);
+        return {
+          msgtype: 'm.text',
+          body: `\`\`\`${message.language ?? ''}\n${code}\n\`\`\``,
+          format: 'org.matrix.custom.html',
+          formatted_body: this.formatter.formatCode(code, message.language),
+        };
+      }
+      case 'error':
+        return {
+          msgtype: 'm.text',
+          body: `❌ ${message.message}`,
+          format: 'org.matrix.custom.html',
+          formatted_body: this.formatter.formatErrorMessage(message.message),
+        };
+    }
+  }
+
+  /** Streamed drafts are sent unformatted */
+  private plainContent(text: string): MessageContent {
+    return { msgtype: 'm.text', body: this.truncate(text) };
+  }
+
+  /** The user's direct chat with the bot, created and recorded in m.direct when there is none */
+  private async directRoom(userId: string): Promise<string> {
+    const known = this.directRooms.get(userId);
+    if (known) return known;
+
+    const { room_id } = await this.api<{ room_id: string }>('POST', '/createRoom', {
+      is_direct: true,
+      invite: [userId],
+      preset: 'trusted_private_chat',
+    });
+    await this.recordDirectRoom(userId, room_id);
+    return room_id;
+  }
+
+  private async recordDirectRoom(userId: string, roomId: string): Promise<void> {
+    this.directRooms.set(userId, roomId);
+    const direct = Object.fromEntries([...this.directRooms].map(([user, room]) => [user, [room]]));
+    await this.api('PUT', `/user/${encodeURIComponent(this.botUserId)}/account_data/m.direct`, direct)
+      .catch((err: unknown) => this.logger.warn('Failed to record Matrix direct room', {
+        userId,
+        err: err instanceof Error ? err.message : String(err),
+      }));
+  }
+
+  private truncate(text: string): string {
+    if (text.length <= this.maxLength) return text;
+    return text.slice(0, this.maxLength - 20) + '\n…(truncated)';
+  }
+
+  // ─── HTTP ─────────────────────────────────────────────────────────────────
+
+  /** Client-server API call with a JSON body */
+  private api<T = unknown>(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<T> {
+    return this.request<T>(method, `/_matrix/client/v3${path}`, {
+      ...(body !== undefined ? { body: JSON.stringify(body), contentType: 'application/json' } : {}),
+      signal,
+    });
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    options: { body?: string | Blob; contentType?: string; signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const res = await fetch(`${this.homeserverUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(options.contentType ? { 'Content-Type': options.contentType } : {}),
+      },
+      body: options.body,
+      signal: options.signal,
+    });
+    const json = await res.json().catch(() => ({})) as T & { errcode?: string; error?: string };
+    if (!res.ok) {
+      throw new MatrixError(`${method} ${path.split('?')[0]} failed: ${json.errcode ?? `HTTP ${res.status}`}${json.error ? ` ${json.error}` : ''}`);
+    }
+    return json;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
@@ -0,0 +1,128 @@
+import type { FormatterProtocol } from '../../core/types.js';
+import type { BotError } from '../../errors.js';
+import type { KeyboardButton } from '../../models/message.js';
+import {
+  PermissionDeniedError,
+  CommandNotFoundError,
+  CommandArgsError,
+  MachineOfflineError,
+  RateLimitError,
+} from '../../errors.js';
+
+/**
+ * Matrix HTML formatter.
+ *
+ * Matrix messages carry a plain `body` plus an optional `formatted_body` in
+ * org.matrix.custom.html. This formatter produces the HTML; the plain body is
+ * the original Markdown text. Newlines outside <pre> must become <br>.
+ */
+
+/** Events are capped at 64 KiB; body and formatted_body share that */
+export const MATRIX_MAX_MESSAGE_LENGTH = 16000;
+
+export class MatrixFormatter implements FormatterProtocol {
+  /**
+   * Escape HTML special chars, then convert basic markdown to HTML tags.
+   * Handles: **bold**, `code`, ```code blocks```, _italic_
+   */
+  formatText(text: string): string {
+    // Code blocks are cut out first so nothing inside them is converted
+    const blocks: string[] = [];
+    let html = escapeHtml(text).replace(/```(\w*)\n([\s\S]*?)```/g, (_m, lang: string, code: string) => {
+      const cls = lang ? ` class="language-${lang}"` : '';
+      blocks.push(`<pre><code${cls}>${code}</code></pre>`);
+      return `\u0000${blocks.length - 1}\u0000`;
+    });
+
+    html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
+    html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+    html = html.replace(/__(.+?)__/g, '<strong>$1</strong>');
+    html = html.replace(/(?<!\w)\*([^*]+?)\*(?!\w)/g, '<em>$1</em>');
+    html = html.replace(/(?<!\w)_([^_]+?)_(?!\w)/g, '<em>$1</em>');
+    html = html.replace(/\n/g, '<br>');
+
+    return html.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => blocks[Number(i)]!);
+  }
+
+  /**
+   * Format code block as HTML <pre>.
+   * Truncates if over the message limit.
+   */
+  formatCode(code: string, language?: string): string {
+    const cls = language ? ` class="language-${language}"` : '';
+    const escaped = escapeHtml(code);
+    if (escaped.length <= MATRIX_MAX_MESSAGE_LENGTH) return `<pre><code${cls}>${escaped}</code></pre>`;
+    return `<pre><code${cls}>${escaped.slice(0, MATRIX_MAX_MESSAGE_LENGTH)}\n…(truncated)</code></pre>`;
+  }
+
+  /**
+   * Format a BotError into a user-friendly Matrix message.
+   */
+  formatError(error: BotError): string {
+    if (error instanceof PermissionDeniedError) {
+      return `❌ <strong>Access denied</strong> — required permission: <code>${escapeHtml(String(error.context['required']))}</code>`;
+    }
+    if (error instanceof CommandNotFoundError) {
+      const cmd = escapeHtml(String(error.context['command']));
+      return `❓ Unknown command <code>!${cmd}</code>. Type <code>!help</code> to see available commands.`;
+    }
+    if (error instanceof CommandArgsError) {
+      return `⚠️ ${escapeHtml(error.message)}`;
+    }
+    if (error instanceof MachineOfflineError) {
+      return `🔌 <strong>Machine offline</strong> — ${escapeHtml(error.message)}`;
+    }
+    if (error instanceof RateLimitError) {
+      return `⏳ Rate limit reached. Please wait and try again.`;
+    }
+    // Generic fallback — do not expose internal details
+    return `❌ Something went wrong. Please try again.`;
+  }
+
+  /**
+   * Format an error reply's message.
+   */
+  formatErrorMessage(message: string): string {
+    return `❌ <strong>Error:</strong> ${escapeHtml(message)}`;
+  }
+
+  /**
+   * Matrix has no message buttons, so a keyboard becomes a list of commands to type.
+   * Element treats unknown /commands as its own, so they are shown with the ! prefix.
+   */
+  formatKeyboard(rows: KeyboardButton[][]): { text: string; html: string } {
+    const buttons = rows.flat();
+    return {
+      text: buttons.map((b) => `${b.label}: ${bangCommand(b.command)}`).join('\n'),
+      html: buttons.map((b) => `${escapeHtml(b.label)}: <code>${escapeHtml(bangCommand(b.command))}</code>`).join('<br>'),
+    };
+  }
+
+  /**
+   * Format a file listing entry line.
+   */
+  formatFileEntry(name: string, isDir: boolean, size?: number): string {
+    const icon = isDir ? '📁' : '📄';
+    const sizeStr = size !== undefined && !isDir ? ` (${formatBytes(size)})` : '';
+    return `${icon} <code>${escapeHtml(name)}</code>${sizeStr}`;
+  }
+}
+
+/** `/jobs cancel x` → `!jobs cancel x` */
+function bangCommand(command: string): string {
+  return command.replace(/^\//, '!');
+}
+
+/** Escape HTML special characters */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}K`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}M`;
+}
@@ -0,0 +1,3 @@
+export { MatrixChannel } from './channel.js';
+export type { MatrixChannelOptions } from './channel.js';
+export { MatrixFormatter, MATRIX_MAX_MESSAGE_LENGTH } from './formatter.js';
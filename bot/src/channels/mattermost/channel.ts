@@ -0,0 +1,357 @@
+import { BaseChannel } from '../../core/base-channel.js';
+import { MattermostFormatter, MATTERMOST_MAX_POST_LENGTH } from './formatter.js';
+import { EditableReply } from '../../streaming/editable-reply.js';
+import { downloadFile } from '../download.js';
+import { extractMachineFlag, parseCommand } from '../../models/command.js';
+import type { OutgoingMessage, IncomingMessage, FileMessage } from '../../models/message.js';
+import type { PermissionManager } from '../../core/permission-manager.js';
+import type { MessageDispatcher } from '../../core/dispatcher.js';
+import type { AttachmentFetcher, LoggerProtocol } from '../../core/types.js';
+import { FileTooLargeError, MattermostError } from '../../errors.js';
+
+/** The parts of a WebSocket the channel uses — met by the global WebSocket and by `ws` */
+export interface MattermostWebSocket {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface MattermostChannelOptions {
+  /** Server URL, e.g. https://mattermost.example.com */
+  serverUrl: string;
+  /** Access token of a bot account */
+  token: string;
+  /**
+   * Opens the event stream. Default: the global WebSocket (Node 22+);
+   * on Node 20 pass `(url) => new WebSocket(url)` with WebSocket from `ws`.
+   */
+  webSocket?: (url: string) => MattermostWebSocket;
+  /** Max characters before truncating outgoing messages. Default: 16000 */
+  maxMessageLength?: number;
+  /** Minimum interval between edits of a streamed reply. Default: 500 */
+  debounceMs?: number;
+  /** Wait before reconnecting a dropped event stream. Default: 5000 */
+  reconnectDelayMs?: number;
+}
+
+interface MattermostPost {
+  id: string;
+  user_id: string;
+  channel_id: string;
+  root_id?: string;
+  message: string;
+  type?: string;
+  create_at: number;
+  metadata?: { files?: Array<{ id: string; name: string; size?: number; mime_type?: string }> };
+}
+
+/**
+ * MattermostChannel — REST API v4 for posting, the WebSocket event stream for
+ * new posts. No SDK needed.
+ *
+ * In channels the bot answers commands (`!exec ls` — Mattermost keeps `/` for
+ * its own slash commands); in direct messages plain text goes to the agent too.
+ * Replies go to the thread of the message that asked.
+ */
+export class MattermostChannel extends BaseChannel {
+  private readonly serverUrl: string;
+  private readonly token: string;
+  private readonly openSocket: (url: string) => MattermostWebSocket;
+  private readonly formatter: MattermostFormatter;
+  private readonly maxLength: number;
+  private readonly debounceMs: number;
+  private readonly reconnectDelayMs: number;
+  private botUserId = '';
+  private socket: MattermostWebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = true;
+  private seq = 0;
+  /** userId → direct message channel */
+  private directChannels = new Map<string, string>();
+  private messageHandlers: Array<(msg: IncomingMessage) => Promise<void>> = [];
+
+  constructor(
+    options: MattermostChannelOptions,
+    permissions: PermissionManager,
+    dispatcher: MessageDispatcher,
+    logger: LoggerProtocol,
+  ) {
+    super('mattermost', 'Mattermost', permissions, dispatcher, logger);
+    this.serverUrl = options.serverUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.openSocket = options.webSocket ?? defaultWebSocket;
+    this.formatter = new MattermostFormatter();
+    this.maxLength = Math.min(options.maxMessageLength ?? 16000, MATTERMOST_MAX_POST_LENGTH);
+    this.debounceMs = options.debounceMs ?? 500;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 5000;
+  }
+
+  async start(): Promise<void> {
+    const me = await this.api<{ id: string; username: string }>('GET', '/users/me');
+    this.botUserId = me.id;
+    this.stopped = false;
+    await this.connect();
+    this.logEvent('started (websocket)', { username: me.username });
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.messageHandlers = [];
+    this.logEvent('stopped');
+  }
+
+  async send(userId: string, message: OutgoingMessage): Promise<void> {
+    try {
+      await this.deliver(await this.directChannel(userId), undefined, message);
+    } catch (err) {
+      throw new MattermostError(`Failed to send message to ${userId}`, err instanceof Error ? err : undefined);
+    }
+  }
+
+  onMessage(handler: (msg: IncomingMessage) => Promise<void>): void {
+    this.messageHandlers.push(handler);
+  }
+
+  // ─── Event stream ─────────────────────────────────────────────────────────
+
+  /** Resolves once the socket is open; the authentication challenge is its first frame */
+  private connect(): Promise<void> {
+    const url = `${this.serverUrl.replace(/^http/, 'ws')}/api/v4/websocket`;
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      const socket = this.openSocket(url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        socket.send(JSON.stringify({ seq: ++this.seq, action: 'authentication_challenge', data: { token: this.token } }));
+        resolve();
+      };
+      socket.onmessage = (event) => this.handleEvent(String(event.data));
+      socket.onerror = () => {
+        if (!opened) reject(new MattermostError(`Failed to connect to ${url}`));
+      };
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null;
+        if (!opened || this.stopped) return;
+        this.logger.warn('Mattermost event stream closed; reconnecting', { channel: this.id });
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.stopped) return;
+      this.connect().catch((err: unknown) => {
+        this.logger.warn('Mattermost reconnect failed', {
+          channel: this.id,
+          err: err instanceof Error ? err.message : String(err),
+        });
+        this.scheduleReconnect();
+      });
+    }, this.reconnectDelayMs);
+  }
+
+  private handleEvent(raw: string): void {
+    let event: { event?: string; data?: { post?: string; channel_type?: string } };
+    let post: MattermostPost;
+    try {
+      event = JSON.parse(raw) as typeof event;
+      if (event.event !== 'posted' || !event.data?.post) return;
+      post = JSON.parse(event.data.post) as MattermostPost;
+    } catch {
+      return;
+    }
+    // System messages have a type; the bot's own posts come back too
+    if (post.type || post.user_id === this.botUserId || !post.message.trim()) return;
+
+    const msg: IncomingMessage = {
+      id: post.id,
+      userId: post.user_id,
+      channelId: post.channel_id,
+      text: post.message.trim(),
+      timestamp: new Date(post.create_at),
+      attachments: (post.metadata?.files ?? []).map((f) => ({
+        type: 'document' as const,
+        fileId: f.id,
+        name: f.name,
+        mimeType: f.mime_type,
+        size: f.size,
+      })),
+      // Replies go to the message's thread, starting one for top-level messages
+      threadId: post.root_id || post.id,
+    };
+    void this.respond(msg, event.data?.channel_type === 'D');
+  }
+
+  // ─── Replies ──────────────────────────────────────────────────────────────
+
+  private async respond(msg: IncomingMessage, direct: boolean): Promise<void> {
+    const parsed = parseCommand(msg.text);
+    // In shared channels only commands are for the bot
+    if (!parsed && !direct) return;
+
+    try {
+      for (const h of this.messageHandlers) await h(msg);
+
+      const channelId = msg.channelId;
+      const reply = new EditableReply<string>({
+        post: async (draft) => (await this.createPost(channelId, msg.threadId, this.truncate(draft))).id,
+        edit: async (postId, draft) => {
+          await this.api('PUT', `/posts/${postId}/patch`, { message: this.truncate(draft) });
+        },
+        finalize: async (postId, message) => {
+          if (postId === null || message.type === 'file') await this.deliver(channelId, msg.threadId, message);
+          else await this.api('PUT', `/posts/${postId}/patch`, { message: this.render(message) });
+        },
+      }, { debounceMs: this.debounceMs, maxLength: this.maxLength });
+
+      const ctx = parsed
+        ? {
+            userId: msg.userId,
+            command: parsed.name,
+            channelId,
+            channel: this.id,
+            message: msg,
+            reply,
+            fetchAttachment: msg.attachments.length > 0 ? this.attachmentFetcher() : undefined,
+            ...extractMachineFlag(parsed.args),
+          } as const
+        : {
+            userId: msg.userId,
+            command: 'agent',
+            args: [msg.text],
+            channelId,
+            channel: this.id,
+            message: msg,
+            reply,
+          } as const;
+
+      const result = await this.dispatcher.dispatch(ctx);
+      if (reply.started) {
+        await reply.finish(result.ok ? result.value : { type: 'error', message: result.error.message });
+      } else if (result.ok) {
+        await this.deliver(channelId, msg.threadId, result.value);
+      } else {
+        await this.createPost(channelId, msg.threadId, this.formatter.formatError(result.error));
+      }
+    } catch (err) {
+      this.logger.error('Mattermost message processing error', {
+        userId: msg.userId,
+        err: err instanceof Error ? err.message : String(err),
+      });
+      await this.createPost(msg.channelId, msg.threadId, '❌ Something went wrong. Please try again.').catch(() => {});
+    }
+  }
+
+  /** Files are served to authenticated users only */
+  protected override attachmentFetcher(): AttachmentFetcher {
+    return async (attachment, { maxBytes }) => {
+      const name = attachment.name ?? 'Attachment';
+      if (!attachment.fileId) throw new MattermostError(`${name} has no file id`);
+      if (attachment.size !== undefined && attachment.size > maxBytes) {
+        throw new FileTooLargeError(name, attachment.size, maxBytes);
+      }
+      return downloadFile(`${this.serverUrl}/api/v4/files/${encodeURIComponent(attachment.fileId)}`, {
+        maxBytes,
+        name,
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+    };
+  }
+
+  // ─── Posting ──────────────────────────────────────────────────────────────
+
+  private async deliver(channelId: string, rootId: string | undefined, message: OutgoingMessage): Promise<void> {
+    if (message.type === 'file') {
+      const fileId = await this.upload(channelId, message);
+      await this.createPost(channelId, rootId, message.caption ? this.truncate(message.caption) : '', [fileId]);
+      return;
+    }
+    await this.createPost(channelId, rootId, this.render(message));
+  }
+
+  private createPost(channelId: string, rootId: string | undefined, message: string, fileIds?: string[]): Promise<{ id: string }> {
+    return this.api<{ id: string }>('POST', '/posts', {
+      channel_id: channelId,
+      message,
+      ...(rootId ? { root_id: rootId } : {}),
+      ...(fileIds ? { file_ids: fileIds } : {}),
+    });
+  }
+
+  private async upload(channelId: string, message: FileMessage): Promise<string> {
+    const form = new FormData();
+    form.append('channel_id', channelId);
+    form.append('files', new Blob([new Uint8Array(message.data)], { type: message.mimeType ?? 'application/octet-stream' }), message.filename);
+    const { file_infos } = await this.request<{ file_infos: Array<{ id: string }> }>('POST', '/files', form);
+    const fileId = file_infos[0]?.id;
+    if (!fileId) throw new MattermostError(`Upload of ${message.filename} returned no file`);
+    return fileId;
+  }
+
+  private render(message: Exclude<OutgoingMessage, FileMessage>): string {
+    switch (message.type) {
+      case 'text': {
+        const text = this.truncate(this.formatter.formatText(message.text));
+        return message.keyboard ? `${text}\n\n${this.formatter.formatKeyboard(message.keyboard)}` : text;
+      }
+      case 'code':
+        return this.formatter.formatCode(this.truncate(message.code), message.language);
+      case 'error':
+        return `❌ ${this.formatter.formatText(this.truncate(message.message))}`;
+    }
+  }
+
+  private async directChannel(userId: string): Promise<string> {
+    const known = this.directChannels.get(userId);
+    if (known) return known;
+    const { id } = await this.api<{ id: string }>('POST', '/channels/direct', [this.botUserId, userId]);
+    this.directChannels.set(userId, id);
+    return id;
+  }
+
+  private truncate(text: string): string {
+    if (text.length <= this.maxLength) return text;
+    return text.slice(0, this.maxLength - 20) + '\n…(truncated)';
+  }
+
+  // ─── HTTP ─────────────────────────────────────────────────────────────────
+
+  private api<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    return this.request<T>(method, path, body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  private async request<T>(method: string, path: string, body?: string | FormData): Promise<T> {
+    const res = await fetch(`${this.serverUrl}/api/v4${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        ...(typeof body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body,
+    });
+    const json = await res.json().catch(() => ({})) as T & { id?: string; message?: string };
+    if (!res.ok) {
+      throw new MattermostError(`${method} ${path} failed: HTTP ${res.status}${json.message ? ` ${json.message}` : ''}`);
+    }
+    return json;
+  }
+}
+
+function defaultWebSocket(url: string): MattermostWebSocket {
+  const WebSocketCtor = (globalThis as { WebSocket?: new (url: string) => MattermostWebSocket }).WebSocket;
+  if (!WebSocketCtor) {
+    throw new MattermostError('No global WebSocket (Node 22+). Pass the webSocket option, e.g. with the `ws` package');
+  }
+  return new WebSocketCtor(url);
+}
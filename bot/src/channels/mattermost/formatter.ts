@@ -0,0 +1,96 @@
+import type { FormatterProtocol } from '../../core/types.js';
+import type { BotError } from '../../errors.js';
+import type { KeyboardButton } from '../../models/message.js';
+import {
+  PermissionDeniedError,
+  CommandNotFoundError,
+  CommandArgsError,
+  MachineOfflineError,
+  RateLimitError,
+} from '../../errors.js';
+
+/**
+ * Mattermost Markdown formatter.
+ *
+ * Mattermost renders standard Markdown, the same dialect handlers write, so
+ * text passes through. What must not pass through are channel-wide mentions:
+ * @channel, @all and @here in command output would notify everyone.
+ */
+
+/** Posts longer than this are rejected by the server */
+export const MATTERMOST_MAX_POST_LENGTH = 16383;
+
+export class MattermostFormatter implements FormatterProtocol {
+  /**
+   * Defuse channel-wide mentions; everything else is already Markdown.
+   */
+  formatText(text: string): string {
+    return text.replace(/@(channel|all|here)\b/gi, '@\u200B$1');
+  }
+
+  /**
+   * Wrap code in a triple-backtick code block.
+   * Truncates if over Mattermost's limit.
+   */
+  formatCode(code: string, language?: string): string {
+    const lang = language ?? '';
+    // Prevent breaking out of code block
+    const safeCode = code.replace(/```/g, "''`");
+    const wrapped = `\`\`\`${lang}\n${safeCode}\n\`\`\``;
+
+    if (wrapped.length <= MATTERMOST_MAX_POST_LENGTH) return wrapped;
+
+    const overhead = 8 + lang.length;
+    const maxCode = MATTERMOST_MAX_POST_LENGTH - overhead - 20;
+    return `\`\`\`${lang}\n${safeCode.slice(0, maxCode)}\n…(truncated)\n\`\`\``;
+  }
+
+  /**
+   * Format a BotError into a user-friendly Mattermost message.
+   */
+  formatError(error: BotError): string {
+    if (error instanceof PermissionDeniedError) {
+      const required = error.context['required'] as string;
+      return `❌ **Access denied** — required permission: \`${required}\``;
+    }
+    if (error instanceof CommandNotFoundError) {
+      const cmd = error.context['command'] as string;
+      return `❓ Unknown command \`!${cmd}\`. Type \`!help\` to see available commands.`;
+    }
+    if (error instanceof CommandArgsError) {
+      return `⚠️ ${this.formatText(error.message)}`;
+    }
+    if (error instanceof MachineOfflineError) {
+      return `🔌 **Machine offline** — ${this.formatText(error.message)}`;
+    }
+    if (error instanceof RateLimitError) {
+      return `⏳ Rate limit reached. Please wait and try again.`;
+    }
+    // Generic fallback — do not expose internal details
+    return `❌ Something went wrong. Please try again.`;
+  }
+
+  /**
+   * Message buttons need an integration endpoint on the bot, so a keyboard
+   * becomes a list of commands to type instead. Mattermost keeps /commands
+   * for its own slash commands, so they are shown with the ! prefix.
+   */
+  formatKeyboard(rows: KeyboardButton[][]): string {
+    return rows.flat().map((b) => `${b.label}: \`${b.command.replace(/^\//, '!')}\``).join('\n');
+  }
+
+  /**
+   * Format a file listing entry line.
+   */
+  formatFileEntry(name: string, isDir: boolean, size?: number): string {
+    const icon = isDir ? '📁' : '📄';
+    const sizeStr = size !== undefined && !isDir ? ` (${formatBytes(size)})` : '';
+    return `${icon} \`${name}\`${sizeStr}`;
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}K`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}M`;
+}
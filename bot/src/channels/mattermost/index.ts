@@ -0,0 +1,3 @@
+export { MattermostChannel } from './channel.js';
+export type { MattermostChannelOptions, MattermostWebSocket } from './channel.js';
+export { MattermostFormatter, MATTERMOST_MAX_POST_LENGTH } from './formatter.js';
@@ -7,6 +7,8 @@
  * Reference: https://api.slack.com/block-kit
  */
 
+import type { KeyboardButton } from '../../models/message.js';
+
 export interface SlackBlock {
   type: string;
   [key: string]: unknown;
@@ -129,6 +131,27 @@ export function errorBlocks(message: string, detail?: string): SlackBlock[] {
   return blocks;
 }
 
+// ─── Buttons ──────────────────────────────────────────────────────────────────
+
+/** Prefix of the action_id on command buttons; SlackChannel listens for it */
+export const COMMAND_ACTION_PREFIX = 'cmdop_command';
+
+/**
+ * Build one actions block per keyboard row. Each button's value is the command
+ * it runs when clicked (Slack allows 25 elements per block, 2000-char values).
+ */
+export function actionsBlocks(rows: KeyboardButton[][]): SlackBlock[] {
+  return rows.map((row, r) => ({
+    type: 'actions',
+    elements: row.slice(0, 25).map((b, i) => ({
+      type: 'button',
+      text: { type: 'plain_text', text: b.label.slice(0, 75), emoji: true },
+      action_id: `${COMMAND_ACTION_PREFIX}_${r}_${i}`,
+      value: b.command,
+    })),
+  }));
+}
+
 // ─── Internal helpers ─────────────────────────────────────────────────────────
 
 function formatBytes(bytes: number): string {
@@ -1,11 +1,14 @@
-import { App, Assistant } from '@slack/bolt';
+import { App, Assistant, type BlockAction, type ButtonAction } from '@slack/bolt';
 import { BaseChannel } from '../../core/base-channel.js';
 import { SlackFormatter } from './formatter.js';
-import type { OutgoingMessage, IncomingMessage } from '../../models/message.js';
+import { actionsBlocks, sectionBlock, COMMAND_ACTION_PREFIX, type SlackBlock } from './blocks.js';
+import { SlackReply } from '../../streaming/slack-stream.js';
+import { downloadFile } from '../download.js';
+import type { OutgoingMessage, IncomingMessage, Attachment, FileMessage } from '../../models/message.js';
 import type { PermissionManager } from '../../core/permission-manager.js';
 import type { MessageDispatcher } from '../../core/dispatcher.js';
-import type { LoggerProtocol } from '../../core/types.js';
-import { SlackError } from '../../errors.js';
+import type { AttachmentFetcher, LoggerProtocol } from '../../core/types.js';
+import { FileTooLargeError, SlackError } from '../../errors.js';
 
 export interface SlackChannelOptions {
   /** Bot OAuth token (xoxb-...) */
@@ -18,6 +21,10 @@ export interface SlackChannelOptions {
   maxMessageLength?: number;
 }
 
+type SlackPayload = { text: string; blocks?: SlackBlock[] };
+
+type SlackFile = { id: string; name?: string; mimetype?: string; size?: number; url_private_download?: string };
+
 export class SlackChannel extends BaseChannel {
   private app: App | null = null;
   private readonly token: string;
@@ -48,9 +55,11 @@ export class SlackChannel extends BaseChannel {
 
     // ─── Message handler — slash-style commands in DMs / channels ──────────
     app.message(async ({ message, say }) => {
-      // message can be a subtype; we only handle plain messages with text
-      if (message.subtype !== undefined) return;
-      const plainMsg = message as { text?: string; user?: string; ts: string; channel: string };
+      // message can be a subtype; we only handle plain messages and file shares with text
+      if (message.subtype !== undefined && message.subtype !== 'file_share') return;
+      const plainMsg = message as {
+        text?: string; user?: string; ts: string; channel: string; thread_ts?: string; files?: SlackFile[];
+      };
       if (!plainMsg.text || !plainMsg.user) return;
 
       const incomingMsg: IncomingMessage = {
@@ -59,14 +68,38 @@ export class SlackChannel extends BaseChannel {
         channelId: plainMsg.channel,
         text: plainMsg.text,
         timestamp: new Date(),
-        attachments: [],
+        attachments: (plainMsg.files ?? []).map(toAttachment),
+        // Replies go to the message's thread, starting one for top-level messages
+        threadId: plainMsg.thread_ts ?? plainMsg.ts,
       };
 
       for (const h of this.messageHandlers) await h(incomingMsg);
 
-      await this.processMessageWithSay(incomingMsg, async (text) => {
-        await say(text);
-      });
+      await this.processMessageWithSay(incomingMsg, async (payload) => {
+        await say(payload);
+      }, { threadTs: plainMsg.thread_ts ?? plainMsg.ts });
+    });
+
+    // ─── Button clicks — each button's value is a command (see actionsBlocks) ──
+    app.action<BlockAction<ButtonAction>>(new RegExp(`^${COMMAND_ACTION_PREFIX}_`), async ({ ack, body, action, say }) => {
+      await ack();
+      if (!action.value) return;
+
+      const message = body.message as { ts?: string; thread_ts?: string } | undefined;
+      const threadTs = message?.thread_ts ?? message?.ts;
+      const incomingMsg: IncomingMessage = {
+        id: action.action_ts,
+        userId: body.user.id,
+        channelId: body.channel?.id ?? body.user.id,
+        text: action.value,
+        timestamp: new Date(),
+        attachments: [],
+        threadId: threadTs,
+      };
+
+      await this.processMessageWithSay(incomingMsg, async (payload) => {
+        await say(payload);
+      }, { threadTs });
     });
 
     // ─── Assistant integration ─────────────────────────────────────────────
@@ -98,11 +131,13 @@ export class SlackChannel extends BaseChannel {
           text: plainMsg.text,
           timestamp: new Date(),
           attachments: [],
+          threadId: plainMsg.thread_ts,
         };
 
-        await this.processMessageWithSay(incomingMsg, async (text) => {
-          await say(text);
-        });
+        // Assistant threads are conversations — plain text goes to the agent
+        await this.processMessageWithSay(incomingMsg, async (payload) => {
+          await say(payload);
+        }, { threadTs: plainMsg.thread_ts, chat: true });
       },
     });
 
@@ -137,11 +172,16 @@ export class SlackChannel extends BaseChannel {
     if (!this.app) throw new SlackError('App not started');
 
     try {
-      const text = this.buildText(message);
-      await this.app.client.chat.postMessage({
-        channel: userId,
-        text: this.truncate(text),
-      });
+      if (message.type === 'file') {
+        // Uploads need a conversation ID; posting to a user ID only works for chat messages
+        const dm = await this.app.client.conversations.open({ users: userId });
+        await this.upload(dm.channel?.id ?? userId, undefined, message);
+      } else {
+        await this.app.client.chat.postMessage({
+          channel: userId,
+          ...this.buildPayload(message),
+        });
+      }
     } catch (err) {
       throw new SlackError(
         `Failed to send DM to ${userId}`,
@@ -158,37 +198,99 @@ export class SlackChannel extends BaseChannel {
 
   private async processMessageWithSay(
     msg: IncomingMessage,
-    say: (text: string) => Promise<void>,
+    say: (payload: SlackPayload) => Promise<void>,
+    options: { threadTs?: string; chat?: boolean } = {},
   ): Promise<void> {
-    const { parseCommand } = await import('../../models/command.js');
+    const { parseCommand, extractMachineFlag } = await import('../../models/command.js');
     const parsed = parseCommand(msg.text);
-    if (!parsed) return;
+    if (!parsed && !options.chat) return;
+
+    const deliver = async (message: OutgoingMessage): Promise<void> => {
+      if (message.type === 'file') await this.upload(msg.channelId, options.threadTs, message);
+      else await say(this.buildPayload(message));
+    };
+
+    // Streaming handlers (e.g. /agent) write into a native Slack stream in the thread
+    const reply = this.app
+      ? new SlackReply(this.app.client, msg.channelId, options.threadTs, deliver)
+      : undefined;
+    const fetchAttachment = msg.attachments.length > 0 ? this.attachmentFetcher() : undefined;
 
-    const ctx = {
-      userId: msg.userId,
-      command: parsed.name,
-      args: parsed.args,
-      channelId: msg.channelId,
-      message: msg,
-    } as const;
+    const ctx = parsed
+      ? {
+          userId: msg.userId,
+          command: parsed.name,
+          channelId: msg.channelId,
+          channel: this.id,
+          message: msg,
+          reply,
+          fetchAttachment,
+          ...extractMachineFlag(parsed.args),
+        } as const
+      : {
+          userId: msg.userId,
+          command: 'agent',
+          args: [msg.text],
+          channelId: msg.channelId,
+          channel: this.id,
+          message: msg,
+          reply,
+          fetchAttachment,
+        } as const;
 
     try {
       const result = await this.dispatcher.dispatch(ctx);
 
-      if (result.ok) {
-        await say(this.truncate(this.buildText(result.value)));
+      if (reply?.started) {
+        await reply.finish(result.ok ? result.value : { type: 'error', message: result.error.message });
+      } else if (result.ok) {
+        await deliver(result.value);
       } else {
-        await say(this.formatter.formatError(result.error));
+        await say({ text: this.formatter.formatError(result.error) });
       }
     } catch (err) {
       this.logger.error('Slack message processing error', {
         userId: msg.userId,
         err: err instanceof Error ? err.message : String(err),
       });
-      await say(':x: Something went wrong. Please try again.');
+      await say({ text: ':x: Something went wrong. Please try again.' });
     }
   }
 
+  /** Shared files are private; downloading them needs the bot token and the files:read scope */
+  protected override attachmentFetcher(): AttachmentFetcher {
+    return async (attachment, { maxBytes }) => {
+      const name = attachment.name ?? 'Attachment';
+      if (!attachment.url) throw new SlackError(`${name} has no download URL`);
+      if (attachment.size !== undefined && attachment.size > maxBytes) {
+        throw new FileTooLargeError(name, attachment.size, maxBytes);
+      }
+      return downloadFile(attachment.url, {
+        maxBytes,
+        name,
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+    };
+  }
+
+  private async upload(channelId: string, threadTs: string | undefined, message: FileMessage): Promise<void> {
+    if (!this.app) throw new SlackError('App not started');
+    const file = {
+      file: message.data,
+      filename: message.filename,
+      ...(message.caption ? { initial_comment: this.truncate(message.caption) } : {}),
+    };
+    if (threadTs) await this.app.client.files.uploadV2({ channel_id: channelId, thread_ts: threadTs, ...file });
+    else await this.app.client.files.uploadV2({ channel_id: channelId, ...file });
+  }
+
+  /** Text plus, for messages with a keyboard, blocks with one button per command */
+  private buildPayload(message: OutgoingMessage): SlackPayload {
+    const text = this.truncate(this.buildText(message));
+    if (message.type !== 'text' || !message.keyboard) return { text };
+    return { text, blocks: [sectionBlock(text), ...actionsBlocks(message.keyboard)] };
+  }
+
   private buildText(message: OutgoingMessage): string {
     switch (message.type) {
       case 'text':
@@ -197,6 +299,8 @@ export class SlackChannel extends BaseChannel {
         return this.formatter.formatCode(message.code, message.language);
       case 'error':
         return `:x: ${message.message}`;
+      case 'file':
+        return message.caption ?? `:paperclip: ${message.filename}`;
     }
   }
 
@@ -205,3 +309,14 @@ export class SlackChannel extends BaseChannel {
     return text.slice(0, this.maxLength - 20) + '\n…(truncated)';
   }
 }
+
+function toAttachment(file: SlackFile): Attachment {
+  return {
+    type: 'document',
+    fileId: file.id,
+    url: file.url_private_download,
+    name: file.name,
+    mimeType: file.mimetype,
+    size: file.size,
+  };
+}
@@ -9,5 +9,7 @@ export {
   fileListBlocks,
   machineStatusBlocks,
   errorBlocks,
+  actionsBlocks,
+  COMMAND_ACTION_PREFIX,
 } from './blocks.js';
 export type { SlackBlock, FileEntry, MachineStatus } from './blocks.js';
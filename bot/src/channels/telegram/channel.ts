@@ -1,12 +1,18 @@
-import { Bot, type Context } from 'grammy';
+import { Bot, InputFile, type Context } from 'grammy';
 import { apiThrottler } from '@grammyjs/transformer-throttler';
 import { BaseChannel } from '../../core/base-channel.js';
 import { TelegramFormatter } from './formatter.js';
-import type { OutgoingMessage, IncomingMessage } from '../../models/message.js';
+import { buildKeyboard } from './keyboard.js';
+import { EditableReply } from '../../streaming/editable-reply.js';
+import { downloadFile } from '../download.js';
+import type { OutgoingMessage, IncomingMessage, FileMessage } from '../../models/message.js';
 import type { PermissionManager } from '../../core/permission-manager.js';
 import type { MessageDispatcher } from '../../core/dispatcher.js';
-import type { LoggerProtocol } from '../../core/types.js';
-import { TelegramError } from '../../errors.js';
+import type { AttachmentFetcher, ChannelReplyStream, LoggerProtocol } from '../../core/types.js';
+import { FileTooLargeError, TelegramError } from '../../errors.js';
+
+/** Telegram caps document captions at 1024 characters */
+const MAX_CAPTION_LENGTH = 1024;
 
 export interface TelegramChannelOptions {
   token: string;
@@ -14,6 +20,8 @@ export interface TelegramChannelOptions {
   adminUsers?: string[];
   /** Max length before truncating outgoing messages. Default: 4000 */
   maxMessageLength?: number;
+  /** Minimum interval between edits of a streamed reply. Default: 500 */
+  debounceMs?: number;
 }
 
 export class TelegramChannel extends BaseChannel {
@@ -21,6 +29,7 @@ export class TelegramChannel extends BaseChannel {
   private readonly token: string;
   private readonly formatter: TelegramFormatter;
   private readonly maxLength: number;
+  private readonly debounceMs: number;
   private messageHandlers: Array<(msg: IncomingMessage) => Promise<void>> = [];
 
   constructor(
@@ -33,6 +42,7 @@ export class TelegramChannel extends BaseChannel {
     this.token = options.token;
     this.formatter = new TelegramFormatter();
     this.maxLength = options.maxMessageLength ?? 4000;
+    this.debounceMs = options.debounceMs ?? 500;
   }
 
   async start(): Promise<void> {
@@ -41,8 +51,8 @@ export class TelegramChannel extends BaseChannel {
     // Apply throttler — queues API calls to respect Telegram flood limits
     bot.api.config.use(apiThrottler());
 
-    // Text message handler
-    bot.on('message:text', async (ctx) => {
+    // Text and document handler — a document's caption is its command text
+    bot.on(['message:text', 'message:document'], async (ctx) => {
       const msg = this.normalizeContext(ctx);
       if (!msg) return;
 
@@ -114,23 +124,7 @@ export class TelegramChannel extends BaseChannel {
     }
 
     try {
-      switch (message.type) {
-        case 'text': {
-          const text = this.truncate(this.formatter.formatTextHtml(message.text));
-          await this.bot.api.sendMessage(chatId, text, { parse_mode: 'HTML' });
-          break;
-        }
-        case 'code': {
-          const code = this.formatter.formatCodeHtml(message.code, message.language);
-          await this.bot.api.sendMessage(chatId, code, { parse_mode: 'HTML' });
-          break;
-        }
-        case 'error': {
-          const errText = this.formatter.formatErrorHtml(message.message);
-          await this.bot.api.sendMessage(chatId, errText, { parse_mode: 'HTML' });
-          break;
-        }
-      }
+      await this.deliver(this.bot, chatId, message);
     } catch (err) {
       throw new TelegramError(
         `Failed to send message to ${userId}`,
@@ -143,15 +137,116 @@ export class TelegramChannel extends BaseChannel {
     this.messageHandlers.push(handler);
   }
 
+  /**
+   * Stream into a plain-text draft in the originating chat, then edit it
+   * into the formatted final reply.
+   */
+  protected override openReply(msg: IncomingMessage): ChannelReplyStream | undefined {
+    const bot = this.bot;
+    const chatId = Number(msg.channelId);
+    if (!bot || Number.isNaN(chatId)) return undefined;
+
+    return new EditableReply<number>({
+      post: async (text) => (await bot.api.sendMessage(chatId, text)).message_id,
+      edit: async (messageId, text) => {
+        await bot.api.editMessageText(chatId, messageId, text);
+      },
+      finalize: async (messageId, message) => {
+        try {
+          if (messageId === null || message.type === 'file') {
+            await this.deliver(bot, chatId, message);
+          } else {
+            const { text, extra } = this.render(message);
+            await bot.api.editMessageText(chatId, messageId, text, extra);
+          }
+        } catch (err) {
+          throw new TelegramError(
+            `Failed to finalize reply in ${msg.channelId}`,
+            err instanceof Error ? err : undefined,
+          );
+        }
+      },
+    }, { debounceMs: this.debounceMs, maxLength: this.maxLength });
+  }
+
+  /**
+   * Download a document sent to the bot. The Bot API only serves files up to 20 MB,
+   * so larger uploads fail at getFile regardless of maxBytes.
+   */
+  protected override attachmentFetcher(): AttachmentFetcher | undefined {
+    const bot = this.bot;
+    if (!bot) return undefined;
+
+    return async (attachment, { maxBytes }) => {
+      const name = attachment.name ?? 'Attachment';
+      if (!attachment.fileId) throw new TelegramError(`${name} has no file id`);
+      if (attachment.size !== undefined && attachment.size > maxBytes) {
+        throw new FileTooLargeError(name, attachment.size, maxBytes);
+      }
+
+      let filePath: string | undefined;
+      try {
+        filePath = (await bot.api.getFile(attachment.fileId)).file_path;
+      } catch (err) {
+        throw new TelegramError(`Failed to look up ${name}`, err instanceof Error ? err : undefined);
+      }
+      if (!filePath) throw new TelegramError(`${name} is not available for download`);
+
+      return downloadFile(`https://api.telegram.org/file/bot${this.token}/${filePath}`, { maxBytes, name });
+    };
+  }
+
+  private async deliver(bot: Bot, chatId: number, message: OutgoingMessage): Promise<void> {
+    if (message.type === 'file') {
+      await bot.api.sendDocument(chatId, new InputFile(message.data, message.filename), {
+        ...(message.caption ? { caption: message.caption.slice(0, MAX_CAPTION_LENGTH) } : {}),
+      });
+      return;
+    }
+    const { text, extra } = this.render(message);
+    await bot.api.sendMessage(chatId, text, extra);
+  }
+
+  private render(message: Exclude<OutgoingMessage, FileMessage>): {
+    text: string;
+    extra: { parse_mode: 'HTML'; reply_markup?: ReturnType<typeof buildKeyboard> };
+  } {
+    switch (message.type) {
+      case 'text':
+        return {
+          text: this.truncate(this.formatter.formatTextHtml(message.text)),
+          extra: {
+            parse_mode: 'HTML',
+            ...(message.keyboard ? { reply_markup: buildKeyboard(message.keyboard) } : {}),
+          },
+        };
+      case 'code':
+        return { text: this.formatter.formatCodeHtml(message.code, message.language), extra: { parse_mode: 'HTML' } };
+      case 'error':
+        return { text: this.formatter.formatErrorHtml(message.message), extra: { parse_mode: 'HTML' } };
+    }
+  }
+
   private normalizeContext(ctx: Context): IncomingMessage | null {
-    if (!ctx.message?.text || !ctx.from || !ctx.chat) return null;
+    const message = ctx.message;
+    const text = message?.text ?? message?.caption;
+    if (!message || !text || !ctx.from || !ctx.chat) return null;
+    const document = message.document;
     return {
-      id: String(ctx.message.message_id),
+      id: String(message.message_id),
       userId: String(ctx.from.id),
       channelId: String(ctx.chat.id),
-      text: ctx.message.text,
-      timestamp: new Date(ctx.message.date * 1000),
-      attachments: [],
+      text,
+      timestamp: new Date(message.date * 1000),
+      attachments: document
+        ? [{
+            type: 'document',
+            fileId: document.file_id,
+            name: document.file_name,
+            mimeType: document.mime_type,
+            size: document.file_size,
+          }]
+        : [],
     };
   }
 
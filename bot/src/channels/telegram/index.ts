@@ -1,5 +1,5 @@
 export { TelegramChannel } from './channel.js';
 export type { TelegramChannelOptions } from './channel.js';
 export { TelegramFormatter } from './formatter.js';
-export { buildInlineKeyboard, buildMachineKeyboard } from './keyboard.js';
+export { buildInlineKeyboard, buildKeyboard, buildMachineKeyboard } from './keyboard.js';
 export type { KeyboardAction } from './keyboard.js';
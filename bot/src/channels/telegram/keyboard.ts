@@ -16,6 +16,15 @@ export function buildInlineKeyboard(actions: KeyboardAction[]): { inline_keyboar
   return { inline_keyboard: [row] };
 }
 
+/**
+ * Build a multi-row inline keyboard — used for OutgoingMessage keyboards.
+ */
+export function buildKeyboard(rows: KeyboardAction[][]): { inline_keyboard: InlineKeyboardButton[][] } {
+  return {
+    inline_keyboard: rows.map((row) => row.map((a) => ({ text: a.label, callback_data: a.command }))),
+  };
+}
+
 /**
  * Standard machine selection keyboard.
  */
@@ -0,0 +1,304 @@
+import { createServer, type IncomingMessage as HttpRequest, type Server, type ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod/v4';
+import { BaseChannel } from '../../core/base-channel.js';
+import { signWebhook, verifyWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature.js';
+import { extractMachineFlag, parseCommand } from '../../models/command.js';
+import type { OutgoingMessage, IncomingMessage } from '../../models/message.js';
+import type { PermissionManager } from '../../core/permission-manager.js';
+import type { MessageDispatcher } from '../../core/dispatcher.js';
+import type { HandlerResult, LoggerProtocol } from '../../core/types.js';
+import { BotError, WebhookError } from '../../errors.js';
+
+export interface WebhookChannelOptions {
+  /** Shared secret — inbound requests must be signed with it, and outgoing ones are */
+  secret: string;
+  /** Replies and notifications are POSTed here */
+  outgoingUrl: string;
+  /** Port for the inbound endpoint; 0 picks a free one. Default: 8080 */
+  port?: number;
+  /** Default: 0.0.0.0 */
+  host?: string;
+  /** Path of the inbound endpoint. Default: /webhook */
+  path?: string;
+  /** Larger inbound bodies are rejected with 413. Default: 1 MB */
+  maxBodyBytes?: number;
+  /** Inbound requests signed longer ago than this are rejected. Default: 5 minutes */
+  signatureToleranceMs?: number;
+  /** Timeout for outgoing requests. Default: 10000 */
+  timeoutMs?: number;
+}
+
+/** Body of an inbound POST */
+export const WebhookInboundSchema = z.object({
+  /** Your system's ID for the message; echoed back as replyTo. Generated if missing. */
+  id: z.string().min(1).optional(),
+  userId: z.string().min(1),
+  /** Conversation, ticket or room the message belongs to. Default: the userId */
+  channelId: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+  text: z.string().min(1),
+});
+export type WebhookInbound = z.infer<typeof WebhookInboundSchema>;
+
+/** Body of an outgoing POST */
+export interface WebhookDelivery {
+  userId: string;
+  channelId?: string;
+  threadId?: string;
+  /** ID of the inbound message this answers; absent for notifications */
+  replyTo?: string;
+  /** The message rendered as plain Markdown, for tools that only show text */
+  text: string;
+  /** The message itself; file data is base64 */
+  message: Exclude<OutgoingMessage, { type: 'file' }> | {
+    type: 'file'; filename: string; data: string; mimeType?: string; caption?: string;
+  };
+}
+
+/**
+ * WebhookChannel — a generic HTTP channel for chat tools and ticketing systems
+ * without a first-party channel.
+ *
+ * Inbound: signed POSTs of `{ userId, text, channelId?, threadId?, id? }` to
+ * `path` are answered with 202 and dispatched like any chat message.
+ * Outbound: replies and notifications are signed POSTs of WebhookDelivery to
+ * `outgoingUrl`. See signature.ts for the signing scheme.
+ */
+export class WebhookChannel extends BaseChannel {
+  private server: Server | null = null;
+  private readonly options: Required<Omit<WebhookChannelOptions, 'host'>> & { host: string };
+  private messageHandlers: Array<(msg: IncomingMessage) => Promise<void>> = [];
+  /** Signatures accepted within the tolerance window → when they expire */
+  private readonly seenSignatures = new Map<string, number>();
+
+  constructor(
+    options: WebhookChannelOptions,
+    permissions: PermissionManager,
+    dispatcher: MessageDispatcher,
+    logger: LoggerProtocol,
+  ) {
+    super('webhook', 'Webhook', permissions, dispatcher, logger);
+    if (!options.secret) throw new WebhookError('A webhook secret is required');
+    this.options = {
+      port: 8080,
+      host: '0.0.0.0',
+      path: '/webhook',
+      maxBodyBytes: 1024 * 1024,
+      signatureToleranceMs: 5 * 60_000,
+      timeoutMs: 10_000,
+      ...options,
+    };
+  }
+
+  /** Port the inbound endpoint listens on, once started */
+  get port(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((err: unknown) => {
+        this.logger.error('Webhook request error', {
+          channel: this.id,
+          err: err instanceof Error ? err.message : String(err),
+        });
+        if (!res.headersSent) reply(res, 500, { error: 'internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (err) => reject(new WebhookError(`Failed to listen on port ${this.options.port}`, err)));
+      server.listen(this.options.port, this.options.host, resolve);
+    });
+    this.server = server;
+    this.logEvent('started', { port: this.port, path: this.options.path });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    this.messageHandlers = [];
+    this.logEvent('stopped');
+  }
+
+  async send(userId: string, message: OutgoingMessage): Promise<void> {
+    await this.deliver({ userId }, message);
+  }
+
+  onMessage(handler: (msg: IncomingMessage) => Promise<void>): void {
+    this.messageHandlers.push(handler);
+  }
+
+  // ─── Inbound ──────────────────────────────────────────────────────────────
+
+  private async handleRequest(req: HttpRequest, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== this.options.path) return reply(res, 404, { error: 'not found' });
+    if (req.method !== 'POST') return reply(res, 405, { error: 'method not allowed' });
+
+    const body = await readBody(req, this.options.maxBodyBytes);
+    if (body === null) return reply(res, 413, { error: 'body too large' });
+
+    const signature = header(req, SIGNATURE_HEADER);
+    const timestamp = header(req, TIMESTAMP_HEADER);
+    const signed = verifyWebhook(this.options.secret, { signature, timestamp, body }, this.options.signatureToleranceMs);
+    if (!signed) {
+      this.logger.warn('Webhook request with a bad signature', { channel: this.id, ip: req.socket.remoteAddress });
+      return reply(res, 401, { error: 'invalid signature' });
+    }
+    if (!this.rememberSignature(signature!, Number(timestamp))) {
+      this.logger.warn('Webhook request replayed', { channel: this.id, ip: req.socket.remoteAddress });
+      return reply(res, 409, { error: 'replayed request' });
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return reply(res, 400, { error: 'body is not JSON' });
+    }
+    const parsed = WebhookInboundSchema.safeParse(json);
+    if (!parsed.success) return reply(res, 400, { error: 'expected { userId, text, channelId?, threadId?, id? }' });
+
+    const inbound = parsed.data;
+    const msg: IncomingMessage = {
+      id: inbound.id ?? `wh-${randomBytes(4).toString('hex')}`,
+      userId: inbound.userId,
+      channelId: inbound.channelId ?? inbound.userId,
+      text: inbound.text,
+      timestamp: new Date(),
+      attachments: [],
+      threadId: inbound.threadId,
+    };
+
+    // The caller gets its answer as an outgoing webhook, so it is not kept waiting
+    reply(res, 202, { id: msg.id });
+    void this.respond(msg);
+  }
+
+  /**
+   * A valid signature is accepted once. It only needs remembering until its
+   * timestamp falls out of the tolerance window — verifyWebhook rejects it after that.
+   * Returns false if it was already seen.
+   */
+  private rememberSignature(signature: string, timestamp: number): boolean {
+    const now = Date.now();
+    for (const [seen, expiresAt] of this.seenSignatures) {
+      if (expiresAt < now) this.seenSignatures.delete(seen);
+    }
+    if (this.seenSignatures.has(signature)) return false;
+    this.seenSignatures.set(signature, timestamp + this.options.signatureToleranceMs);
+    return true;
+  }
+
+  private async respond(msg: IncomingMessage): Promise<void> {
+    const target = { userId: msg.userId, channelId: msg.channelId, threadId: msg.threadId, replyTo: msg.id };
+    try {
+      for (const h of this.messageHandlers) await h(msg);
+
+      const parsed = parseCommand(msg.text);
+      const ctx = parsed
+        ? {
+            userId: msg.userId,
+            command: parsed.name,
+            channelId: msg.channelId,
+            channel: this.id,
+            message: msg,
+            ...extractMachineFlag(parsed.args),
+          } as const
+        : {
+            userId: msg.userId,
+            command: 'agent',
+            args: [msg.text],
+            channelId: msg.channelId,
+            channel: this.id,
+            message: msg,
+          } as const;
+
+      let result: HandlerResult;
+      try {
+        result = await this.dispatcher.dispatch(ctx);
+      } catch (err) {
+        const botErr = err instanceof BotError ? err : new BotError('Unexpected error', { cause: err instanceof Error ? err : undefined });
+        result = { ok: false, error: botErr };
+      }
+      await this.deliver(target, result.ok ? result.value : { type: 'error', message: result.error.message });
+    } catch (err) {
+      this.logger.error('Webhook message processing error', {
+        userId: msg.userId,
+        err: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  // ─── Outbound ─────────────────────────────────────────────────────────────
+
+  private async deliver(target: Omit<WebhookDelivery, 'text' | 'message'>, message: OutgoingMessage): Promise<void> {
+    const delivery: WebhookDelivery = {
+      ...target,
+      text: renderText(message),
+      message: message.type === 'file' ? { ...message, data: message.data.toString('base64') } : message,
+    };
+    const body = JSON.stringify(delivery);
+    const timestamp = Date.now();
+
+    let res: Response;
+    try {
+      res = await fetch(this.options.outgoingUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signWebhook(this.options.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+    } catch (err) {
+      throw new WebhookError(`Failed to deliver message to ${target.userId}`, err instanceof Error ? err : undefined);
+    }
+    if (!res.ok) {
+      throw new WebhookError(`Failed to deliver message to ${target.userId}: HTTP ${res.status}`);
+    }
+  }
+}
+
+function renderText(message: OutgoingMessage): string {
+  switch (message.type) {
+    case 'text':
+      return message.text;
+    case 'code':
+      return `\`\`\`${message.language ?? ''}\n${message.code}\n\`\`\``;
+    case 'error':
+      return `❌ ${message.message}${message.hint ? `\n💡 ${message.hint}` : ''}`;
+    case 'file':
+      return message.caption ?? `📎 ${message.filename}`;
+  }
+}
+
+function header(req: HttpRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** The request body as text, or null once it grows past maxBytes */
+async function readBody(req: HttpRequest, maxBytes: number): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    received += chunk.length;
+    if (received > maxBytes) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function reply(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,3 @@
+export { WebhookChannel, WebhookInboundSchema } from './channel.js';
+export type { WebhookChannelOptions, WebhookInbound, WebhookDelivery } from './channel.js';
+export { signWebhook, verifyWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature.js';
@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * HMAC signatures for the webhook channel, in both directions.
+ *
+ * The signed string is `<timestamp>.<raw body>` with the timestamp in Unix
+ * milliseconds, so a captured request is rejected once its timestamp is
+ * outside the tolerance window. Within the window the signature alone does
+ * not stop a replay; WebhookChannel also refuses a signature it has already
+ * accepted:
+ *   X-CMDOP-Timestamp: 1767600000000
+ *   X-CMDOP-Signature: sha256=<hex HMAC-SHA256 of "1767600000000.{...}">
+ */
+
+export const SIGNATURE_HEADER = 'x-cmdop-signature';
+export const TIMESTAMP_HEADER = 'x-cmdop-timestamp';
+
+/** Signature header value for a request body */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a request's signature and that its timestamp is within toleranceMs of now.
+ * Receivers of the bot's outgoing webhooks can use this too.
+ */
+export function verifyWebhook(
+  secret: string,
+  request: { signature?: string; timestamp?: string; body: string },
+  toleranceMs = 5 * 60_000,
+): boolean {
+  const timestamp = Number(request.timestamp);
+  if (!request.signature || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(Date.now() - timestamp) > toleranceMs) return false;
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, request.body));
+  const actual = Buffer.from(request.signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -5,6 +5,8 @@ export const BotSettingsSchema = z.object({
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   allowedUsers: z.array(z.string()).default([]),
   maxOutputLength: z.number().int().positive().default(4000),
+  /** Largest file /files get and /files put transfer, in bytes */
+  maxFileSize: z.number().int().positive().default(10 * 1024 * 1024),
   debounceMs: z.number().int().min(100).max(5000).default(500),
   defaultMachine: z.string().optional(),
 });
@@ -15,6 +17,7 @@ export function loadSettings(env: NodeJS.ProcessEnv = process.env): BotSettings
     logLevel: env['BOT_LOG_LEVEL'],
     allowedUsers: env['BOT_ALLOWED_USERS']?.split(',').map((s) => s.trim()).filter(Boolean),
     maxOutputLength: env['BOT_MAX_OUTPUT'] ? Number(env['BOT_MAX_OUTPUT']) : undefined,
+    maxFileSize: env['BOT_MAX_FILE_SIZE'] ? Number(env['BOT_MAX_FILE_SIZE']) : undefined,
     debounceMs: env['BOT_DEBOUNCE_MS'] ? Number(env['BOT_DEBOUNCE_MS']) : undefined,
     defaultMachine: env['CMDOP_MACHINE'],
   };
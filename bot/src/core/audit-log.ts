@@ -0,0 +1,88 @@
+import type { AuditEntry } from '../models/audit.js';
+import type { AuditWriterProtocol, LoggerProtocol } from './types.js';
+
+export interface AuditLogOptions {
+  /** Where entries are written in addition to the in-memory buffer */
+  writers?: AuditWriterProtocol[];
+  /** Recent entries kept in memory for /audit. Default: 500 */
+  bufferSize?: number;
+}
+
+export interface AuditQuery {
+  /** Matches userId or canonicalUserId */
+  userId?: string;
+  command?: string;
+  machine?: string;
+  /** Only failed commands */
+  failedOnly?: boolean;
+  /** Newest entries to return. Default: 20 */
+  limit?: number;
+}
+
+/**
+ * Audit sink for dispatched commands.
+ *
+ * MessageDispatcher calls record() once per command. Entries go to every
+ * writer in the background, so a slow disk never delays a reply, and to a
+ * bounded in-memory buffer that query() (and /audit) reads from.
+ */
+export class AuditLog {
+  private readonly writers: AuditWriterProtocol[];
+  private readonly bufferSize: number;
+  private readonly buffer: AuditEntry[] = [];
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor(
+    private readonly logger: LoggerProtocol,
+    options: AuditLogOptions = {},
+  ) {
+    this.writers = options.writers ?? [];
+    this.bufferSize = options.bufferSize ?? 500;
+  }
+
+  record(entry: AuditEntry): void {
+    this.buffer.push(entry);
+    if (this.buffer.length > this.bufferSize) this.buffer.shift();
+
+    for (const writer of this.writers) {
+      const write = writer.write(entry)
+        .catch((err: unknown) => {
+          this.logger.error('Audit write failed', {
+            writer: writer.constructor.name,
+            command: entry.command,
+            err: err instanceof Error ? err.message : String(err),
+          });
+        })
+        .finally(() => this.pending.delete(write));
+      this.pending.add(write);
+    }
+  }
+
+  /**
+   * Recent entries matching a filter, newest first.
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const limit = filter.limit ?? 20;
+    const matches: AuditEntry[] = [];
+    for (let i = this.buffer.length - 1; i >= 0 && matches.length < limit; i--) {
+      const e = this.buffer[i]!;
+      if (filter.userId && e.userId !== filter.userId && e.canonicalUserId !== filter.userId) continue;
+      if (filter.command && e.command !== filter.command) continue;
+      if (filter.machine && e.machine !== filter.machine) continue;
+      if (filter.failedOnly && e.ok) continue;
+      matches.push(e);
+    }
+    return matches;
+  }
+
+  /** Wait for in-flight writes */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  /** Flush, then close every writer */
+  async close(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.writers.map((w) => w.close?.()));
+  }
+}
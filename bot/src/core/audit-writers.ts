@@ -0,0 +1,96 @@
+import { appendFile, mkdir, rename, rm, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AuditEntry } from '../models/audit.js';
+import type { AuditWriterProtocol } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// JSON Lines file
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Appends one JSON object per line. Writes are serialized, so lines from
+ * concurrent commands never interleave.
+ */
+export class JsonlAuditWriter implements AuditWriterProtocol {
+  private queue: Promise<void> = Promise.resolve();
+  private dirReady = false;
+
+  constructor(readonly path: string) {}
+
+  write(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    const next = this.queue.then(async () => {
+      if (!this.dirReady) {
+        await mkdir(dirname(this.path), { recursive: true });
+        this.dirReady = true;
+      }
+      await this.beforeAppend(Buffer.byteLength(line));
+      await appendFile(this.path, line, 'utf-8');
+    });
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+
+  /** Hook for subclasses, called under the write queue before each append */
+  protected async beforeAppend(_bytes: number): Promise<void> {}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rotating JSON Lines file
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RotatingAuditWriterOptions {
+  /** Rotate before the file would exceed this size. Default: 10 MiB */
+  maxBytes?: number;
+  /** Rotated files kept as `<path>.1` (newest) … `<path>.<maxFiles>`. Default: 5 */
+  maxFiles?: number;
+}
+
+/**
+ * JSON Lines file that rotates by size, like logrotate:
+ * `audit.jsonl` → `audit.jsonl.1` → `audit.jsonl.2` …, dropping the oldest.
+ */
+export class RotatingFileAuditWriter extends JsonlAuditWriter {
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number | null = null;
+
+  constructor(path: string, options: RotatingAuditWriterOptions = {}) {
+    super(path);
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = Math.max(1, options.maxFiles ?? 5);
+  }
+
+  protected override async beforeAppend(bytes: number): Promise<void> {
+    this.size ??= await stat(this.path).then((s) => s.size, () => 0);
+
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await rm(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        await rename(`${this.path}.${i}`, `${this.path}.${i + 1}`).catch(() => {});
+      }
+      await rename(this.path, `${this.path}.1`);
+      this.size = 0;
+    }
+    this.size += bytes;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Callback
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Hands each entry to a function — e.g. to forward it to a SIEM or database.
+ */
+export class CallbackAuditWriter implements AuditWriterProtocol {
+  constructor(private readonly callback: (entry: AuditEntry) => void | Promise<void>) {}
+
+  async write(entry: AuditEntry): Promise<void> {
+    await this.callback(entry);
+  }
+}
@@ -1,9 +1,9 @@
-import type { ChannelProtocol, HandlerResult, LoggerProtocol } from './types.js';
+import type { AttachmentFetcher, ChannelProtocol, ChannelReplyStream, HandlerResult, LoggerProtocol } from './types.js';
 import type { OutgoingMessage, IncomingMessage } from '../models/message.js';
 import type { PermissionLevel } from '../models/user.js';
 import type { PermissionManager } from './permission-manager.js';
 import type { MessageDispatcher } from './dispatcher.js';
-import { parseCommand } from '../models/command.js';
+import { parseCommand, extractMachineFlag } from '../models/command.js';
 import { BotError, CommandNotFoundError } from '../errors.js';
 
 export abstract class BaseChannel implements ChannelProtocol {
@@ -20,6 +20,23 @@ export abstract class BaseChannel implements ChannelProtocol {
   abstract send(userId: string, message: OutgoingMessage): Promise<void>;
   abstract onMessage(handler: (msg: IncomingMessage) => Promise<void>): void;
 
+  /**
+   * Open a live reply for a message, passed to handlers as ctx.reply.
+   * Channels that can edit or stream messages override this; by default
+   * handlers only produce a final result.
+   */
+  protected openReply(_msg: IncomingMessage): ChannelReplyStream | undefined {
+    return undefined;
+  }
+
+  /**
+   * Downloader for incoming attachments, passed to handlers as ctx.fetchAttachment.
+   * Channels that receive files override this.
+   */
+  protected attachmentFetcher(): AttachmentFetcher | undefined {
+    return undefined;
+  }
+
   /**
    * Process an incoming message: parse command → check permission → dispatch → send result.
    * Plain text (non-command) is routed to the agent handler automatically.
@@ -27,22 +44,31 @@ export abstract class BaseChannel implements ChannelProtocol {
    */
   protected async processMessage(msg: IncomingMessage): Promise<void> {
     const parsed = parseCommand(msg.text);
+    const reply = this.openReply(msg);
+    const fetchAttachment = msg.attachments.length > 0 ? this.attachmentFetcher() : undefined;
 
     // Non-command text → route to agent as chat message
+    // --machine=<host> targets one command; the rest come from the user's /machine selection
     const ctx = parsed
       ? {
           userId: msg.userId,
           command: parsed.name,
-          args: parsed.args,
           channelId: msg.channelId,
+          channel: this.id,
           message: msg,
+          reply,
+          fetchAttachment,
+          ...extractMachineFlag(parsed.args),
         } as const
       : {
           userId: msg.userId,
           command: 'agent',
           args: [msg.text],
           channelId: msg.channelId,
+          channel: this.id,
           message: msg,
+          reply,
+          fetchAttachment,
         } as const;
 
     let result: HandlerResult;
@@ -53,13 +79,15 @@ export abstract class BaseChannel implements ChannelProtocol {
       result = { ok: false, error: botErr };
     }
 
-    if (result.ok) {
-      await this.send(msg.userId, result.value);
+    const outgoing: OutgoingMessage = result.ok
+      ? result.value
+      : { type: 'error', message: this.formatErrorMessage(result.error) };
+
+    // A handler that streamed has a draft on screen — replace it instead of sending anew
+    if (reply?.started) {
+      await reply.finish(outgoing);
     } else {
-      await this.send(msg.userId, {
-        type: 'error',
-        message: this.formatErrorMessage(result.error),
-      });
+      await this.send(msg.userId, outgoing);
     }
   }
 
@@ -2,6 +2,7 @@ import type { CMDOPClient } from '@cmdop/node';
 import type { HandlerProtocol, HandlerResult, LoggerProtocol } from './types.js';
 import type { CommandContext } from '../models/command.js';
 import type { PermissionLevel } from '../models/user.js';
+import { CMDOPError } from '../errors.js';
 
 export abstract class BaseHandler implements HandlerProtocol {
   abstract readonly name: string;
@@ -15,4 +16,16 @@ export abstract class BaseHandler implements HandlerProtocol {
   ) {}
 
   abstract handle(ctx: CommandContext): Promise<HandlerResult>;
+
+  /**
+   * Session for the machine a command targets, passed to each call.
+   * Without a machine the client's default session is used, so handlers
+   * never re-point the client shared by every user.
+   */
+  protected async resolveSessionId(machine: string | undefined): Promise<string | undefined> {
+    if (!machine) return undefined;
+    const active = await this.client.terminal.getActiveSession({ hostname: machine });
+    if (!active) throw new CMDOPError(`No active session on machine '${machine}'`);
+    return active.sessionId;
+  }
 }
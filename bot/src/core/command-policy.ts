@@ -0,0 +1,311 @@
+import { randomBytes } from 'node:crypto';
+import type { CommandContext } from '../models/command.js';
+import type { OutgoingMessage } from '../models/message.js';
+import { ApprovalError, CommandDeniedError } from '../errors.js';
+
+/** Command the confirm/cancel/approve/reject buttons send back */
+export const APPROVAL_COMMAND = 'approval';
+
+/** Commands a rule covers when it names none: text typed into /shell runs just like /exec */
+const DEFAULT_RULE_COMMANDS = ['exec', 'shell'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PolicyRule {
+  /**
+   * Matched against the command's arguments joined by spaces (for /shell, the input line).
+   * Strings are compiled with the `i` flag.
+   */
+  pattern: RegExp | string;
+  /** `deny` refuses the command; `confirm` asks the user to confirm it first */
+  action: 'deny' | 'confirm';
+  /** Commands the rule applies to. Default: ['exec', 'shell'] */
+  commands?: string[];
+  /** After the user confirms, a second ADMIN must approve (confirm rules only) */
+  requireAdmin?: boolean;
+  /** Shown to the user, e.g. "deletes files" */
+  reason?: string;
+}
+
+export interface CommandPolicyOptions {
+  rules: PolicyRule[];
+  /** How long a request waits for each decision (ms). Default: 120000 */
+  timeoutMs?: number;
+  /** Audit entries kept in memory. Default: 200 */
+  auditSize?: number;
+  /** Called for every audit entry, e.g. to forward it to a log sink */
+  onAudit?: (entry: ApprovalAuditEntry) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// State
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ApprovalStatus = 'pending' | 'awaiting-admin';
+
+export interface ApprovalRequest {
+  readonly id: string;
+  /** Context of the original command, replayed once approved */
+  readonly ctx: CommandContext;
+  readonly rule: PolicyRule;
+  status: ApprovalStatus;
+  expiresAt: number;
+  confirmedBy?: string;
+}
+
+export interface ApprovalAuditEntry {
+  event: 'denied' | 'requested' | 'confirmed' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+  /** User who triggered the event (the requester for `denied`/`requested`/`expired`) */
+  actor: string;
+  requester: string;
+  command: string;
+  args: readonly string[];
+  channelId: string;
+  machine?: string;
+  requestId?: string;
+  reason?: string;
+  at: Date;
+}
+
+export type ApprovalDecision = 'confirm' | 'cancel' | 'approve' | 'reject';
+
+export interface ApprovalActor {
+  userId: string;
+  isAdmin: boolean;
+  /** True when the actor is (or is linked to) the user who ran the command */
+  isRequester: boolean;
+}
+
+/**
+ * Outcome of a decision: either run the original command, or show a message
+ * (the next prompt, or a cancellation notice).
+ */
+export type ApprovalOutcome =
+  | { run: true; request: ApprovalRequest }
+  | { run: false; message: OutgoingMessage };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Deny/confirm rules for commands, and the requests waiting on a decision.
+ *
+ * A matching `confirm` rule turns the command into a prompt with
+ * Confirm/Cancel buttons. Buttons send `/approval <decision> <id>`, which
+ * MessageDispatcher routes here. With `requireAdmin`, the user's confirmation
+ * is followed by Approve/Reject buttons that only another ADMIN may press.
+ *
+ * Requests expire after `timeoutMs`. Every step is recorded in `auditTrail`.
+ */
+export class CommandPolicy {
+  private readonly rules: Array<PolicyRule & { regex: RegExp }>;
+  private readonly timeoutMs: number;
+  private readonly auditSize: number;
+  private readonly onAudit: ((entry: ApprovalAuditEntry) => void) | undefined;
+  private readonly pending = new Map<string, ApprovalRequest>();
+  private readonly audit: ApprovalAuditEntry[] = [];
+
+  constructor(options: CommandPolicyOptions) {
+    this.rules = options.rules.map((rule) => ({
+      ...rule,
+      regex: typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'i') : rule.pattern,
+    }));
+    this.timeoutMs = options.timeoutMs ?? 120_000;
+    this.auditSize = options.auditSize ?? 200;
+    this.onAudit = options.onAudit;
+  }
+
+  /**
+   * Find the rule for a command. Deny rules take precedence over confirm rules.
+   */
+  match(ctx: CommandContext): PolicyRule | undefined {
+    const line = inputLine(ctx);
+    const applicable = this.rules.filter(
+      (r) => (r.commands ?? DEFAULT_RULE_COMMANDS).includes(ctx.command) && r.regex.test(line),
+    );
+    return applicable.find((r) => r.action === 'deny') ?? applicable[0];
+  }
+
+  /**
+   * Check a command before it runs. Returns undefined when it may run now,
+   * a CommandDeniedError, or a confirmation prompt to show instead.
+   */
+  check(ctx: CommandContext): CommandDeniedError | OutgoingMessage | undefined {
+    const rule = this.match(ctx);
+    if (!rule) return undefined;
+
+    if (rule.action === 'deny') {
+      this.record('denied', ctx.userId, ctx, undefined, rule.reason);
+      return new CommandDeniedError(ctx.command, rule.reason ?? 'blocked by policy');
+    }
+
+    this.prune();
+    const request: ApprovalRequest = {
+      id: randomBytes(4).toString('hex'),
+      ctx,
+      rule,
+      status: 'pending',
+      expiresAt: Date.now() + this.timeoutMs,
+    };
+    this.pending.set(request.id, request);
+    this.record('requested', ctx.userId, ctx, request.id, rule.reason);
+
+    return {
+      type: 'text',
+      text: [
+        '⚠️ **Confirmation required**',
+        `${describe(ctx)}${rule.reason ? `\n_Reason:_ ${rule.reason}` : ''}`,
+        rule.requireAdmin ? '_An admin must approve it after you confirm._' : '',
+        `_Expires in ${formatDuration(this.timeoutMs)}._`,
+      ].filter(Boolean).join('\n'),
+      keyboard: [[
+        { label: '✅ Confirm', command: `/${APPROVAL_COMMAND} confirm ${request.id}` },
+        { label: '❌ Cancel', command: `/${APPROVAL_COMMAND} cancel ${request.id}` },
+      ]],
+    };
+  }
+
+  /**
+   * Apply a button press to a pending request.
+   *
+   * @throws {ApprovalError} if the request is unknown, expired, or the actor may not decide
+   */
+  decide(id: string, decision: ApprovalDecision, actor: ApprovalActor): ApprovalOutcome {
+    this.prune();
+    const request = this.pending.get(id);
+    if (!request) {
+      throw new ApprovalError('This request has expired or was already handled', id);
+    }
+    const { ctx } = request;
+
+    switch (decision) {
+      case 'cancel': {
+        if (!actor.isRequester && !actor.isAdmin) {
+          throw new ApprovalError('Only the requester or an admin can cancel this command', id);
+        }
+        this.settle(request, 'cancelled', actor.userId);
+        return { run: false, message: { type: 'text', text: `❌ Cancelled ${describe(ctx)}` } };
+      }
+
+      case 'confirm': {
+        if (!actor.isRequester) {
+          throw new ApprovalError('Only the user who ran the command can confirm it', id);
+        }
+        if (request.status !== 'pending') {
+          throw new ApprovalError('This command is already waiting for an admin', id);
+        }
+        if (!request.rule.requireAdmin) {
+          this.settle(request, 'confirmed', actor.userId);
+          return { run: true, request };
+        }
+
+        request.status = 'awaiting-admin';
+        request.confirmedBy = actor.userId;
+        request.expiresAt = Date.now() + this.timeoutMs;
+        this.record('confirmed', actor.userId, ctx, id, request.rule.reason);
+        return {
+          run: false,
+          message: {
+            type: 'text',
+            text: `⏳ **Waiting for admin approval**\n${describe(ctx)}\n_Requested by:_ ${ctx.userId}`,
+            keyboard: [[
+              { label: '👍 Approve', command: `/${APPROVAL_COMMAND} approve ${id}` },
+              { label: '👎 Reject', command: `/${APPROVAL_COMMAND} reject ${id}` },
+            ]],
+          },
+        };
+      }
+
+      case 'approve':
+      case 'reject': {
+        if (request.status !== 'awaiting-admin') {
+          throw new ApprovalError('The requester has not confirmed this command yet', id);
+        }
+        if (!actor.isAdmin || actor.isRequester) {
+          throw new ApprovalError('A different admin must approve this command', id);
+        }
+        if (decision === 'reject') {
+          this.settle(request, 'rejected', actor.userId);
+          return { run: false, message: { type: 'text', text: `👎 Rejected ${describe(ctx)}` } };
+        }
+        this.settle(request, 'approved', actor.userId);
+        return { run: true, request };
+      }
+    }
+  }
+
+  /** A request still waiting on a decision */
+  get(id: string): ApprovalRequest | undefined {
+    this.prune();
+    return this.pending.get(id);
+  }
+
+  /** Requests still waiting on a decision */
+  get pendingRequests(): ApprovalRequest[] {
+    this.prune();
+    return [...this.pending.values()];
+  }
+
+  /** Most recent audit entries, oldest first */
+  get auditTrail(): readonly ApprovalAuditEntry[] {
+    return this.audit;
+  }
+
+  private settle(request: ApprovalRequest, event: ApprovalAuditEntry['event'], actor: string): void {
+    this.pending.delete(request.id);
+    this.record(event, actor, request.ctx, request.id, request.rule.reason);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const request of this.pending.values()) {
+      if (request.expiresAt <= now) this.settle(request, 'expired', request.ctx.userId);
+    }
+  }
+
+  private record(
+    event: ApprovalAuditEntry['event'],
+    actor: string,
+    ctx: CommandContext,
+    requestId?: string,
+    reason?: string,
+  ): void {
+    const entry: ApprovalAuditEntry = {
+      event,
+      actor,
+      requester: ctx.userId,
+      command: ctx.command,
+      args: ctx.args,
+      channelId: ctx.channelId,
+      ...(ctx.machine ? { machine: ctx.machine } : {}),
+      ...(requestId ? { requestId } : {}),
+      ...(reason ? { reason } : {}),
+      at: new Date(),
+    };
+    this.audit.push(entry);
+    if (this.audit.length > this.auditSize) this.audit.shift();
+    try {
+      this.onAudit?.(entry);
+    } catch {
+      // a failing sink must not block the decision
+    }
+  }
+}
+
+/** Text a rule is matched against. Plain text typed into an open shell arrives as `send <text>`. */
+function inputLine(ctx: CommandContext): string {
+  const args = ctx.command === 'shell' && ctx.args[0] === 'send' ? ctx.args.slice(1) : ctx.args;
+  return args.join(' ');
+}
+
+function describe(ctx: CommandContext): string {
+  const line = [`/${ctx.command}`, ...ctx.args].join(' ');
+  return `\`${line}\`${ctx.machine ? ` on **${ctx.machine}**` : ''}`;
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 60_000 ? `${Math.round(ms / 60_000)} min` : `${Math.round(ms / 1000)} s`;
+}
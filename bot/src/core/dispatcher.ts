@@ -1,9 +1,24 @@
-import { CommandNotFoundError } from '../errors.js';
-import type { HandlerProtocol, HandlerResult, LoggerProtocol } from './types.js';
+import { ApprovalError, BotError, CommandArgsError, CommandDeniedError, CommandNotFoundError } from '../errors.js';
+import { ok, err } from './types.js';
+import type { HandlerProtocol, HandlerResult, LoggerProtocol, SessionStoreProtocol } from './types.js';
+import { parseCommand } from '../models/command.js';
 import type { CommandContext, CommandInfo } from '../models/command.js';
+import type { OutgoingMessage } from '../models/message.js';
 import type { PermissionLevel } from '../models/user.js';
+import type { AuditEntry } from '../models/audit.js';
+import type { AuditLog } from './audit-log.js';
 import type { PermissionManager } from './permission-manager.js';
 import { PERMISSION_ORDER } from '../models/user.js';
+import { APPROVAL_COMMAND } from './command-policy.js';
+import type { ApprovalDecision, CommandPolicy } from './command-policy.js';
+
+const DECISIONS = ['confirm', 'cancel', 'approve', 'reject'] as const satisfies readonly ApprovalDecision[];
+
+/** What dispatch() learned about a command, for its audit entry */
+type DispatchTrace = Pick<AuditEntry, 'requiredPermission' | 'permission' | 'policy' | 'approvedBy'> & {
+  /** The context that ran — machine filled in, or the original command for an approval */
+  ctx: CommandContext;
+};
 
 export class MessageDispatcher {
   private readonly handlers = new Map<string, HandlerProtocol>();
@@ -11,6 +26,9 @@ export class MessageDispatcher {
   constructor(
     private readonly permissions: PermissionManager,
     private readonly logger: LoggerProtocol,
+    private readonly sessions?: SessionStoreProtocol,
+    private readonly policy?: CommandPolicy,
+    private readonly audit?: AuditLog,
   ) {}
 
   register(handler: HandlerProtocol): void {
@@ -18,14 +36,98 @@ export class MessageDispatcher {
   }
 
   async dispatch(ctx: CommandContext): Promise<HandlerResult> {
+    const trace: DispatchTrace = { ctx };
+    const start = Date.now();
+    try {
+      const result = await this.route(ctx, trace);
+      this.record(ctx, trace, start, result);
+      return result;
+    } catch (e) {
+      this.record(ctx, trace, start, undefined, e);
+      throw e;
+    }
+  }
+
+  getCommandList(minPermission: PermissionLevel = 'NONE'): CommandInfo[] {
+    const minOrder = PERMISSION_ORDER[minPermission];
+    return [...this.handlers.values()]
+      .filter((h) => PERMISSION_ORDER[h.requiredPermission] <= minOrder + 4) // show all accessible+next
+      .map((h) => ({
+        name: h.name,
+        description: h.description,
+        usage: h.usage,
+        requiredPermission: h.requiredPermission,
+      }));
+  }
+
+  hasCommand(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  /** Release handler resources (open sessions, timers). Called by IntegrationHub.stop(). */
+  async close(): Promise<void> {
+    await Promise.allSettled([...this.handlers.values()].map((h) => h.close?.()));
+  }
+
+  private async route(ctx: CommandContext, trace: DispatchTrace): Promise<HandlerResult> {
+    // Plain text can belong to a conversation a handler holds open, e.g. /shell input
+    if (ctx.command === 'agent' && !parseCommand(ctx.message.text)) {
+      ctx = this.intercept(ctx);
+      trace.ctx = ctx;
+    }
+
+    // Confirm/cancel/approve/reject buttons from a policy prompt
+    if (this.policy && ctx.command === APPROVAL_COMMAND && !this.handlers.has(APPROVAL_COMMAND)) {
+      return this.decide(this.policy, ctx, trace);
+    }
+
     const handler = this.handlers.get(ctx.command);
     if (!handler) {
       return { ok: false, error: new CommandNotFoundError(ctx.command) };
     }
 
-    // Permission check
-    await this.permissions.checkPermission(ctx.userId, handler.requiredPermission);
+    await this.authorize(handler, ctx, trace);
 
+    // An explicit --machine flag wins over the user's /machine selection
+    if (!ctx.machine && this.sessions) {
+      const session = await this.sessions.get(ctx.userId);
+      if (session?.currentMachine) ctx = { ...ctx, machine: session.currentMachine };
+    }
+    trace.ctx = ctx;
+
+    // Deny and confirm rules
+    const verdict = this.policy?.check(ctx);
+    if (verdict instanceof CommandDeniedError) {
+      this.logger.warn('Command denied by policy', { command: ctx.command, userId: ctx.userId });
+      trace.policy = 'denied';
+      return err(verdict);
+    }
+    if (verdict) {
+      trace.policy = 'prompted';
+      return ok(verdict);
+    }
+
+    return this.run(handler, ctx);
+  }
+
+  private intercept(ctx: CommandContext): CommandContext {
+    for (const handler of this.handlers.values()) {
+      const args = handler.interceptText?.(ctx);
+      if (args) return { ...ctx, command: handler.name, args };
+    }
+    return ctx;
+  }
+
+  /** Permission check — a handler may require more for some subcommands than for the command itself */
+  private async authorize(handler: HandlerProtocol, ctx: CommandContext, trace: DispatchTrace): Promise<void> {
+    const required = handler.requiredPermissionFor?.(ctx) ?? handler.requiredPermission;
+    trace.requiredPermission = required;
+    trace.permission = 'denied';
+    await this.permissions.checkPermission(ctx.userId, required);
+    trace.permission = 'granted';
+  }
+
+  private async run(handler: HandlerProtocol, ctx: CommandContext): Promise<HandlerResult> {
     const start = Date.now();
     try {
       const result = await handler.handle(ctx);
@@ -45,19 +147,92 @@ export class MessageDispatcher {
     }
   }
 
-  getCommandList(minPermission: PermissionLevel = 'NONE'): CommandInfo[] {
-    const minOrder = PERMISSION_ORDER[minPermission];
-    return [...this.handlers.values()]
-      .filter((h) => PERMISSION_ORDER[h.requiredPermission] <= minOrder + 4) // show all accessible+next
-      .map((h) => ({
-        name: h.name,
-        description: h.description,
-        usage: h.usage,
-        requiredPermission: h.requiredPermission,
-      }));
+  private async decide(policy: CommandPolicy, ctx: CommandContext, trace: DispatchTrace): Promise<HandlerResult> {
+    const [decision, id] = ctx.args;
+    if (!id || !DECISIONS.includes(decision as ApprovalDecision)) {
+      return err(new CommandArgsError(APPROVAL_COMMAND, `expected /${APPROVAL_COMMAND} <${DECISIONS.join('|')}> <id>`));
+    }
+
+    const request = policy.get(id);
+    const actor = {
+      userId: ctx.userId,
+      isAdmin: await this.permissions.hasPermission(ctx.userId, 'ADMIN'),
+      isRequester: request ? this.permissions.identity.areSameIdentity(ctx.userId, request.ctx.userId) : false,
+    };
+
+    let outcome;
+    try {
+      outcome = policy.decide(id, decision as ApprovalDecision, actor);
+    } catch (e) {
+      if (e instanceof ApprovalError) return err(e);
+      throw e;
+    }
+    if (!outcome.run) return ok(outcome.message);
+
+    const original = outcome.request.ctx;
+    this.logger.info('Approved command running', {
+      requestId: id,
+      command: original.command,
+      requester: original.userId,
+      approvedBy: ctx.userId,
+    });
+
+    // The audit entry describes the command that ran, not the button press
+    trace.ctx = original;
+    trace.policy = 'approved';
+    trace.approvedBy = ctx.userId;
+
+    const handler = this.handlers.get(original.command);
+    if (!handler) return err(new CommandNotFoundError(original.command));
+    // The requester may have lost access while the request was pending
+    await this.authorize(handler, original, trace);
+
+    // Stream into the reply of the button press, not the original prompt
+    return this.run(handler, { ...original, reply: ctx.reply });
   }
 
-  hasCommand(name: string): boolean {
-    return this.handlers.has(name);
+  private record(
+    received: CommandContext,
+    trace: DispatchTrace,
+    start: number,
+    result: HandlerResult | undefined,
+    thrown?: unknown,
+  ): void {
+    if (!this.audit) return;
+    const { ctx } = trace;
+    const error: unknown = result ? (result.ok ? undefined : result.error) : thrown;
+
+    this.audit.record({
+      timestamp: new Date(start),
+      userId: ctx.userId,
+      canonicalUserId: this.permissions.identity.resolve(ctx.userId),
+      channel: received.channel,
+      channelId: received.channelId,
+      command: ctx.command,
+      args: [...ctx.args],
+      machine: ctx.machine,
+      requiredPermission: trace.requiredPermission,
+      permission: trace.permission,
+      policy: trace.policy,
+      approvedBy: trace.approvedBy,
+      durationMs: Date.now() - start,
+      ok: result?.ok === true,
+      errorClass: error === undefined ? undefined : error instanceof Error ? error.constructor.name : typeof error,
+      errorCode: error instanceof BotError ? error.code : undefined,
+      outputBytes: result?.ok ? outputBytes(result.value) : 0,
+    });
+  }
+}
+
+function outputBytes(message: OutgoingMessage): number {
+  switch (message.type) {
+    case 'text':
+      return Buffer.byteLength(message.text);
+    case 'code':
+      return Buffer.byteLength(message.code);
+    case 'error':
+      return Buffer.byteLength(message.message);
+    case 'file':
+      return message.data.length;
   }
 }
@@ -0,0 +1,239 @@
+import { mkdir, open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { PermissionLevelSchema } from '../models/user.js';
+import { ScheduledJobSchema } from '../models/job.js';
+import type { ScheduledJob } from '../models/job.js';
+import { HealthSubscriptionSchema, subscriptionKey } from '../models/health.js';
+import type { HealthSubscription } from '../models/health.js';
+import type {
+  IdentityStoreProtocol,
+  JobStoreProtocol,
+  PermissionLevel,
+  PermissionStoreProtocol,
+  SubscriptionStoreProtocol,
+} from './types.js';
+import { ConfigError } from '../errors.js';
+
+/** How long to wait for another writer's lock before giving up */
+const LOCK_TIMEOUT_MS = 5_000;
+/** A lock older than this is assumed to belong to a crashed process */
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// JSON file with locked read-modify-write
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The on-disk document. Each file store owns one section and preserves the
+ * others, so they can all share a single file.
+ */
+interface BotStateFile {
+  permissions?: Record<string, PermissionLevel>;
+  identities?: Record<string, string>;
+  jobs?: Record<string, unknown>;
+  subscriptions?: Record<string, unknown>;
+  [section: string]: unknown;
+}
+
+/**
+ * Writes are serialized in-process and guarded across processes by a
+ * `<path>.lock` file created with O_EXCL. Every update re-reads the file under
+ * the lock, so concurrent writers merge instead of overwriting each other.
+ * The new content is written to a temp file and renamed into place, so readers
+ * never see a partial document.
+ */
+class JsonStateFile {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async read(): Promise<BotStateFile> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw err;
+    }
+    try {
+      return raw.trim() ? (JSON.parse(raw) as BotStateFile) : {};
+    } catch (err) {
+      throw new ConfigError(`Corrupt bot state file: ${this.path}`, {
+        path: this.path,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  update(mutate: (state: BotStateFile) => void): Promise<void> {
+    const next = this.queue.then(() => this.withLock(async () => {
+      const state = await this.read();
+      mutate(state);
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(state, null, 2) + '\n', 'utf-8');
+      await rename(tmp, this.path);
+    }));
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async withLock(fn: () => Promise<void>): Promise<void> {
+    const lockPath = `${this.path}.lock`;
+    await mkdir(dirname(this.path), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        const handle = await open(lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+
+      const lock = await stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > LOCK_STALE_MS) {
+        await rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new ConfigError(`Timed out waiting for lock on ${this.path}`, { lockPath });
+      }
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+    }
+
+    try {
+      await fn();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stores
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Permission levels persisted in a JSON file (`permissions` section).
+ * Reads go to disk, so grants made by another process are seen immediately.
+ */
+export class FilePermissionStore implements PermissionStoreProtocol {
+  private readonly file: JsonStateFile;
+
+  constructor(path: string) {
+    this.file = new JsonStateFile(path);
+  }
+
+  async getLevel(userId: string): Promise<PermissionLevel> {
+    const { permissions = {} } = await this.file.read();
+    const parsed = PermissionLevelSchema.safeParse(permissions[userId]);
+    return parsed.success ? parsed.data : 'NONE';
+  }
+
+  async setLevel(userId: string, level: PermissionLevel): Promise<void> {
+    await this.file.update((state) => {
+      state.permissions = { ...state.permissions, [userId]: level };
+    });
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.file.update((state) => {
+      if (!state.permissions) return;
+      delete state.permissions[userId];
+    });
+  }
+}
+
+/**
+ * IdentityMap links persisted in a JSON file (`identities` section).
+ * Pass the same path as FilePermissionStore to keep all bot state in one file.
+ */
+export class FileIdentityStore implements IdentityStoreProtocol {
+  private readonly file: JsonStateFile;
+
+  constructor(path: string) {
+    this.file = new JsonStateFile(path);
+  }
+
+  async load(): Promise<Record<string, string>> {
+    const { identities = {} } = await this.file.read();
+    return identities;
+  }
+
+  async apply(changes: Record<string, string | null>): Promise<void> {
+    await this.file.update((state) => {
+      const identities = { ...state.identities };
+      for (const [id, canonical] of Object.entries(changes)) {
+        if (canonical === null) delete identities[id];
+        else identities[id] = canonical;
+      }
+      state.identities = identities;
+    });
+  }
+}
+
+/**
+ * Scheduled jobs persisted in a JSON file (`jobs` section). Entries that no
+ * longer match ScheduledJobSchema are skipped rather than failing the load.
+ * Run one scheduler per file — two processes would both run every job.
+ */
+export class FileJobStore implements JobStoreProtocol {
+  private readonly file: JsonStateFile;
+
+  constructor(path: string) {
+    this.file = new JsonStateFile(path);
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    const { jobs = {} } = await this.file.read();
+    return Object.values(jobs).flatMap((raw) => {
+      const parsed = ScheduledJobSchema.safeParse(raw);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+
+  async save(job: ScheduledJob): Promise<void> {
+    await this.file.update((state) => {
+      state.jobs = { ...state.jobs, [job.id]: job };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.file.update((state) => {
+      if (!state.jobs) return;
+      delete state.jobs[id];
+    });
+  }
+}
+
+/** Health alert subscriptions persisted in a JSON file (`subscriptions` section) */
+export class FileSubscriptionStore implements SubscriptionStoreProtocol {
+  private readonly file: JsonStateFile;
+
+  constructor(path: string) {
+    this.file = new JsonStateFile(path);
+  }
+
+  async list(): Promise<HealthSubscription[]> {
+    const { subscriptions = {} } = await this.file.read();
+    return Object.values(subscriptions).flatMap((raw) => {
+      const parsed = HealthSubscriptionSchema.safeParse(raw);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+
+  async save(subscription: HealthSubscription): Promise<void> {
+    await this.file.update((state) => {
+      state.subscriptions = { ...state.subscriptions, [subscriptionKey(subscription)]: subscription };
+    });
+  }
+
+  async delete(subscription: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>): Promise<void> {
+    await this.file.update((state) => {
+      if (!state.subscriptions) return;
+      delete state.subscriptions[subscriptionKey(subscription)];
+    });
+  }
+}
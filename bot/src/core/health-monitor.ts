@@ -0,0 +1,358 @@
+import type { RemoteAgentInfo } from '@cmdop/node';
+import type { LoggerProtocol, SubscriptionStoreProtocol } from './types.js';
+import { InMemorySubscriptionStore } from './subscription-store.js';
+import { formatDuration } from './schedule.js';
+import { ALL_MACHINES } from '../models/health.js';
+import type { HealthEvent, HealthSubscription, MachineStatus } from '../models/health.js';
+import type { OutgoingMessage } from '../models/message.js';
+
+/** What one poll saw for a machine */
+export interface MachineObservation {
+  hostname: string;
+  status: MachineStatus;
+  version: string;
+  lastSeen?: Date | null;
+}
+
+/** A machine's confirmed health, as the monitor tracks it */
+export interface MachineHealth {
+  readonly hostname: string;
+  readonly status: MachineStatus;
+  /** When the current status was first observed */
+  readonly since: Date;
+  readonly version: string;
+  /** Alerts are paused because the status keeps changing */
+  readonly flapping: boolean;
+}
+
+export interface HealthMonitorOptions {
+  /** Remote machines, e.g. `new AgentDiscovery(apiKey).listAgents()` */
+  listAgents?: () => Promise<RemoteAgentInfo[]>;
+  /**
+   * The machine the client is connected to, e.g. the local agent via `client.healthCheck()`.
+   * A failed check counts as offline.
+   */
+  healthCheck?: {
+    hostname: string;
+    check: () => Promise<{ healthy: boolean; version: string }>;
+  };
+  /** Default: in-memory, subscriptions are lost on restart */
+  store?: SubscriptionStoreProtocol;
+  /** Post an alert to a subscriber */
+  deliver: (subscription: HealthSubscription, message: OutgoingMessage) => Promise<void>;
+  /** Time between polls. Default: 60000 */
+  pollIntervalMs?: number;
+  /** Consecutive polls a new status must be seen in before it counts. Default: 2 */
+  confirmPolls?: number;
+  /** Alert when a machine stays busy this long. Default: 15 minutes */
+  busyAlertMs?: number;
+  /** This many status changes within flapWindowMs pause alerts for a machine. Default: 4 */
+  flapThreshold?: number;
+  /** Default: 30 minutes */
+  flapWindowMs?: number;
+}
+
+interface MachineState {
+  hostname: string;
+  status: MachineStatus;
+  since: Date;
+  version: string;
+  lastSeen?: Date | null;
+  /** A different status seen on recent polls, not yet confirmed */
+  pending?: { status: MachineStatus; count: number; since: Date };
+  /** Confirmed status changes inside the flap window */
+  changes: number[];
+  flapping: boolean;
+  /** An offline or busy alert went out, so the recovery is announced too */
+  offlineAlerted: boolean;
+  busyAlerted: boolean;
+}
+
+interface Alert {
+  hostname: string;
+  event: HealthEvent;
+  text: string;
+}
+
+/**
+ * Polls machine status and tells subscribers when machines go offline, stay
+ * busy too long, change agent version, and recover.
+ *
+ * A status change must be seen on `confirmPolls` consecutive polls before it
+ * is believed, so a single missed heartbeat does not page anyone. A machine
+ * that changes status `flapThreshold` times within `flapWindowMs` gets one
+ * "flapping" alert, then silence until it has been stable for a full window.
+ * The first poll only records a baseline. Nothing is polled while there are
+ * no subscriptions.
+ */
+export class HealthMonitor {
+  private readonly options: HealthMonitorOptions;
+  private readonly store: SubscriptionStoreProtocol;
+  private readonly pollIntervalMs: number;
+  private readonly confirmPolls: number;
+  private readonly busyAlertMs: number;
+  private readonly flapThreshold: number;
+  private readonly flapWindowMs: number;
+  private readonly machines = new Map<string, MachineState>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(
+    private readonly logger: LoggerProtocol,
+    options: HealthMonitorOptions,
+  ) {
+    this.options = options;
+    this.store = options.store ?? new InMemorySubscriptionStore();
+    this.pollIntervalMs = options.pollIntervalMs ?? 60_000;
+    this.confirmPolls = Math.max(1, options.confirmPolls ?? 2);
+    this.busyAlertMs = options.busyAlertMs ?? 15 * 60_000;
+    this.flapThreshold = options.flapThreshold ?? 4;
+    this.flapWindowMs = options.flapWindowMs ?? 30 * 60_000;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Start polling. Called by IntegrationHub.start(). */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedulePoll();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  /** Add or replace the user's subscription to a machine (or ALL_MACHINES) */
+  async subscribe(subscription: Omit<HealthSubscription, 'createdAt'>): Promise<HealthSubscription> {
+    const saved = { ...subscription, createdAt: new Date() };
+    await this.store.save(saved);
+    this.logger.info('Health subscription added', {
+      userId: saved.userId,
+      channel: saved.channel,
+      machine: saved.machine,
+      events: saved.events,
+    });
+    return saved;
+  }
+
+  /** Returns false when there was no such subscription */
+  async unsubscribe(subscription: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>): Promise<boolean> {
+    const existing = (await this.store.list()).some((s) => sameSubscription(s, subscription));
+    if (!existing) return false;
+    await this.store.delete(subscription);
+    this.logger.info('Health subscription removed', {
+      userId: subscription.userId,
+      channel: subscription.channel,
+      machine: subscription.machine,
+    });
+    return true;
+  }
+
+  async subscriptions(): Promise<HealthSubscription[]> {
+    return this.store.list();
+  }
+
+  /** Last known health of every machine seen so far */
+  status(): MachineHealth[] {
+    return [...this.machines.values()].map(({ hostname, status, since, version, flapping }) => ({
+      hostname, status, since, version, flapping,
+    }));
+  }
+
+  /** Poll once and send any alerts. Runs on a timer after start(); public for manual checks. */
+  async poll(): Promise<void> {
+    const subscriptions = await this.store.list();
+    if (subscriptions.length === 0) {
+      // Without listeners there is nothing to compare against later either
+      this.machines.clear();
+      return;
+    }
+
+    let observed: Map<string, MachineObservation>;
+    try {
+      observed = await this.observe();
+    } catch (e) {
+      // The discovery API being down says nothing about the machines
+      this.logger.warn('Health poll failed', { err: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+
+    const now = new Date();
+    const alerts: Alert[] = [];
+    for (const hostname of new Set([...this.machines.keys(), ...observed.keys()])) {
+      const seen = observed.get(hostname);
+      const state = this.machines.get(hostname);
+      if (!state) {
+        if (seen) this.machines.set(hostname, newState(seen, now));
+        continue;
+      }
+      // A machine missing from the listing is treated as offline
+      alerts.push(...this.update(state, seen ?? { hostname, status: 'offline', version: state.version }, now));
+    }
+
+    for (const alert of alerts) await this.send(alert, subscriptions);
+  }
+
+  private schedulePoll(): void {
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((e: unknown) => {
+          this.logger.error('Health monitor error', { err: e instanceof Error ? e.message : String(e) });
+        })
+        .finally(() => {
+          if (this.running) this.schedulePoll();
+        });
+    }, this.pollIntervalMs);
+  }
+
+  private async observe(): Promise<Map<string, MachineObservation>> {
+    const observed = new Map<string, MachineObservation>();
+
+    if (this.options.listAgents) {
+      for (const agent of await this.options.listAgents()) {
+        observed.set(agent.hostname, {
+          hostname: agent.hostname,
+          status: agent.status,
+          version: agent.version,
+          lastSeen: agent.lastSeen,
+        });
+      }
+    }
+
+    const local = this.options.healthCheck;
+    if (local) {
+      const result = await local.check().catch(() => ({ healthy: false, version: '' }));
+      observed.set(local.hostname, {
+        hostname: local.hostname,
+        status: result.healthy ? 'online' : 'offline',
+        version: result.version,
+      });
+    }
+    return observed;
+  }
+
+  private update(state: MachineState, seen: MachineObservation, now: Date): Alert[] {
+    const alerts: Alert[] = [];
+    const { hostname } = state;
+    if (seen.lastSeen !== undefined) state.lastSeen = seen.lastSeen;
+
+    // Versions are only reported by running agents
+    if (seen.status !== 'offline' && seen.version && state.version && seen.version !== state.version) {
+      alerts.push({ hostname, event: 'version', text: `🔄 **${hostname}** agent updated: ${state.version} → ${seen.version}` });
+    }
+    if (seen.version) state.version = seen.version;
+
+    if (seen.status === state.status) {
+      state.pending = undefined;
+    } else if (state.pending?.status === seen.status) {
+      state.pending.count++;
+    } else {
+      state.pending = { status: seen.status, count: 1, since: now };
+    }
+    if (state.pending && state.pending.count >= this.confirmPolls) {
+      alerts.push(...this.transition(state, state.pending.status, state.pending.since, now));
+      state.pending = undefined;
+    }
+
+    if (state.status === 'busy' && !state.busyAlerted && !state.flapping && elapsed(state.since, now) >= this.busyAlertMs) {
+      state.busyAlerted = true;
+      alerts.push({ hostname, event: 'busy', text: `⏳ **${hostname}** has been busy for ${formatDuration(elapsed(state.since, now))}` });
+    }
+
+    // Flapping ends once a whole window passes without a change
+    state.changes = state.changes.filter((t) => now.getTime() - t < this.flapWindowMs);
+    if (state.flapping && state.changes.length === 0) {
+      state.flapping = false;
+      state.offlineAlerted = state.status === 'offline';
+      alerts.push({ hostname, event: 'offline', text: `${statusIcon(state.status)} **${hostname}** has settled: ${state.status}` });
+    }
+    return alerts;
+  }
+
+  private transition(state: MachineState, to: MachineStatus, since: Date, now: Date): Alert[] {
+    const { hostname } = state;
+    const from = state.status;
+    const lasted = elapsed(state.since, since);
+    state.status = to;
+    state.since = since;
+    state.changes.push(now.getTime());
+    this.logger.info('Machine status changed', { machine: hostname, from, to });
+
+    if (state.flapping) return [];
+    if (state.changes.filter((t) => now.getTime() - t < this.flapWindowMs).length >= this.flapThreshold) {
+      state.flapping = true;
+      state.busyAlerted = false;
+      return [{
+        hostname,
+        event: 'offline',
+        text: `⚠️ **${hostname}** is flapping (${state.changes.length} status changes in ` +
+          `${formatDuration(this.flapWindowMs)}). Alerts are paused until it settles.`,
+      }];
+    }
+
+    const alerts: Alert[] = [];
+    if (from === 'busy' && state.busyAlerted) {
+      state.busyAlerted = false;
+      alerts.push({ hostname, event: 'busy', text: `✅ **${hostname}** is no longer busy (busy for ${formatDuration(lasted)})` });
+    }
+    if (to === 'offline') {
+      state.offlineAlerted = true;
+      const lastSeen = state.lastSeen ? ` Last seen ${state.lastSeen.toISOString().slice(0, 16).replace('T', ' ')} UTC.` : '';
+      alerts.push({ hostname, event: 'offline', text: `🔴 **${hostname}** went offline.${lastSeen}` });
+    } else if (from === 'offline' && state.offlineAlerted) {
+      state.offlineAlerted = false;
+      alerts.push({ hostname, event: 'offline', text: `✅ **${hostname}** is back online after ${formatDuration(lasted)}` });
+    }
+    return alerts;
+  }
+
+  private async send(alert: Alert, subscriptions: HealthSubscription[]): Promise<void> {
+    const targets = subscriptions.filter((s) =>
+      s.events.includes(alert.event) &&
+      (s.machine === ALL_MACHINES || s.machine.toLowerCase() === alert.hostname.toLowerCase()));
+
+    for (const subscription of targets) {
+      await this.options.deliver(subscription, { type: 'text', text: alert.text }).catch((e: unknown) => {
+        this.logger.warn('Failed to deliver health alert', {
+          machine: alert.hostname,
+          userId: subscription.userId,
+          channel: subscription.channel,
+          err: e instanceof Error ? e.message : String(e),
+        });
+      });
+    }
+  }
+}
+
+function newState(seen: MachineObservation, now: Date): MachineState {
+  return {
+    hostname: seen.hostname,
+    status: seen.status,
+    since: now,
+    version: seen.version,
+    lastSeen: seen.lastSeen,
+    changes: [],
+    flapping: false,
+    offlineAlerted: false,
+    busyAlerted: false,
+  };
+}
+
+function sameSubscription(
+  a: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>,
+  b: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>,
+): boolean {
+  return a.userId === b.userId && a.channel === b.channel && a.machine.toLowerCase() === b.machine.toLowerCase();
+}
+
+function elapsed(from: Date, to: Date): number {
+  return Math.max(0, to.getTime() - from.getTime());
+}
+
+function statusIcon(status: MachineStatus): string {
+  return status === 'online' ? '🟢' : status === 'busy' ? '⏳' : '🔴';
+}
@@ -0,0 +1,26 @@
+import type { JobStoreProtocol } from './types.js';
+import type { ScheduledJob } from '../models/job.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-memory store (default, no persistence)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keeps scheduled jobs in process memory. Jobs are lost on restart — pass
+ * FileJobStore (or another JobStoreProtocol) to IntegrationHub to keep them.
+ */
+export class InMemoryJobStore implements JobStoreProtocol {
+  private readonly store = new Map<string, ScheduledJob>();
+
+  async list(): Promise<ScheduledJob[]> {
+    return [...this.store.values()];
+  }
+
+  async save(job: ScheduledJob): Promise<void> {
+    this.store.set(job.id, job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.store.delete(id);
+  }
+}
@@ -1,5 +1,5 @@
 import { PermissionDeniedError } from '../errors.js';
-import type { PermissionLevel, PermissionStoreProtocol } from './types.js';
+import type { IdentityStoreProtocol, PermissionLevel, PermissionStoreProtocol } from './types.js';
 import { PERMISSION_ORDER } from '../models/user.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -42,10 +42,29 @@ export class InMemoryPermissionStore implements PermissionStoreProtocol {
  * Example:
  *   map.link('telegram:12345', 'discord:67890');
  *   map.resolve('discord:67890') // → 'telegram:12345'  (canonical = first linked)
+ *
+ * With a store (see IdentityMap.load), link() and unlink() stay synchronous and
+ * write their changes in the background, in order. Await flush() to confirm
+ * they were persisted.
  */
 export class IdentityMap {
   // Maps any platform ID → canonical ID
   private readonly links = new Map<string, string>();
+  private pending: Promise<void> = Promise.resolve();
+  private writeError: Error | null = null;
+
+  constructor(private readonly store?: IdentityStoreProtocol) {}
+
+  /**
+   * Create an IdentityMap backed by a store, pre-filled with its saved links.
+   */
+  static async load(store: IdentityStoreProtocol): Promise<IdentityMap> {
+    const map = new IdentityMap(store);
+    for (const [id, canonical] of Object.entries(await store.load())) {
+      map.links.set(id, canonical);
+    }
+    return map;
+  }
 
   /**
    * Build a namespaced platform ID.
@@ -64,12 +83,20 @@ export class IdentityMap {
     const canonB = this.resolve(idB);
     if (canonA === canonB) return; // already the same identity
 
+    const changes: Record<string, string> = {};
+    const set = (key: string, val: string): void => {
+      this.links.set(key, val);
+      changes[key] = val;
+    };
+
     // Merge B's group into A's canonical
     for (const [key, val] of this.links.entries()) {
-      if (val === canonB) this.links.set(key, canonA);
+      if (val === canonB) set(key, canonA);
     }
-    this.links.set(idB, canonA);
-    if (!this.links.has(idA)) this.links.set(idA, canonA);
+    set(idB, canonA);
+    if (!this.links.has(idA)) set(idA, canonA);
+
+    this.persist(changes);
   }
 
   /**
@@ -85,7 +112,8 @@ export class IdentityMap {
    * The canonical group still exists — only this ID is unlinked.
    */
   unlink(id: string): void {
-    this.links.delete(id);
+    if (!this.links.delete(id)) return;
+    this.persist({ [id]: null });
   }
 
   /**
@@ -94,6 +122,27 @@ export class IdentityMap {
   areSameIdentity(idA: string, idB: string): boolean {
     return this.resolve(idA) === this.resolve(idB);
   }
+
+  /**
+   * Wait for pending store writes.
+   * Throws the first write error since the last flush(), if any.
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) throw error;
+  }
+
+  private persist(changes: Record<string, string | null>): void {
+    const store = this.store;
+    if (!store) return;
+    this.pending = this.pending
+      .then(() => store.apply(changes))
+      .catch((err: unknown) => {
+        this.writeError ??= err instanceof Error ? err : new Error(String(err));
+      });
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
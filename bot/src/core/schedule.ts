@@ -0,0 +1,181 @@
+import { InvalidScheduleError } from '../errors.js';
+
+/**
+ * Schedules for JobScheduler.
+ *
+ * Two forms are accepted:
+ *   every 15m            — fixed interval (s, m, h, d units; combine as 1h30m)
+ *   0 9 * * 1-5          — 5-field cron: minute hour day-of-month month day-of-week,
+ *                          evaluated in the server's local time zone
+ * plus the cron shorthands @hourly, @daily, @weekly and @monthly.
+ */
+export interface Schedule {
+  /** The schedule as written */
+  readonly text: string;
+  /** The first run time strictly after `after` */
+  next(after: Date): Date;
+}
+
+/** Shortest interval accepted — jobs post to chat, so faster is noise */
+export const MIN_INTERVAL_MS = 60_000;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/** Parse "every 15m" or a cron expression. Throws InvalidScheduleError. */
+export function parseSchedule(text: string): Schedule {
+  const trimmed = text.trim();
+  if (/^every\b/i.test(trimmed)) return parseInterval(trimmed);
+  return parseCron(trimmed);
+}
+
+/** Rounded to minutes for chat: 90_000 → "2m", 5_400_000 → "1h30m" */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60_000));
+  if (minutes < 1) return 'under a minute';
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, mins && `${mins}m`].filter(Boolean).join('');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Interval
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseInterval(text: string): Schedule {
+  const spec = text.replace(/^every\s*/i, '').replace(/\s+/g, '').toLowerCase();
+  const parts = spec.match(/\d+(?:seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d)/g);
+  if (!spec || !parts || parts.join('') !== spec) {
+    throw new InvalidScheduleError(text, 'expected an interval like "every 15m" or "every 1h30m"');
+  }
+
+  const ms = parts.reduce((sum, part) => {
+    const [, amount, unit] = /^(\d+)(\D+)$/.exec(part)!;
+    return sum + Number(amount) * UNIT_MS[unit![0]!]!;
+  }, 0);
+  if (ms < MIN_INTERVAL_MS) {
+    throw new InvalidScheduleError(text, 'the shortest interval is 1 minute');
+  }
+
+  return { text, next: (after) => new Date(after.getTime() + ms) };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cron
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month', min: 1, max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is Sunday too, as in most crons
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/** No match within this many years means the expression can never fire, e.g. Feb 30 */
+const CRON_SEARCH_YEARS = 5;
+
+function parseCron(text: string): Schedule {
+  const expr = CRON_ALIASES[text.toLowerCase()] ?? text;
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidScheduleError(text, 'expected "every <interval>" or 5 cron fields (minute hour day month weekday)');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(text, f, CRON_FIELDS[i]!));
+  if (weekdays!.delete(7)) weekdays!.add(0);
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  const dayRestricted = !fields[2]!.startsWith('*');
+  const weekdayRestricted = !fields[4]!.startsWith('*');
+
+  const dayMatches = (d: Date): boolean => {
+    const day = days!.has(d.getDate());
+    const weekday = weekdays!.has(d.getDay());
+    return dayRestricted && weekdayRestricted ? day || weekday : day && weekday;
+  };
+
+  const next = (after: Date): Date => {
+    const d = new Date(after.getTime());
+    d.setSeconds(0, 0);
+    d.setMinutes(d.getMinutes() + 1);
+    const limit = after.getTime() + CRON_SEARCH_YEARS * 366 * UNIT_MS.d!;
+
+    // Skip whole months, days and hours that cannot match
+    while (d.getTime() <= limit) {
+      if (!months!.has(d.getMonth() + 1)) {
+        d.setMonth(d.getMonth() + 1, 1);
+        d.setHours(0, 0, 0, 0);
+      } else if (!dayMatches(d)) {
+        d.setDate(d.getDate() + 1);
+        d.setHours(0, 0, 0, 0);
+      } else if (!hours!.has(d.getHours())) {
+        d.setHours(d.getHours() + 1, 0, 0, 0);
+      } else if (!minutes!.has(d.getMinutes())) {
+        d.setMinutes(d.getMinutes() + 1, 0, 0);
+      } else {
+        return d;
+      }
+    }
+    throw new InvalidScheduleError(text, 'it never matches a date');
+  };
+
+  // Reject expressions that can never fire up front
+  next(new Date());
+  return { text, next };
+}
+
+/** One cron field: `*`, `5`, `1-5`, `*\/15`, `0-30/10`, lists of those, and month/day names */
+function parseField(text: string, field: string, spec: CronField): Set<number> {
+  const values = new Set<number>();
+  const value = (raw: string): number => {
+    const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+    const n = named >= 0 ? named + spec.min : /^\d+$/.test(raw) ? Number(raw) : NaN;
+    if (!(n >= spec.min && n <= spec.max)) {
+      throw new InvalidScheduleError(text, `${spec.name} '${raw}' is not between ${spec.min} and ${spec.max}`);
+    }
+    return n;
+  };
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|[^-/]+(?:-[^-/]+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new InvalidScheduleError(text, `cannot read ${spec.name} '${part}'`);
+    const [, range, rawStep] = match;
+    const step = rawStep === undefined ? 1 : Number(rawStep);
+    if (step < 1) throw new InvalidScheduleError(text, `${spec.name} step must be at least 1`);
+
+    let from = spec.min;
+    let to = spec.max;
+    if (range !== '*') {
+      const [start, end] = range!.split('-');
+      from = value(start!);
+      // `5/15` means from 5 to the end of the range
+      to = end !== undefined ? value(end) : rawStep !== undefined ? spec.max : from;
+    }
+    if (from > to) throw new InvalidScheduleError(text, `${spec.name} range '${part}' is backwards`);
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
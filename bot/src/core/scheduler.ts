@@ -0,0 +1,318 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { err } from './types.js';
+import type { HandlerResult, JobStoreProtocol, LoggerProtocol } from './types.js';
+import type { MessageDispatcher } from './dispatcher.js';
+import { InMemoryJobStore } from './job-store.js';
+import { parseSchedule } from './schedule.js';
+import type { Schedule } from './schedule.js';
+import type { CommandContext } from '../models/command.js';
+import type { JobNotify, ScheduledJob } from '../models/job.js';
+import type { OutgoingMessage } from '../models/message.js';
+import { BotError, CommandArgsError, CommandNotFoundError } from '../errors.js';
+
+/** Commands that manage jobs cannot be jobs themselves */
+const UNSCHEDULABLE = new Set(['schedule', 'jobs']);
+
+/** setTimeout's upper bound (~24.8 days); longer waits are re-armed in steps */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/** Who a job runs as and where its results go — usually taken from the scheduling command */
+export interface ScheduleContext {
+  userId: string;
+  /** Bot channel (platform) the results are posted on, e.g. "telegram" */
+  channel: string;
+  channelId: string;
+  threadId?: string;
+  /** Command to run, without the slash, e.g. "exec" */
+  command: string;
+  args?: readonly string[];
+  machine?: string;
+}
+
+export interface ScheduleOptions {
+  /** When a run is posted to chat. Default: 'always' */
+  notify?: JobNotify;
+}
+
+export interface JobSchedulerOptions {
+  /** Default: in-memory, jobs are lost on restart */
+  store?: JobStoreProtocol;
+  /** Post a run's result to the job's chat */
+  deliver: (job: ScheduledJob, message: OutgoingMessage) => Promise<void>;
+}
+
+interface ArmedJob {
+  job: ScheduledJob;
+  schedule: Schedule;
+  nextRunAt: Date;
+  timer: ReturnType<typeof setTimeout> | undefined;
+  cancelled: boolean;
+}
+
+/**
+ * Runs stored commands on an interval or cron schedule.
+ *
+ * Each run goes through MessageDispatcher.dispatch as the job's owner, so
+ * permission checks, command policy and the audit log apply exactly as if
+ * the owner had typed the command. A run that is still going when its next
+ * time comes delays that run; missed runs (bot offline) are not replayed.
+ */
+export class JobScheduler {
+  private readonly store: JobStoreProtocol;
+  private readonly deliver: JobSchedulerOptions['deliver'];
+  private readonly armed = new Map<string, ArmedJob>();
+  private running = false;
+
+  constructor(
+    private readonly dispatcher: MessageDispatcher,
+    private readonly logger: LoggerProtocol,
+    options: JobSchedulerOptions,
+  ) {
+    this.store = options.store ?? new InMemoryJobStore();
+    this.deliver = options.deliver;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Load stored jobs and start their timers. Called by IntegrationHub.start(). */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    for (const job of await this.store.list()) {
+      try {
+        this.arm(job, parseSchedule(job.schedule));
+      } catch (e) {
+        this.logger.warn('Skipping scheduled job with an invalid schedule', {
+          jobId: job.id,
+          schedule: job.schedule,
+          err: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+    this.logger.info('Job scheduler started', { jobs: this.armed.size });
+  }
+
+  /** Stop all timers. Runs in progress finish but are not re-armed. */
+  stop(): void {
+    this.running = false;
+    for (const entry of this.armed.values()) clearTimeout(entry.timer);
+    this.armed.clear();
+  }
+
+  /**
+   * Store a new job and, once started, arm it.
+   * Throws InvalidScheduleError, CommandNotFoundError or CommandArgsError.
+   */
+  async add(schedule: string, ctx: ScheduleContext, options: ScheduleOptions = {}): Promise<ScheduledJob> {
+    const parsed = parseSchedule(schedule);
+    if (!this.dispatcher.hasCommand(ctx.command)) {
+      throw new CommandNotFoundError(ctx.command);
+    }
+    if (UNSCHEDULABLE.has(ctx.command)) {
+      throw new CommandArgsError('schedule', `/${ctx.command} cannot be scheduled`);
+    }
+
+    const job: ScheduledJob = {
+      id: randomBytes(4).toString('hex'),
+      schedule: parsed.text,
+      command: ctx.command,
+      args: [...(ctx.args ?? [])],
+      userId: ctx.userId,
+      channel: ctx.channel,
+      channelId: ctx.channelId,
+      ...(ctx.threadId ? { threadId: ctx.threadId } : {}),
+      ...(ctx.machine ? { machine: ctx.machine } : {}),
+      notify: options.notify ?? 'always',
+      createdAt: new Date(),
+    };
+    await this.store.save(job);
+    if (this.running) this.arm(job, parsed);
+
+    this.logger.info('Job scheduled', {
+      jobId: job.id,
+      userId: job.userId,
+      schedule: job.schedule,
+      command: job.command,
+      notify: job.notify,
+    });
+    return job;
+  }
+
+  /** Remove a job. Returns it, or undefined when there is no such job. */
+  async cancel(id: string): Promise<ScheduledJob | undefined> {
+    const job = (await this.store.list()).find((j) => j.id === id);
+    const entry = this.armed.get(id);
+    if (entry) {
+      clearTimeout(entry.timer);
+      entry.cancelled = true;
+      this.armed.delete(id);
+    }
+    if (!job) return undefined;
+
+    await this.store.delete(id);
+    this.logger.info('Job cancelled', { jobId: id, userId: job.userId });
+    return job;
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    return (await this.store.list()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /** When an armed job runs next */
+  nextRunAt(id: string): Date | undefined {
+    return this.armed.get(id)?.nextRunAt;
+  }
+
+  private arm(job: ScheduledJob, schedule: Schedule): void {
+    const nextRunAt = nextRun(schedule, job.lastRunAt ?? job.createdAt);
+    const entry: ArmedJob = { job, schedule, nextRunAt, timer: undefined, cancelled: false };
+    this.armed.set(job.id, entry);
+    this.wait(entry);
+  }
+
+  private wait(entry: ArmedJob): void {
+    const delay = entry.nextRunAt.getTime() - Date.now();
+    entry.timer = setTimeout(() => {
+      if (delay > MAX_TIMER_MS) this.wait(entry);
+      else void this.run(entry);
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_MS));
+  }
+
+  private async run(entry: ArmedJob): Promise<void> {
+    const { job } = entry;
+    const startedAt = new Date();
+    const result = await this.execute(job);
+    if (entry.cancelled) return;
+
+    const failed = isFailure(result);
+    const hash = fingerprint(result);
+    const notice = this.notice(job, result, failed, hash);
+    const updated: ScheduledJob = { ...job, lastRunAt: startedAt, lastOk: !failed, lastOutputHash: hash };
+
+    entry.job = updated;
+    // stop() while it ran — keep the result, but do not re-arm
+    if (this.armed.get(job.id) === entry) {
+      entry.nextRunAt = nextRun(entry.schedule, startedAt);
+      this.wait(entry);
+    }
+
+    this.logger.info('Job ran', { jobId: job.id, command: job.command, ok: !failed, notified: notice !== undefined });
+    try {
+      await this.store.save(updated);
+      // A cancel that landed while saving must not be undone by it
+      if (entry.cancelled) await this.store.delete(job.id);
+    } catch (e) {
+      this.logger.warn('Failed to save job state', { jobId: job.id, err: e instanceof Error ? e.message : String(e) });
+    }
+    if (notice && !entry.cancelled) {
+      await this.deliver(updated, notice).catch((e: unknown) => {
+        this.logger.warn('Failed to deliver job result', {
+          jobId: job.id,
+          channel: job.channel,
+          userId: job.userId,
+          err: e instanceof Error ? e.message : String(e),
+        });
+      });
+    }
+  }
+
+  private async execute(job: ScheduledJob): Promise<HandlerResult> {
+    const ctx: CommandContext = {
+      userId: job.userId,
+      command: job.command,
+      args: job.args,
+      channelId: job.channelId,
+      channel: job.channel,
+      machine: job.machine,
+      message: {
+        id: `job-${job.id}-${Date.now()}`,
+        userId: job.userId,
+        channelId: job.channelId,
+        text: commandLine(job),
+        timestamp: new Date(),
+        attachments: [],
+        threadId: job.threadId,
+      },
+    };
+    try {
+      return await this.dispatcher.dispatch(ctx);
+    } catch (e) {
+      return err(e instanceof BotError ? e : new BotError('Unexpected error', { cause: e instanceof Error ? e : undefined }));
+    }
+  }
+
+  /** The message to post for a run, or undefined when the job's notify condition says to stay quiet */
+  private notice(job: ScheduledJob, result: HandlerResult, failed: boolean, hash: string): OutgoingMessage | undefined {
+    const header = `⏰ ${job.schedule} · ${commandLine(job)}${job.machine ? ` on ${job.machine}` : ''}`;
+    switch (job.notify) {
+      case 'always':
+        return withHeader(header, result);
+      case 'changed':
+        return hash === job.lastOutputHash ? undefined : withHeader(header, result);
+      case 'failed':
+        if (failed) return withHeader(`${header} — ❌ failed`, result);
+        return job.lastOk === false ? withHeader(`${header} — ✅ recovered`, result) : undefined;
+    }
+  }
+}
+
+/** The next run after `after`, or the next one from now when that time has already passed */
+function nextRun(schedule: Schedule, after: Date): Date {
+  const now = new Date();
+  const next = schedule.next(after);
+  return next > now ? next : schedule.next(now);
+}
+
+/** `/exec df -h` */
+export function commandLine(job: Pick<ScheduledJob, 'command' | 'args'>): string {
+  return ['/' + job.command, ...job.args].join(' ');
+}
+
+/** An error, an error message, or output with a non-zero exit code */
+function isFailure(result: HandlerResult): boolean {
+  if (!result.ok) return true;
+  const { value } = result;
+  return value.type === 'error' || (value.type === 'code' && (value.exitCode ?? 0) !== 0);
+}
+
+function fingerprint(result: HandlerResult): string {
+  const hash = createHash('sha256');
+  if (!result.ok) {
+    hash.update(`error:${result.error.message}`);
+  } else {
+    const message = result.value;
+    switch (message.type) {
+      case 'text':
+        hash.update(`text:${message.text}`);
+        break;
+      case 'code':
+        hash.update(`code:${message.exitCode ?? ''}:${message.code}`);
+        break;
+      case 'error':
+        hash.update(`error:${message.message}`);
+        break;
+      case 'file':
+        hash.update(`file:${message.filename}:`).update(message.data);
+        break;
+    }
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+function withHeader(header: string, result: HandlerResult): OutgoingMessage {
+  if (!result.ok) return { type: 'error', message: `${header}\n${result.error.message}` };
+  const message = result.value;
+  switch (message.type) {
+    case 'text':
+      return { ...message, text: `${header}\n${message.text}` };
+    case 'code':
+      return { type: 'text', text: `${header}\n\`\`\`\n${message.code.replace(/```/g, "''`")}\n\`\`\`` };
+    case 'error':
+      return { ...message, message: `${header}\n${message.message}` };
+    case 'file':
+      return { ...message, caption: message.caption ? `${header}\n${message.caption}` : header };
+  }
+}
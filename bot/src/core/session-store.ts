@@ -0,0 +1,27 @@
+import type { SessionStoreProtocol } from './types.js';
+import type { UserSession } from '../models/session.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-memory store (default, no persistence)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keeps per-user sessions (selected machine, last command) in process memory.
+ * Selections are lost on restart — pass a persistent SessionStoreProtocol to
+ * IntegrationHub to keep them.
+ */
+export class InMemorySessionStore implements SessionStoreProtocol {
+  private readonly store = new Map<string, UserSession>();
+
+  async get(userId: string): Promise<UserSession | null> {
+    return this.store.get(userId) ?? null;
+  }
+
+  async set(session: UserSession): Promise<void> {
+    this.store.set(session.userId, session);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.store.delete(userId);
+  }
+}
@@ -0,0 +1,140 @@
+import { PermissionLevelSchema } from '../models/user.js';
+import type { IdentityStoreProtocol, PermissionLevel, PermissionStoreProtocol } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Driver
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The subset of a synchronous SQLite driver the stores use. Satisfied by
+ * `better-sqlite3` and by `DatabaseSync` from `node:sqlite` (Node ≥ 22.5) —
+ * @cmdop/bot does not bundle either.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteStoreOptions {
+  /** Table name. Default: `bot_permissions` / `bot_identity_links` */
+  table?: string;
+  /** How long a writer waits for another connection's lock (ms). Default: 5000 */
+  busyTimeoutMs?: number;
+}
+
+function prepareConnection(db: SqliteDatabase, busyTimeoutMs: number): void {
+  // WAL lets readers run alongside a writer; busy_timeout queues writers from
+  // other processes instead of failing with SQLITE_BUSY
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.floor(busyTimeoutMs))}`);
+}
+
+function assertIdentifier(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid SQLite table name: ${name}`);
+  }
+  return name;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stores
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Permission levels in a SQLite table. Each grant is a single upsert, so
+ * concurrent writers (several bot processes on one database) never lose updates.
+ *
+ * Example:
+ *   import Database from 'better-sqlite3';
+ *   const store = new SqlitePermissionStore(new Database('bot.db'));
+ */
+export class SqlitePermissionStore implements PermissionStoreProtocol {
+  private readonly getStmt: SqliteStatement;
+  private readonly setStmt: SqliteStatement;
+  private readonly deleteStmt: SqliteStatement;
+
+  constructor(db: SqliteDatabase, options: SqliteStoreOptions = {}) {
+    const table = assertIdentifier(options.table ?? 'bot_permissions');
+    prepareConnection(db, options.busyTimeoutMs ?? 5000);
+    db.exec(`CREATE TABLE IF NOT EXISTS ${table} (
+      user_id TEXT PRIMARY KEY,
+      level TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`);
+
+    this.getStmt = db.prepare(`SELECT level FROM ${table} WHERE user_id = ?`);
+    this.setStmt = db.prepare(
+      `INSERT INTO ${table} (user_id, level, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET level = excluded.level, updated_at = excluded.updated_at`,
+    );
+    this.deleteStmt = db.prepare(`DELETE FROM ${table} WHERE user_id = ?`);
+  }
+
+  async getLevel(userId: string): Promise<PermissionLevel> {
+    const row = this.getStmt.get(userId) as { level: string } | undefined;
+    const parsed = PermissionLevelSchema.safeParse(row?.level);
+    return parsed.success ? parsed.data : 'NONE';
+  }
+
+  async setLevel(userId: string, level: PermissionLevel): Promise<void> {
+    this.setStmt.run(userId, level, new Date().toISOString());
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    this.deleteStmt.run(userId);
+  }
+}
+
+/**
+ * IdentityMap links in a SQLite table. Each apply() runs in one
+ * `BEGIN IMMEDIATE` transaction, so a merge of two identity groups is
+ * written atomically.
+ */
+export class SqliteIdentityStore implements IdentityStoreProtocol {
+  private readonly db: SqliteDatabase;
+  private readonly allStmt: SqliteStatement;
+  private readonly upsertStmt: SqliteStatement;
+  private readonly deleteStmt: SqliteStatement;
+
+  constructor(db: SqliteDatabase, options: SqliteStoreOptions = {}) {
+    const table = assertIdentifier(options.table ?? 'bot_identity_links');
+    this.db = db;
+    prepareConnection(db, options.busyTimeoutMs ?? 5000);
+    db.exec(`CREATE TABLE IF NOT EXISTS ${table} (
+      platform_id TEXT PRIMARY KEY,
+      canonical_id TEXT NOT NULL
+    )`);
+
+    this.allStmt = db.prepare(`SELECT platform_id, canonical_id FROM ${table}`);
+    this.upsertStmt = db.prepare(
+      `INSERT INTO ${table} (platform_id, canonical_id) VALUES (?, ?)
+       ON CONFLICT(platform_id) DO UPDATE SET canonical_id = excluded.canonical_id`,
+    );
+    this.deleteStmt = db.prepare(`DELETE FROM ${table} WHERE platform_id = ?`);
+  }
+
+  async load(): Promise<Record<string, string>> {
+    const rows = this.allStmt.all() as Array<{ platform_id: string; canonical_id: string }>;
+    return Object.fromEntries(rows.map((r) => [r.platform_id, r.canonical_id]));
+  }
+
+  async apply(changes: Record<string, string | null>): Promise<void> {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const [id, canonical] of Object.entries(changes)) {
+        if (canonical === null) this.deleteStmt.run(id);
+        else this.upsertStmt.run(id, canonical);
+      }
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+}
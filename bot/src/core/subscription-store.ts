@@ -0,0 +1,27 @@
+import type { SubscriptionStoreProtocol } from './types.js';
+import { subscriptionKey } from '../models/health.js';
+import type { HealthSubscription } from '../models/health.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// In-memory store (default, no persistence)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keeps health alert subscriptions in process memory. They are lost on restart —
+ * pass FileSubscriptionStore (or another SubscriptionStoreProtocol) to keep them.
+ */
+export class InMemorySubscriptionStore implements SubscriptionStoreProtocol {
+  private readonly store = new Map<string, HealthSubscription>();
+
+  async list(): Promise<HealthSubscription[]> {
+    return [...this.store.values()];
+  }
+
+  async save(subscription: HealthSubscription): Promise<void> {
+    this.store.set(subscriptionKey(subscription), subscription);
+  }
+
+  async delete(subscription: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>): Promise<void> {
+    this.store.delete(subscriptionKey(subscription));
+  }
+}
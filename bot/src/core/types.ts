@@ -1,6 +1,10 @@
-import type { OutgoingMessage, IncomingMessage } from '../models/message.js';
+import type { OutgoingMessage, IncomingMessage, Attachment } from '../models/message.js';
 import type { PermissionLevel } from '../models/user.js';
 import type { CommandContext, CommandInfo } from '../models/command.js';
+import type { UserSession } from '../models/session.js';
+import type { AuditEntry } from '../models/audit.js';
+import type { ScheduledJob } from '../models/job.js';
+import type { HealthSubscription } from '../models/health.js';
 import type { BotError } from '../errors.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -32,12 +36,45 @@ export interface ChannelProtocol {
   onMessage(handler: (msg: IncomingMessage) => Promise<void>): void;
 }
 
+/**
+ * Incremental reply a handler can write to while it works (ctx.reply).
+ * Only present when the channel can update a message in place.
+ */
+export interface ReplyStream {
+  /** Append reply text, e.g. agent tokens */
+  append(text: string): void;
+  /** Add a status line to the draft, e.g. tool activity */
+  status(line: string): void;
+}
+
+/** Channel side of a ReplyStream — replaces the draft with the handler's final result */
+export interface ChannelReplyStream extends ReplyStream {
+  /** True once the handler has written anything */
+  readonly started: boolean;
+  finish(message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * Downloads an incoming attachment with the channel's credentials (ctx.fetchAttachment).
+ * Rejects with FileTooLargeError once more than maxBytes arrive.
+ */
+export type AttachmentFetcher = (attachment: Attachment, options: { maxBytes: number }) => Promise<Buffer>;
+
 export interface HandlerProtocol {
   readonly name: string;
   readonly description: string;
   readonly usage: string;
   readonly requiredPermission: PermissionLevel;
+  /** Permission for this particular invocation, when it differs by subcommand. Defaults to requiredPermission. */
+  requiredPermissionFor?(ctx: CommandContext): PermissionLevel;
+  /**
+   * Claim a plain-text (non-command) message before it goes to the agent.
+   * Returning args runs this handler with them, permission checks included.
+   */
+  interceptText?(ctx: CommandContext): string[] | undefined;
   handle(ctx: CommandContext): Promise<HandlerResult>;
+  /** Release long-lived resources on shutdown */
+  close?(): Promise<void>;
 }
 
 export interface FormatterProtocol {
@@ -52,6 +89,49 @@ export interface PermissionStoreProtocol {
   deleteUser(userId: string): Promise<void>;
 }
 
+/**
+ * Persistence for IdentityMap links (platform ID → canonical ID).
+ * apply() receives only the entries a link/unlink changed, so concurrent
+ * writers touching different users do not overwrite each other.
+ */
+export interface IdentityStoreProtocol {
+  load(): Promise<Record<string, string>>;
+  /** Upsert changed links; null removes a link */
+  apply(changes: Record<string, string | null>): Promise<void>;
+}
+
+export interface SessionStoreProtocol {
+  get(userId: string): Promise<UserSession | null>;
+  set(session: UserSession): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+/** Persistence for JobScheduler. save() inserts or replaces a job by id. */
+export interface JobStoreProtocol {
+  list(): Promise<ScheduledJob[]>;
+  save(job: ScheduledJob): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/** Persistence for HealthMonitor subscriptions, one per user, channel and machine (see subscriptionKey) */
+export interface SubscriptionStoreProtocol {
+  list(): Promise<HealthSubscription[]>;
+  /** Insert, or replace the subscription with the same key */
+  save(subscription: HealthSubscription): Promise<void>;
+  delete(subscription: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>): Promise<void>;
+}
+
+/**
+ * Destination for audit entries (file, database, SIEM forwarder...).
+ * AuditLog calls write() once per dispatched command, without awaiting it
+ * before replying to the user; a failed write is logged, not retried.
+ */
+export interface AuditWriterProtocol {
+  write(entry: AuditEntry): Promise<void>;
+  /** Flush buffered entries and release files (called on hub stop) */
+  close?(): Promise<void>;
+}
+
 export interface LoggerProtocol {
   debug(msg: string, meta?: Record<string, unknown>): void;
   info(msg: string, meta?: Record<string, unknown>): void;
@@ -60,4 +140,4 @@ export interface LoggerProtocol {
 }
 
 // Re-export for convenience
-export type { OutgoingMessage, IncomingMessage, PermissionLevel, CommandContext, CommandInfo };
+export type { OutgoingMessage, IncomingMessage, PermissionLevel, CommandContext, CommandInfo, UserSession };
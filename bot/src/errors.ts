@@ -94,6 +94,33 @@ export class CommandArgsError extends HandlerError {
   }
 }
 
+export class CommandDeniedError extends HandlerError {
+  constructor(command: string, reason: string) {
+    super(`Command /${command} is not allowed: ${reason}`, {
+      code: 'COMMAND_DENIED',
+      context: { command, reason },
+    });
+  }
+}
+
+export class ApprovalError extends HandlerError {
+  constructor(message: string, requestId: string) {
+    super(message, {
+      code: 'APPROVAL_ERROR',
+      context: { requestId },
+    });
+  }
+}
+
+export class FileTooLargeError extends HandlerError {
+  constructor(name: string, size: number, maxBytes: number) {
+    super(`${name} is ${formatMiB(size)}; the limit is ${formatMiB(maxBytes)}`, {
+      code: 'FILE_TOO_LARGE',
+      context: { name, size, maxBytes },
+    });
+  }
+}
+
 export class ExecutionTimeoutError extends HandlerError {
   constructor(command: string, timeoutMs: number) {
     super(`Command '${command}' timed out after ${timeoutMs}ms`, {
@@ -103,6 +130,15 @@ export class ExecutionTimeoutError extends HandlerError {
   }
 }
 
+export class InvalidScheduleError extends HandlerError {
+  constructor(schedule: string, reason: string) {
+    super(`Invalid schedule '${schedule}': ${reason}`, {
+      code: 'INVALID_SCHEDULE',
+      context: { schedule, reason },
+    });
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CMDOP / machine errors
 // ─────────────────────────────────────────────────────────────────────────────
@@ -165,6 +201,24 @@ export class TeamsError extends ChannelError {
   }
 }
 
+export class MatrixError extends ChannelError {
+  constructor(message: string, cause?: Error) {
+    super(message, { code: 'MATRIX_ERROR', cause });
+  }
+}
+
+export class MattermostError extends ChannelError {
+  constructor(message: string, cause?: Error) {
+    super(message, { code: 'MATTERMOST_ERROR', cause });
+  }
+}
+
+export class WebhookError extends ChannelError {
+  constructor(message: string, cause?: Error) {
+    super(message, { code: 'WEBHOOK_ERROR', cause });
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Config
 // ─────────────────────────────────────────────────────────────────────────────
@@ -174,3 +228,7 @@ export class ConfigError extends BotError {
     super(message, { code: 'CONFIG_ERROR', context });
   }
 }
+
+function formatMiB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,171 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { PermissionManager } from '../core/permission-manager.js';
+import type { CommandContext } from '../models/command.js';
+import { PermissionLevelSchema } from '../models/user.js';
+import { CommandArgsError, HandlerError } from '../errors.js';
+
+export interface AdminHandlerConfig {
+  /** Permission manager whose store and identity map the commands edit */
+  permissions: PermissionManager;
+}
+
+function storeError(action: string, e: unknown): HandlerError {
+  return new HandlerError(`Failed to ${action}`, {
+    code: 'STORE_ERROR',
+    cause: e instanceof Error ? e : undefined,
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /grant
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class GrantHandler extends BaseHandler {
+  readonly name = 'grant';
+  readonly description = 'Set a user\'s permission level';
+  readonly usage = '/grant <userId> <NONE|READ|EXECUTE|FILES|ADMIN>';
+  readonly requiredPermission = 'ADMIN' as const;
+
+  private readonly permissions: PermissionManager;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: AdminHandlerConfig) {
+    super(client, logger);
+    this.permissions = config.permissions;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const [userId, rawLevel] = ctx.args;
+    if (!userId || !rawLevel) {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}`));
+    }
+    const parsed = PermissionLevelSchema.safeParse(rawLevel.toUpperCase());
+    if (!parsed.success) {
+      return err(new CommandArgsError(this.name, `unknown level '${rawLevel}'`));
+    }
+
+    try {
+      await this.permissions.setLevel(userId, parsed.data);
+    } catch (e) {
+      return err(storeError(`grant ${parsed.data} to ${userId}`, e));
+    }
+    this.logger.info('Permission granted', { by: ctx.userId, userId, level: parsed.data });
+
+    return ok({ type: 'text', text: `✅ **${userId}** now has **${parsed.data}**` });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /revoke
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class RevokeHandler extends BaseHandler {
+  readonly name = 'revoke';
+  readonly description = 'Remove a user\'s stored permission level';
+  readonly usage = '/revoke <userId>';
+  readonly requiredPermission = 'ADMIN' as const;
+
+  private readonly permissions: PermissionManager;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: AdminHandlerConfig) {
+    super(client, logger);
+    this.permissions = config.permissions;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const userId = ctx.args[0];
+    if (!userId) {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}`));
+    }
+
+    let level;
+    try {
+      await this.permissions.deleteUser(userId);
+      level = await this.permissions.getLevel(userId);
+    } catch (e) {
+      return err(storeError(`revoke ${userId}`, e));
+    }
+    this.logger.info('Permission revoked', { by: ctx.userId, userId });
+
+    // Config admins and the default level are not in the store
+    return ok({ type: 'text', text: `🚫 Revoked **${userId}** — effective level is now **${level}**` });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /link
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class LinkHandler extends BaseHandler {
+  readonly name = 'link';
+  readonly description = 'Link two platform user IDs into one identity';
+  readonly usage = '/link <userId> <otherUserId>';
+  readonly requiredPermission = 'ADMIN' as const;
+
+  private readonly permissions: PermissionManager;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: AdminHandlerConfig) {
+    super(client, logger);
+    this.permissions = config.permissions;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const [idA, idB] = ctx.args;
+    if (!idA || !idB) {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}`));
+    }
+    if (idA === idB) {
+      return err(new CommandArgsError(this.name, 'cannot link a user ID to itself'));
+    }
+
+    const identity = this.permissions.identity;
+    identity.link(idA, idB);
+    try {
+      await identity.flush();
+    } catch (e) {
+      return err(storeError(`save link ${idA} ↔ ${idB}`, e));
+    }
+    this.logger.info('Identities linked', { by: ctx.userId, idA, idB });
+
+    return ok({
+      type: 'text',
+      text: `🔗 **${idA}** and **${idB}** now share identity **${identity.resolve(idA)}**`,
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /whoami
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class WhoamiHandler extends BaseHandler {
+  readonly name = 'whoami';
+  readonly description = 'Show your user ID, linked identity and permission level';
+  readonly usage = '/whoami';
+  readonly requiredPermission = 'NONE' as const;
+
+  private readonly permissions: PermissionManager;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: AdminHandlerConfig) {
+    super(client, logger);
+    this.permissions = config.permissions;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    let level;
+    try {
+      level = await this.permissions.getLevel(ctx.userId);
+    } catch (e) {
+      return err(storeError('look up your permission level', e));
+    }
+    const canonical = this.permissions.identity.resolve(ctx.userId);
+
+    const lines = [`_User ID:_ \`${ctx.userId}\``];
+    if (canonical !== ctx.userId) lines.push(`_Linked to:_ \`${canonical}\``);
+    lines.push(`_Permission:_ **${level}**`);
+
+    return ok({ type: 'text', text: lines.join('\n') });
+  }
+}
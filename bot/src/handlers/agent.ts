@@ -1,7 +1,7 @@
-import type { CMDOPClient } from '@cmdop/node';
+import type { AgentResult, AgentStreamEvent, CMDOPClient, RunAgentOptions } from '@cmdop/node';
 import { BaseHandler } from '../core/base-handler.js';
 import { ok, err } from '../core/types.js';
-import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol, ReplyStream } from '../core/types.js';
 import type { CommandContext } from '../models/command.js';
 import { CommandArgsError, CMDOPError } from '../errors.js';
 
@@ -32,14 +32,11 @@ export class AgentHandler extends BaseHandler {
     }
 
     try {
-      if (ctx.machine) {
-        await this.client.agent.setMachine(ctx.machine);
-      }
-
-      const result = await this.client.agent.run(prompt, {
-        mode: 'chat',
-        timeoutSeconds: this.timeout,
-      });
+      const sessionId = await this.resolveSessionId(ctx.machine);
+      const options: RunAgentOptions = { mode: 'chat', timeoutSeconds: this.timeout, sessionId };
+      const result = ctx.reply
+        ? await this.runStreaming(prompt, options, ctx.reply)
+        : await this.client.agent.run(prompt, options);
 
       if (!result.success) {
         return err(new CMDOPError(result.error ?? 'Agent returned no result'));
@@ -70,4 +67,32 @@ export class AgentHandler extends BaseHandler {
       return err(new CMDOPError(`Agent error: ${errMsg}`, e instanceof Error ? e : undefined));
     }
   }
+
+  /**
+   * Stream tokens and tool activity into the channel's live reply.
+   * The returned result is still the final answer — the channel swaps it in for the draft.
+   */
+  private async runStreaming(prompt: string, options: RunAgentOptions, reply: ReplyStream): Promise<AgentResult> {
+    const stream = this.client.agent.stream(prompt, options);
+    stream.on((event: AgentStreamEvent) => {
+      switch (event.type) {
+        case 'token':
+          reply.append(event.token);
+          break;
+        case 'tool_start':
+          reply.status(`🔧 ${describeTool(event.toolName, event.payload)}`);
+          break;
+        case 'tool_end':
+          reply.status(`✔️ ${describeTool(event.toolName, event.payload)}`);
+          break;
+      }
+    });
+    return stream.start();
+  }
+}
+
+/** One short line for a tool event — the tool name, or the first line of its payload */
+function describeTool(toolName: string, payload: string): string {
+  const label = toolName || payload.split('\n', 1)[0]!.trim() || 'tool';
+  return label.length > 80 ? `${label.slice(0, 79)}…` : label;
 }
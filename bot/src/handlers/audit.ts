@@ -0,0 +1,88 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { AuditLog, AuditQuery } from '../core/audit-log.js';
+import type { AuditEntry } from '../models/audit.js';
+import type { CommandContext } from '../models/command.js';
+import { CommandArgsError } from '../errors.js';
+
+export interface AuditHandlerConfig {
+  audit: AuditLog;
+  /** Upper bound for the `limit` argument. Default: 50 */
+  maxEntries?: number;
+}
+
+const FILTER_KEYS = ['user', 'command', 'machine'] as const;
+
+export class AuditHandler extends BaseHandler {
+  readonly name = 'audit';
+  readonly description = 'Show recent command activity';
+  readonly usage = '/audit [limit] [user=<id>] [command=<name>] [machine=<host>] [failed]';
+  readonly requiredPermission = 'ADMIN' as const;
+
+  private readonly audit: AuditLog;
+  private readonly maxEntries: number;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: AuditHandlerConfig) {
+    super(client, logger);
+    this.audit = config.audit;
+    this.maxEntries = config.maxEntries ?? 50;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const query: AuditQuery = { limit: 10 };
+
+    for (const arg of ctx.args) {
+      if (/^\d+$/.test(arg)) {
+        query.limit = Math.min(Number(arg), this.maxEntries);
+        continue;
+      }
+      if (arg === 'failed') {
+        query.failedOnly = true;
+        continue;
+      }
+      const [key, value] = arg.split('=', 2);
+      if (!value || !FILTER_KEYS.includes(key as (typeof FILTER_KEYS)[number])) {
+        return err(new CommandArgsError(this.name, `unknown filter '${arg}'`));
+      }
+      if (key === 'user') query.userId = value;
+      else if (key === 'command') query.command = value.replace(/^\//, '');
+      else query.machine = value;
+    }
+
+    const entries = this.audit.query(query);
+    if (entries.length === 0) {
+      return ok({ type: 'text', text: 'No matching activity.' });
+    }
+
+    return ok({
+      type: 'code',
+      code: entries.map(formatEntry).join('\n'),
+    });
+  }
+}
+
+function formatEntry(e: AuditEntry): string {
+  const time = e.timestamp.toISOString().slice(5, 19).replace('T', ' ');
+  const status = e.ok ? 'ok ' : e.permission === 'denied' ? 'DENY' : 'ERR ';
+  const user = e.canonicalUserId === e.userId ? e.userId : `${e.userId}→${e.canonicalUserId}`;
+  const where = [e.channel, e.machine && `@${e.machine}`].filter(Boolean).join(' ');
+  const line = truncate([`/${e.command}`, ...e.args].join(' '), 60);
+  const extra = [
+    `${e.durationMs}ms`,
+    e.ok ? formatBytes(e.outputBytes) : e.errorClass,
+    e.policy && `policy:${e.policy}${e.approvedBy ? ` by ${e.approvedBy}` : ''}`,
+  ].filter(Boolean).join(', ');
+  return `${time} ${status} ${user}${where ? ` (${where})` : ''} ${line} [${extra}]`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : text.slice(0, max - 1) + '…';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}K`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}M`;
+}
@@ -1,26 +1,39 @@
+import { posix } from 'node:path';
 import type { CMDOPClient } from '@cmdop/node';
 import { BaseHandler } from '../core/base-handler.js';
 import { ok, err } from '../core/types.js';
 import type { HandlerResult, LoggerProtocol } from '../core/types.js';
 import type { CommandContext } from '../models/command.js';
-import { CommandArgsError, CMDOPError } from '../errors.js';
+import type { PermissionLevel } from '../models/user.js';
+import { BotError, CommandArgsError, CMDOPError, FileTooLargeError, HandlerError } from '../errors.js';
 
 export interface FilesHandlerConfig {
   maxEntries?: number;
+  /** Largest file /files get sends or /files put accepts, in bytes. Default: 10 MB */
   maxFileSize?: number;
 }
 
+const USAGE_HINT = 'Usage: /files <path> | /files read <path> | /files get <path> | /files put <path> [--overwrite]';
+
 export class FilesHandler extends BaseHandler {
   readonly name = 'files';
-  readonly description = 'List files in a directory on the remote machine';
-  readonly usage = '/files <path>';
+  readonly description = 'List, read, download and upload files on the remote machine';
+  readonly usage = '/files <path> | read <path> | get <path> | put <path> [--overwrite]';
   readonly requiredPermission = 'READ' as const;
 
   private readonly maxEntries: number;
+  private readonly maxFileSize: number;
 
   constructor(client: CMDOPClient, logger: LoggerProtocol, config: FilesHandlerConfig = {}) {
     super(client, logger);
     this.maxEntries = config.maxEntries ?? 50;
+    this.maxFileSize = config.maxFileSize ?? 10 * 1024 * 1024;
+  }
+
+  /** Transfers move whole files off or onto the machine, so they need FILES */
+  requiredPermissionFor(ctx: CommandContext): PermissionLevel {
+    const subCommand = ctx.args[0];
+    return subCommand === 'get' || subCommand === 'put' ? 'FILES' : this.requiredPermission;
   }
 
   async handle(ctx: CommandContext): Promise<HandlerResult> {
@@ -38,7 +51,16 @@ export class FilesHandler extends BaseHandler {
       return this.handleRead(ctx, ctx.args[1] ?? '');
     }
 
-    return err(new CommandArgsError('files', 'Usage: /files <path> | /files read <path>'));
+    if (subCommand === 'get') {
+      return this.handleGet(ctx, ctx.args[1] ?? '');
+    }
+
+    if (subCommand === 'put') {
+      const overwrite = ctx.args.includes('--overwrite');
+      return this.handlePut(ctx, ctx.args.slice(1).find((a) => a !== '--overwrite') ?? '', overwrite);
+    }
+
+    return err(new CommandArgsError('files', USAGE_HINT));
   }
 
   private async handleList(ctx: CommandContext, path: string): Promise<HandlerResult> {
@@ -46,8 +68,8 @@ export class FilesHandler extends BaseHandler {
       return err(new CommandArgsError('files', 'Path required. Example: /files /tmp'));
     }
     try {
-      if (ctx.machine) await this.client.files.setMachine(ctx.machine);
-      const result = await this.client.files.list(path, { pageSize: this.maxEntries });
+      const sessionId = await this.resolveSessionId(ctx.machine);
+      const result = await this.client.files.list(path, { pageSize: this.maxEntries, sessionId });
       if (result.entries.length === 0) {
         return ok({ type: 'text', text: `📂 \`${path}\` is empty` });
       }
@@ -71,8 +93,8 @@ export class FilesHandler extends BaseHandler {
       return err(new CommandArgsError('files', 'Path required. Example: /files read /etc/hostname'));
     }
     try {
-      if (ctx.machine) await this.client.files.setMachine(ctx.machine);
-      const result = await this.client.files.read(path);
+      const sessionId = await this.resolveSessionId(ctx.machine);
+      const result = await this.client.files.read(path, { sessionId });
       const content = result.content.slice(0, 3000);
       const truncated = result.content.length > 3000 ? '\n...(truncated)' : '';
       return ok({ type: 'code', code: content + truncated });
@@ -80,6 +102,81 @@ export class FilesHandler extends BaseHandler {
       return err(new CMDOPError(`Failed to read ${path}`, e instanceof Error ? e : undefined));
     }
   }
+
+  private async handleGet(ctx: CommandContext, path: string): Promise<HandlerResult> {
+    if (!path) {
+      return err(new CommandArgsError('files', 'Path required. Example: /files get /var/log/syslog'));
+    }
+    try {
+      const sessionId = await this.resolveSessionId(ctx.machine);
+      const entry = await this.client.files.stat(path, { sessionId });
+      if (entry.type === 'directory') {
+        return err(new CommandArgsError('files', `${path} is a directory. Use /files ${path} to list it`));
+      }
+      if ((entry.size ?? 0) > this.maxFileSize) {
+        return err(new FileTooLargeError(path, entry.size ?? 0, this.maxFileSize));
+      }
+      // The agent caps a single read, so continue from the last offset
+      // until the reply is no longer truncated
+      const parts: Buffer[] = [];
+      let offset = 0;
+      for (;;) {
+        const result = await this.client.files.read(path, { sessionId, offset });
+        const part = Buffer.from(result.content);
+        parts.push(part);
+        offset += part.length;
+        if (offset > this.maxFileSize) {
+          return err(new FileTooLargeError(path, offset, this.maxFileSize));
+        }
+        if (!result.isTruncated) break;
+        if (part.length === 0) {
+          return err(new CMDOPError(`Failed to download ${path}: read stopped at ${offset} of ${result.totalSize} bytes`));
+        }
+      }
+      const data = Buffer.concat(parts);
+      return ok({
+        type: 'file',
+        filename: posix.basename(path) || 'file',
+        data,
+        caption: `📄 ${path} (${formatSize(data.length)})`,
+      });
+    } catch (e) {
+      return err(new CMDOPError(`Failed to download ${path}`, e instanceof Error ? e : undefined));
+    }
+  }
+
+  /** A path ending in / is a directory: the file keeps its original name there */
+  private async handlePut(ctx: CommandContext, target: string, overwrite: boolean): Promise<HandlerResult> {
+    const attachment = ctx.message.attachments[0];
+    if (!target || !attachment) {
+      return err(new CommandArgsError('files', 'Attach a file and give a destination. Example: /files put /tmp/'));
+    }
+    if (!ctx.fetchAttachment) {
+      return err(new HandlerError('This channel cannot receive files', { code: 'UPLOAD_UNSUPPORTED' }));
+    }
+    const name = attachment.name ?? 'upload';
+    if (attachment.size !== undefined && attachment.size > this.maxFileSize) {
+      return err(new FileTooLargeError(name, attachment.size, this.maxFileSize));
+    }
+
+    let data: Buffer;
+    try {
+      data = await ctx.fetchAttachment(attachment, { maxBytes: this.maxFileSize });
+    } catch (e) {
+      if (e instanceof BotError) return err(e);
+      return err(new HandlerError(`Failed to download ${name}`, { code: 'DOWNLOAD_FAILED', cause: e instanceof Error ? e : undefined }));
+    }
+
+    const path = target.endsWith('/') ? target + name : target;
+    try {
+      const sessionId = await this.resolveSessionId(ctx.machine);
+      await this.client.files.write(path, data, { overwrite, createParents: true, sessionId });
+      return ok({ type: 'text', text: `📤 Uploaded \`${path}\` (${formatSize(data.length)})` });
+    } catch (e) {
+      const hint = overwrite ? '' : ' (add --overwrite to replace an existing file)';
+      return err(new CMDOPError(`Failed to write ${path}${hint}`, e instanceof Error ? e : undefined));
+    }
+  }
 }
 
 function formatSize(bytes: number): string {
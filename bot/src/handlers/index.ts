@@ -7,8 +7,26 @@ export type { AgentHandlerConfig } from './agent.js';
 export { FilesHandler } from './files.js';
 export type { FilesHandlerConfig } from './files.js';
 
+export { ShellHandler } from './shell.js';
+export type { ShellHandlerConfig, ShellTarget } from './shell.js';
+
 export { HelpHandler } from './help.js';
 export type { HelpHandlerConfig } from './help.js';
 
 export { SkillsHandler } from './skills.js';
 export type { SkillsHandlerConfig } from './skills.js';
+
+export { MachineHandler } from './machine.js';
+export type { MachineHandlerConfig } from './machine.js';
+
+export { GrantHandler, RevokeHandler, LinkHandler, WhoamiHandler } from './admin.js';
+export type { AdminHandlerConfig } from './admin.js';
+
+export { AuditHandler } from './audit.js';
+export type { AuditHandlerConfig } from './audit.js';
+
+export { ScheduleHandler, JobsHandler } from './schedule.js';
+export type { ScheduleHandlerConfig, JobsHandlerConfig } from './schedule.js';
+
+export { SubscribeHandler, UnsubscribeHandler } from './subscribe.js';
+export type { SubscribeHandlerConfig } from './subscribe.js';
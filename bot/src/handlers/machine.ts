@@ -0,0 +1,100 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol, SessionStoreProtocol } from '../core/types.js';
+import type { CommandContext } from '../models/command.js';
+import type { KeyboardButton } from '../models/message.js';
+import { CMDOPError, MachineOfflineError } from '../errors.js';
+
+export interface MachineHandlerConfig {
+  /** Where each user's selected machine is kept */
+  sessions: SessionStoreProtocol;
+  /** Hostname used when a user has not selected one (shown in the listing) */
+  defaultMachine?: string;
+}
+
+export class MachineHandler extends BaseHandler {
+  readonly name = 'machine';
+  readonly description = 'List online machines or select the one your commands run on';
+  readonly usage = '/machine [hostname|--clear]';
+  readonly requiredPermission = 'READ' as const;
+
+  private readonly sessions: SessionStoreProtocol;
+  private readonly defaultMachine: string | undefined;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: MachineHandlerConfig) {
+    super(client, logger);
+    this.sessions = config.sessions;
+    this.defaultMachine = config.defaultMachine;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const hostname = ctx.args[0];
+    if (hostname === '--clear') return this.handleClear(ctx);
+    return hostname ? this.handleSelect(ctx, hostname) : this.handleList(ctx);
+  }
+
+  private async handleList(ctx: CommandContext): Promise<HandlerResult> {
+    let hostnames: string[];
+    try {
+      const { sessions } = await this.client.terminal.listActive();
+      hostnames = [...new Set(sessions.map((s) => s.hostname ?? s.machineName).filter((h): h is string => !!h))];
+    } catch (e) {
+      return err(new CMDOPError('Failed to list machines', e instanceof Error ? e : undefined));
+    }
+
+    if (hostnames.length === 0) {
+      return ok({ type: 'text', text: 'No machines online. Start the CMDOP agent on a machine first.' });
+    }
+
+    const current = ctx.machine ?? this.defaultMachine;
+    const lines = hostnames.map((h) => (h === current ? `✅ **${h}**` : `🖥 ${h}`));
+    const footer = current ? `\n\n_Current:_ ${current}` : '';
+
+    return ok({
+      type: 'text',
+      text: `**Online machines**\n${lines.join('\n')}${footer}\n\nSelect one with \`/machine <hostname>\``,
+      keyboard: machineKeyboard(hostnames),
+    });
+  }
+
+  private async handleSelect(ctx: CommandContext, hostname: string): Promise<HandlerResult> {
+    try {
+      const active = await this.client.terminal.getActiveSession({ hostname });
+      if (!active) return err(new MachineOfflineError(hostname));
+    } catch (e) {
+      return err(new CMDOPError(`Failed to look up machine '${hostname}'`, e instanceof Error ? e : undefined));
+    }
+
+    const existing = await this.sessions.get(ctx.userId);
+    await this.sessions.set({
+      ...existing,
+      userId: ctx.userId,
+      currentMachine: hostname,
+      updatedAt: new Date(),
+    });
+    this.logger.info('Machine selected', { userId: ctx.userId, machine: hostname });
+
+    return ok({ type: 'text', text: `🖥 Commands now run on **${hostname}**` });
+  }
+
+  private async handleClear(ctx: CommandContext): Promise<HandlerResult> {
+    const existing = await this.sessions.get(ctx.userId);
+    if (existing?.currentMachine) {
+      await this.sessions.set({ ...existing, currentMachine: undefined, updatedAt: new Date() });
+      this.logger.info('Machine selection cleared', { userId: ctx.userId });
+    }
+
+    const fallback = this.defaultMachine ? `the default machine **${this.defaultMachine}**` : 'no machine until you select one';
+    return ok({ type: 'text', text: `🖥 Selection cleared. Commands run on ${fallback}` });
+  }
+}
+
+/** Two machines per row, matching buildMachineKeyboard() */
+function machineKeyboard(hostnames: string[]): KeyboardButton[][] {
+  const rows: KeyboardButton[][] = [];
+  for (let i = 0; i < hostnames.length; i += 2) {
+    rows.push(hostnames.slice(i, i + 2).map((h) => ({ label: `🖥 ${h}`, command: `/machine ${h}` })));
+  }
+  return rows;
+}
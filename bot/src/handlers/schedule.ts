@@ -0,0 +1,185 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { PermissionManager } from '../core/permission-manager.js';
+import { commandLine } from '../core/scheduler.js';
+import type { JobScheduler } from '../core/scheduler.js';
+import { formatDuration } from '../core/schedule.js';
+import { extractMachineFlag, parseCommand } from '../models/command.js';
+import type { CommandContext } from '../models/command.js';
+import type { JobNotify, ScheduledJob } from '../models/job.js';
+import type { KeyboardButton } from '../models/message.js';
+import type { PermissionLevel } from '../models/user.js';
+import { BotError, CommandArgsError, HandlerError } from '../errors.js';
+
+export interface ScheduleHandlerConfig {
+  scheduler: JobScheduler;
+}
+
+export interface JobsHandlerConfig extends ScheduleHandlerConfig {
+  /** Resolves job ownership across linked identities and admin rights */
+  permissions: PermissionManager;
+}
+
+const NOTIFY_FLAGS: Record<string, JobNotify> = {
+  '--if-changed': 'changed',
+  '--if-failed': 'failed',
+};
+
+const NOTIFY_LABELS: Record<JobNotify, string> = {
+  always: 'every run',
+  changed: 'when the output changes',
+  failed: 'when it fails or recovers',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /schedule
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ScheduleHandler extends BaseHandler {
+  readonly name = 'schedule';
+  readonly description = 'Run a command on an interval or cron schedule';
+  readonly usage = '/schedule [--if-changed|--if-failed] "<every 15m | cron>" /<command> [args]';
+  readonly requiredPermission = 'EXECUTE' as const;
+
+  private readonly scheduler: JobScheduler;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: ScheduleHandlerConfig) {
+    super(client, logger);
+    this.scheduler = config.scheduler;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    // The command starts at the first /word; everything before it is the schedule and flags
+    const commandAt = ctx.args.findIndex((a) => /^[/!]\w/.test(a));
+    const head = commandAt < 0 ? [...ctx.args] : ctx.args.slice(0, commandAt);
+    const flags = head.filter((a) => a in NOTIFY_FLAGS);
+    const schedule = head
+      .filter((a) => !(a in NOTIFY_FLAGS))
+      .join(' ')
+      .replace(/^["'“”]|["'“”]$/g, '')
+      .trim();
+    const parsed = commandAt < 0 ? null : parseCommand(ctx.args.slice(commandAt).join(' '));
+
+    if (!schedule || !parsed) {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}, e.g. /schedule "every 15m" /exec df -h`));
+    }
+    if (flags.length > 1) {
+      return err(new CommandArgsError(this.name, 'use only one of --if-changed and --if-failed'));
+    }
+    if (!ctx.channel) {
+      return err(new HandlerError('This channel cannot post scheduled results', { code: 'SCHEDULE_UNSUPPORTED' }));
+    }
+
+    const { args, machine } = extractMachineFlag(parsed.args);
+    let job: ScheduledJob;
+    try {
+      job = await this.scheduler.add(schedule, {
+        userId: ctx.userId,
+        channel: ctx.channel,
+        channelId: ctx.channelId,
+        threadId: ctx.message.threadId,
+        command: parsed.name,
+        args,
+        // The machine is pinned when scheduling, so changing /machine later does not move the job
+        machine: machine ?? ctx.machine,
+      }, { notify: NOTIFY_FLAGS[flags[0] ?? ''] ?? 'always' });
+    } catch (e) {
+      if (e instanceof BotError) return err(e);
+      return err(new HandlerError('Failed to save the job', { code: 'STORE_ERROR', cause: e instanceof Error ? e : undefined }));
+    }
+
+    const next = this.scheduler.nextRunAt(job.id);
+    return ok({
+      type: 'text',
+      text: [
+        `⏰ Scheduled \`${job.id}\`: ${commandLine(job)}${job.machine ? ` on ${job.machine}` : ''} — ${job.schedule}`,
+        `Posting here ${NOTIFY_LABELS[job.notify]}.${next ? ` Next run in ${formatDuration(next.getTime() - Date.now())}.` : ''}`,
+        'See all jobs with /jobs',
+      ].join('\n'),
+      keyboard: [[{ label: `✖️ Cancel ${job.id}`, command: `/jobs cancel ${job.id}` }]],
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /jobs
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class JobsHandler extends BaseHandler {
+  readonly name = 'jobs';
+  readonly description = 'List or cancel your scheduled jobs';
+  readonly usage = '/jobs [all] | /jobs cancel <id>';
+  readonly requiredPermission = 'READ' as const;
+
+  private readonly scheduler: JobScheduler;
+  private readonly permissions: PermissionManager;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: JobsHandlerConfig) {
+    super(client, logger);
+    this.scheduler = config.scheduler;
+    this.permissions = config.permissions;
+  }
+
+  requiredPermissionFor(ctx: CommandContext): PermissionLevel {
+    return ctx.args[0] === 'all' ? 'ADMIN' : this.requiredPermission;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const [action, id] = ctx.args;
+    let jobs: ScheduledJob[];
+    try {
+      jobs = await this.scheduler.list();
+    } catch (e) {
+      return err(new HandlerError('Failed to load scheduled jobs', { code: 'STORE_ERROR', cause: e instanceof Error ? e : undefined }));
+    }
+
+    if (action === 'cancel') {
+      if (!id) return err(new CommandArgsError(this.name, 'expected /jobs cancel <id>'));
+      const job = jobs.find((j) => j.id === id);
+      // Someone else's job is only visible to admins
+      if (!job || (!this.owns(ctx, job) && !(await this.permissions.hasPermission(ctx.userId, 'ADMIN')))) {
+        return err(new CommandArgsError(this.name, `no job '${id}'. List yours with /jobs`));
+      }
+      await this.scheduler.cancel(id);
+      this.logger.info('Job cancelled by user', { by: ctx.userId, jobId: id, owner: job.userId });
+      return ok({ type: 'text', text: `✅ Cancelled \`${id}\`: ${commandLine(job)} — ${job.schedule}` });
+    }
+    if (action && action !== 'all') {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}`));
+    }
+
+    const all = action === 'all';
+    const visible = all ? jobs : jobs.filter((j) => this.owns(ctx, j));
+    if (visible.length === 0) {
+      return ok({ type: 'text', text: 'No scheduled jobs. Add one with /schedule "every 15m" /exec df -h' });
+    }
+
+    const keyboard: KeyboardButton[][] = [];
+    for (let i = 0; i < visible.length; i += 3) {
+      keyboard.push(visible.slice(i, i + 3).map((j) => ({ label: `✖️ ${j.id}`, command: `/jobs cancel ${j.id}` })));
+    }
+    return ok({
+      type: 'text',
+      text: ['⏰ **Scheduled jobs**', ...visible.map((j) => this.formatJob(j, all))].join('\n'),
+      keyboard,
+    });
+  }
+
+  private owns(ctx: CommandContext, job: ScheduledJob): boolean {
+    return this.permissions.identity.areSameIdentity(ctx.userId, job.userId);
+  }
+
+  private formatJob(job: ScheduledJob, showOwner: boolean): string {
+    const next = this.scheduler.nextRunAt(job.id);
+    const status = [
+      next && `next in ${formatDuration(next.getTime() - Date.now())}`,
+      job.lastRunAt && `last ${job.lastOk ? '✅' : '❌'} ${formatDuration(Date.now() - job.lastRunAt.getTime())} ago`,
+      job.notify !== 'always' && `posts ${NOTIFY_LABELS[job.notify]}`,
+      showOwner && `by ${job.userId} (${job.channel})`,
+    ].filter(Boolean).join(', ');
+    return `\`${job.id}\` ${job.schedule} — ${commandLine(job)}${job.machine ? ` on ${job.machine}` : ''}` +
+      (status ? `\n    ${status}` : '');
+  }
+}
@@ -0,0 +1,232 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { CommandContext } from '../models/command.js';
+import type { KeyboardButton, OutgoingMessage } from '../models/message.js';
+import { ShellSession } from '../streaming/shell-session.js';
+import type { ShellSessionOptions } from '../streaming/shell-session.js';
+import { CommandArgsError, CMDOPError } from '../errors.js';
+
+/** Where a shell was opened — used to tell its owner it closed */
+export interface ShellTarget {
+  channel?: string;
+  channelId: string;
+  userId: string;
+  machine?: string;
+}
+
+export interface ShellHandlerConfig {
+  /** Close a shell after this long without input. Default: 10 minutes */
+  idleTimeoutMs?: number;
+  /** Characters of output shown per reply (the tail is kept). Default: 3000 */
+  maxOutputLength?: number;
+  /** Terminal width. Narrow keeps output readable on phones. Default: 80 */
+  cols?: number;
+  rows?: number;
+  session?: ShellSessionOptions;
+  /** Deliver a message about a shell that closed on its own (idle timeout, remote exit) */
+  notify?: (target: ShellTarget, message: OutgoingMessage) => Promise<void>;
+}
+
+interface OpenShell {
+  session: ShellSession;
+  target: ShellTarget;
+  idleTimer: ReturnType<typeof setTimeout> | undefined;
+  /** A reply is collecting output — it reports the close itself */
+  busy: boolean;
+}
+
+const CONTROL_KEYS: Record<string, string> = {
+  'ctrl-c': '\x03',
+  'ctrl-d': '\x04',
+};
+
+const SHELL_KEYBOARD: KeyboardButton[][] = [[
+  { label: 'Ctrl+C', command: '/shell ctrl-c' },
+  { label: 'Ctrl+D', command: '/shell ctrl-d' },
+  { label: '🔄 Refresh', command: '/shell refresh' },
+  { label: '✖️ Exit', command: '/shell exit' },
+]];
+
+/**
+ * Interactive terminal bound to a chat thread.
+ * While a shell is open, the opener's plain messages in that thread are typed into it.
+ */
+export class ShellHandler extends BaseHandler {
+  readonly name = 'shell';
+  readonly description = 'Open an interactive terminal in this thread';
+  readonly usage = '/shell [input] | ctrl-c | ctrl-d | refresh | exit';
+  readonly requiredPermission = 'EXECUTE' as const;
+
+  private readonly shells = new Map<string, OpenShell>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxOutput: number;
+  private readonly cols: number;
+  private readonly rows: number;
+  private readonly sessionOptions: ShellSessionOptions;
+  private readonly notify: ShellHandlerConfig['notify'];
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: ShellHandlerConfig = {}) {
+    super(client, logger);
+    this.idleTimeoutMs = config.idleTimeoutMs ?? 10 * 60_000;
+    this.maxOutput = config.maxOutputLength ?? 3000;
+    this.cols = config.cols ?? 80;
+    this.rows = config.rows ?? 24;
+    this.sessionOptions = config.session ?? {};
+    this.notify = config.notify;
+  }
+
+  /** Number of open shells */
+  get openCount(): number {
+    return this.shells.size;
+  }
+
+  interceptText(ctx: CommandContext): string[] | undefined {
+    const shell = this.shells.get(threadKey(ctx));
+    if (!shell || shell.target.userId !== ctx.userId) return undefined;
+    return ['send', ctx.message.text];
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const key = threadKey(ctx);
+    const shell = this.shells.get(key);
+    const [action, ...rest] = ctx.args;
+
+    if (!shell) {
+      if (action && action !== 'open') {
+        return err(new CommandArgsError('shell', 'no shell is open in this thread. Start one with /shell'));
+      }
+      return this.open(ctx, key);
+    }
+    if (shell.target.userId !== ctx.userId) {
+      return err(new CommandArgsError('shell', 'this thread has a shell opened by someone else'));
+    }
+
+    this.touch(shell);
+    if (!action || action === 'open' || action === 'refresh') {
+      return this.collect(shell, ctx);
+    }
+    if (action === 'exit') {
+      shell.busy = true;
+      shell.session.close('closed with /shell exit');
+      return this.collect(shell, ctx);
+    }
+    if (action in CONTROL_KEYS) {
+      return this.send(shell, ctx, CONTROL_KEYS[action]!);
+    }
+
+    // `/shell send <text>` from intercepted plain text, or `/shell <text>` typed directly
+    const input = (action === 'send' ? rest : ctx.args).join(' ');
+    return this.send(shell, ctx, input.replace(/\n/g, '\r') + '\r');
+  }
+
+  async close(): Promise<void> {
+    for (const shell of this.shells.values()) {
+      shell.busy = true;
+      shell.session.close('bot stopped');
+    }
+  }
+
+  private async open(ctx: CommandContext, key: string): Promise<HandlerResult> {
+    let session: ShellSession;
+    try {
+      const sessionId = (await this.resolveSessionId(ctx.machine)) ?? (await this.firstSessionId());
+      session = new ShellSession(
+        this.client.terminal.attach(sessionId, { cols: this.cols, rows: this.rows, reconnect: true }),
+        this.sessionOptions,
+      );
+      await session.open();
+    } catch (e) {
+      if (e instanceof CMDOPError) return err(e);
+      return err(new CMDOPError('Failed to open a shell', e instanceof Error ? e : undefined));
+    }
+
+    const shell: OpenShell = {
+      session,
+      target: { channel: ctx.channel, channelId: ctx.channelId, userId: ctx.userId, machine: ctx.machine },
+      idleTimer: undefined,
+      busy: false,
+    };
+    this.shells.set(key, shell);
+    session.onClose((reason) => this.closed(key, shell, reason));
+    this.touch(shell);
+    this.logger.info('Shell opened', { userId: ctx.userId, machine: ctx.machine, channelId: ctx.channelId });
+
+    return this.collect(shell, ctx, `🖥 Shell open${ctx.machine ? ` on ${ctx.machine}` : ''}. ` +
+      'Your messages in this thread are typed into it.');
+  }
+
+  private async send(shell: OpenShell, ctx: CommandContext, input: string): Promise<HandlerResult> {
+    try {
+      shell.session.write(input);
+    } catch (e) {
+      shell.session.close(e instanceof Error ? e.message : String(e));
+    }
+    return this.collect(shell, ctx);
+  }
+
+  private async collect(shell: OpenShell, ctx: CommandContext, header?: string): Promise<HandlerResult> {
+    shell.busy = true;
+    let output: string;
+    try {
+      output = await shell.session.collect(ctx.reply);
+    } finally {
+      shell.busy = false;
+    }
+
+    const { session } = shell;
+    const lines = [
+      header,
+      codeBlock(this.tail(output)),
+      session.closed ? `Shell closed: ${session.closeReason}` : undefined,
+    ].filter(Boolean);
+    return ok({
+      type: 'text',
+      text: lines.join('\n'),
+      ...(session.closed ? {} : { keyboard: SHELL_KEYBOARD }),
+    });
+  }
+
+  /** Restart the idle timeout */
+  private touch(shell: OpenShell): void {
+    clearTimeout(shell.idleTimer);
+    shell.idleTimer = setTimeout(() => shell.session.close('idle timeout'), this.idleTimeoutMs);
+  }
+
+  private closed(key: string, shell: OpenShell, reason: string): void {
+    clearTimeout(shell.idleTimer);
+    if (this.shells.get(key) === shell) this.shells.delete(key);
+    this.logger.info('Shell closed', { userId: shell.target.userId, machine: shell.target.machine, reason });
+
+    if (shell.busy || !this.notify) return;
+    this.notify(shell.target, { type: 'text', text: `🖥 Shell closed: ${reason}` }).catch((e: unknown) => {
+      this.logger.warn('Failed to deliver shell notice', {
+        userId: shell.target.userId,
+        err: e instanceof Error ? e.message : String(e),
+      });
+    });
+  }
+
+  /** Without a machine, attach to the first session, as /exec does */
+  private async firstSessionId(): Promise<string> {
+    const { sessions } = await this.client.terminal.list();
+    if (sessions.length === 0) throw new CMDOPError('No active sessions. Start the CMDOP agent first.');
+    return sessions[0]!.sessionId;
+  }
+
+  private tail(output: string): string {
+    const text = output.replace(/\n+$/, '');
+    if (text.length <= this.maxOutput) return text || '(no output yet)';
+    return '…' + text.slice(-(this.maxOutput - 1));
+  }
+}
+
+/** A shell belongs to one thread: Slack thread, Telegram chat, Discord channel */
+function threadKey(ctx: CommandContext): string {
+  return [ctx.channel ?? '', ctx.channelId, ctx.message.threadId ?? ''].join(':');
+}
+
+function codeBlock(text: string): string {
+  return '```\n' + text.replace(/```/g, "''`") + '\n```';
+}
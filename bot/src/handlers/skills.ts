@@ -30,17 +30,15 @@ export class SkillsHandler extends BaseHandler {
     }
 
     try {
-      if (ctx.machine) {
-        await this.client.skills.setMachine(ctx.machine);
-      }
+      const sessionId = await this.resolveSessionId(ctx.machine);
 
       switch (subcommand) {
         case 'list':
-          return await this.handleList();
+          return await this.handleList(sessionId);
         case 'show':
-          return await this.handleShow(ctx);
+          return await this.handleShow(ctx, sessionId);
         case 'run':
-          return await this.handleRun(ctx);
+          return await this.handleRun(ctx, sessionId);
         default:
           return err(new CommandArgsError('skills', `Unknown subcommand "${subcommand}". Usage: /skills list | /skills show <name> | /skills run <name> <prompt>`));
       }
@@ -61,8 +59,8 @@ export class SkillsHandler extends BaseHandler {
     }
   }
 
-  private async handleList(): Promise<HandlerResult> {
-    const skills = await this.client.skills.list();
+  private async handleList(sessionId: string | undefined): Promise<HandlerResult> {
+    const skills = await this.client.skills.list({ sessionId });
 
     if (skills.length === 0) {
       return ok({ type: 'text', text: 'No skills installed.' });
@@ -74,13 +72,13 @@ export class SkillsHandler extends BaseHandler {
     return ok({ type: 'text', text: lines.join('\n') });
   }
 
-  private async handleShow(ctx: CommandContext): Promise<HandlerResult> {
+  private async handleShow(ctx: CommandContext, sessionId: string | undefined): Promise<HandlerResult> {
     const name = ctx.args[1];
     if (!name) {
       return err(new CommandArgsError('skills', 'Skill name required. Usage: /skills show <name>'));
     }
 
-    const detail = await this.client.skills.show(name);
+    const detail = await this.client.skills.show(name, { sessionId });
 
     if (!detail.found) {
       return err(new CMDOPError(detail.error ?? `Skill "${name}" not found`));
@@ -105,7 +103,7 @@ export class SkillsHandler extends BaseHandler {
     return ok({ type: 'code', code: parts.join('\n') });
   }
 
-  private async handleRun(ctx: CommandContext): Promise<HandlerResult> {
+  private async handleRun(ctx: CommandContext, sessionId: string | undefined): Promise<HandlerResult> {
     const name = ctx.args[1];
     if (!name) {
       return err(new CommandArgsError('skills', 'Skill name and prompt required. Usage: /skills run <name> <prompt>'));
@@ -116,7 +114,7 @@ export class SkillsHandler extends BaseHandler {
       return err(new CommandArgsError('skills', 'Prompt required. Usage: /skills run <name> <prompt>'));
     }
 
-    const result = await this.client.skills.run(name, prompt);
+    const result = await this.client.skills.run(name, prompt, { sessionId });
 
     const code = result.text.length > this.maxOutput
       ? result.text.slice(0, this.maxOutput) + '\n...(truncated)'
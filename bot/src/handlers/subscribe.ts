@@ -0,0 +1,151 @@
+import type { CMDOPClient } from '@cmdop/node';
+import { BaseHandler } from '../core/base-handler.js';
+import { ok, err } from '../core/types.js';
+import type { HandlerResult, LoggerProtocol } from '../core/types.js';
+import type { HealthMonitor, MachineHealth } from '../core/health-monitor.js';
+import { formatDuration } from '../core/schedule.js';
+import type { CommandContext } from '../models/command.js';
+import { ALL_MACHINES, HealthEventSchema } from '../models/health.js';
+import type { HealthEvent, HealthSubscription } from '../models/health.js';
+import { CommandArgsError, HandlerError } from '../errors.js';
+
+export interface SubscribeHandlerConfig {
+  monitor: HealthMonitor;
+}
+
+const STATUS_ICONS: Record<MachineHealth['status'], string> = {
+  online: '🟢',
+  busy: '⏳',
+  offline: '🔴',
+};
+
+function storeError(action: string, e: unknown): HandlerError {
+  return new HandlerError(`Failed to ${action}`, {
+    code: 'STORE_ERROR',
+    cause: e instanceof Error ? e : undefined,
+  });
+}
+
+/** `all` and `*` both mean every machine */
+function machineArg(arg: string): string {
+  return arg === 'all' ? ALL_MACHINES : arg;
+}
+
+function machineLabel(machine: string): string {
+  return machine === ALL_MACHINES ? 'all machines' : `**${machine}**`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /subscribe
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class SubscribeHandler extends BaseHandler {
+  readonly name = 'subscribe';
+  readonly description = 'Get alerts when a machine goes offline, stays busy or is updated';
+  readonly usage = '/subscribe [<machine>|all] [offline] [busy] [version]';
+  readonly requiredPermission = 'READ' as const;
+
+  private readonly monitor: HealthMonitor;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: SubscribeHandlerConfig) {
+    super(client, logger);
+    this.monitor = config.monitor;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const [target, ...rawEvents] = ctx.args;
+    if (!target) return this.list(ctx);
+    if (!ctx.channel) {
+      return err(new HandlerError('This channel cannot receive alerts', { code: 'SUBSCRIBE_UNSUPPORTED' }));
+    }
+
+    const events: HealthEvent[] = [];
+    for (const raw of rawEvents) {
+      const parsed = HealthEventSchema.safeParse(raw.toLowerCase());
+      if (!parsed.success) {
+        return err(new CommandArgsError(this.name, `unknown alert '${raw}'. Choose from offline, busy, version`));
+      }
+      if (!events.includes(parsed.data)) events.push(parsed.data);
+    }
+
+    const machine = machineArg(target);
+    try {
+      await this.monitor.subscribe({
+        userId: ctx.userId,
+        channel: ctx.channel,
+        channelId: ctx.channelId,
+        machine,
+        events: events.length > 0 ? events : [...HealthEventSchema.options],
+      });
+    } catch (e) {
+      return err(storeError(`subscribe to ${machine}`, e));
+    }
+
+    const which = events.length > 0 ? events.join(', ') : 'offline, busy and version';
+    return ok({
+      type: 'text',
+      text: `🔔 Alerts for ${machineLabel(machine)} (${which}) will be posted here.`,
+      keyboard: [[{ label: '🔕 Unsubscribe', command: `/unsubscribe ${target}` }]],
+    });
+  }
+
+  private async list(ctx: CommandContext): Promise<HandlerResult> {
+    let mine: HealthSubscription[];
+    try {
+      mine = (await this.monitor.subscriptions())
+        .filter((s) => s.userId === ctx.userId && s.channel === ctx.channel);
+    } catch (e) {
+      return err(storeError('load subscriptions', e));
+    }
+
+    const lines = mine.length > 0
+      ? ['🔔 **Your alerts**', ...mine.map((s) => `• ${machineLabel(s.machine)}: ${s.events.join(', ')}`)]
+      : [`No alerts yet. Subscribe with \`${this.usage}\``];
+
+    const machines = this.monitor.status();
+    if (machines.length > 0) {
+      const now = Date.now();
+      lines.push('', '**Machines**', ...machines.map((m) =>
+        `${STATUS_ICONS[m.status]} ${m.hostname} — ${m.status} for ${formatDuration(now - m.since.getTime())}` +
+        `${m.version ? `, v${m.version}` : ''}${m.flapping ? ' (flapping)' : ''}`));
+    }
+    return ok({ type: 'text', text: lines.join('\n') });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// /unsubscribe
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class UnsubscribeHandler extends BaseHandler {
+  readonly name = 'unsubscribe';
+  readonly description = 'Stop machine health alerts';
+  readonly usage = '/unsubscribe <machine>|all';
+  readonly requiredPermission = 'READ' as const;
+
+  private readonly monitor: HealthMonitor;
+
+  constructor(client: CMDOPClient, logger: LoggerProtocol, config: SubscribeHandlerConfig) {
+    super(client, logger);
+    this.monitor = config.monitor;
+  }
+
+  async handle(ctx: CommandContext): Promise<HandlerResult> {
+    const target = ctx.args[0];
+    if (!target || !ctx.channel) {
+      return err(new CommandArgsError(this.name, `expected ${this.usage}`));
+    }
+
+    const machine = machineArg(target);
+    let removed: boolean;
+    try {
+      removed = await this.monitor.unsubscribe({ userId: ctx.userId, channel: ctx.channel, machine });
+    } catch (e) {
+      return err(storeError(`unsubscribe from ${machine}`, e));
+    }
+    if (!removed) {
+      return err(new CommandArgsError(this.name, `you are not subscribed to ${target}. See yours with /subscribe`));
+    }
+    return ok({ type: 'text', text: `🔕 No more alerts for ${machineLabel(machine)}.` });
+  }
+}
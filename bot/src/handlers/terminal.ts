@@ -73,6 +73,6 @@ export class TerminalHandler extends BaseHandler {
     const exitInfo = exitCode !== 0 ? ` (exit ${exitCode})` : '';
     const code = (truncated.trim() || `(no output)`) + (exitCode !== 0 ? exitInfo : '');
 
-    return ok({ type: 'code', code, language: 'text' });
+    return ok({ type: 'code', code, language: 'text', exitCode });
   }
 }
@@ -1,13 +1,38 @@
-import { CMDOPClient } from '@cmdop/node';
+import { AgentDiscovery, CMDOPClient } from '@cmdop/node';
 import { MessageDispatcher } from './core/dispatcher.js';
 import { PermissionManager, InMemoryPermissionStore, IdentityMap } from './core/permission-manager.js';
+import { InMemorySessionStore } from './core/session-store.js';
+import { CommandPolicy } from './core/command-policy.js';
+import { AuditLog } from './core/audit-log.js';
+import { JobScheduler } from './core/scheduler.js';
+import type { ScheduleContext, ScheduleOptions } from './core/scheduler.js';
+import { HealthMonitor } from './core/health-monitor.js';
+import type { HealthMonitorOptions } from './core/health-monitor.js';
+import type { AuditLogOptions } from './core/audit-log.js';
+import type { CommandPolicyOptions } from './core/command-policy.js';
 import { createLogger } from './core/logger.js';
 import { TerminalHandler } from './handlers/terminal.js';
 import { AgentHandler } from './handlers/agent.js';
 import { FilesHandler } from './handlers/files.js';
+import { ShellHandler } from './handlers/shell.js';
+import type { ShellHandlerConfig } from './handlers/shell.js';
 import { HelpHandler } from './handlers/help.js';
 import { SkillsHandler } from './handlers/skills.js';
-import type { ChannelProtocol, HandlerProtocol, LoggerProtocol, PermissionStoreProtocol } from './core/types.js';
+import { MachineHandler } from './handlers/machine.js';
+import { GrantHandler, RevokeHandler, LinkHandler, WhoamiHandler } from './handlers/admin.js';
+import { AuditHandler } from './handlers/audit.js';
+import { ScheduleHandler, JobsHandler } from './handlers/schedule.js';
+import { SubscribeHandler, UnsubscribeHandler } from './handlers/subscribe.js';
+import type { ScheduledJob } from './models/job.js';
+import type {
+  ChannelProtocol,
+  HandlerProtocol,
+  IdentityStoreProtocol,
+  JobStoreProtocol,
+  LoggerProtocol,
+  PermissionStoreProtocol,
+  SessionStoreProtocol,
+} from './core/types.js';
 import type { BotSettings } from './config.js';
 import { loadSettings } from './config.js';
 
@@ -21,6 +46,15 @@ type DiscordOptions = import('./channels/discord/channel.js').DiscordChannelOpti
 type SlackChannelCtor = typeof import('./channels/slack/channel.js').SlackChannel;
 type SlackOptions = import('./channels/slack/channel.js').SlackChannelOptions;
 
+type MatrixChannelCtor = typeof import('./channels/matrix/channel.js').MatrixChannel;
+type MatrixOptions = import('./channels/matrix/channel.js').MatrixChannelOptions;
+
+type MattermostChannelCtor = typeof import('./channels/mattermost/channel.js').MattermostChannel;
+type MattermostOptions = import('./channels/mattermost/channel.js').MattermostChannelOptions;
+
+type WebhookChannelCtor = typeof import('./channels/webhook/channel.js').WebhookChannel;
+type WebhookOptions = import('./channels/webhook/channel.js').WebhookChannelOptions;
+
 import { DemoChannel } from './channels/demo/channel.js';
 import type { DemoChannelOptions as DemoOptions } from './channels/demo/channel.js';
 
@@ -33,6 +67,33 @@ export interface HubOptions {
   defaultMachine?: string;
   /** Permission store for user levels. Default: in-memory. */
   permissionStore?: PermissionStoreProtocol;
+  /** Store for cross-channel identity links (/link). Default: in-memory. */
+  identityStore?: IdentityStoreProtocol;
+  /** Per-user session store (machine selected with /machine). Default: in-memory. */
+  sessionStore?: SessionStoreProtocol;
+  /**
+   * Deny/confirm rules for dangerous commands, e.g.
+   * `{ rules: [{ pattern: /\brm\s+-rf\b/, action: 'confirm', requireAdmin: true }] }`.
+   * Default: no policy — every permitted command runs immediately.
+   */
+  commandPolicy?: CommandPolicyOptions;
+  /**
+   * Audit log of every dispatched command, e.g.
+   * `{ writers: [new RotatingFileAuditWriter('./logs/audit.jsonl')] }`.
+   * Default: recent entries in memory only (for /audit).
+   */
+  audit?: AuditLogOptions;
+  /** Store for /schedule jobs, e.g. `new FileJobStore('./data/bot.json')`. Default: in-memory. */
+  jobStore?: JobStoreProtocol;
+  /**
+   * Machine health alerts (/subscribe). Polls agent discovery with an apiKey, or the
+   * local agent's health check otherwise, e.g.
+   * `{ store: new FileSubscriptionStore('./data/bot.json'), pollIntervalMs: 30_000 }`.
+   * Default: in-memory subscriptions, polled every minute while anyone is subscribed.
+   */
+  health?: Omit<HealthMonitorOptions, 'deliver'>;
+  /** /shell idle timeout, output size and terminal size. Default: 10 min idle, 80 columns. */
+  shell?: Omit<ShellHandlerConfig, 'notify'>;
   /** Admin user IDs (always have ADMIN permission). */
   adminUsers?: string[];
   /**
@@ -61,6 +122,11 @@ export class IntegrationHub {
   private readonly channelStatus = new Map<string, ChannelStatus>();
   private readonly _dispatcher: MessageDispatcher;
   private readonly _permissions: PermissionManager;
+  private readonly _sessions: SessionStoreProtocol;
+  private readonly _policy: CommandPolicy | undefined;
+  private readonly _audit: AuditLog;
+  private readonly _scheduler: JobScheduler;
+  private readonly _health: HealthMonitor;
   private readonly channelStartMode: 'strict' | 'isolated';
   private started = false;
 
@@ -69,17 +135,28 @@ export class IntegrationHub {
     private readonly _logger: LoggerProtocol,
     private readonly _settings: BotSettings,
     permissions: PermissionManager,
+    sessions: SessionStoreProtocol,
+    policy: CommandPolicy | undefined,
+    audit: AuditLog,
     dispatcher: MessageDispatcher,
+    scheduler: JobScheduler,
+    health: HealthMonitor,
     channelStartMode: 'strict' | 'isolated',
   ) {
     this._permissions = permissions;
+    this._sessions = sessions;
+    this._policy = policy;
+    this._audit = audit;
     this._dispatcher = dispatcher;
+    this._scheduler = scheduler;
+    this._health = health;
     this.channelStartMode = channelStartMode;
   }
 
   /**
    * Create and configure an IntegrationHub.
-   * Registers default handlers: exec, agent, files, help.
+   * Registers default handlers: exec, agent, skills, files, shell, machine,
+   * schedule, jobs, subscribe, unsubscribe, grant, revoke, link, whoami, audit, help.
    */
   static async create(options: HubOptions = {}): Promise<IntegrationHub> {
     const settings = loadSettings();
@@ -93,23 +170,72 @@ export class IntegrationHub {
       : CMDOPClient.local();
 
     const store = options.permissionStore ?? new InMemoryPermissionStore();
-    const identityMap = new IdentityMap();
+    const identityMap = options.identityStore
+      ? await IdentityMap.load(options.identityStore)
+      : new IdentityMap();
     const permissions = new PermissionManager(store, {
       adminUsers: [...(options.adminUsers ?? []), ...settings.allowedUsers],
       defaultLevel: options.defaultPermission,
       identityMap,
     });
 
-    const dispatcher = new MessageDispatcher(permissions, logger);
+    const sessions = options.sessionStore ?? new InMemorySessionStore();
+    const policy = options.commandPolicy ? new CommandPolicy(options.commandPolicy) : undefined;
+    const audit = new AuditLog(logger, options.audit);
+    const dispatcher = new MessageDispatcher(permissions, logger, sessions, policy, audit);
     const mode = options.channelStartMode ?? 'isolated';
 
-    const hub = new IntegrationHub(client, logger, settings, permissions, dispatcher, mode);
+    // Job results are sent the way replies are: to the job owner on the job's channel
+    const scheduler = new JobScheduler(dispatcher, logger, {
+      store: options.jobStore,
+      deliver: async (job, message) => {
+        await hub.getChannel(job.channel)?.send(job.userId, message);
+      },
+    });
+
+    let discovery: AgentDiscovery | undefined;
+    const health = new HealthMonitor(logger, {
+      ...(options.apiKey
+        ? { listAgents: () => (discovery ??= new AgentDiscovery(options.apiKey!)).listAgents() }
+        : { healthCheck: { hostname: settings.defaultMachine ?? 'local', check: () => client.healthCheck() } }),
+      ...options.health,
+      // Alerts stop for users who lose access, without touching their subscriptions
+      deliver: async (subscription, message) => {
+        if (!(await permissions.hasPermission(subscription.userId, 'READ'))) return;
+        await hub.getChannel(subscription.channel)?.send(subscription.userId, message);
+      },
+    });
+
+    const hub = new IntegrationHub(
+      client, logger, settings, permissions, sessions, policy, audit, dispatcher, scheduler, health, mode,
+    );
 
     // Register default handlers
     hub.registerHandler(new TerminalHandler(client, logger, { maxOutputLength: settings.maxOutputLength }));
     hub.registerHandler(new AgentHandler(client, logger, { maxOutputLength: settings.maxOutputLength }));
     hub.registerHandler(new SkillsHandler(client, logger, { maxOutputLength: settings.maxOutputLength }));
-    hub.registerHandler(new FilesHandler(client, logger));
+    hub.registerHandler(new FilesHandler(client, logger, { maxFileSize: settings.maxFileSize }));
+    hub.registerHandler(new ShellHandler(client, logger, {
+      ...options.shell,
+      // Tell the owner when a shell closes between messages (idle timeout, remote exit)
+      notify: async (target, message) => {
+        const channel = target.channel ? hub.getChannel(target.channel) : undefined;
+        await channel?.send(target.userId, message);
+      },
+    }));
+    hub.registerHandler(new MachineHandler(client, logger, {
+      sessions,
+      defaultMachine: settings.defaultMachine,
+    }));
+    hub.registerHandler(new ScheduleHandler(client, logger, { scheduler }));
+    hub.registerHandler(new JobsHandler(client, logger, { scheduler, permissions }));
+    hub.registerHandler(new SubscribeHandler(client, logger, { monitor: health }));
+    hub.registerHandler(new UnsubscribeHandler(client, logger, { monitor: health }));
+    hub.registerHandler(new GrantHandler(client, logger, { permissions }));
+    hub.registerHandler(new RevokeHandler(client, logger, { permissions }));
+    hub.registerHandler(new LinkHandler(client, logger, { permissions }));
+    hub.registerHandler(new WhoamiHandler(client, logger, { permissions }));
+    hub.registerHandler(new AuditHandler(client, logger, { audit }));
     hub.registerHandler(new HelpHandler(client, logger, {
       getCommands: () => dispatcher.getCommandList(),
     }));
@@ -131,7 +257,10 @@ export class IntegrationHub {
    */
   async addTelegram(options: TelegramOptions): Promise<this> {
     const { TelegramChannel } = await import('./channels/telegram/channel.js') as { TelegramChannel: TelegramChannelCtor };
-    const channel = new TelegramChannel(options, this._permissions, this._dispatcher, this._logger);
+    const channel = new TelegramChannel(
+      { debounceMs: this._settings.debounceMs, ...options },
+      this._permissions, this._dispatcher, this._logger,
+    );
     return this.registerChannel(channel);
   }
 
@@ -141,7 +270,10 @@ export class IntegrationHub {
    */
   async addDiscord(options: DiscordOptions): Promise<this> {
     const { DiscordChannel } = await import('./channels/discord/channel.js') as { DiscordChannel: DiscordChannelCtor };
-    const channel = new DiscordChannel(options, this._permissions, this._dispatcher, this._logger);
+    const channel = new DiscordChannel(
+      { debounceMs: this._settings.debounceMs, ...options },
+      this._permissions, this._dispatcher, this._logger,
+    );
     return this.registerChannel(channel);
   }
 
@@ -155,6 +287,42 @@ export class IntegrationHub {
     return this.registerChannel(channel);
   }
 
+  /**
+   * Convenience: create and register a MatrixChannel without importing it manually.
+   * Uses the homeserver's client-server API directly; no extra packages needed.
+   */
+  async addMatrix(options: MatrixOptions): Promise<this> {
+    const { MatrixChannel } = await import('./channels/matrix/channel.js') as { MatrixChannel: MatrixChannelCtor };
+    const channel = new MatrixChannel(
+      { debounceMs: this._settings.debounceMs, ...options },
+      this._permissions, this._dispatcher, this._logger,
+    );
+    return this.registerChannel(channel);
+  }
+
+  /**
+   * Convenience: create and register a MattermostChannel without importing it manually.
+   * Needs a global WebSocket (Node 22+) or the `webSocket` option, e.g. with `ws`.
+   */
+  async addMattermost(options: MattermostOptions): Promise<this> {
+    const { MattermostChannel } = await import('./channels/mattermost/channel.js') as { MattermostChannel: MattermostChannelCtor };
+    const channel = new MattermostChannel(
+      { debounceMs: this._settings.debounceMs, ...options },
+      this._permissions, this._dispatcher, this._logger,
+    );
+    return this.registerChannel(channel);
+  }
+
+  /**
+   * Convenience: create and register a WebhookChannel — a signed HTTP endpoint
+   * for chat tools and ticketing systems without a channel of their own.
+   */
+  async addWebhook(options: WebhookOptions): Promise<this> {
+    const { WebhookChannel } = await import('./channels/webhook/channel.js') as { WebhookChannel: WebhookChannelCtor };
+    const channel = new WebhookChannel(options, this._permissions, this._dispatcher, this._logger);
+    return this.registerChannel(channel);
+  }
+
   /**
    * Create and register a DemoChannel for CLI testing.
    * No external dependencies — messages are injected via the returned channel's `injectMessage()`.
@@ -211,6 +379,10 @@ export class IntegrationHub {
       }));
     }
 
+    // After channels, so the first results have somewhere to go
+    await this._scheduler.start();
+    this._health.start();
+
     this._logger.info('IntegrationHub started', {
       channels: [...this.channels.keys()],
       running: this.runningChannelIds,
@@ -220,6 +392,8 @@ export class IntegrationHub {
 
   async stop(): Promise<void> {
     this.started = false;
+    this._scheduler.stop();
+    this._health.stop();
     const results = await Promise.allSettled(
       [...this.channels.values()].map(async (ch) => {
         await ch.stop();
@@ -231,10 +405,30 @@ export class IntegrationHub {
         this._logger.error('Channel stop error', { reason: String(r.reason) });
       }
     }
+    await this._dispatcher.close();
+    await this._audit.close().catch((err: unknown) => {
+      this._logger.error('Audit log close error', { err: err instanceof Error ? err.message : String(err) });
+    });
     await this._client.close();
     this._logger.info('IntegrationHub stopped');
   }
 
+  // ─── Scheduled jobs ───────────────────────────────────────────────────────
+
+  /**
+   * Run a command on an interval or cron schedule and post its results.
+   * Same as `/schedule` typed by `ctx.userId`; the job runs with that user's permissions.
+   *
+   * Example — disk usage every morning on weekdays, only when it changed:
+   *   await hub.schedule('0 9 * * 1-5', {
+   *     userId: '12345', channel: 'telegram', channelId: '12345',
+   *     command: 'exec', args: ['df', '-h'],
+   *   }, { notify: 'changed' });
+   */
+  schedule(schedule: string, ctx: ScheduleContext, options?: ScheduleOptions): Promise<ScheduledJob> {
+    return this._scheduler.add(schedule, ctx, options);
+  }
+
   // ─── Identity linking ─────────────────────────────────────────────────────
 
   /**
@@ -308,4 +502,29 @@ export class IntegrationHub {
   get permissions(): PermissionManager {
     return this._permissions;
   }
+
+  /** Per-user session store (machine selections). */
+  get sessions(): SessionStoreProtocol {
+    return this._sessions;
+  }
+
+  /** Audit log of dispatched commands. */
+  get audit(): AuditLog {
+    return this._audit;
+  }
+
+  /** Scheduled jobs (/schedule, /jobs). */
+  get scheduler(): JobScheduler {
+    return this._scheduler;
+  }
+
+  /** Machine health alerts (/subscribe). */
+  get health(): HealthMonitor {
+    return this._health;
+  }
+
+  /** Command policy and its pending approvals / audit trail, if configured. */
+  get policy(): CommandPolicy | undefined {
+    return this._policy;
+  }
 }
@@ -12,6 +12,30 @@ export { BaseChannel } from './core/base-channel.js';
 export { BaseHandler } from './core/base-handler.js';
 export { MessageDispatcher } from './core/dispatcher.js';
 export { PermissionManager, InMemoryPermissionStore, IdentityMap } from './core/permission-manager.js';
+export { InMemorySessionStore } from './core/session-store.js';
+export { CommandPolicy, APPROVAL_COMMAND } from './core/command-policy.js';
+export { AuditLog } from './core/audit-log.js';
+export { JobScheduler } from './core/scheduler.js';
+export type { JobSchedulerOptions, ScheduleContext, ScheduleOptions } from './core/scheduler.js';
+export { parseSchedule, MIN_INTERVAL_MS } from './core/schedule.js';
+export type { Schedule } from './core/schedule.js';
+export { InMemoryJobStore } from './core/job-store.js';
+export { HealthMonitor } from './core/health-monitor.js';
+export type { HealthMonitorOptions, MachineHealth, MachineObservation } from './core/health-monitor.js';
+export { InMemorySubscriptionStore } from './core/subscription-store.js';
+export type { AuditLogOptions, AuditQuery } from './core/audit-log.js';
+export { JsonlAuditWriter, RotatingFileAuditWriter, CallbackAuditWriter } from './core/audit-writers.js';
+export type { RotatingAuditWriterOptions } from './core/audit-writers.js';
+export type {
+  CommandPolicyOptions,
+  PolicyRule,
+  ApprovalRequest,
+  ApprovalAuditEntry,
+  ApprovalDecision,
+} from './core/command-policy.js';
+export { FilePermissionStore, FileIdentityStore, FileJobStore, FileSubscriptionStore } from './core/file-store.js';
+export { SqlitePermissionStore, SqliteIdentityStore } from './core/sqlite-store.js';
+export type { SqliteDatabase, SqliteStatement, SqliteStoreOptions } from './core/sqlite-store.js';
 export { createLogger } from './core/logger.js';
 export { ok, err } from './core/types.js';
 export type {
@@ -19,8 +43,16 @@ export type {
   HandlerProtocol,
   FormatterProtocol,
   PermissionStoreProtocol,
+  IdentityStoreProtocol,
+  SessionStoreProtocol,
+  JobStoreProtocol,
+  SubscriptionStoreProtocol,
+  AuditWriterProtocol,
   LoggerProtocol,
   HandlerResult,
+  ReplyStream,
+  ChannelReplyStream,
+  AttachmentFetcher,
 } from './core/types.js';
 
 // ─── Models ─────────────────────────────────────────────────────────────────
@@ -34,7 +66,11 @@ export {
   HandlerError,
   CommandNotFoundError,
   CommandArgsError,
+  CommandDeniedError,
+  ApprovalError,
+  FileTooLargeError,
   ExecutionTimeoutError,
+  InvalidScheduleError,
   CMDOPError,
   MachineNotFoundError,
   MachineOfflineError,
@@ -44,29 +80,63 @@ export {
   DiscordError,
   SlackError,
   TeamsError,
+  MatrixError,
+  MattermostError,
+  WebhookError,
   ConfigError,
 } from './errors.js';
 
 // ─── Streaming ──────────────────────────────────────────────────────────────
-export { TokenBuffer, SlackStream } from './streaming/index.js';
+export { TokenBuffer, SlackStream, SlackReply, EditableReply, ShellSession, stripAnsi, renderTerminalText } from './streaming/index.js';
+export type { EditableMessageTarget, EditableReplyOptions, ShellSessionOptions, ShellStream } from './streaming/index.js';
 
 // ─── Handlers ───────────────────────────────────────────────────────────────
-export { TerminalHandler, AgentHandler, FilesHandler, HelpHandler } from './handlers/index.js';
+export {
+  TerminalHandler,
+  AgentHandler,
+  FilesHandler,
+  ShellHandler,
+  HelpHandler,
+  MachineHandler,
+  GrantHandler,
+  RevokeHandler,
+  LinkHandler,
+  WhoamiHandler,
+  AuditHandler,
+  ScheduleHandler,
+  JobsHandler,
+  SubscribeHandler,
+  UnsubscribeHandler,
+} from './handlers/index.js';
 export type {
   TerminalHandlerConfig,
   AgentHandlerConfig,
   FilesHandlerConfig,
+  ShellHandlerConfig,
+  ShellTarget,
   HelpHandlerConfig,
+  MachineHandlerConfig,
+  AdminHandlerConfig,
+  AuditHandlerConfig,
+  ScheduleHandlerConfig,
+  JobsHandlerConfig,
+  SubscribeHandlerConfig,
 } from './handlers/index.js';
 
 // ─── Channels ───────────────────────────────────────────────────────────────
 export { DemoChannel } from './channels/demo/index.js';
 export type { DemoChannelOptions } from './channels/demo/index.js';
 
-export { TelegramChannel, TelegramFormatter, buildInlineKeyboard, buildMachineKeyboard } from './channels/telegram/index.js';
+export { TelegramChannel, TelegramFormatter, buildInlineKeyboard, buildKeyboard, buildMachineKeyboard } from './channels/telegram/index.js';
 export type { TelegramChannelOptions, KeyboardAction } from './channels/telegram/index.js';
 
-export { DiscordChannel, DiscordFormatter, DISCORD_COMMANDS, DISCORD_COMMAND_NAMES } from './channels/discord/index.js';
+export {
+  DiscordChannel,
+  DiscordFormatter,
+  DISCORD_COMMANDS,
+  DISCORD_COMMAND_NAMES,
+  buildButtonRows,
+} from './channels/discord/index.js';
 export type { DiscordChannelOptions } from './channels/discord/index.js';
 
 export {
@@ -80,9 +150,27 @@ export {
   fileListBlocks,
   machineStatusBlocks,
   errorBlocks,
+  actionsBlocks,
+  COMMAND_ACTION_PREFIX,
 } from './channels/slack/index.js';
 export type { SlackChannelOptions, SlackBlock, FileEntry, MachineStatus } from './channels/slack/index.js';
 
+export { MatrixChannel, MatrixFormatter, MATRIX_MAX_MESSAGE_LENGTH } from './channels/matrix/index.js';
+export type { MatrixChannelOptions } from './channels/matrix/index.js';
+
+export { MattermostChannel, MattermostFormatter, MATTERMOST_MAX_POST_LENGTH } from './channels/mattermost/index.js';
+export type { MattermostChannelOptions, MattermostWebSocket } from './channels/mattermost/index.js';
+
+export {
+  WebhookChannel,
+  WebhookInboundSchema,
+  signWebhook,
+  verifyWebhook,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from './channels/webhook/index.js';
+export type { WebhookChannelOptions, WebhookInbound, WebhookDelivery } from './channels/webhook/index.js';
+
 // ─── Config ─────────────────────────────────────────────────────────────────
 export { loadSettings, BotSettingsSchema } from './config.js';
 export type { BotSettings } from './config.js';
@@ -0,0 +1,36 @@
+import { z } from 'zod/v4';
+import { PermissionLevelSchema } from './user.js';
+
+/**
+ * One dispatched command, as recorded by AuditLog.
+ * Serialized as one JSON line by the file writers.
+ */
+export const AuditEntrySchema = z.object({
+  timestamp: z.coerce.date(),
+  /** Platform user ID the command came from */
+  userId: z.string(),
+  /** userId after cross-channel identity resolution */
+  canonicalUserId: z.string(),
+  /** Bot channel (platform), e.g. "telegram" */
+  channel: z.string().optional(),
+  /** Chat / conversation ID within the channel */
+  channelId: z.string(),
+  command: z.string(),
+  args: z.array(z.string()),
+  machine: z.string().optional(),
+  requiredPermission: PermissionLevelSchema.optional(),
+  /** Absent when the command does not exist */
+  permission: z.enum(['granted', 'denied']).optional(),
+  /** Command policy outcome, when a rule matched */
+  policy: z.enum(['denied', 'prompted', 'approved']).optional(),
+  /** User whose confirmation or approval ran the command */
+  approvedBy: z.string().optional(),
+  durationMs: z.number().nonnegative(),
+  ok: z.boolean(),
+  /** Error class name, e.g. "PermissionDeniedError" */
+  errorClass: z.string().optional(),
+  errorCode: z.string().optional(),
+  /** UTF-8 size of the reply sent back to the user */
+  outputBytes: z.number().int().nonnegative(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
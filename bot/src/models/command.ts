@@ -1,5 +1,6 @@
 import { z } from 'zod/v4';
 import type { IncomingMessage } from './message.js';
+import type { AttachmentFetcher, ReplyStream } from '../core/types.js';
 
 export const ParsedCommandSchema = z.object({
   name: z.string().min(1),
@@ -13,8 +14,14 @@ export type CommandContext = {
   readonly command: string;
   readonly args: readonly string[];
   readonly channelId: string;
+  /** Bot channel (platform) the command came in on, e.g. "telegram" */
+  readonly channel?: string;
   readonly message: IncomingMessage;
   readonly machine?: string;
+  /** Live reply to stream into, when the channel supports it */
+  readonly reply?: ReplyStream;
+  /** Downloads message.attachments, when the channel supports it */
+  readonly fetchAttachment?: AttachmentFetcher;
 };
 
 export type CommandInfo = {
@@ -41,3 +48,13 @@ export function parseCommand(text: string): ParsedCommand | null {
 
   return ParsedCommandSchema.parse({ name, args, rawText: trimmed });
 }
+
+/**
+ * Split a leading `--machine=<hostname>` flag off command args.
+ * Only the first arg is checked, so `--machine=` later in a shell command
+ * or agent prompt is passed through untouched.
+ */
+export function extractMachineFlag(args: readonly string[]): { args: string[]; machine?: string } {
+  const match = args.length > 0 ? /^--machine=(.+)$/.exec(args[0]!) : null;
+  return match ? { args: args.slice(1), machine: match[1]! } : { args: [...args] };
+}
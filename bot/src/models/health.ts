@@ -0,0 +1,35 @@
+import { z } from 'zod/v4';
+
+/** Machine status as reported by agent discovery */
+export const MachineStatusSchema = z.enum(['online', 'offline', 'busy']);
+export type MachineStatus = z.infer<typeof MachineStatusSchema>;
+
+/**
+ * Alert kinds a subscriber can choose:
+ * - `offline` — went offline, came back, flapping
+ * - `busy` — busy for too long, and free again
+ * - `version` — the agent version changed
+ */
+export const HealthEventSchema = z.enum(['offline', 'busy', 'version']);
+export type HealthEvent = z.infer<typeof HealthEventSchema>;
+
+/** Matches every machine in HealthSubscription.machine */
+export const ALL_MACHINES = '*';
+
+/** A user's request to hear about a machine's health, posted like a command reply */
+export const HealthSubscriptionSchema = z.object({
+  userId: z.string().min(1),
+  /** Bot channel (platform) alerts are posted on, e.g. "telegram" */
+  channel: z.string().min(1),
+  channelId: z.string(),
+  /** Hostname, or ALL_MACHINES */
+  machine: z.string().min(1),
+  events: z.array(HealthEventSchema).min(1),
+  createdAt: z.coerce.date(),
+});
+export type HealthSubscription = z.infer<typeof HealthSubscriptionSchema>;
+
+/** One subscription per user, channel and machine */
+export function subscriptionKey(sub: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'>): string {
+  return `${sub.channel}:${sub.userId}:${sub.machine.toLowerCase()}`;
+}
@@ -2,3 +2,6 @@ export * from './message.js';
 export * from './user.js';
 export * from './command.js';
 export * from './session.js';
+export * from './audit.js';
+export * from './job.js';
+export * from './health.js';
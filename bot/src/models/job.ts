@@ -0,0 +1,33 @@
+import { z } from 'zod/v4';
+
+/**
+ * When a job run is posted to its chat:
+ * - `always` — every run
+ * - `changed` — the output differs from the previous run
+ * - `failed` — the command failed or exited non-zero, plus one notice when it recovers
+ */
+export const JobNotifySchema = z.enum(['always', 'changed', 'failed']);
+export type JobNotify = z.infer<typeof JobNotifySchema>;
+
+/** A command that JobScheduler runs on an interval or cron schedule */
+export const ScheduledJobSchema = z.object({
+  id: z.string().min(1),
+  /** As written by the user: "every 15m" or a 5-field cron expression */
+  schedule: z.string().min(1),
+  command: z.string().min(1),
+  args: z.array(z.string()),
+  /** The job runs with this user's permissions and its results are sent to them */
+  userId: z.string().min(1),
+  /** Bot channel (platform) the results are posted on, e.g. "telegram" */
+  channel: z.string().min(1),
+  channelId: z.string(),
+  threadId: z.string().optional(),
+  machine: z.string().optional(),
+  notify: JobNotifySchema,
+  createdAt: z.coerce.date(),
+  lastRunAt: z.coerce.date().optional(),
+  lastOk: z.boolean().optional(),
+  /** Fingerprint of the last result, compared for notify: 'changed' */
+  lastOutputHash: z.string().optional(),
+});
+export type ScheduledJob = z.infer<typeof ScheduledJobSchema>;
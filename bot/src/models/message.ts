@@ -4,6 +4,8 @@ export const AttachmentSchema = z.object({
   type: z.enum(['photo', 'document', 'audio', 'video']),
   fileId: z.string().optional(),
   url: z.string().optional(),
+  /** Original file name, when the platform provides one */
+  name: z.string().optional(),
   mimeType: z.string().optional(),
   size: z.number().int().nonnegative().optional(),
 });
@@ -22,9 +24,18 @@ export const IncomingMessageSchema = z.object({
 });
 export type IncomingMessage = z.infer<typeof IncomingMessageSchema>;
 
+export const KeyboardButtonSchema = z.object({
+  label: z.string(),
+  /** Command text sent back as a message when the button is pressed */
+  command: z.string(),
+});
+export type KeyboardButton = z.infer<typeof KeyboardButtonSchema>;
+
 export const TextMessageSchema = z.object({
   type: z.literal('text'),
   text: z.string(),
+  /** Button rows — rendered as an inline keyboard where the platform supports it */
+  keyboard: z.array(z.array(KeyboardButtonSchema)).optional(),
 });
 export type TextMessage = z.infer<typeof TextMessageSchema>;
 
@@ -32,6 +43,8 @@ export const CodeMessageSchema = z.object({
   type: z.literal('code'),
   code: z.string(),
   language: z.string().optional(),
+  /** Exit status of the command that printed this output, when known */
+  exitCode: z.number().int().optional(),
 });
 export type CodeMessage = z.infer<typeof CodeMessageSchema>;
 
@@ -42,9 +55,20 @@ export const ErrorMessageSchema = z.object({
 });
 export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
 
+/** A file sent as a native document / attachment */
+export const FileMessageSchema = z.object({
+  type: z.literal('file'),
+  filename: z.string().min(1),
+  data: z.instanceof(Buffer),
+  mimeType: z.string().optional(),
+  caption: z.string().optional(),
+});
+export type FileMessage = z.infer<typeof FileMessageSchema>;
+
 export const OutgoingMessageSchema = z.discriminatedUnion('type', [
   TextMessageSchema,
   CodeMessageSchema,
   ErrorMessageSchema,
+  FileMessageSchema,
 ]);
 export type OutgoingMessage = z.infer<typeof OutgoingMessageSchema>;
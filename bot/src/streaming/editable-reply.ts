@@ -0,0 +1,90 @@
+/**
+ * EditableReply — a ReplyStream for platforms that stream by editing a message.
+ *
+ * The first flush posts a draft; later flushes edit it with everything
+ * received so far. Flushes go through TokenBuffer, so a fast token stream
+ * becomes at most one edit per debounce interval. finish() replaces the
+ * draft with the handler's final, formatted reply.
+ *
+ * Usage (Telegram):
+ *   const reply = new EditableReply({
+ *     post: async (text) => (await api.sendMessage(chatId, text)).message_id,
+ *     edit: (id, text) => api.editMessageText(chatId, id, text).then(() => {}),
+ *     finalize: (id, message) => ...,
+ *   }, { debounceMs: 1000 });
+ */
+
+import { TokenBuffer } from './token-buffer.js';
+import type { ChannelReplyStream } from '../core/types.js';
+import type { OutgoingMessage } from '../models/message.js';
+
+export interface EditableMessageTarget<H> {
+  /** Post the first draft; the returned handle identifies it for edits */
+  post(text: string): Promise<H>;
+  /** Replace the draft text (plain, unformatted) */
+  edit(handle: H, text: string): Promise<void>;
+  /** Replace the draft with the final reply. Handle is null if the draft was never posted. */
+  finalize(handle: H | null, message: OutgoingMessage): Promise<void>;
+}
+
+export interface EditableReplyOptions {
+  /** Minimum interval between edits. Default: 500 */
+  debounceMs?: number;
+  /** Drafts longer than this show only their tail. Default: 4000 */
+  maxLength?: number;
+}
+
+export class EditableReply<H> implements ChannelReplyStream {
+  private readonly buffer: TokenBuffer;
+  private readonly maxLength: number;
+  private draft = '';
+  private handle: H | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private atLineStart = true;
+  private _started = false;
+
+  constructor(
+    private readonly target: EditableMessageTarget<H>,
+    options: EditableReplyOptions = {},
+  ) {
+    this.buffer = new TokenBuffer((delta) => this.render(delta), options.debounceMs ?? 500);
+    this.maxLength = options.maxLength ?? 4000;
+  }
+
+  get started(): boolean {
+    return this._started;
+  }
+
+  append(text: string): void {
+    if (!text) return;
+    this._started = true;
+    this.atLineStart = text.endsWith('\n');
+    this.buffer.append(text);
+  }
+
+  status(line: string): void {
+    this.append(this.atLineStart ? `${line}\n` : `\n${line}\n`);
+  }
+
+  async finish(message: OutgoingMessage): Promise<void> {
+    // A failed last draft edit is superseded by finalize()
+    await this.buffer.drain().catch(() => {});
+    await this.queue;
+    await this.target.finalize(this.handle, message);
+  }
+
+  private render(delta: string): Promise<void> {
+    this.draft += delta;
+    const text = this.draft.length > this.maxLength
+      ? '…' + this.draft.slice(-(this.maxLength - 1))
+      : this.draft;
+
+    const next = this.queue.then(async () => {
+      if (this.handle === null) this.handle = await this.target.post(text);
+      else await this.target.edit(this.handle, text);
+    });
+    // A failed edit must not block later ones — the final edit fixes the draft
+    this.queue = next.catch(() => {});
+    return next;
+  }
+}
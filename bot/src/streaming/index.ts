@@ -1,2 +1,6 @@
 export { TokenBuffer } from './token-buffer.js';
-export { SlackStream } from './slack-stream.js';
+export { SlackStream, SlackReply } from './slack-stream.js';
+export { EditableReply } from './editable-reply.js';
+export { ShellSession, stripAnsi, renderTerminalText } from './shell-session.js';
+export type { ShellSessionOptions, ShellStream } from './shell-session.js';
+export type { EditableMessageTarget, EditableReplyOptions } from './editable-reply.js';
@@ -0,0 +1,220 @@
+/**
+ * ShellSession — an attached terminal driven one chat message at a time.
+ *
+ * Output is ANSI-stripped as it arrives and held until a reply collects it.
+ * collect() streams new output into the reply (debounced by its TokenBuffer)
+ * and resolves once the terminal has been quiet for settleMs, or after
+ * maxWaitMs for commands that keep printing.
+ *
+ * Usage:
+ *   const session = new ShellSession(client.terminal.attach(sessionId));
+ *   await session.open();
+ *   session.write('uptime\r');
+ *   const output = await session.collect(ctx.reply);
+ */
+
+import type { AttachStream, AttachStreamEvent } from '@cmdop/node';
+import type { ReplyStream } from '../core/types.js';
+
+/** The parts of AttachStream a session uses */
+export type ShellStream = Pick<AttachStream, 'on' | 'connect' | 'sendInput' | 'close'>;
+
+export interface ShellSessionOptions {
+  /** Output must pause this long before a reply is complete. Default: 1000 */
+  settleMs?: number;
+  /** Longest a reply waits for output to pause. Default: 10000 */
+  maxWaitMs?: number;
+  /** How long open() waits for the remote terminal. Default: 15000 */
+  readyTimeoutMs?: number;
+  /** Uncollected output kept between replies, in characters. Default: 16000 */
+  maxBuffer?: number;
+}
+
+// CSI (colors, cursor movement), OSC (window titles) and two-byte escapes
+const ANSI_RE = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[@-Z\\-_])/g;
+// An escape sequence cut off at the end of a chunk
+const PARTIAL_ANSI_RE = /\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*\x1b?)?$/;
+
+/** Remove terminal escape sequences, keeping text and line control characters */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_RE, '');
+}
+
+/**
+ * Apply carriage returns and backspaces the way a terminal would, then drop
+ * the remaining control characters. Progress bars collapse to their last state.
+ */
+export function renderTerminalText(text: string): string {
+  return text
+    .replace(/\r+\n/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const visible = line.slice(line.lastIndexOf('\r') + 1);
+      let out = '';
+      for (const ch of visible) {
+        if (ch === '\b') out = out.slice(0, -1);
+        else if (ch === '\t' || ch >= ' ') out += ch;
+      }
+      return out;
+    })
+    .join('\n');
+}
+
+type Collector = { push(text: string): void; end(): void };
+
+export class ShellSession {
+  private readonly settleMs: number;
+  private readonly maxWaitMs: number;
+  private readonly readyTimeoutMs: number;
+  private readonly maxBuffer: number;
+  private readonly decoder = new TextDecoder();
+  private pending = '';
+  private carry = '';
+  private collector: Collector | null = null;
+  private ready: { resolve(): void; reject(err: Error): void } | null = null;
+  private closeListeners: Array<(reason: string) => void> = [];
+  private _closed = false;
+  private _closeReason: string | undefined;
+
+  constructor(
+    private readonly stream: ShellStream,
+    options: ShellSessionOptions = {},
+  ) {
+    this.settleMs = options.settleMs ?? 1000;
+    this.maxWaitMs = options.maxWaitMs ?? 10_000;
+    this.readyTimeoutMs = options.readyTimeoutMs ?? 15_000;
+    this.maxBuffer = options.maxBuffer ?? 16_000;
+    stream.on((event) => this.handleEvent(event));
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  get closeReason(): string | undefined {
+    return this._closeReason;
+  }
+
+  /** Connect and wait until the remote terminal accepts input */
+  async open(): Promise<void> {
+    const ready = new Promise<void>((resolve, reject) => {
+      this.ready = { resolve, reject };
+    });
+    const timer = setTimeout(() => this.close('the terminal did not respond'), this.readyTimeoutMs);
+
+    // connect() resolves when the stream ends, which after open() means the session is over
+    this.stream.connect().then(
+      () => this.close('disconnected'),
+      (err: unknown) => this.close(err instanceof Error ? err.message : String(err)),
+    );
+
+    try {
+      await ready;
+    } finally {
+      clearTimeout(timer);
+      this.ready = null;
+    }
+  }
+
+  /** Send raw input — end lines with \r, as a terminal keyboard does */
+  write(input: string): void {
+    this.stream.sendInput(input);
+  }
+
+  /** Run once when the session closes, from either side */
+  onClose(listener: (reason: string) => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Everything printed since the last collect(), plus whatever follows
+   * until the terminal goes quiet. Returns rendered text (see renderTerminalText).
+   */
+  async collect(reply?: ReplyStream): Promise<string> {
+    let collected = this.pending;
+    this.pending = '';
+
+    // \r and \b rewrite the line being printed, and a chunk can end halfway
+    // through one. Render everything collected so far and stream only the
+    // lines that are finished; the rest follows when collecting ends.
+    let streamedLines = 0;
+    const stream = (final: boolean) => {
+      if (!reply) return;
+      const lines = renderTerminalText(collected).split('\n');
+      const done = final ? lines.length : lines.length - 1;
+      if (done <= streamedLines) return;
+      const text = lines.slice(streamedLines, done).join('\n') + (final ? '' : '\n');
+      streamedLines = done;
+      if (text) reply.append(text);
+    };
+
+    if (collected) stream(false);
+    if (!this._closed) {
+      await new Promise<void>((resolve) => {
+        let quiet: ReturnType<typeof setTimeout> | undefined;
+        const collector: Collector = {
+          push: (text) => {
+            collected += text;
+            stream(false);
+            clearTimeout(quiet);
+            quiet = setTimeout(collector.end, this.settleMs);
+          },
+          end: () => {
+            clearTimeout(quiet);
+            clearTimeout(deadline);
+            if (this.collector === collector) this.collector = null;
+            resolve();
+          },
+        };
+        const deadline = setTimeout(collector.end, this.maxWaitMs);
+        quiet = setTimeout(collector.end, this.settleMs);
+        this.collector = collector;
+      });
+    }
+
+    stream(true);
+    return renderTerminalText(collected);
+  }
+
+  close(reason = 'closed'): void {
+    if (this._closed) return;
+    this._closed = true;
+    this._closeReason = reason;
+    this.stream.close();
+    this.ready?.reject(new Error(reason));
+    this.collector?.end();
+    for (const listener of this.closeListeners) listener(reason);
+    this.closeListeners = [];
+  }
+
+  private handleEvent(event: AttachStreamEvent): void {
+    switch (event.type) {
+      case 'sessionReady':
+        this.ready?.resolve();
+        break;
+      case 'output':
+        this.receive(this.decoder.decode(event.data, { stream: true }));
+        break;
+      case 'closed':
+        this.close(event.reason || 'closed by the machine');
+        break;
+      case 'error':
+        this.close(event.error.message);
+        break;
+    }
+  }
+
+  private receive(chunk: string): void {
+    const text = stripAnsi(this.carry + chunk);
+    const partial = PARTIAL_ANSI_RE.exec(text);
+    this.carry = partial ? partial[0] : '';
+    const complete = partial ? text.slice(0, partial.index) : text;
+    if (!complete) return;
+
+    if (this.collector) {
+      this.collector.push(complete);
+    } else {
+      this.pending = (this.pending + complete).slice(-this.maxBuffer);
+    }
+  }
+}
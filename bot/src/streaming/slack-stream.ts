@@ -1,4 +1,6 @@
 import type { WebClient } from '@slack/web-api';
+import type { ChannelReplyStream } from '../core/types.js';
+import type { OutgoingMessage } from '../models/message.js';
 
 /**
  * Slack native streaming via chat.startStream / appendStream / stopStream.
@@ -80,3 +82,71 @@ export class SlackStream {
     return this.ts;
   }
 }
+
+/**
+ * ReplyStream backed by a SlackStream, for handlers streaming into a Slack thread.
+ *
+ * The stream is opened on the first append, so handlers that never stream
+ * leave no empty message behind. Appends are sent in order; status lines are
+ * appended in italics. Since a finished stream cannot be rewritten, finish()
+ * appends error results, and text or code results only when nothing but
+ * status lines was streamed — otherwise they are what was streamed. File
+ * results go to the fallback after closing the stream.
+ * If Slack refuses the stream, finish() falls back to sending the result.
+ */
+export class SlackReply implements ChannelReplyStream {
+  private stream: Promise<SlackStream> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private atLineStart = true;
+  private _started = false;
+  private streamedText = false;
+
+  constructor(
+    private readonly client: WebClient,
+    private readonly channel: string,
+    private readonly threadTs: string | undefined,
+    private readonly fallback: (message: OutgoingMessage) => Promise<void>,
+  ) {}
+
+  get started(): boolean {
+    return this._started;
+  }
+
+  append(text: string): void {
+    if (!text) return;
+    this.streamedText = true;
+    this.write(text);
+  }
+
+  status(line: string): void {
+    this.write(`${this.atLineStart ? '' : '\n'}_${line}_\n`);
+  }
+
+  private write(text: string): void {
+    this._started = true;
+    this.atLineStart = text.endsWith('\n');
+    this.stream ??= SlackStream.start(this.client, this.channel, this.threadTs);
+    const stream = this.stream;
+    this.queue = this.queue
+      .then(async () => (await stream).append(text))
+      .catch(() => {});
+  }
+
+  async finish(message: OutgoingMessage): Promise<void> {
+    await this.queue;
+    const stream = await this.stream?.catch(() => null);
+    if (!stream) {
+      await this.fallback(message);
+      return;
+    }
+    if (message.type === 'error') {
+      await stream.append(`\n:x: ${message.message}`);
+    } else if (!this.streamedText && message.type === 'text') {
+      await stream.append(message.text);
+    } else if (!this.streamedText && message.type === 'code') {
+      await stream.append(`\`\`\`\n${message.code}\n\`\`\``);
+    }
+    await stream.finish();
+    if (message.type === 'file') await this.fallback(message);
+  }
+}
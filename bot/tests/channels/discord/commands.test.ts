@@ -42,6 +42,14 @@ describe('DISCORD_COMMANDS', () => {
     expect((opt as { required?: boolean })?.required).toBeFalsy();
   });
 
+  it('machine command has optional "hostname" option', () => {
+    const machine = DISCORD_COMMANDS.find((c) => c.name === 'machine');
+    expect(machine).toBeDefined();
+    const opt = machine?.options?.find((o) => o.name === 'hostname');
+    expect(opt).toBeDefined();
+    expect((opt as { required?: boolean })?.required).toBeFalsy();
+  });
+
   it('help command has no options', () => {
     const help = DISCORD_COMMANDS.find((c) => c.name === 'help');
     expect(help).toBeDefined();
@@ -60,7 +68,7 @@ describe('DISCORD_COMMAND_NAMES', () => {
     expect(DISCORD_COMMAND_NAMES).toEqual(DISCORD_COMMANDS.map((c) => c.name));
   });
 
-  it('has 4 entries', () => {
-    expect(DISCORD_COMMAND_NAMES).toHaveLength(4);
+  it('has 6 entries', () => {
+    expect(DISCORD_COMMAND_NAMES).toHaveLength(6);
   });
 });
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { buildButtonRows } from '../../../src/channels/discord/components.js';
+
+describe('buildButtonRows', () => {
+  it('maps each keyboard row to an action row of buttons keyed by command', () => {
+    const rows = buildButtonRows([
+      [{ label: '✅ Confirm', command: '/approval confirm ab12' }, { label: '❌ Cancel', command: '/approval cancel ab12' }],
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]!.type).toBe(1); // ActionRow
+    expect(rows[0]!.components.map((b) => [b.label, b.custom_id])).toEqual([
+      ['✅ Confirm', '/approval confirm ab12'],
+      ['❌ Cancel', '/approval cancel ab12'],
+    ]);
+  });
+
+  it('respects Discord limits on rows, buttons per row and custom ID length', () => {
+    const button = (i: number) => ({ label: `b${i}`, command: `/machine host-${i}` });
+    const rows = buildButtonRows([
+      Array.from({ length: 7 }, (_, i) => button(i)).concat({ label: 'long', command: `/exec ${'x'.repeat(120)}` }),
+      ...Array.from({ length: 6 }, () => [button(0)]),
+    ]);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[0]!.components).toHaveLength(5);
+    expect(rows[0]!.components.every((b) => b.custom_id.length <= 100)).toBe(true);
+  });
+});
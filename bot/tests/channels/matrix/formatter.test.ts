@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { MatrixFormatter, MATRIX_MAX_MESSAGE_LENGTH } from '../../../src/channels/matrix/formatter.js';
+import {
+  BotError,
+  PermissionDeniedError,
+  CommandNotFoundError,
+  CommandArgsError,
+} from '../../../src/errors.js';
+
+describe('MatrixFormatter', () => {
+  const fmt = new MatrixFormatter();
+
+  describe('formatText', () => {
+    it('escapes HTML', () => {
+      expect(fmt.formatText('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+    });
+
+    it('converts bold, italic and inline code', () => {
+      expect(fmt.formatText('**web-01** is _down_, see `uptime`'))
+        .toBe('<strong>web-01</strong> is <em>down</em>, see <code>uptime</code>');
+    });
+
+    it('turns newlines into <br> outside code blocks only', () => {
+      expect(fmt.formatText('Output:\n```sh\nls\n**not bold**\n```\ndone'))
+        .toBe('Output:<br><pre><code class="language-sh">ls\n**not bold**\n</code></pre><br>done');
+    });
+  });
+
+  describe('formatCode', () => {
+    it('wraps escaped code in <pre>', () => {
+      expect(fmt.formatCode('echo <x>', 'sh')).toBe('<pre><code class="language-sh">echo &lt;x&gt;</code></pre>');
+    });
+
+    it('truncates code over the limit', () => {
+      const result = fmt.formatCode('x'.repeat(MATRIX_MAX_MESSAGE_LENGTH + 100));
+      expect(result).toContain('…(truncated)');
+      expect(result.length).toBeLessThan(MATRIX_MAX_MESSAGE_LENGTH + 100);
+    });
+  });
+
+  describe('formatError', () => {
+    it('shows the required permission', () => {
+      expect(fmt.formatError(new PermissionDeniedError('u1', 'EXECUTE'))).toContain('<code>EXECUTE</code>');
+    });
+
+    it('suggests ! commands, which Element does not intercept', () => {
+      expect(fmt.formatError(new CommandNotFoundError('foo'))).toContain('<code>!foo</code>');
+    });
+
+    it('escapes argument errors', () => {
+      expect(fmt.formatError(new CommandArgsError('exec', 'bad <arg>'))).toContain('bad &lt;arg&gt;');
+    });
+
+    it('hides internal errors', () => {
+      expect(fmt.formatError(new BotError('db password wrong'))).not.toContain('password');
+    });
+  });
+
+  describe('formatKeyboard', () => {
+    it('lists each button as a ! command', () => {
+      const { text, html } = fmt.formatKeyboard([[
+        { label: 'Cancel', command: '/jobs cancel a1' },
+        { label: 'All', command: '/jobs all' },
+      ]]);
+      expect(text).toBe('Cancel: !jobs cancel a1\nAll: !jobs all');
+      expect(html).toBe('Cancel: <code>!jobs cancel a1</code><br>All: <code>!jobs all</code>');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { MattermostFormatter, MATTERMOST_MAX_POST_LENGTH } from '../../../src/channels/mattermost/formatter.js';
+import {
+  BotError,
+  PermissionDeniedError,
+  CommandNotFoundError,
+  MachineOfflineError,
+  RateLimitError,
+} from '../../../src/errors.js';
+
+describe('MattermostFormatter', () => {
+  const fmt = new MattermostFormatter();
+
+  describe('formatText', () => {
+    it('passes Markdown through unchanged', () => {
+      expect(fmt.formatText('**web-01** is _down_: `uptime` < 1m')).toBe('**web-01** is _down_: `uptime` < 1m');
+    });
+
+    it('defuses channel-wide mentions', () => {
+      expect(fmt.formatText('ping @channel and @ALL, @here')).toBe('ping @\u200Bchannel and @\u200BALL, @\u200Bhere');
+    });
+
+    it('leaves user mentions alone', () => {
+      expect(fmt.formatText('@alice @allison')).toBe('@alice @allison');
+    });
+  });
+
+  describe('formatCode', () => {
+    it('wraps code in a fenced block with its language', () => {
+      expect(fmt.formatCode('ls -la', 'sh')).toBe('```sh\nls -la\n```');
+    });
+
+    it('keeps code from closing the block early', () => {
+      expect(fmt.formatCode('a```b')).toBe("```\na''`b\n```");
+    });
+
+    it('truncates code over the post limit', () => {
+      const result = fmt.formatCode('x'.repeat(MATTERMOST_MAX_POST_LENGTH));
+      expect(result.length).toBeLessThanOrEqual(MATTERMOST_MAX_POST_LENGTH);
+      expect(result).toContain('…(truncated)');
+    });
+  });
+
+  describe('formatError', () => {
+    it('formats known errors', () => {
+      expect(fmt.formatError(new PermissionDeniedError('u1', 'ADMIN'))).toContain('`ADMIN`');
+      expect(fmt.formatError(new CommandNotFoundError('foo'))).toContain('`!foo`');
+      expect(fmt.formatError(new MachineOfflineError('my-server'))).toContain('**Machine offline**');
+      expect(fmt.formatError(new RateLimitError('slow down'))).toContain('Rate limit');
+    });
+
+    it('hides internal errors', () => {
+      expect(fmt.formatError(new BotError('db password wrong'))).toBe('❌ Something went wrong. Please try again.');
+    });
+  });
+
+  describe('formatKeyboard', () => {
+    it('lists each button as a ! command', () => {
+      expect(fmt.formatKeyboard([[{ label: '🔕 Unsubscribe', command: '/unsubscribe web-01' }]]))
+        .toBe('🔕 Unsubscribe: `!unsubscribe web-01`');
+    });
+  });
+});
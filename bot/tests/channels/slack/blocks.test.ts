@@ -7,6 +7,7 @@ import {
   fileListBlocks,
   machineStatusBlocks,
   errorBlocks,
+  actionsBlocks,
 } from '../../../src/channels/slack/blocks.js';
 import type { FileEntry, MachineStatus } from '../../../src/channels/slack/blocks.js';
 
@@ -136,3 +137,20 @@ describe('errorBlocks', () => {
     expect(blocks).toHaveLength(1);
   });
 });
+
+describe('actionsBlocks', () => {
+  it('builds one actions block per row with the command as button value', () => {
+    const blocks = actionsBlocks([
+      [{ label: '✅ Confirm', command: '/approval confirm ab12' }, { label: '❌ Cancel', command: '/approval cancel ab12' }],
+      [{ label: '🖥 web-01', command: '/machine web-01' }],
+    ]);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]!.type).toBe('actions');
+    const elements = blocks[0]!.elements as Array<{ type: string; action_id: string; value: string }>;
+    expect(elements.map((e) => e.value)).toEqual(['/approval confirm ab12', '/approval cancel ab12']);
+    // action_ids must be unique within the message
+    expect(new Set(blocks.flatMap((b) => (b.elements as Array<{ action_id: string }>).map((e) => e.action_id))).size).toBe(3);
+    expect(elements[0]!.action_id).toMatch(/^cmdop_command_/);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebhookChannel } from '../../../src/channels/webhook/channel.js';
+import type { WebhookDelivery } from '../../../src/channels/webhook/channel.js';
+import { signWebhook, verifyWebhook } from '../../../src/channels/webhook/signature.js';
+import { MessageDispatcher } from '../../../src/core/dispatcher.js';
+import { PermissionManager, InMemoryPermissionStore } from '../../../src/core/permission-manager.js';
+import { createLogger } from '../../../src/core/logger.js';
+import { WebhookError } from '../../../src/errors.js';
+
+const SECRET = 'test-secret';
+
+describe('verifyWebhook', () => {
+  const body = '{"userId":"u1","text":"/exec ls"}';
+
+  it('accepts a fresh signature', () => {
+    const timestamp = Date.now();
+    expect(verifyWebhook(SECRET, { signature: signWebhook(SECRET, timestamp, body), timestamp: String(timestamp), body })).toBe(true);
+  });
+
+  it('rejects a wrong secret, a changed body and an old timestamp', () => {
+    const now = Date.now();
+    const old = now - 10 * 60_000;
+    expect(verifyWebhook(SECRET, { signature: signWebhook('other', now, body), timestamp: String(now), body })).toBe(false);
+    expect(verifyWebhook(SECRET, { signature: signWebhook(SECRET, now, body), timestamp: String(now), body: `${body} ` })).toBe(false);
+    expect(verifyWebhook(SECRET, { signature: signWebhook(SECRET, old, body), timestamp: String(old), body })).toBe(false);
+    expect(verifyWebhook(SECRET, { timestamp: String(now), body })).toBe(false);
+  });
+});
+
+describe('WebhookChannel', () => {
+  const logger = createLogger('error');
+  let receiver: Server;
+  let received: Array<{ headers: Record<string, string | string[] | undefined>; body: string }>;
+  let receiverStatus: number;
+  let channel: WebhookChannel;
+  let handle: ReturnType<typeof vi.fn>;
+
+  /** POST to the channel's inbound endpoint */
+  async function post(body: string, options: { timestamp?: number; secret?: string; path?: string } = {}) {
+    const timestamp = options.timestamp ?? Date.now();
+    return fetch(`http://127.0.0.1:${channel.port}${options.path ?? '/webhook'}`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-cmdop-timestamp': String(timestamp),
+        'x-cmdop-signature': signWebhook(options.secret ?? SECRET, timestamp, body),
+      },
+      body,
+    });
+  }
+
+  /** Wait until the receiver has n deliveries */
+  async function deliveries(n: number): Promise<WebhookDelivery[]> {
+    await vi.waitFor(() => expect(received).toHaveLength(n));
+    return received.map((r) => JSON.parse(r.body) as WebhookDelivery);
+  }
+
+  beforeEach(async () => {
+    received = [];
+    receiverStatus = 200;
+    receiver = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (c: Buffer) => chunks.push(c));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf-8') });
+        res.writeHead(receiverStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+
+    const permissions = new PermissionManager(new InMemoryPermissionStore(), { adminUsers: ['user-1'] });
+    const dispatcher = new MessageDispatcher(permissions, logger);
+    handle = vi.fn().mockResolvedValue({ ok: true, value: { type: 'code', code: 'total 0', exitCode: 0 } });
+    dispatcher.register({ name: 'exec', description: '', usage: '', requiredPermission: 'EXECUTE', handle });
+
+    channel = new WebhookChannel({
+      secret: SECRET,
+      outgoingUrl: `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`,
+      port: 0,
+      host: '127.0.0.1',
+    }, permissions, dispatcher, logger);
+    await channel.start();
+  });
+
+  afterEach(async () => {
+    await channel.stop();
+    await new Promise<void>((resolve) => receiver.close(() => resolve()));
+  });
+
+  it('accepts a signed message and posts the signed reply to the outgoing URL', async () => {
+    const res = await post(JSON.stringify({ id: 'T-42', userId: 'user-1', channelId: 'ticket-42', text: '/exec ls' }));
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ id: 'T-42' });
+
+    const [delivery] = await deliveries(1);
+    expect(delivery).toEqual({
+      userId: 'user-1',
+      channelId: 'ticket-42',
+      replyTo: 'T-42',
+      text: '```\ntotal 0\n```',
+      message: { type: 'code', code: 'total 0', exitCode: 0 },
+    });
+    expect(handle.mock.calls[0]![0]).toMatchObject({ command: 'exec', args: ['ls'], channel: 'webhook' });
+
+    const { headers, body } = received[0]!;
+    expect(verifyWebhook(SECRET, {
+      signature: headers['x-cmdop-signature'] as string,
+      timestamp: headers['x-cmdop-timestamp'] as string,
+      body,
+    })).toBe(true);
+  });
+
+  it('replies with the error when the user lacks permission', async () => {
+    await post(JSON.stringify({ userId: 'stranger', text: '/exec ls' }));
+    const [delivery] = await deliveries(1);
+    expect(delivery!.message.type).toBe('error');
+    expect(delivery!.channelId).toBe('stranger');
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad signatures, stale requests, bad bodies and other paths', async () => {
+    const body = JSON.stringify({ userId: 'user-1', text: '/exec ls' });
+    expect((await post(body, { secret: 'wrong' })).status).toBe(401);
+    expect((await post(body, { timestamp: Date.now() - 10 * 60_000 })).status).toBe(401);
+    expect((await post('not json')).status).toBe(400);
+    expect((await post(JSON.stringify({ text: 'no user' }))).status).toBe(400);
+    expect((await post(body, { path: '/other' })).status).toBe(404);
+    expect((await fetch(`http://127.0.0.1:${channel.port}/webhook`)).status).toBe(405);
+    expect(received).toEqual([]);
+  });
+
+  it('rejects a replayed request within the tolerance window', async () => {
+    const body = JSON.stringify({ userId: 'user-1', text: '/exec ls' });
+    const timestamp = Date.now();
+    expect((await post(body, { timestamp })).status).toBe(202);
+    expect((await post(body, { timestamp })).status).toBe(409);
+    await deliveries(1);
+    expect(handle).toHaveBeenCalledTimes(1);
+
+    // The same body signed again is a new request
+    expect((await post(body, { timestamp: timestamp + 1 })).status).toBe(202);
+  });
+
+  it('send() posts notifications without replyTo and base64-encodes files', async () => {
+    await channel.send('user-1', { type: 'file', filename: 'a.txt', data: Buffer.from('hi') });
+    const [delivery] = await deliveries(1);
+    expect(delivery).toEqual({
+      userId: 'user-1',
+      text: '📎 a.txt',
+      message: { type: 'file', filename: 'a.txt', data: Buffer.from('hi').toString('base64') },
+    });
+  });
+
+  it('send() throws WebhookError when the receiver fails', async () => {
+    receiverStatus = 500;
+    await expect(channel.send('user-1', { type: 'text', text: 'hi' })).rejects.toBeInstanceOf(WebhookError);
+  });
+});
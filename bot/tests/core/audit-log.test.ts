@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AuditLog } from '../../src/core/audit-log.js';
+import type { AuditEntry } from '../../src/models/audit.js';
+import type { LoggerProtocol } from '../../src/core/types.js';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    userId: 'user-1',
+    canonicalUserId: 'user-1',
+    channelId: 'chat-1',
+    command: 'exec',
+    args: ['ls'],
+    permission: 'granted',
+    durationMs: 5,
+    ok: true,
+    outputBytes: 10,
+    ...overrides,
+  };
+}
+
+function mockLogger(): LoggerProtocol {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('AuditLog', () => {
+  it('returns newest entries first, up to the limit', () => {
+    const log = new AuditLog(mockLogger());
+    for (let i = 0; i < 5; i++) log.record(entry({ args: [`cmd-${i}`] }));
+
+    expect(log.query({ limit: 2 }).map((e) => e.args[0])).toEqual(['cmd-4', 'cmd-3']);
+  });
+
+  it('filters by user (platform or canonical), command, machine and failures', () => {
+    const log = new AuditLog(mockLogger());
+    log.record(entry({ userId: 'tg-1', canonicalUserId: 'alice', machine: 'web-01' }));
+    log.record(entry({ userId: 'dc-1', canonicalUserId: 'alice', command: 'agent' }));
+    log.record(entry({ userId: 'bob', canonicalUserId: 'bob', ok: false, errorClass: 'CMDOPError' }));
+
+    expect(log.query({ userId: 'alice' })).toHaveLength(2);
+    expect(log.query({ userId: 'dc-1' })).toHaveLength(1);
+    expect(log.query({ command: 'agent' })[0]!.userId).toBe('dc-1');
+    expect(log.query({ machine: 'web-01' })[0]!.userId).toBe('tg-1');
+    expect(log.query({ failedOnly: true })[0]!.userId).toBe('bob');
+  });
+
+  it('keeps at most bufferSize entries in memory', () => {
+    const log = new AuditLog(mockLogger(), { bufferSize: 3 });
+    for (let i = 0; i < 10; i++) log.record(entry({ args: [`cmd-${i}`] }));
+
+    expect(log.query({ limit: 100 }).map((e) => e.args[0])).toEqual(['cmd-9', 'cmd-8', 'cmd-7']);
+  });
+
+  it('writes to every writer and logs failures without throwing', async () => {
+    const logger = mockLogger();
+    const good = { write: vi.fn().mockResolvedValue(undefined) };
+    const bad = { write: vi.fn().mockRejectedValue(new Error('disk full')) };
+    const log = new AuditLog(logger, { writers: [good, bad] });
+
+    log.record(entry());
+    await log.flush();
+
+    expect(good.write).toHaveBeenCalledOnce();
+    expect(logger.error).toHaveBeenCalledWith('Audit write failed', expect.objectContaining({ err: 'disk full' }));
+  });
+
+  it('close() waits for pending writes, then closes writers', async () => {
+    const order: string[] = [];
+    const writer = {
+      write: vi.fn(async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        order.push('write');
+      }),
+      close: vi.fn(async () => {
+        order.push('close');
+      }),
+    };
+    const log = new AuditLog(mockLogger(), { writers: [writer] });
+
+    log.record(entry());
+    await log.close();
+
+    expect(order).toEqual(['write', 'close']);
+  });
+});
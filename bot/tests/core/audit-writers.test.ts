@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonlAuditWriter, RotatingFileAuditWriter, CallbackAuditWriter } from '../../src/core/audit-writers.js';
+import { AuditEntrySchema } from '../../src/models/audit.js';
+import type { AuditEntry } from '../../src/models/audit.js';
+
+function entry(i: number): AuditEntry {
+  return {
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    userId: 'user-1',
+    canonicalUserId: 'user-1',
+    channel: 'telegram',
+    channelId: 'chat-1',
+    command: 'exec',
+    args: [`echo ${i}`],
+    machine: 'web-01',
+    requiredPermission: 'EXECUTE',
+    permission: 'granted',
+    durationMs: 12,
+    ok: true,
+    outputBytes: 2,
+  };
+}
+
+async function readLines(path: string): Promise<AuditEntry[]> {
+  const raw = await readFile(path, 'utf-8');
+  return raw.trim().split('\n').map((line) => AuditEntrySchema.parse(JSON.parse(line)));
+}
+
+describe('audit writers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cmdop-audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('JsonlAuditWriter', () => {
+    it('appends one parseable line per entry, in order, under concurrent writes', async () => {
+      const path = join(dir, 'logs', 'audit.jsonl');
+      const writer = new JsonlAuditWriter(path);
+
+      await Promise.all(Array.from({ length: 20 }, (_, i) => writer.write(entry(i))));
+      await writer.close();
+
+      const lines = await readLines(path);
+      expect(lines.map((e) => e.args[0])).toEqual(Array.from({ length: 20 }, (_, i) => `echo ${i}`));
+      expect(lines[0]).toEqual(entry(0));
+    });
+  });
+
+  describe('RotatingFileAuditWriter', () => {
+    it('rotates by size and keeps maxFiles old files', async () => {
+      const path = join(dir, 'audit.jsonl');
+      const lineBytes = Buffer.byteLength(JSON.stringify(entry(0)) + '\n');
+      const writer = new RotatingFileAuditWriter(path, { maxBytes: lineBytes * 2, maxFiles: 2 });
+
+      for (let i = 0; i < 7; i++) await writer.write(entry(i));
+
+      expect((await readdir(dir)).sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+      expect((await readLines(path)).map((e) => e.args[0])).toEqual(['echo 6']);
+      expect((await readLines(`${path}.1`)).map((e) => e.args[0])).toEqual(['echo 4', 'echo 5']);
+      expect((await readLines(`${path}.2`)).map((e) => e.args[0])).toEqual(['echo 2', 'echo 3']);
+    });
+
+    it('counts an existing file towards the limit', async () => {
+      const path = join(dir, 'audit.jsonl');
+      const lineBytes = Buffer.byteLength(JSON.stringify(entry(0)) + '\n');
+      await new JsonlAuditWriter(path).write(entry(0));
+
+      await new RotatingFileAuditWriter(path, { maxBytes: lineBytes }).write(entry(1));
+
+      expect((await readLines(`${path}.1`)).map((e) => e.args[0])).toEqual(['echo 0']);
+      expect((await readLines(path)).map((e) => e.args[0])).toEqual(['echo 1']);
+    });
+  });
+
+  describe('CallbackAuditWriter', () => {
+    it('passes entries to the callback', async () => {
+      const callback = vi.fn();
+      await new CallbackAuditWriter(callback).write(entry(1));
+      expect(callback).toHaveBeenCalledWith(entry(1));
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CommandPolicy } from '../../src/core/command-policy.js';
+import type { ApprovalActor } from '../../src/core/command-policy.js';
+import { ApprovalError, CommandDeniedError } from '../../src/errors.js';
+import type { OutgoingMessage } from '../../src/models/message.js';
+import { makeCtx } from '../helpers/fixtures.js';
+
+const requester: ApprovalActor = { userId: 'user-123', isAdmin: false, isRequester: true };
+const otherUser: ApprovalActor = { userId: 'user-456', isAdmin: false, isRequester: false };
+const admin: ApprovalActor = { userId: 'admin', isAdmin: true, isRequester: false };
+
+/** The request ID from a prompt's Confirm button */
+function requestId(prompt: unknown): string {
+  const message = prompt as OutgoingMessage;
+  if (message.type !== 'text' || !message.keyboard) throw new Error('expected a prompt with buttons');
+  return message.keyboard[0]![0]!.command.split(' ')[2]!;
+}
+
+describe('CommandPolicy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('check()', () => {
+    const policy = new CommandPolicy({
+      rules: [
+        { pattern: /\brm\s+-rf\s+\/(\s|$)/, action: 'deny', reason: 'wipes the root filesystem' },
+        { pattern: 'rm -rf', action: 'confirm', reason: 'deletes files' },
+        { pattern: /^DROP/i, action: 'confirm', commands: ['agent'] },
+      ],
+    });
+
+    it('lets unmatched commands through', () => {
+      expect(policy.check(makeCtx({ command: 'exec', args: ['ls', '-la'] }))).toBeUndefined();
+    });
+
+    it('denies matching commands, with deny taking precedence over confirm', () => {
+      const verdict = policy.check(makeCtx({ command: 'exec', args: ['rm', '-rf', '/'] }));
+      expect(verdict).toBeInstanceOf(CommandDeniedError);
+      expect((verdict as CommandDeniedError).message).toContain('wipes the root filesystem');
+    });
+
+    it('returns a prompt with confirm and cancel buttons', () => {
+      const prompt = policy.check(makeCtx({ command: 'exec', args: ['RM', '-rf', 'build'], machine: 'web-01' }));
+      const id = requestId(prompt);
+
+      expect(prompt).toMatchObject({ type: 'text', text: expect.stringContaining('`/exec RM -rf build` on **web-01**') });
+      expect((prompt as { keyboard: unknown }).keyboard).toEqual([[
+        { label: '✅ Confirm', command: `/approval confirm ${id}` },
+        { label: '❌ Cancel', command: `/approval cancel ${id}` },
+      ]]);
+    });
+
+    it('only applies rules to their commands (exec and shell by default)', () => {
+      expect(policy.check(makeCtx({ command: 'agent', args: ['rm', '-rf', 'build'] }))).toBeUndefined();
+      expect(policy.check(makeCtx({ command: 'agent', args: ['drop', 'table'] }))).toMatchObject({ type: 'text' });
+    });
+
+    it('matches the line typed into a shell', () => {
+      expect(policy.check(makeCtx({ command: 'shell', args: ['send', 'rm -rf /'] }))).toBeInstanceOf(CommandDeniedError);
+      expect(policy.check(makeCtx({ command: 'shell', args: ['rm', '-rf', 'build'] }))).toMatchObject({ type: 'text' });
+      expect(policy.check(makeCtx({ command: 'shell', args: ['send', 'ls'] }))).toBeUndefined();
+    });
+  });
+
+  describe('decide()', () => {
+    it('runs the command once the requester confirms', () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm' }] });
+      const ctx = makeCtx({ command: 'exec', args: ['reboot'] });
+      const id = requestId(policy.check(ctx));
+
+      const outcome = policy.decide(id, 'confirm', requester);
+
+      expect(outcome).toMatchObject({ run: true, request: { ctx } });
+      expect(policy.pendingRequests).toHaveLength(0);
+    });
+
+    it('does not let other users confirm', () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm' }] });
+      const id = requestId(policy.check(makeCtx({ command: 'exec', args: ['reboot'] })));
+
+      expect(() => policy.decide(id, 'confirm', otherUser)).toThrow(ApprovalError);
+      expect(() => policy.decide(id, 'cancel', otherUser)).toThrow(ApprovalError);
+      expect(policy.decide(id, 'cancel', admin)).toMatchObject({ run: false });
+    });
+
+    it('requires a second admin when requireAdmin is set', () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm', requireAdmin: true }] });
+      const id = requestId(policy.check(makeCtx({ command: 'exec', args: ['reboot'] })));
+
+      expect(() => policy.decide(id, 'approve', admin)).toThrow('has not confirmed');
+
+      const waiting = policy.decide(id, 'confirm', requester);
+      expect(waiting).toMatchObject({
+        run: false,
+        message: { keyboard: [[{ command: `/approval approve ${id}` }, { command: `/approval reject ${id}` }]] },
+      });
+
+      // An admin cannot approve their own request
+      expect(() => policy.decide(id, 'approve', { ...admin, isRequester: true })).toThrow(ApprovalError);
+      expect(() => policy.decide(id, 'approve', otherUser)).toThrow(ApprovalError);
+      expect(policy.decide(id, 'approve', admin)).toMatchObject({ run: true });
+    });
+
+    it('rejects decisions after the timeout', () => {
+      vi.useFakeTimers();
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm' }], timeoutMs: 1000 });
+      const id = requestId(policy.check(makeCtx({ command: 'exec', args: ['reboot'] })));
+
+      vi.advanceTimersByTime(1001);
+
+      expect(() => policy.decide(id, 'confirm', requester)).toThrow('expired');
+      expect(policy.auditTrail.at(-1)).toMatchObject({ event: 'expired', requestId: id });
+    });
+
+    it('cannot decide a request twice', () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm' }] });
+      const id = requestId(policy.check(makeCtx({ command: 'exec', args: ['reboot'] })));
+
+      policy.decide(id, 'confirm', requester);
+      expect(() => policy.decide(id, 'confirm', requester)).toThrow(ApprovalError);
+    });
+  });
+
+  describe('audit trail', () => {
+    it('records who did what, and forwards entries to onAudit', () => {
+      const onAudit = vi.fn();
+      const policy = new CommandPolicy({
+        rules: [
+          { pattern: 'shutdown', action: 'deny' },
+          { pattern: 'reboot', action: 'confirm', requireAdmin: true, reason: 'restarts the machine' },
+        ],
+        onAudit,
+      });
+
+      policy.check(makeCtx({ command: 'exec', args: ['shutdown'] }));
+      const id = requestId(policy.check(makeCtx({ command: 'exec', args: ['reboot'], machine: 'db-01' })));
+      policy.decide(id, 'confirm', requester);
+      policy.decide(id, 'approve', admin);
+
+      expect(policy.auditTrail.map((e) => [e.event, e.actor])).toEqual([
+        ['denied', 'user-123'],
+        ['requested', 'user-123'],
+        ['confirmed', 'user-123'],
+        ['approved', 'admin'],
+      ]);
+      expect(policy.auditTrail[3]).toMatchObject({
+        requester: 'user-123',
+        command: 'exec',
+        args: ['reboot'],
+        machine: 'db-01',
+        reason: 'restarts the machine',
+        requestId: id,
+      });
+      expect(onAudit).toHaveBeenCalledTimes(4);
+    });
+
+    it('keeps at most auditSize entries', () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'x', action: 'deny' }], auditSize: 2 });
+      for (let i = 0; i < 5; i++) policy.check(makeCtx({ command: 'exec', args: [`x${i}`] }));
+
+      expect(policy.auditTrail.map((e) => e.args[0])).toEqual(['x3', 'x4']);
+    });
+  });
+});
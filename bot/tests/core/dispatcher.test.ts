@@ -1,11 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MessageDispatcher } from '../../src/core/dispatcher.js';
 import { PermissionManager, InMemoryPermissionStore } from '../../src/core/permission-manager.js';
+import { InMemorySessionStore } from '../../src/core/session-store.js';
 import { createLogger } from '../../src/core/logger.js';
-import { CommandNotFoundError, PermissionDeniedError } from '../../src/errors.js';
+import { CommandPolicy } from '../../src/core/command-policy.js';
+import { AuditLog } from '../../src/core/audit-log.js';
+import { ApprovalError, CommandDeniedError, CommandNotFoundError, PermissionDeniedError } from '../../src/errors.js';
 import type { HandlerProtocol, HandlerResult } from '../../src/core/types.js';
 import type { CommandContext } from '../../src/models/command.js';
-import { makeCtx } from '../helpers/fixtures.js';
+import { makeCtx, makeMessage } from '../helpers/fixtures.js';
 
 function makeHandler(name: string, permission = 'NONE' as const, result: HandlerResult = { ok: true, value: { type: 'text', text: 'ok' } }): HandlerProtocol {
   return {
@@ -56,6 +59,41 @@ describe('MessageDispatcher', () => {
     expect(result.ok).toBe(true);
   });
 
+  it('checks requiredPermissionFor when the handler defines it', async () => {
+    const handler = {
+      ...makeHandler('files', 'READ'),
+      requiredPermissionFor: (ctx: CommandContext) => (ctx.args[0] === 'put' ? 'FILES' as const : 'READ' as const),
+    };
+    dispatcher.register(handler);
+    await permissions.setLevel('reader', 'READ');
+
+    await expect(dispatcher.dispatch(makeCtx({ command: 'files', args: ['/tmp'], userId: 'reader' }))).resolves.toMatchObject({ ok: true });
+    await expect(
+      dispatcher.dispatch(makeCtx({ command: 'files', args: ['put', '/tmp/'], userId: 'reader' })),
+    ).rejects.toThrow(PermissionDeniedError);
+  });
+
+  it('routes plain text claimed by a handler to it, and leaves commands alone', async () => {
+    const shell = { ...makeHandler('shell'), interceptText: vi.fn(() => ['send', 'ls']) };
+    const agent = makeHandler('agent');
+    dispatcher.register(shell);
+    dispatcher.register(agent);
+
+    await dispatcher.dispatch(makeCtx({ command: 'agent', args: ['ls'], message: makeMessage({ text: 'ls' }) }));
+    expect(shell.handle).toHaveBeenCalledWith(expect.objectContaining({ command: 'shell', args: ['send', 'ls'] }));
+
+    await dispatcher.dispatch(makeCtx({ command: 'agent', args: ['hi'], message: makeMessage({ text: '/agent hi' }) }));
+    expect(agent.handle).toHaveBeenCalledOnce();
+  });
+
+  it('close() closes handlers that hold resources', async () => {
+    const close = vi.fn().mockResolvedValue(undefined);
+    dispatcher.register({ ...makeHandler('shell'), close });
+    dispatcher.register(makeHandler('exec'));
+    await dispatcher.close();
+    expect(close).toHaveBeenCalledOnce();
+  });
+
   it('hasCommand returns true for registered command', () => {
     dispatcher.register(makeHandler('help'));
     expect(dispatcher.hasCommand('help')).toBe(true);
@@ -76,4 +114,221 @@ describe('MessageDispatcher', () => {
     const result = await dispatcher.dispatch(makeCtx({ command: 'fail', userId: 'admin' }));
     expect(result.ok).toBe(false);
   });
+
+  describe('session machine', () => {
+    let sessions: InMemorySessionStore;
+
+    beforeEach(async () => {
+      sessions = new InMemorySessionStore();
+      await sessions.set({ userId: 'admin', currentMachine: 'web-01', updatedAt: new Date() });
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), sessions);
+    });
+
+    it('fills ctx.machine from the user session', async () => {
+      const handler = makeHandler('exec');
+      dispatcher.register(handler);
+      await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'admin' }));
+      expect(vi.mocked(handler.handle).mock.calls[0]![0].machine).toBe('web-01');
+    });
+
+    it('keeps an explicit machine', async () => {
+      const handler = makeHandler('exec');
+      dispatcher.register(handler);
+      await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'admin', machine: 'db-01' }));
+      expect(vi.mocked(handler.handle).mock.calls[0]![0].machine).toBe('db-01');
+    });
+
+    it('leaves machine unset for users without a selection', async () => {
+      const handler = makeHandler('exec');
+      dispatcher.register(handler);
+      await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'other' }));
+      expect(vi.mocked(handler.handle).mock.calls[0]![0].machine).toBeUndefined();
+    });
+  });
+
+  describe('with a command policy', () => {
+    let handler: HandlerProtocol;
+
+    beforeEach(async () => {
+      await permissions.setLevel('dev', 'EXECUTE');
+      await permissions.setLevel('dev2', 'EXECUTE');
+      const policy = new CommandPolicy({
+        rules: [
+          { pattern: 'mkfs', action: 'deny', reason: 'formats disks' },
+          { pattern: 'rm -rf', action: 'confirm' },
+          { pattern: 'reboot', action: 'confirm', requireAdmin: true },
+        ],
+      });
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), undefined, policy);
+      handler = makeHandler('exec', 'EXECUTE');
+      dispatcher.register(handler);
+    });
+
+    /** Dispatch a command and return the request ID from its prompt */
+    async function prompt(args: string[], userId = 'dev'): Promise<string> {
+      const result = await dispatcher.dispatch(makeCtx({ command: 'exec', userId, args }));
+      if (!result.ok || result.value.type !== 'text' || !result.value.keyboard) {
+        throw new Error('expected a confirmation prompt');
+      }
+      return result.value.keyboard[0]![0]!.command.split(' ')[2]!;
+    }
+
+    function press(decision: string, id: string, userId: string) {
+      return dispatcher.dispatch(makeCtx({ command: 'approval', userId, args: [decision, id] }));
+    }
+
+    it('denies matching commands without running them', async () => {
+      const result = await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'dev', args: ['mkfs.ext4', '/dev/sdb'] }));
+
+      expect(!result.ok && result.error).toBeInstanceOf(CommandDeniedError);
+      expect(handler.handle).not.toHaveBeenCalled();
+    });
+
+    it('blocks denied input typed into an open /shell', async () => {
+      const shell = { ...makeHandler('shell', 'EXECUTE'), interceptText: vi.fn((ctx: CommandContext) => ['send', ctx.message.text]) };
+      dispatcher.register(shell);
+
+      const result = await dispatcher.dispatch(makeCtx({
+        command: 'agent',
+        userId: 'dev',
+        args: ['mkfs.ext4', '/dev/sdb'],
+        message: makeMessage({ text: 'mkfs.ext4 /dev/sdb' }),
+      }));
+
+      expect(!result.ok && result.error).toBeInstanceOf(CommandDeniedError);
+      expect(shell.handle).not.toHaveBeenCalled();
+    });
+
+    it('still checks permission before the policy', async () => {
+      await expect(
+        dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'nobody', args: ['rm', '-rf', 'x'] })),
+      ).rejects.toThrow(PermissionDeniedError);
+    });
+
+    it('runs the original command after the requester confirms', async () => {
+      const id = await prompt(['rm', '-rf', 'build']);
+      expect(handler.handle).not.toHaveBeenCalled();
+
+      const result = await press('confirm', id, 'dev');
+
+      expect(result.ok).toBe(true);
+      expect(handler.handle).toHaveBeenCalledOnce();
+      expect(vi.mocked(handler.handle).mock.calls[0]![0]).toMatchObject({ userId: 'dev', args: ['rm', '-rf', 'build'] });
+    });
+
+    it('treats a linked identity as the requester', async () => {
+      permissions.identity.link('dev', 'dev-on-slack');
+      const id = await prompt(['rm', '-rf', 'build']);
+
+      expect((await press('confirm', id, 'dev-on-slack')).ok).toBe(true);
+      expect(handler.handle).toHaveBeenCalledOnce();
+    });
+
+    it('does not run a cancelled command', async () => {
+      const id = await prompt(['rm', '-rf', 'build']);
+
+      await press('cancel', id, 'dev');
+      const late = await press('confirm', id, 'dev');
+
+      expect(!late.ok && late.error).toBeInstanceOf(ApprovalError);
+      expect(handler.handle).not.toHaveBeenCalled();
+    });
+
+    it('needs a different admin to approve when requireAdmin is set', async () => {
+      const id = await prompt(['reboot']);
+
+      await press('confirm', id, 'dev');
+      const byPeer = await press('approve', id, 'dev2');
+      expect(!byPeer.ok && byPeer.error).toBeInstanceOf(ApprovalError);
+      expect(handler.handle).not.toHaveBeenCalled();
+
+      expect((await press('approve', id, 'admin')).ok).toBe(true);
+      expect(handler.handle).toHaveBeenCalledOnce();
+    });
+
+    it('re-checks the requester\'s permission before running', async () => {
+      const id = await prompt(['rm', '-rf', 'build']);
+      await permissions.setLevel('dev', 'READ');
+
+      await expect(press('confirm', id, 'dev')).rejects.toThrow(PermissionDeniedError);
+      expect(handler.handle).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed approval commands', async () => {
+      const result = await press('maybe', 'abc', 'dev');
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('with an audit log', () => {
+    let audit: AuditLog;
+
+    beforeEach(() => {
+      audit = new AuditLog(createLogger('error'));
+    });
+
+    it('records successful commands with canonical user, machine and output size', async () => {
+      const sessions = new InMemorySessionStore();
+      await sessions.set({ userId: 'admin', currentMachine: 'web-01', updatedAt: new Date() });
+      permissions.identity.link('root-admin', 'admin');
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), sessions, undefined, audit);
+      dispatcher.register(makeHandler('exec', 'EXECUTE', { ok: true, value: { type: 'code', code: 'héllo' } }));
+
+      await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'admin', args: ['echo', 'héllo'], channel: 'telegram' }));
+
+      expect(audit.query()[0]).toMatchObject({
+        userId: 'admin',
+        canonicalUserId: 'root-admin',
+        channel: 'telegram',
+        channelId: 'test-channel',
+        command: 'exec',
+        args: ['echo', 'héllo'],
+        machine: 'web-01',
+        requiredPermission: 'EXECUTE',
+        permission: 'granted',
+        ok: true,
+        outputBytes: 6,
+      });
+    });
+
+    it('records permission denials before rethrowing', async () => {
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), undefined, undefined, audit);
+      dispatcher.register(makeHandler('exec', 'EXECUTE'));
+
+      await expect(dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'nobody' }))).rejects.toThrow(PermissionDeniedError);
+
+      expect(audit.query()[0]).toMatchObject({
+        permission: 'denied',
+        ok: false,
+        errorClass: 'PermissionDeniedError',
+        errorCode: 'PERMISSION_DENIED',
+      });
+    });
+
+    it('records failed results and unknown commands', async () => {
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), undefined, undefined, audit);
+      dispatcher.register(makeHandler('exec', 'NONE', { ok: false, error: new CommandDeniedError('exec', 'nope') }));
+
+      await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'admin' }));
+      await dispatcher.dispatch(makeCtx({ command: 'nope', userId: 'admin' }));
+
+      const [unknown, failed] = audit.query();
+      expect(failed).toMatchObject({ ok: false, errorClass: 'CommandDeniedError', outputBytes: 0 });
+      expect(unknown).toMatchObject({ command: 'nope', permission: undefined, errorClass: 'CommandNotFoundError' });
+    });
+
+    it('records the approved command, not the button press', async () => {
+      const policy = new CommandPolicy({ rules: [{ pattern: 'reboot', action: 'confirm' }] });
+      dispatcher = new MessageDispatcher(permissions, createLogger('error'), undefined, policy, audit);
+      dispatcher.register(makeHandler('exec', 'EXECUTE'));
+
+      const prompt = await dispatcher.dispatch(makeCtx({ command: 'exec', userId: 'admin', args: ['reboot'] }));
+      const id = prompt.ok && prompt.value.type === 'text' ? prompt.value.keyboard![0]![0]!.command.split(' ')[2]! : '';
+      await dispatcher.dispatch(makeCtx({ command: 'approval', userId: 'admin', args: ['confirm', id] }));
+
+      const [approved, prompted] = audit.query();
+      expect(prompted).toMatchObject({ command: 'exec', policy: 'prompted' });
+      expect(approved).toMatchObject({ command: 'exec', args: ['reboot'], policy: 'approved', approvedBy: 'admin', ok: true });
+    });
+  });
 });
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilePermissionStore, FileIdentityStore, FileJobStore, FileSubscriptionStore } from '../../src/core/file-store.js';
+import { IdentityMap, PermissionManager } from '../../src/core/permission-manager.js';
+import { ConfigError } from '../../src/errors.js';
+import type { ScheduledJob } from '../../src/models/job.js';
+import type { HealthSubscription } from '../../src/models/health.js';
+
+describe('file stores', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cmdop-bot-'));
+    path = join(dir, 'state', 'bot.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('FilePermissionStore', () => {
+    it('returns NONE for unknown users and when the file does not exist', async () => {
+      const store = new FilePermissionStore(path);
+      expect(await store.getLevel('user-1')).toBe('NONE');
+    });
+
+    it('persists grants across instances', async () => {
+      await new FilePermissionStore(path).setLevel('user-1', 'EXECUTE');
+      expect(await new FilePermissionStore(path).getLevel('user-1')).toBe('EXECUTE');
+    });
+
+    it('deleteUser() removes the grant', async () => {
+      const store = new FilePermissionStore(path);
+      await store.setLevel('user-1', 'ADMIN');
+      await store.deleteUser('user-1');
+      expect(await store.getLevel('user-1')).toBe('NONE');
+    });
+
+    it('keeps every grant under concurrent writes from separate instances', async () => {
+      const stores = [new FilePermissionStore(path), new FilePermissionStore(path)];
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) => stores[i % 2]!.setLevel(`user-${i}`, 'READ')),
+      );
+
+      const { permissions } = JSON.parse(await readFile(path, 'utf-8'));
+      expect(Object.keys(permissions)).toHaveLength(20);
+    });
+
+    it('ignores unknown levels in the file', async () => {
+      await new FilePermissionStore(path).setLevel('user-1', 'READ');
+      await writeFile(path, JSON.stringify({ permissions: { 'user-1': 'ROOT' } }));
+      expect(await new FilePermissionStore(path).getLevel('user-1')).toBe('NONE');
+    });
+
+    it('throws ConfigError on a corrupt file', async () => {
+      const store = new FilePermissionStore(path);
+      await store.setLevel('user-1', 'READ');
+      await writeFile(path, '{ not json');
+      await expect(store.getLevel('user-1')).rejects.toBeInstanceOf(ConfigError);
+    });
+  });
+
+  describe('FileIdentityStore', () => {
+    it('shares a file with FilePermissionStore without clobbering it', async () => {
+      const permissions = new FilePermissionStore(path);
+      const identities = new FileIdentityStore(path);
+
+      await Promise.all([
+        permissions.setLevel('telegram:1', 'FILES'),
+        identities.apply({ 'discord:2': 'telegram:1' }),
+      ]);
+
+      const state = JSON.parse(await readFile(path, 'utf-8'));
+      expect(state).toEqual({
+        permissions: { 'telegram:1': 'FILES' },
+        identities: { 'discord:2': 'telegram:1' },
+      });
+    });
+
+    it('restores links and grants after a restart', async () => {
+      const before = await IdentityMap.load(new FileIdentityStore(path));
+      const manager = new PermissionManager(new FilePermissionStore(path), { identityMap: before });
+      before.link('telegram:1', 'discord:2');
+      await before.flush();
+      await manager.setLevel('discord:2', 'EXECUTE');
+
+      const after = await IdentityMap.load(new FileIdentityStore(path));
+      const restarted = new PermissionManager(new FilePermissionStore(path), { identityMap: after });
+      expect(after.resolve('discord:2')).toBe('telegram:1');
+      expect(await restarted.getLevel('telegram:1')).toBe('EXECUTE');
+    });
+
+    it('apply() deletes links set to null', async () => {
+      const store = new FileIdentityStore(path);
+      await store.apply({ a: 'a', b: 'a' });
+      await store.apply({ b: null });
+      expect(await store.load()).toEqual({ a: 'a' });
+    });
+  });
+
+  describe('FileJobStore', () => {
+    const job: ScheduledJob = {
+      id: 'job-1',
+      schedule: 'every 15m',
+      command: 'exec',
+      args: ['df', '-h'],
+      userId: 'user-1',
+      channel: 'telegram',
+      channelId: 'chat-1',
+      notify: 'changed',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    it('persists jobs across instances with their dates', async () => {
+      await new FileJobStore(path).save(job);
+      await new FileJobStore(path).save({ ...job, lastRunAt: new Date('2026-01-01T00:15:00Z'), lastOk: true });
+
+      const [loaded] = await new FileJobStore(path).list();
+      expect(loaded).toEqual({ ...job, lastRunAt: new Date('2026-01-01T00:15:00Z'), lastOk: true });
+    });
+
+    it('delete() removes the job and keeps other sections', async () => {
+      const store = new FileJobStore(path);
+      await new FilePermissionStore(path).setLevel('user-1', 'EXECUTE');
+      await store.save(job);
+      await store.delete('job-1');
+
+      expect(await store.list()).toEqual([]);
+      expect(await new FilePermissionStore(path).getLevel('user-1')).toBe('EXECUTE');
+    });
+
+    it('skips entries that are not valid jobs', async () => {
+      await new FileJobStore(path).save(job);
+      const state = JSON.parse(await readFile(path, 'utf-8'));
+      state.jobs.broken = { id: 'broken' };
+      await writeFile(path, JSON.stringify(state));
+
+      expect((await new FileJobStore(path).list()).map((j) => j.id)).toEqual(['job-1']);
+    });
+  });
+
+  describe('FileSubscriptionStore', () => {
+    const sub: HealthSubscription = {
+      userId: 'user-1',
+      channel: 'telegram',
+      channelId: 'chat-1',
+      machine: 'web-01',
+      events: ['offline'],
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    it('keeps one subscription per user, channel and machine', async () => {
+      await new FileSubscriptionStore(path).save(sub);
+      await new FileSubscriptionStore(path).save({ ...sub, machine: 'WEB-01', events: ['offline', 'busy'] });
+
+      expect(await new FileSubscriptionStore(path).list()).toEqual([{ ...sub, machine: 'WEB-01', events: ['offline', 'busy'] }]);
+    });
+
+    it('delete() matches the machine case-insensitively', async () => {
+      const store = new FileSubscriptionStore(path);
+      await store.save(sub);
+      await store.delete({ userId: 'user-1', channel: 'telegram', machine: 'Web-01' });
+      expect(await store.list()).toEqual([]);
+    });
+  });
+});
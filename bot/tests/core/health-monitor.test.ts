@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { RemoteAgentInfo } from '@cmdop/node';
+import { HealthMonitor } from '../../src/core/health-monitor.js';
+import type { HealthMonitorOptions } from '../../src/core/health-monitor.js';
+import { InMemorySubscriptionStore } from '../../src/core/subscription-store.js';
+import { createLogger } from '../../src/core/logger.js';
+import type { HealthSubscription, MachineStatus } from '../../src/models/health.js';
+
+const MINUTE = 60_000;
+
+function agent(hostname: string, status: MachineStatus, version = '1.0.0'): RemoteAgentInfo {
+  return {
+    agentId: `id-${hostname}`,
+    name: hostname,
+    hostname,
+    platform: 'linux',
+    version,
+    status,
+    lastSeen: new Date('2026-01-05T07:59:00Z'),
+    workspaceId: null,
+    labels: null,
+    isOnline: status !== 'offline',
+  };
+}
+
+describe('HealthMonitor', () => {
+  let agents: RemoteAgentInfo[];
+  let deliver: ReturnType<typeof vi.fn>;
+  let store: InMemorySubscriptionStore;
+  let monitor: HealthMonitor;
+
+  function create(options: Partial<HealthMonitorOptions> = {}) {
+    return new HealthMonitor(createLogger('error'), {
+      listAgents: async () => agents,
+      deliver,
+      store,
+      ...options,
+    });
+  }
+
+  /** Texts delivered so far */
+  const sent = () => deliver.mock.calls.map(([, message]) => (message as { text: string }).text);
+
+  /** Advance the clock one poll interval and poll */
+  async function tick(minutes = 1) {
+    vi.setSystemTime(Date.now() + minutes * MINUTE);
+    await monitor.poll();
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T08:00:00Z'));
+    agents = [agent('web-01', 'online'), agent('db-01', 'online')];
+    deliver = vi.fn().mockResolvedValue(undefined);
+    store = new InMemorySubscriptionStore();
+    monitor = create();
+    await monitor.subscribe({ userId: 'user-1', channel: 'telegram', channelId: 'chat-1', machine: '*', events: ['offline', 'busy', 'version'] });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.useRealTimers();
+  });
+
+  it('records a baseline on the first poll without alerting', async () => {
+    await monitor.poll();
+    expect(deliver).not.toHaveBeenCalled();
+    expect(monitor.status().map((m) => `${m.hostname}:${m.status}`)).toEqual(['web-01:online', 'db-01:online']);
+  });
+
+  it('alerts after the change is confirmed, then announces the recovery', async () => {
+    await monitor.poll();
+    agents = [agent('web-01', 'offline'), agent('db-01', 'online')];
+
+    await tick();
+    expect(deliver).not.toHaveBeenCalled();
+    await tick();
+    expect(sent()).toEqual(['🔴 **web-01** went offline. Last seen 2026-01-05 07:59 UTC.']);
+    expect(deliver.mock.calls[0]![0]).toMatchObject({ userId: 'user-1', channel: 'telegram' });
+
+    agents = [agent('web-01', 'online'), agent('db-01', 'online')];
+    await tick(10);
+    await tick();
+    expect(sent()[1]).toBe('✅ **web-01** is back online after 11m');
+  });
+
+  it('ignores a status seen on a single poll', async () => {
+    await monitor.poll();
+    agents = [agent('web-01', 'offline'), agent('db-01', 'online')];
+    await tick();
+    agents = [agent('web-01', 'online'), agent('db-01', 'online')];
+    await tick();
+    await tick();
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('treats a machine that disappears from the listing as offline', async () => {
+    await monitor.poll();
+    agents = [agent('web-01', 'online')];
+    await tick();
+    await tick();
+    expect(sent()).toEqual([expect.stringContaining('**db-01** went offline')]);
+  });
+
+  it('alerts when a machine stays busy too long, and when it is free again', async () => {
+    monitor = create({ busyAlertMs: 15 * MINUTE, confirmPolls: 1 });
+    await monitor.poll();
+    agents = [agent('web-01', 'busy'), agent('db-01', 'online')];
+    await tick();
+    await tick(10);
+    expect(deliver).not.toHaveBeenCalled();
+
+    await tick(5);
+    expect(sent()).toEqual(['⏳ **web-01** has been busy for 15m']);
+    await tick(5);
+    expect(deliver).toHaveBeenCalledOnce();
+
+    agents = [agent('web-01', 'online'), agent('db-01', 'online')];
+    await tick();
+    expect(sent()[1]).toBe('✅ **web-01** is no longer busy (busy for 21m)');
+  });
+
+  it('reports agent version changes', async () => {
+    await monitor.poll();
+    agents = [agent('web-01', 'online', '1.1.0'), agent('db-01', 'online')];
+    await tick();
+    expect(sent()).toEqual(['🔄 **web-01** agent updated: 1.0.0 → 1.1.0']);
+  });
+
+  it('pauses alerts for a flapping machine until it settles', async () => {
+    monitor = create({ confirmPolls: 1, flapThreshold: 3, flapWindowMs: 30 * MINUTE });
+    await monitor.poll();
+    const flip = (status: MachineStatus) => {
+      agents = [agent('web-01', status), agent('db-01', 'online')];
+    };
+
+    flip('offline');
+    await tick();
+    flip('online');
+    await tick();
+    flip('offline');
+    await tick();
+    flip('online');
+    await tick();
+    flip('offline');
+    await tick();
+
+    expect(sent()).toEqual([
+      expect.stringContaining('went offline'),
+      expect.stringContaining('back online'),
+      expect.stringContaining('**web-01** is flapping (3 status changes in 30m)'),
+    ]);
+
+    await tick(29);
+    expect(deliver).toHaveBeenCalledTimes(3);
+    await tick(3);
+    expect(sent()[3]).toBe('🔴 **web-01** has settled: offline');
+
+    flip('online');
+    await tick();
+    expect(sent()[4]).toContain('back online');
+  });
+
+  it('sends each subscriber only the machines and alert kinds they chose', async () => {
+    await monitor.unsubscribe({ userId: 'user-1', channel: 'telegram', machine: '*' });
+    await monitor.subscribe({ userId: 'user-2', channel: 'slack', channelId: 'C1', machine: 'WEB-01', events: ['version'] });
+    await monitor.subscribe({ userId: 'user-3', channel: 'slack', channelId: 'C1', machine: 'db-01', events: ['offline', 'version'] });
+    await monitor.poll();
+
+    agents = [agent('web-01', 'online', '2.0.0'), agent('db-01', 'online')];
+    await tick();
+
+    expect(deliver).toHaveBeenCalledOnce();
+    expect(deliver.mock.calls[0]![0]).toMatchObject({ userId: 'user-2' });
+  });
+
+  it('keeps state when discovery fails', async () => {
+    await monitor.poll();
+    agents = [agent('web-01', 'offline'), agent('db-01', 'online')];
+    monitor = create({ listAgents: vi.fn().mockRejectedValue(new Error('502')) });
+    await monitor.poll();
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('uses the health check for the connected machine; failures count as offline', async () => {
+    const check = vi.fn().mockResolvedValue({ healthy: true, version: '1.0.0' });
+    monitor = create({ listAgents: undefined, healthCheck: { hostname: 'local', check }, confirmPolls: 1 });
+    await monitor.poll();
+
+    check.mockRejectedValue(new Error('connection refused'));
+    await tick();
+    expect(sent()).toEqual(['🔴 **local** went offline.']);
+  });
+
+  it('does not poll without subscriptions', async () => {
+    const listAgents = vi.fn(async () => agents);
+    monitor = create({ listAgents });
+    await monitor.unsubscribe({ userId: 'user-1', channel: 'telegram', machine: '*' });
+    await monitor.poll();
+    expect(listAgents).not.toHaveBeenCalled();
+  });
+
+  it('start() polls on the interval until stopped', async () => {
+    const listAgents = vi.fn(async () => agents);
+    monitor = create({ listAgents, pollIntervalMs: MINUTE });
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(3 * MINUTE);
+    expect(listAgents).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(3 * MINUTE);
+    expect(listAgents).toHaveBeenCalledTimes(3);
+  });
+
+  it('unsubscribe() reports whether there was a subscription', async () => {
+    const sub: Pick<HealthSubscription, 'userId' | 'channel' | 'machine'> = { userId: 'user-1', channel: 'telegram', machine: '*' };
+    expect(await monitor.unsubscribe(sub)).toBe(true);
+    expect(await monitor.unsubscribe(sub)).toBe(false);
+  });
+});
@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { IdentityMap } from '../../src/core/permission-manager.js';
+import type { IdentityStoreProtocol } from '../../src/core/types.js';
+
+function mockStore(saved: Record<string, string> = {}) {
+  return {
+    load: vi.fn().mockResolvedValue(saved),
+    apply: vi.fn().mockResolvedValue(undefined),
+  } satisfies IdentityStoreProtocol;
+}
 
 describe('IdentityMap', () => {
   describe('platformId()', () => {
@@ -85,4 +93,40 @@ describe('IdentityMap', () => {
       expect(map.resolve('a')).toBe('a');     // a was canonical, now alone
     });
   });
+
+  describe('persistence', () => {
+    it('load() restores saved links', async () => {
+      const map = await IdentityMap.load(mockStore({ 'discord:456': 'telegram:123' }));
+      expect(map.resolve('discord:456')).toBe('telegram:123');
+    });
+
+    it('writes the changed links on link() and unlink()', async () => {
+      const store = mockStore();
+      const map = new IdentityMap(store);
+
+      map.link('a', 'b');
+      map.link('c', 'a'); // merges a's group into c
+      map.unlink('b');
+      map.unlink('missing'); // nothing to write
+      await map.flush();
+
+      expect(store.apply.mock.calls.map(([changes]) => changes)).toEqual([
+        { b: 'a', a: 'a' },
+        { a: 'c', b: 'c', c: 'c' },
+        { b: null },
+      ]);
+    });
+
+    it('flush() reports a failed write once', async () => {
+      const store = mockStore();
+      store.apply.mockRejectedValueOnce(new Error('disk full'));
+      const map = new IdentityMap(store);
+
+      map.link('a', 'b');
+      await expect(map.flush()).rejects.toThrow('disk full');
+      await expect(map.flush()).resolves.toBeUndefined();
+      // The in-memory link is kept
+      expect(map.resolve('b')).toBe('a');
+    });
+  });
 });
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseSchedule } from '../../src/core/schedule.js';
+import { InvalidScheduleError } from '../../src/errors.js';
+
+// Cron fields are evaluated in local time, so build dates in local time too
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+describe('parseSchedule', () => {
+  describe('intervals', () => {
+    it('adds the interval to the previous run', () => {
+      const start = at(2026, 1, 5, 8, 0);
+      expect(parseSchedule('every 15m').next(start)).toEqual(at(2026, 1, 5, 8, 15));
+      expect(parseSchedule('every 1h30m').next(start)).toEqual(at(2026, 1, 5, 9, 30));
+      expect(parseSchedule('Every 2 hours').next(start)).toEqual(at(2026, 1, 5, 10, 0));
+      expect(parseSchedule('every 1d').next(start)).toEqual(at(2026, 1, 6, 8, 0));
+    });
+
+    it('keeps the text as written', () => {
+      expect(parseSchedule('every 15m').text).toBe('every 15m');
+    });
+
+    it('rejects unknown units and intervals under a minute', () => {
+      expect(() => parseSchedule('every 15 fortnights')).toThrow(InvalidScheduleError);
+      expect(() => parseSchedule('every')).toThrow(InvalidScheduleError);
+      expect(() => parseSchedule('every 30s')).toThrow('the shortest interval is 1 minute');
+    });
+  });
+
+  describe('cron', () => {
+    it('finds the next matching minute', () => {
+      const cron = parseSchedule('*/15 * * * *');
+      expect(cron.next(at(2026, 1, 5, 8, 7))).toEqual(at(2026, 1, 5, 8, 15));
+      expect(cron.next(at(2026, 1, 5, 8, 15))).toEqual(at(2026, 1, 5, 8, 30));
+      expect(cron.next(at(2026, 1, 5, 8, 50))).toEqual(at(2026, 1, 5, 9, 0));
+    });
+
+    it('skips to weekdays for 1-5 (Jan 3 2026 is a Saturday)', () => {
+      const cron = parseSchedule('0 9 * * 1-5');
+      expect(cron.next(at(2026, 1, 2, 10, 0))).toEqual(at(2026, 1, 5, 9, 0));
+    });
+
+    it('accepts month and day names, lists and 7 as Sunday', () => {
+      expect(parseSchedule('30 6 * jan,mar sun').next(at(2026, 1, 5))).toEqual(at(2026, 1, 11, 6, 30));
+      expect(parseSchedule('0 0 * * 7').next(at(2026, 1, 5))).toEqual(at(2026, 1, 11, 0, 0));
+    });
+
+    it('matches either day field when both are restricted', () => {
+      // The 15th, or any Monday
+      const cron = parseSchedule('0 12 15 * mon');
+      expect(cron.next(at(2026, 1, 6))).toEqual(at(2026, 1, 12, 12, 0));
+      expect(cron.next(at(2026, 1, 12, 13, 0))).toEqual(at(2026, 1, 15, 12, 0));
+    });
+
+    it('supports @daily style shorthands', () => {
+      expect(parseSchedule('@daily').next(at(2026, 1, 5, 8, 0))).toEqual(at(2026, 1, 6, 0, 0));
+      expect(parseSchedule('@hourly').next(at(2026, 1, 5, 8, 0))).toEqual(at(2026, 1, 5, 9, 0));
+    });
+
+    it('rejects malformed fields, out-of-range values and dates that never come', () => {
+      expect(() => parseSchedule('* * *')).toThrow(InvalidScheduleError);
+      expect(() => parseSchedule('60 * * * *')).toThrow("minute '60' is not between 0 and 59");
+      expect(() => parseSchedule('0 9 * * 5-1')).toThrow('backwards');
+      expect(() => parseSchedule('0 0 30 feb *')).toThrow('never matches');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JobScheduler } from '../../src/core/scheduler.js';
+import type { ScheduleContext } from '../../src/core/scheduler.js';
+import { InMemoryJobStore } from '../../src/core/job-store.js';
+import { MessageDispatcher } from '../../src/core/dispatcher.js';
+import { PermissionManager, InMemoryPermissionStore } from '../../src/core/permission-manager.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CommandArgsError, CommandNotFoundError, InvalidScheduleError } from '../../src/errors.js';
+import type { HandlerProtocol, HandlerResult } from '../../src/core/types.js';
+import type { CommandContext } from '../../src/models/command.js';
+
+const MINUTE = 60_000;
+
+const target: ScheduleContext = {
+  userId: 'admin',
+  channel: 'telegram',
+  channelId: 'chat-1',
+  command: 'exec',
+  args: ['df', '-h'],
+};
+
+function codeResult(code: string, exitCode = 0): HandlerResult {
+  return { ok: true, value: { type: 'code', code, language: 'text', exitCode } };
+}
+
+describe('JobScheduler', () => {
+  let handle: ReturnType<typeof vi.fn<(ctx: CommandContext) => Promise<HandlerResult>>>;
+  let deliver: ReturnType<typeof vi.fn>;
+  let store: InMemoryJobStore;
+  let permissions: PermissionManager;
+  let dispatcher: MessageDispatcher;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T08:00:00Z'));
+
+    handle = vi.fn(async () => codeResult('/dev/sda1 40%'));
+    const exec: HandlerProtocol = { name: 'exec', description: 'exec', usage: '/exec', requiredPermission: 'EXECUTE', handle };
+    permissions = new PermissionManager(new InMemoryPermissionStore(), { adminUsers: ['admin'] });
+    dispatcher = new MessageDispatcher(permissions, createLogger('error'));
+    dispatcher.register(exec);
+
+    deliver = vi.fn().mockResolvedValue(undefined);
+    store = new InMemoryJobStore();
+    scheduler = new JobScheduler(dispatcher, createLogger('error'), { store, deliver });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs the command as its owner on every interval and posts the result', async () => {
+    await scheduler.start();
+    const job = await scheduler.add('every 15m', { ...target, machine: 'web-01', threadId: 'th-1' });
+
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(handle).toHaveBeenCalledOnce();
+    const ctx = handle.mock.calls[0]![0];
+    expect(ctx).toMatchObject({ userId: 'admin', command: 'exec', args: ['df', '-h'], machine: 'web-01', channel: 'telegram' });
+    expect(ctx.message).toMatchObject({ text: '/exec df -h', threadId: 'th-1' });
+
+    expect(deliver).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id }),
+      { type: 'text', text: '⏰ every 15m · /exec df -h on web-01\n```\n/dev/sda1 40%\n```' },
+    );
+
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('records each run in the store', async () => {
+    await scheduler.start();
+    const job = await scheduler.add('every 15m', target);
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+
+    const [saved] = await store.list();
+    expect(saved).toMatchObject({ id: job.id, lastOk: true, lastRunAt: new Date('2026-01-05T08:15:00Z') });
+    expect(saved!.lastOutputHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("'changed' posts only when the output differs from the last run", async () => {
+    await scheduler.start();
+    await scheduler.add('every 15m', target, { notify: 'changed' });
+
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).toHaveBeenCalledTimes(1);
+
+    handle.mockResolvedValue(codeResult('/dev/sda1 95%'));
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).toHaveBeenCalledTimes(2);
+  });
+
+  it("'failed' posts non-zero exits and errors, then one recovery notice", async () => {
+    await scheduler.start();
+    await scheduler.add('every 15m', target, { notify: 'failed' });
+
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).not.toHaveBeenCalled();
+
+    handle.mockResolvedValue(codeResult('disk full', 1));
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+      text: expect.stringContaining('❌ failed'),
+    }));
+
+    handle.mockRejectedValue(new Error('connection lost'));
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).toHaveBeenLastCalledWith(expect.anything(), {
+      type: 'error',
+      message: expect.stringContaining('Unexpected error'),
+    });
+
+    handle.mockResolvedValue(codeResult('ok'));
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(deliver).toHaveBeenCalledTimes(3);
+    expect(deliver).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({
+      text: expect.stringContaining('✅ recovered'),
+    }));
+  });
+
+  it('checks permissions at run time, so a revoked owner gets an error instead of output', async () => {
+    await permissions.setLevel('user-2', 'EXECUTE');
+    await scheduler.start();
+    await scheduler.add('every 15m', { ...target, userId: 'user-2' });
+    await permissions.setLevel('user-2', 'READ');
+
+    await vi.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(handle).not.toHaveBeenCalled();
+    expect(deliver).toHaveBeenCalledWith(expect.anything(), {
+      type: 'error',
+      message: expect.stringContaining('requires EXECUTE permission'),
+    });
+  });
+
+  it('cancel() stops the job and removes it from the store', async () => {
+    await scheduler.start();
+    const job = await scheduler.add('every 15m', target);
+
+    expect(await scheduler.cancel(job.id)).toMatchObject({ id: job.id });
+    await vi.advanceTimersByTimeAsync(30 * MINUTE);
+
+    expect(handle).not.toHaveBeenCalled();
+    expect(await scheduler.list()).toEqual([]);
+    expect(await scheduler.cancel(job.id)).toBeUndefined();
+  });
+
+  it('start() re-arms stored jobs from their last run', async () => {
+    const job = await scheduler.add('every 15m', target);
+    expect(scheduler.nextRunAt(job.id)).toBeUndefined();
+
+    await scheduler.start();
+    expect(scheduler.nextRunAt(job.id)).toEqual(new Date('2026-01-05T08:15:00Z'));
+  });
+
+  it('does not replay runs missed while stopped', async () => {
+    await scheduler.add('every 15m', target);
+    vi.setSystemTime(new Date('2026-01-05T10:05:00Z'));
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(14 * MINUTE);
+    expect(handle).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(handle).toHaveBeenCalledOnce();
+  });
+
+  it('rejects bad schedules, unknown commands and job commands', async () => {
+    await expect(scheduler.add('every 10s', target)).rejects.toThrow(InvalidScheduleError);
+    await expect(scheduler.add('every 15m', { ...target, command: 'nope' })).rejects.toThrow(CommandNotFoundError);
+    await expect(scheduler.add('every 15m', { ...target, command: 'jobs' })).rejects.toThrow(CommandNotFoundError);
+
+    const jobs: HandlerProtocol = { name: 'jobs', description: '', usage: '', requiredPermission: 'READ', handle };
+    // Registered, but still not schedulable
+    dispatcher.register(jobs);
+    await expect(scheduler.add('every 15m', { ...target, command: 'jobs' })).rejects.toThrow(CommandArgsError);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SqlitePermissionStore, SqliteIdentityStore } from '../../src/core/sqlite-store.js';
+import type { SqliteDatabase, SqliteStatement } from '../../src/core/sqlite-store.js';
+
+/** Records exec() calls and hands out one mock statement per prepare() */
+function mockDb() {
+  const statements = new Map<string, SqliteStatement>();
+  const db = {
+    exec: vi.fn(),
+    prepare: vi.fn((sql: string) => {
+      const stmt = { run: vi.fn(), get: vi.fn(), all: vi.fn().mockReturnValue([]) };
+      statements.set(sql.split(/\s+/)[0]!, stmt);
+      return stmt;
+    }),
+  } satisfies SqliteDatabase;
+  const stmt = (verb: 'SELECT' | 'INSERT' | 'DELETE') => vi.mocked(statements.get(verb)!);
+  return { db, stmt };
+}
+
+describe('SqlitePermissionStore', () => {
+  it('creates its table and sets a busy timeout', () => {
+    const { db } = mockDb();
+    new SqlitePermissionStore(db, { busyTimeoutMs: 2000 });
+
+    const sql = db.exec.mock.calls.map(([s]) => s);
+    expect(sql).toContain('PRAGMA busy_timeout = 2000');
+    expect(sql.some((s) => s.startsWith('CREATE TABLE IF NOT EXISTS bot_permissions'))).toBe(true);
+  });
+
+  it('upserts grants and reads them back', async () => {
+    const { db, stmt } = mockDb();
+    const store = new SqlitePermissionStore(db);
+
+    await store.setLevel('user-1', 'EXECUTE');
+    expect(stmt('INSERT').run).toHaveBeenCalledWith('user-1', 'EXECUTE', expect.any(String));
+
+    stmt('SELECT').get.mockReturnValue({ level: 'EXECUTE' });
+    expect(await store.getLevel('user-1')).toBe('EXECUTE');
+  });
+
+  it('returns NONE for missing rows and unknown levels', async () => {
+    const { db, stmt } = mockDb();
+    const store = new SqlitePermissionStore(db);
+
+    stmt('SELECT').get.mockReturnValue(undefined);
+    expect(await store.getLevel('user-1')).toBe('NONE');
+    stmt('SELECT').get.mockReturnValue({ level: 'ROOT' });
+    expect(await store.getLevel('user-1')).toBe('NONE');
+  });
+
+  it('rejects unsafe table names', () => {
+    const { db } = mockDb();
+    expect(() => new SqlitePermissionStore(db, { table: 'x; DROP TABLE y' })).toThrow('Invalid SQLite table name');
+  });
+});
+
+describe('SqliteIdentityStore', () => {
+  it('loads rows into a link map', async () => {
+    const { db, stmt } = mockDb();
+    const store = new SqliteIdentityStore(db);
+
+    stmt('SELECT').all.mockReturnValue([{ platform_id: 'discord:2', canonical_id: 'telegram:1' }]);
+    expect(await store.load()).toEqual({ 'discord:2': 'telegram:1' });
+  });
+
+  it('applies changes in one transaction', async () => {
+    const { db, stmt } = mockDb();
+    const store = new SqliteIdentityStore(db);
+    db.exec.mockClear();
+
+    await store.apply({ a: 'c', b: null });
+
+    expect(stmt('INSERT').run).toHaveBeenCalledWith('a', 'c');
+    expect(stmt('DELETE').run).toHaveBeenCalledWith('b');
+    expect(db.exec.mock.calls.map(([s]) => s)).toEqual(['BEGIN IMMEDIATE', 'COMMIT']);
+  });
+
+  it('rolls back when a write fails', async () => {
+    const { db, stmt } = mockDb();
+    const store = new SqliteIdentityStore(db);
+    db.exec.mockClear();
+    stmt('INSERT').run.mockImplementation(() => {
+      throw new Error('SQLITE_BUSY');
+    });
+
+    await expect(store.apply({ a: 'c' })).rejects.toThrow('SQLITE_BUSY');
+    expect(db.exec.mock.calls.map(([s]) => s)).toEqual(['BEGIN IMMEDIATE', 'ROLLBACK']);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GrantHandler, RevokeHandler, LinkHandler, WhoamiHandler } from '../../src/handlers/admin.js';
+import { PermissionManager, InMemoryPermissionStore, IdentityMap } from '../../src/core/permission-manager.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CommandArgsError, HandlerError } from '../../src/errors.js';
+import { createMockClient } from '../helpers/mock-cmdop.js';
+import { makeCtx } from '../helpers/fixtures.js';
+
+function textOf(result: Awaited<ReturnType<GrantHandler['handle']>>): string {
+  if (!result.ok || result.value.type !== 'text') throw new Error('expected a text result');
+  return result.value.text;
+}
+
+describe('admin handlers', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let store: InMemoryPermissionStore;
+  let permissions: PermissionManager;
+  const logger = createLogger('error');
+
+  beforeEach(() => {
+    client = createMockClient();
+    store = new InMemoryPermissionStore();
+    permissions = new PermissionManager(store, { adminUsers: ['admin-1'] });
+  });
+
+  describe('GrantHandler', () => {
+    it('requires ADMIN', () => {
+      expect(new GrantHandler(client, logger, { permissions }).requiredPermission).toBe('ADMIN');
+    });
+
+    it('sets the level, accepting lower case', async () => {
+      const handler = new GrantHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'grant', args: ['user-9', 'execute'] }));
+
+      expect(textOf(result)).toContain('EXECUTE');
+      expect(await permissions.getLevel('user-9')).toBe('EXECUTE');
+    });
+
+    it('rejects missing args and unknown levels', async () => {
+      const handler = new GrantHandler(client, logger, { permissions });
+
+      const missing = await handler.handle(makeCtx({ command: 'grant', args: ['user-9'] }));
+      const unknown = await handler.handle(makeCtx({ command: 'grant', args: ['user-9', 'root'] }));
+
+      expect(!missing.ok && missing.error).toBeInstanceOf(CommandArgsError);
+      expect(!unknown.ok && unknown.error.message).toContain("unknown level 'root'");
+    });
+
+    it('reports store failures', async () => {
+      vi.spyOn(store, 'setLevel').mockRejectedValue(new Error('disk full'));
+      const handler = new GrantHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'grant', args: ['user-9', 'READ'] }));
+
+      expect(!result.ok && result.error).toBeInstanceOf(HandlerError);
+    });
+  });
+
+  describe('RevokeHandler', () => {
+    it('removes the stored level and reports the effective one', async () => {
+      await store.setLevel('user-9', 'FILES');
+      const handler = new RevokeHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'revoke', args: ['user-9'] }));
+
+      expect(textOf(result)).toContain('NONE');
+      expect(await store.getLevel('user-9')).toBe('NONE');
+    });
+
+    it('shows that config admins keep ADMIN', async () => {
+      const handler = new RevokeHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'revoke', args: ['admin-1'] }));
+
+      expect(textOf(result)).toContain('ADMIN');
+    });
+  });
+
+  describe('LinkHandler', () => {
+    it('links two IDs so they share a level', async () => {
+      await permissions.setLevel('telegram:1', 'EXECUTE');
+      const handler = new LinkHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'link', args: ['telegram:1', 'discord:2'] }));
+
+      expect(textOf(result)).toContain('telegram:1');
+      expect(await permissions.getLevel('discord:2')).toBe('EXECUTE');
+    });
+
+    it('rejects linking an ID to itself', async () => {
+      const handler = new LinkHandler(client, logger, { permissions });
+      const result = await handler.handle(makeCtx({ command: 'link', args: ['a', 'a'] }));
+
+      expect(!result.ok && result.error).toBeInstanceOf(CommandArgsError);
+    });
+
+    it('reports identity store failures', async () => {
+      const identityMap = new IdentityMap({
+        load: vi.fn().mockResolvedValue({}),
+        apply: vi.fn().mockRejectedValue(new Error('locked')),
+      });
+      const manager = new PermissionManager(store, { identityMap });
+      const handler = new LinkHandler(client, logger, { permissions: manager });
+      const result = await handler.handle(makeCtx({ command: 'link', args: ['a', 'b'] }));
+
+      expect(!result.ok && result.error).toBeInstanceOf(HandlerError);
+    });
+  });
+
+  describe('WhoamiHandler', () => {
+    it('is available to everyone', () => {
+      expect(new WhoamiHandler(client, logger, { permissions }).requiredPermission).toBe('NONE');
+    });
+
+    it('shows the user ID, linked identity and level', async () => {
+      permissions.identity.link('telegram:1', 'user-123');
+      await permissions.setLevel('telegram:1', 'READ');
+      const handler = new WhoamiHandler(client, logger, { permissions });
+      const text = textOf(await handler.handle(makeCtx({ command: 'whoami' })));
+
+      expect(text).toContain('user-123');
+      expect(text).toContain('_Linked to:_ `telegram:1`');
+      expect(text).toContain('READ');
+    });
+  });
+});
@@ -4,6 +4,19 @@ import { createLogger } from '../../src/core/logger.js';
 import { CMDOPError } from '../../src/errors.js';
 import { createMockClient } from '../helpers/mock-cmdop.js';
 import { makeCtx } from '../helpers/fixtures.js';
+import type { AgentStreamEvent } from '@cmdop/node';
+
+/** An agent.stream() stand-in that replays `events` when started */
+function fakeStream(events: AgentStreamEvent[], result = { success: true, text: 'done', durationMs: 10, toolResults: [], usage: null }) {
+  const listeners: Array<(e: AgentStreamEvent) => void> = [];
+  return {
+    on: vi.fn((cb: (e: AgentStreamEvent) => void) => { listeners.push(cb); }),
+    start: vi.fn(async () => {
+      for (const e of events) listeners.forEach((l) => l(e));
+      return result;
+    }),
+  };
+}
 
 describe('AgentHandler', () => {
   let handler: AgentHandler;
@@ -42,9 +55,11 @@ describe('AgentHandler', () => {
     if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
   });
 
-  it('calls setMachine when ctx.machine is set', async () => {
+  it('passes the session of ctx.machine to the run', async () => {
+    vi.mocked(client.terminal.getActiveSession).mockResolvedValue({ sessionId: 'sess-prod', hostname: 'prod-server' });
     await handler.handle(makeCtx({ args: ['list files'], machine: 'prod-server' }));
-    expect(client.agent.setMachine).toHaveBeenCalledWith('prod-server');
+    expect(client.agent.run).toHaveBeenCalledWith('list files', expect.objectContaining({ sessionId: 'sess-prod' }));
+    expect(client.agent.setMachine).not.toHaveBeenCalled();
   });
 
   it('truncates long response', async () => {
@@ -63,4 +78,39 @@ describe('AgentHandler', () => {
     expect(result.ok).toBe(false);
     if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
   });
+
+  describe('with a live reply', () => {
+    const reply = () => ({ append: vi.fn(), status: vi.fn() });
+
+    it('streams tokens and tool activity instead of calling run()', async () => {
+      const stream = fakeStream([
+        { type: 'tool_start', requestId: 'r', toolName: '', payload: 'ls -la /tmp\n(more)', timestamp: 0 },
+        { type: 'tool_end', requestId: 'r', toolName: 'bash', payload: '', timestamp: 0 },
+        { type: 'thinking', requestId: 'r', payload: 'hmm', timestamp: 0 },
+        { type: 'token', requestId: 'r', token: 'Three ', timestamp: 0 },
+        { type: 'token', requestId: 'r', token: 'files', timestamp: 0 },
+      ], { success: true, text: 'Three files', durationMs: 10, toolResults: [], usage: null });
+      vi.mocked(client.agent.stream).mockReturnValue(stream as never);
+      const live = reply();
+
+      const result = await handler.handle(makeCtx({ args: ['count', 'files'], reply: live }));
+
+      expect(client.agent.run).not.toHaveBeenCalled();
+      expect(client.agent.stream).toHaveBeenCalledWith('count files', { mode: 'chat', timeoutSeconds: 60 });
+      expect(live.status.mock.calls).toEqual([['🔧 ls -la /tmp'], ['✔️ bash']]);
+      expect(live.append.mock.calls).toEqual([['Three '], ['files']]);
+      expect(result).toEqual({ ok: true, value: { type: 'text', text: 'Three files' } });
+    });
+
+    it('maps stream failures like run() failures', async () => {
+      const stream = fakeStream([]);
+      stream.start.mockRejectedValue(new Error('DEADLINE_EXCEEDED'));
+      vi.mocked(client.agent.stream).mockReturnValue(stream as never);
+
+      const result = await handler.handle(makeCtx({ args: ['slow task'], reply: reply() }));
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.message).toContain('timed out');
+    });
+  });
 });
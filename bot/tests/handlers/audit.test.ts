@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuditHandler } from '../../src/handlers/audit.js';
+import { AuditLog } from '../../src/core/audit-log.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CommandArgsError } from '../../src/errors.js';
+import type { AuditEntry } from '../../src/models/audit.js';
+import { createMockClient } from '../helpers/mock-cmdop.js';
+import { makeCtx } from '../helpers/fixtures.js';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: new Date('2026-03-04T05:06:07Z'),
+    userId: '111',
+    canonicalUserId: '111',
+    channel: 'telegram',
+    channelId: 'chat-1',
+    command: 'exec',
+    args: ['df', '-h'],
+    machine: 'web-01',
+    permission: 'granted',
+    durationMs: 42,
+    ok: true,
+    outputBytes: 2048,
+    ...overrides,
+  };
+}
+
+describe('AuditHandler', () => {
+  let audit: AuditLog;
+  let handler: AuditHandler;
+
+  beforeEach(() => {
+    audit = new AuditLog(createLogger('error'));
+    handler = new AuditHandler(createMockClient(), createLogger('error'), { audit, maxEntries: 3 });
+  });
+
+  it('requires ADMIN', () => {
+    expect(handler.requiredPermission).toBe('ADMIN');
+  });
+
+  it('formats recent entries, newest first', async () => {
+    audit.record(entry());
+    audit.record(entry({
+      userId: '222',
+      canonicalUserId: 'alice',
+      command: 'files',
+      args: ['/etc'],
+      machine: undefined,
+      ok: false,
+      permission: 'denied',
+      errorClass: 'PermissionDeniedError',
+    }));
+
+    const result = await handler.handle(makeCtx({ command: 'audit', args: [] }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'code') {
+      expect(result.value.code.split('\n')).toEqual([
+        '03-04 05:06:07 DENY 222→alice (telegram) /files /etc [42ms, PermissionDeniedError]',
+        '03-04 05:06:07 ok  111 (telegram @web-01) /exec df -h [42ms, 2.0K]',
+      ]);
+    }
+  });
+
+  it('applies filters and caps the limit', async () => {
+    for (let i = 0; i < 5; i++) audit.record(entry({ args: [`${i}`] }));
+    audit.record(entry({ command: 'agent', machine: 'db-01' }));
+
+    const capped = await handler.handle(makeCtx({ command: 'audit', args: ['100', 'command=/exec'] }));
+    const byMachine = await handler.handle(makeCtx({ command: 'audit', args: ['machine=db-01'] }));
+
+    expect(capped.ok && capped.value.type === 'code' && capped.value.code.split('\n')).toHaveLength(3);
+    expect(byMachine.ok && byMachine.value.type === 'code' && byMachine.value.code).toContain('/agent');
+  });
+
+  it('says so when nothing matches', async () => {
+    const result = await handler.handle(makeCtx({ command: 'audit', args: ['user=nobody', 'failed'] }));
+    expect(result).toEqual({ ok: true, value: { type: 'text', text: 'No matching activity.' } });
+  });
+
+  it('rejects unknown filters', async () => {
+    const result = await handler.handle(makeCtx({ command: 'audit', args: ['host=web-01'] }));
+    expect(!result.ok && result.error).toBeInstanceOf(CommandArgsError);
+  });
+});
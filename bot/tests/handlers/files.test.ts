@@ -1,9 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { FilesHandler } from '../../src/handlers/files.js';
 import { createLogger } from '../../src/core/logger.js';
-import { CMDOPError } from '../../src/errors.js';
+import { CMDOPError, FileTooLargeError } from '../../src/errors.js';
 import { createMockClient } from '../helpers/mock-cmdop.js';
-import { makeCtx } from '../helpers/fixtures.js';
+import { makeCtx, makeMessage } from '../helpers/fixtures.js';
 
 describe('FilesHandler', () => {
   let handler: FilesHandler;
@@ -72,9 +72,25 @@ describe('FilesHandler', () => {
     if (!result.ok) expect(result.error.code).toBe('COMMAND_ARGS');
   });
 
-  it('calls setMachine when ctx.machine is set', async () => {
+  it('passes the session of ctx.machine to the call', async () => {
+    vi.mocked(client.terminal.getActiveSession).mockResolvedValue({ sessionId: 'sess-server1', hostname: 'server1' });
     await handler.handle(makeCtx({ args: ['/tmp'], machine: 'server1' }));
-    expect(client.files.setMachine).toHaveBeenCalledWith('server1');
+    expect(client.terminal.getActiveSession).toHaveBeenCalledWith({ hostname: 'server1' });
+    expect(client.files.list).toHaveBeenCalledWith('/tmp', expect.objectContaining({ sessionId: 'sess-server1' }));
+    expect(client.files.setMachine).not.toHaveBeenCalled();
+  });
+
+  it('uses the default session when no machine is selected', async () => {
+    await handler.handle(makeCtx({ args: ['read', '/etc/hostname'] }));
+    expect(client.terminal.getActiveSession).not.toHaveBeenCalled();
+    expect(client.files.read).toHaveBeenCalledWith('/etc/hostname', { sessionId: undefined });
+  });
+
+  it('fails when the selected machine has no active session', async () => {
+    vi.mocked(client.terminal.getActiveSession).mockResolvedValue(undefined);
+    const result = await handler.handle(makeCtx({ args: ['/tmp'], machine: 'gone' }));
+    expect(result.ok).toBe(false);
+    expect(client.files.list).not.toHaveBeenCalled();
   });
 
   it('wraps list errors as CMDOPError', async () => {
@@ -83,4 +99,114 @@ describe('FilesHandler', () => {
     expect(result.ok).toBe(false);
     if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
   });
+
+  it('requires FILES for get and put only', () => {
+    expect(handler.requiredPermissionFor(makeCtx({ args: ['get', '/etc/hosts'] }))).toBe('FILES');
+    expect(handler.requiredPermissionFor(makeCtx({ args: ['put', '/tmp/'] }))).toBe('FILES');
+    expect(handler.requiredPermissionFor(makeCtx({ args: ['read', '/etc/hosts'] }))).toBe('READ');
+  });
+
+  describe('get', () => {
+    it('returns the file as a file message', async () => {
+      vi.mocked(client.files.stat).mockResolvedValue({ name: 'hosts', type: 'file', size: 12 });
+      const result = await handler.handle(makeCtx({ args: ['get', '/etc/hosts'] }));
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.type === 'file') {
+        expect(result.value.filename).toBe('hosts');
+        expect(result.value.data.toString()).toBe('file content');
+        expect(result.value.caption).toContain('/etc/hosts');
+      }
+    });
+
+    it('reads truncated files to the end', async () => {
+      vi.mocked(client.files.stat).mockResolvedValue({ name: 'app.log', type: 'file', size: 10 });
+      vi.mocked(client.files.read)
+        .mockResolvedValueOnce({ content: Buffer.from('hello'), totalSize: 10, isTruncated: true })
+        .mockResolvedValueOnce({ content: Buffer.from('world'), totalSize: 10, isTruncated: false });
+      const result = await handler.handle(makeCtx({ args: ['get', '/var/log/app.log'] }));
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.type === 'file') {
+        expect(result.value.data.toString()).toBe('helloworld');
+      }
+      expect(client.files.read).toHaveBeenLastCalledWith('/var/log/app.log', expect.objectContaining({ offset: 5 }));
+    });
+
+    it('fails instead of sending a truncated file', async () => {
+      vi.mocked(client.files.stat).mockResolvedValue({ name: 'app.log', type: 'file', size: 10 });
+      vi.mocked(client.files.read)
+        .mockResolvedValueOnce({ content: Buffer.from('hello'), totalSize: 10, isTruncated: true })
+        .mockResolvedValueOnce({ content: Buffer.alloc(0), totalSize: 10, isTruncated: true });
+      const result = await handler.handle(makeCtx({ args: ['get', '/var/log/app.log'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
+    });
+
+    it('refuses files over maxFileSize without reading them', async () => {
+      vi.mocked(client.files.stat).mockResolvedValue({ name: 'big.iso', type: 'file', size: 2048 });
+      handler = new FilesHandler(client, createLogger('error'), { maxFileSize: 1024 });
+      const result = await handler.handle(makeCtx({ args: ['get', '/tmp/big.iso'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBeInstanceOf(FileTooLargeError);
+      expect(client.files.read).not.toHaveBeenCalled();
+    });
+
+    it('refuses directories', async () => {
+      vi.mocked(client.files.stat).mockResolvedValue({ name: 'tmp', type: 'directory' });
+      const result = await handler.handle(makeCtx({ args: ['get', '/tmp'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('COMMAND_ARGS');
+    });
+  });
+
+  describe('put', () => {
+    const attachment = { type: 'document' as const, fileId: 'f1', name: 'app.yml', size: 5 };
+
+    function putCtx(args: string[], fetchAttachment = vi.fn().mockResolvedValue(Buffer.from('hello'))) {
+      return makeCtx({
+        args: ['put', ...args],
+        message: makeMessage({ attachments: [attachment] }),
+        fetchAttachment,
+      });
+    }
+
+    it('writes the attachment under its own name into a directory path', async () => {
+      const result = await handler.handle(putCtx(['/srv/']));
+      expect(result.ok).toBe(true);
+      expect(client.files.write).toHaveBeenCalledWith('/srv/app.yml', Buffer.from('hello'), { overwrite: false, createParents: true });
+    });
+
+    it('passes --overwrite through', async () => {
+      await handler.handle(putCtx(['/srv/config.yml', '--overwrite']));
+      expect(client.files.write).toHaveBeenCalledWith('/srv/config.yml', expect.any(Buffer), { overwrite: true, createParents: true });
+    });
+
+    it('downloads with the size limit', async () => {
+      const fetchAttachment = vi.fn().mockResolvedValue(Buffer.from('hello'));
+      handler = new FilesHandler(client, createLogger('error'), { maxFileSize: 100 });
+      await handler.handle(putCtx(['/srv/'], fetchAttachment));
+      expect(fetchAttachment).toHaveBeenCalledWith(attachment, { maxBytes: 100 });
+    });
+
+    it('refuses an attachment over the limit before downloading', async () => {
+      const fetchAttachment = vi.fn();
+      handler = new FilesHandler(client, createLogger('error'), { maxFileSize: 4 });
+      const result = await handler.handle(putCtx(['/srv/'], fetchAttachment));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toBeInstanceOf(FileTooLargeError);
+      expect(fetchAttachment).not.toHaveBeenCalled();
+    });
+
+    it('requires an attachment', async () => {
+      const result = await handler.handle(makeCtx({ args: ['put', '/srv/'] }));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('COMMAND_ARGS');
+    });
+
+    it('hints at --overwrite when the write fails', async () => {
+      vi.mocked(client.files.write).mockRejectedValue(new Error('file exists'));
+      const result = await handler.handle(putCtx(['/srv/app.yml']));
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.message).toContain('--overwrite');
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MachineHandler } from '../../src/handlers/machine.js';
+import { InMemorySessionStore } from '../../src/core/session-store.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CMDOPError, MachineOfflineError } from '../../src/errors.js';
+import { createMockClient } from '../helpers/mock-cmdop.js';
+import { makeCtx } from '../helpers/fixtures.js';
+
+function online(...hostnames: string[]) {
+  return {
+    sessions: hostnames.map((hostname, i) => ({ sessionId: `sess-${i}`, hostname, status: 'connected' })),
+    total: hostnames.length,
+    workspaceName: '',
+  };
+}
+
+describe('MachineHandler', () => {
+  let handler: MachineHandler;
+  let client: ReturnType<typeof createMockClient>;
+  let sessions: InMemorySessionStore;
+
+  beforeEach(() => {
+    client = createMockClient();
+    sessions = new InMemorySessionStore();
+    handler = new MachineHandler(client, createLogger('error'), { sessions, defaultMachine: 'web-01' });
+  });
+
+  it('has correct metadata', () => {
+    expect(handler.name).toBe('machine');
+    expect(handler.requiredPermission).toBe('READ');
+    expect(handler.usage).toContain('/machine');
+  });
+
+  it('lists online machines as a keyboard, two per row', async () => {
+    vi.mocked(client.terminal.listActive).mockResolvedValue(online('web-01', 'web-02', 'db-01', 'web-01') as never);
+    const result = await handler.handle(makeCtx({ command: 'machine', args: [] }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.keyboard).toEqual([
+        [
+          { label: '🖥 web-01', command: '/machine web-01' },
+          { label: '🖥 web-02', command: '/machine web-02' },
+        ],
+        [{ label: '🖥 db-01', command: '/machine db-01' }],
+      ]);
+      expect(result.value.text).toContain('✅ **web-01**');
+    }
+  });
+
+  it('marks the user selection as current', async () => {
+    vi.mocked(client.terminal.listActive).mockResolvedValue(online('web-01', 'db-01') as never);
+    const result = await handler.handle(makeCtx({ command: 'machine', args: [], machine: 'db-01' }));
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.text).toContain('✅ **db-01**');
+      expect(result.value.text).toContain('🖥 web-01');
+    }
+  });
+
+  it('reports when no machines are online', async () => {
+    vi.mocked(client.terminal.listActive).mockResolvedValue(online() as never);
+    const result = await handler.handle(makeCtx({ command: 'machine', args: [] }));
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.text).toContain('No machines online');
+      expect(result.value.keyboard).toBeUndefined();
+    }
+  });
+
+  it('stores the selected machine in the session', async () => {
+    await sessions.set({ userId: 'user-123', lastCommand: 'exec', updatedAt: new Date(0) });
+    const result = await handler.handle(makeCtx({ command: 'machine', args: ['web-02'] }));
+
+    expect(result.ok).toBe(true);
+    expect(client.terminal.getActiveSession).toHaveBeenCalledWith({ hostname: 'web-02' });
+    const session = await sessions.get('user-123');
+    expect(session?.currentMachine).toBe('web-02');
+    expect(session?.lastCommand).toBe('exec');
+  });
+
+  it('clears the selection with --clear', async () => {
+    await sessions.set({ userId: 'user-123', currentMachine: 'web-02', lastCommand: 'exec', updatedAt: new Date(0) });
+    const result = await handler.handle(makeCtx({ command: 'machine', args: ['--clear'] }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'text') expect(result.value.text).toContain('web-01');
+    const session = await sessions.get('user-123');
+    expect(session?.currentMachine).toBeUndefined();
+    expect(session?.lastCommand).toBe('exec');
+    expect(client.terminal.getActiveSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects machines without an active session', async () => {
+    vi.mocked(client.terminal.getActiveSession).mockResolvedValue(null);
+    const result = await handler.handle(makeCtx({ command: 'machine', args: ['gone'] }));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(MachineOfflineError);
+    expect(await sessions.get('user-123')).toBeNull();
+  });
+
+  it('wraps client errors as CMDOPError', async () => {
+    vi.mocked(client.terminal.listActive).mockRejectedValue(new Error('network error'));
+    const result = await handler.handle(makeCtx({ command: 'machine', args: [] }));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
+  });
+});
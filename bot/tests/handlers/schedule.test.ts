@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScheduleHandler, JobsHandler } from '../../src/handlers/schedule.js';
+import { JobScheduler } from '../../src/core/scheduler.js';
+import { MessageDispatcher } from '../../src/core/dispatcher.js';
+import { PermissionManager, InMemoryPermissionStore } from '../../src/core/permission-manager.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CommandArgsError, InvalidScheduleError } from '../../src/errors.js';
+import { createMockClient } from '../helpers/mock-cmdop.js';
+import { makeCtx, makeMessage } from '../helpers/fixtures.js';
+import type { HandlerResult } from '../../src/core/types.js';
+import type { CommandContext } from '../../src/models/command.js';
+
+function textOf(result: HandlerResult): string {
+  if (!result.ok || result.value.type !== 'text') throw new Error('expected a text result');
+  return result.value.text;
+}
+
+function scheduleCtx(text: string, overrides: Partial<CommandContext> = {}): CommandContext {
+  return makeCtx({
+    command: 'schedule',
+    args: text.split(/\s+/),
+    channel: 'telegram',
+    message: makeMessage({ text: `/schedule ${text}`, threadId: 'th-1' }),
+    ...overrides,
+  });
+}
+
+describe('schedule handlers', () => {
+  const logger = createLogger('error');
+  let client: ReturnType<typeof createMockClient>;
+  let permissions: PermissionManager;
+  let scheduler: JobScheduler;
+  let schedule: ScheduleHandler;
+  let jobs: JobsHandler;
+
+  beforeEach(async () => {
+    client = createMockClient();
+    permissions = new PermissionManager(new InMemoryPermissionStore(), { adminUsers: ['admin-1'] });
+    const dispatcher = new MessageDispatcher(permissions, logger);
+    dispatcher.register({
+      name: 'exec', description: '', usage: '', requiredPermission: 'EXECUTE',
+      handle: vi.fn().mockResolvedValue({ ok: true, value: { type: 'text', text: 'ok' } }),
+    });
+    scheduler = new JobScheduler(dispatcher, logger, { deliver: vi.fn().mockResolvedValue(undefined) });
+    await scheduler.start();
+    schedule = new ScheduleHandler(client, logger, { scheduler });
+    jobs = new JobsHandler(client, logger, { scheduler, permissions });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  describe('ScheduleHandler', () => {
+    it('requires EXECUTE', () => {
+      expect(schedule.requiredPermission).toBe('EXECUTE');
+    });
+
+    it('schedules a quoted interval with the command after it', async () => {
+      const result = await schedule.handle(scheduleCtx('"every 15m" /exec df -h', { machine: 'web-01' }));
+
+      expect(textOf(result)).toContain('/exec df -h on web-01 — every 15m');
+      expect(textOf(result)).toContain('Next run in 15m');
+      const [job] = await scheduler.list();
+      expect(job).toMatchObject({
+        schedule: 'every 15m',
+        command: 'exec',
+        args: ['df', '-h'],
+        userId: 'user-123',
+        channel: 'telegram',
+        channelId: 'test-channel',
+        threadId: 'th-1',
+        machine: 'web-01',
+        notify: 'always',
+      });
+      if (result.ok && result.value.type === 'text') {
+        expect(result.value.keyboard?.[0]?.[0]?.command).toBe(`/jobs cancel ${job!.id}`);
+      }
+    });
+
+    it('accepts unquoted cron expressions, smart quotes and notify flags', async () => {
+      await schedule.handle(scheduleCtx('--if-changed */5 * * * * /exec uptime'));
+      await schedule.handle(scheduleCtx('“every 1h” --if-failed !exec systemctl is-active nginx'));
+
+      const [cron, interval] = await scheduler.list();
+      expect(cron).toMatchObject({ schedule: '*/5 * * * *', args: ['uptime'], notify: 'changed' });
+      expect(interval).toMatchObject({ schedule: 'every 1h', args: ['systemctl', 'is-active', 'nginx'], notify: 'failed' });
+    });
+
+    it('rejects a missing command, two notify flags and bad schedules', async () => {
+      const missing = await schedule.handle(scheduleCtx('"every 15m"'));
+      const both = await schedule.handle(scheduleCtx('--if-changed --if-failed "every 15m" /exec ls'));
+      const bad = await schedule.handle(scheduleCtx('"every 5s" /exec ls'));
+
+      expect(!missing.ok && missing.error).toBeInstanceOf(CommandArgsError);
+      expect(!both.ok && both.error).toBeInstanceOf(CommandArgsError);
+      expect(!bad.ok && bad.error).toBeInstanceOf(InvalidScheduleError);
+      expect(await scheduler.list()).toEqual([]);
+    });
+
+    it('rejects commands that do not exist', async () => {
+      const result = await schedule.handle(scheduleCtx('"every 15m" /nope'));
+      expect(!result.ok && result.error.code).toBe('COMMAND_NOT_FOUND');
+    });
+  });
+
+  describe('JobsHandler', () => {
+    it('needs ADMIN only to list everyone\'s jobs', () => {
+      expect(jobs.requiredPermissionFor(makeCtx({ command: 'jobs', args: [] }))).toBe('READ');
+      expect(jobs.requiredPermissionFor(makeCtx({ command: 'jobs', args: ['all'] }))).toBe('ADMIN');
+    });
+
+    it('lists only the caller\'s jobs', async () => {
+      await schedule.handle(scheduleCtx('"every 15m" /exec df -h'));
+      await schedule.handle(scheduleCtx('"every 1h" /exec uptime', { userId: 'user-2' }));
+
+      const text = textOf(await jobs.handle(makeCtx({ command: 'jobs', args: [] })));
+      expect(text).toContain('every 15m — /exec df -h');
+      expect(text).toContain('next in 15m');
+      expect(text).not.toContain('uptime');
+
+      const all = textOf(await jobs.handle(makeCtx({ command: 'jobs', args: ['all'], userId: 'admin-1' })));
+      expect(all).toContain('by user-2 (telegram)');
+    });
+
+    it('says so when there are no jobs', async () => {
+      expect(textOf(await jobs.handle(makeCtx({ command: 'jobs', args: [] })))).toContain('No scheduled jobs');
+    });
+
+    it('cancels the caller\'s job', async () => {
+      await schedule.handle(scheduleCtx('"every 15m" /exec df -h'));
+      const [job] = await scheduler.list();
+
+      const result = await jobs.handle(makeCtx({ command: 'jobs', args: ['cancel', job!.id] }));
+      expect(textOf(result)).toContain(`Cancelled \`${job!.id}\``);
+      expect(await scheduler.list()).toEqual([]);
+    });
+
+    it('lets only admins cancel someone else\'s job', async () => {
+      await schedule.handle(scheduleCtx('"every 15m" /exec df -h', { userId: 'user-2' }));
+      const [job] = await scheduler.list();
+
+      const denied = await jobs.handle(makeCtx({ command: 'jobs', args: ['cancel', job!.id] }));
+      expect(!denied.ok && denied.error.message).toContain(`no job '${job!.id}'`);
+
+      const admin = await jobs.handle(makeCtx({ command: 'jobs', args: ['cancel', job!.id], userId: 'admin-1' }));
+      expect(admin.ok).toBe(true);
+      expect(await scheduler.list()).toEqual([]);
+    });
+  });
+});
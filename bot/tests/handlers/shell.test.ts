@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ShellHandler } from '../../src/handlers/shell.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CMDOPError } from '../../src/errors.js';
+import { createMockClient, createFakeAttachStream } from '../helpers/mock-cmdop.js';
+import { makeCtx, makeMessage } from '../helpers/fixtures.js';
+import type { CommandContext } from '../../src/models/command.js';
+
+const session = { settleMs: 5, maxWaitMs: 50 };
+
+function shellCtx(args: string[], overrides: Partial<CommandContext> = {}): CommandContext {
+  return makeCtx({ command: 'shell', args, channel: 'telegram', message: makeMessage({ text: `/shell ${args.join(' ')}` }), ...overrides });
+}
+
+describe('ShellHandler', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let stream: ReturnType<typeof createFakeAttachStream>;
+  let handler: ShellHandler;
+
+  beforeEach(() => {
+    client = createMockClient();
+    stream = createFakeAttachStream();
+    vi.mocked(client.terminal.attach).mockReturnValue(stream as never);
+    handler = new ShellHandler(client, createLogger('error'), { session });
+  });
+
+  it('has correct metadata', () => {
+    expect(handler.name).toBe('shell');
+    expect(handler.requiredPermission).toBe('EXECUTE');
+  });
+
+  it('opens a shell on the active session and shows the prompt with control buttons', async () => {
+    setTimeout(() => stream.output('\x1b[1m$\x1b[0m '), 1);
+
+    const result = await handler.handle(shellCtx([]));
+
+    expect(client.terminal.attach).toHaveBeenCalledWith('sess-001', expect.objectContaining({ cols: 80 }));
+    expect(result.ok).toBe(true);
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.text).toContain('Shell open');
+      expect(result.value.text).toContain('```\n$ \n```');
+      expect(result.value.keyboard?.[0]?.map((b) => b.command)).toContain('/shell ctrl-c');
+    }
+    expect(handler.openCount).toBe(1);
+  });
+
+  it('opens on the requested machine', async () => {
+    await handler.handle(shellCtx([], { machine: 'web-01' }));
+    expect(client.terminal.getActiveSession).toHaveBeenCalledWith({ hostname: 'web-01' });
+  });
+
+  it('returns CMDOPError when the terminal does not become ready', async () => {
+    vi.mocked(client.terminal.attach).mockReturnValue(createFakeAttachStream({ ready: false }) as never);
+    handler = new ShellHandler(client, createLogger('error'), { session: { ...session, readyTimeoutMs: 10 } });
+
+    const result = await handler.handle(shellCtx([]));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toBeInstanceOf(CMDOPError);
+    expect(handler.openCount).toBe(0);
+  });
+
+  it('claims plain text from the opener in the same thread only', async () => {
+    await handler.handle(shellCtx([]));
+    const plain = (overrides: Partial<CommandContext>) =>
+      makeCtx({ command: 'agent', args: ['ls'], channel: 'telegram', message: makeMessage({ text: 'ls' }), ...overrides });
+
+    expect(handler.interceptText(plain({}))).toEqual(['send', 'ls']);
+    expect(handler.interceptText(plain({ userId: 'someone-else' }))).toBeUndefined();
+    expect(handler.interceptText(plain({ channelId: 'other-chat' }))).toBeUndefined();
+  });
+
+  it('types input and returns the output it produced', async () => {
+    await handler.handle(shellCtx([]));
+    stream.sendInput.mockImplementation(() => setTimeout(() => stream.output('ls\r\nfile.txt\r\n$ '), 1));
+
+    const result = await handler.handle(shellCtx(['send', 'ls']));
+
+    expect(stream.sendInput).toHaveBeenCalledWith('ls\r');
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.text).toContain('```\nls\nfile.txt\n$ \n```');
+    }
+  });
+
+  it('sends Ctrl+C and Ctrl+D as control characters', async () => {
+    await handler.handle(shellCtx([]));
+    await handler.handle(shellCtx(['ctrl-c']));
+    await handler.handle(shellCtx(['ctrl-d']));
+    expect(stream.sendInput).toHaveBeenCalledWith('\x03');
+    expect(stream.sendInput).toHaveBeenCalledWith('\x04');
+  });
+
+  it('exit closes the shell and drops the buttons', async () => {
+    const notify = vi.fn().mockResolvedValue(undefined);
+    handler = new ShellHandler(client, createLogger('error'), { session, notify });
+    await handler.handle(shellCtx([]));
+
+    const result = await handler.handle(shellCtx(['exit']));
+
+    expect(stream.close).toHaveBeenCalled();
+    expect(handler.openCount).toBe(0);
+    if (result.ok && result.value.type === 'text') {
+      expect(result.value.text).toContain('Shell closed');
+      expect(result.value.keyboard).toBeUndefined();
+    }
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('closes idle shells and notifies the owner', async () => {
+    const notify = vi.fn().mockResolvedValue(undefined);
+    handler = new ShellHandler(client, createLogger('error'), { session, notify, idleTimeoutMs: 20 });
+    await handler.handle(shellCtx([]));
+
+    await vi.waitFor(() => expect(notify).toHaveBeenCalled());
+    expect(notify).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'telegram', userId: 'user-123' }),
+      { type: 'text', text: '🖥 Shell closed: idle timeout' },
+    );
+    expect(handler.openCount).toBe(0);
+  });
+
+  it('rejects control commands when no shell is open', async () => {
+    const result = await handler.handle(shellCtx(['ctrl-c']));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.code).toBe('COMMAND_ARGS');
+  });
+
+  it('close() ends every shell', async () => {
+    await handler.handle(shellCtx([]));
+    await handler.close();
+    expect(stream.close).toHaveBeenCalled();
+    expect(handler.openCount).toBe(0);
+  });
+});
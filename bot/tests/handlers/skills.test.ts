@@ -114,7 +114,7 @@ describe('SkillsHandler', () => {
         expect(result.value.code).toContain('Code looks good!');
       }
     }
-    expect(client.skills.run).toHaveBeenCalledWith('code-review', 'review this file');
+    expect(client.skills.run).toHaveBeenCalledWith('code-review', 'review this file', { sessionId: undefined });
   });
 
   it('/skills run without name returns CommandArgsError', async () => {
@@ -138,9 +138,11 @@ describe('SkillsHandler', () => {
 
   // ── Machine routing ────────────────────────────────────────────────────
 
-  it('calls setMachine when ctx.machine is set', async () => {
+  it('passes the session of ctx.machine to the call', async () => {
+    vi.mocked(client.terminal.getActiveSession).mockResolvedValue({ sessionId: 'sess-prod', hostname: 'prod-server' });
     vi.mocked(client.skills.list).mockResolvedValue([]);
     await handler.handle(makeCtx({ args: ['list'], machine: 'prod-server' }));
-    expect(client.skills.setMachine).toHaveBeenCalledWith('prod-server');
+    expect(client.skills.list).toHaveBeenCalledWith({ sessionId: 'sess-prod' });
+    expect(client.skills.setMachine).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SubscribeHandler, UnsubscribeHandler } from '../../src/handlers/subscribe.js';
+import { HealthMonitor } from '../../src/core/health-monitor.js';
+import { createLogger } from '../../src/core/logger.js';
+import { CommandArgsError } from '../../src/errors.js';
+import { createMockClient } from '../helpers/mock-cmdop.js';
+import { makeCtx } from '../helpers/fixtures.js';
+import type { HandlerResult } from '../../src/core/types.js';
+
+function textOf(result: HandlerResult): string {
+  if (!result.ok || result.value.type !== 'text') throw new Error('expected a text result');
+  return result.value.text;
+}
+
+describe('subscribe handlers', () => {
+  const logger = createLogger('error');
+  let monitor: HealthMonitor;
+  let subscribe: SubscribeHandler;
+  let unsubscribe: UnsubscribeHandler;
+
+  const ctx = (command: string, args: string[], userId = 'user-123') =>
+    makeCtx({ command, args, userId, channel: 'telegram' });
+
+  beforeEach(() => {
+    const client = createMockClient();
+    monitor = new HealthMonitor(logger, {
+      listAgents: async () => [],
+      deliver: vi.fn().mockResolvedValue(undefined),
+    });
+    subscribe = new SubscribeHandler(client, logger, { monitor });
+    unsubscribe = new UnsubscribeHandler(client, logger, { monitor });
+  });
+
+  describe('SubscribeHandler', () => {
+    it('requires READ', () => {
+      expect(subscribe.requiredPermission).toBe('READ');
+      expect(unsubscribe.requiredPermission).toBe('READ');
+    });
+
+    it('subscribes to every alert kind by default', async () => {
+      const result = await subscribe.handle(ctx('subscribe', ['web-01']));
+
+      expect(textOf(result)).toContain('Alerts for **web-01** (offline, busy and version)');
+      expect(await monitor.subscriptions()).toEqual([expect.objectContaining({
+        userId: 'user-123',
+        channel: 'telegram',
+        channelId: 'test-channel',
+        machine: 'web-01',
+        events: ['offline', 'busy', 'version'],
+      })]);
+      if (result.ok && result.value.type === 'text') {
+        expect(result.value.keyboard?.[0]?.[0]?.command).toBe('/unsubscribe web-01');
+      }
+    });
+
+    it('accepts all and a subset of alert kinds', async () => {
+      await subscribe.handle(ctx('subscribe', ['all', 'Offline', 'version']));
+      const [sub] = await monitor.subscriptions();
+      expect(sub).toMatchObject({ machine: '*', events: ['offline', 'version'] });
+    });
+
+    it('rejects unknown alert kinds', async () => {
+      const result = await subscribe.handle(ctx('subscribe', ['web-01', 'disk']));
+      expect(!result.ok && result.error).toBeInstanceOf(CommandArgsError);
+      expect(await monitor.subscriptions()).toEqual([]);
+    });
+
+    it('lists only the caller\'s subscriptions', async () => {
+      await subscribe.handle(ctx('subscribe', ['web-01', 'offline']));
+      await subscribe.handle(ctx('subscribe', ['db-01'], 'user-2'));
+
+      const text = textOf(await subscribe.handle(ctx('subscribe', [])));
+      expect(text).toContain('**web-01**: offline');
+      expect(text).not.toContain('db-01');
+    });
+
+    it('says so when there are no subscriptions', async () => {
+      expect(textOf(await subscribe.handle(ctx('subscribe', [])))).toContain('No alerts yet');
+    });
+  });
+
+  describe('UnsubscribeHandler', () => {
+    it('removes a subscription', async () => {
+      await subscribe.handle(ctx('subscribe', ['all']));
+      const result = await unsubscribe.handle(ctx('unsubscribe', ['all']));
+
+      expect(textOf(result)).toContain('No more alerts for all machines');
+      expect(await monitor.subscriptions()).toEqual([]);
+    });
+
+    it('rejects a machine the caller is not subscribed to', async () => {
+      const missing = await unsubscribe.handle(ctx('unsubscribe', []));
+      const unknown = await unsubscribe.handle(ctx('unsubscribe', ['web-01']));
+
+      expect(!missing.ok && missing.error).toBeInstanceOf(CommandArgsError);
+      expect(!unknown.ok && unknown.error.message).toContain('not subscribed to web-01');
+    });
+  });
+});
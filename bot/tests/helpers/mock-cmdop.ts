@@ -1,5 +1,5 @@
 import { vi } from 'vitest';
-import type { CMDOPClient } from '@cmdop/node';
+import type { AttachStreamEvent, CMDOPClient } from '@cmdop/node';
 
 export function createMockClient(): CMDOPClient {
   return {
@@ -8,11 +8,13 @@ export function createMockClient(): CMDOPClient {
       execute: vi.fn().mockResolvedValue({ exitCode: 0, output: 'hello' }),
       close: vi.fn().mockResolvedValue(undefined),
       list: vi.fn().mockResolvedValue({ sessions: [{ sessionId: 'sess-001', hostname: 'test-host', status: 'online' }], workspaceName: null }),
+      listActive: vi.fn().mockResolvedValue({ sessions: [{ sessionId: 'sess-001', hostname: 'test-host', status: 'connected' }], total: 1, workspaceName: '' }),
       getActiveSession: vi.fn().mockResolvedValue({ sessionId: 'sess-001', hostname: 'test-host' }),
       getHistory: vi.fn().mockResolvedValue({ commands: [], total: 0 }),
       getStatus: vi.fn().mockResolvedValue({ status: 'online', commandsCount: 0 }),
       setMachine: vi.fn().mockResolvedValue(undefined),
       stream: vi.fn().mockReturnValue({ [Symbol.asyncIterator]: vi.fn() }),
+      attach: vi.fn(() => createFakeAttachStream()),
     },
     files: {
       list: vi.fn().mockResolvedValue({ entries: [{ name: 'file.txt', type: 'file', size: 100 }], totalCount: 1 }),
@@ -43,3 +45,33 @@ export function createMockClient(): CMDOPClient {
     isConnected: true,
   } as unknown as CMDOPClient;
 }
+
+/**
+ * Stand-in for AttachStream. connect() stays pending until close(), like the real
+ * stream; with ready=true the session reports sessionReady as soon as it connects.
+ */
+export function createFakeAttachStream(options: { ready?: boolean } = {}) {
+  const listeners: Array<(event: AttachStreamEvent) => void> = [];
+  let disconnect: (() => void) | undefined;
+  const stream = {
+    on: vi.fn((listener: (event: AttachStreamEvent) => void) => {
+      listeners.push(listener);
+      return stream;
+    }),
+    connect: vi.fn(() => {
+      if (options.ready ?? true) queueMicrotask(() => stream.emit({ type: 'sessionReady' }));
+      return new Promise<void>((resolve) => {
+        disconnect = resolve;
+      });
+    }),
+    sendInput: vi.fn(),
+    close: vi.fn(() => disconnect?.()),
+    emit(event: AttachStreamEvent) {
+      for (const listener of listeners) listener(event);
+    },
+    output(text: string) {
+      stream.emit({ type: 'output', data: Buffer.from(text) });
+    },
+  };
+  return stream;
+}
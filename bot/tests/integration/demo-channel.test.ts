@@ -14,17 +14,22 @@ import { TerminalHandler } from '../../src/handlers/terminal.js';
 import { AgentHandler } from '../../src/handlers/agent.js';
 import { FilesHandler } from '../../src/handlers/files.js';
 import { HelpHandler } from '../../src/handlers/help.js';
+import { MachineHandler } from '../../src/handlers/machine.js';
+import { InMemorySessionStore } from '../../src/core/session-store.js';
 import { createMockClient } from '../helpers/mock-cmdop.js';
-import type { OutgoingMessage } from '../../src/models/message.js';
+import type { OutgoingMessage, IncomingMessage } from '../../src/models/message.js';
+import type { ChannelReplyStream } from '../../src/core/types.js';
 
 function buildStack() {
   const client = createMockClient();
   const store = new InMemoryPermissionStore();
   const permissions = new PermissionManager(store, { adminUsers: ['admin'] });
   const logger = createLogger('error');
-  const dispatcher = new MessageDispatcher(permissions, logger);
+  const sessions = new InMemorySessionStore();
+  const dispatcher = new MessageDispatcher(permissions, logger, sessions);
 
   dispatcher.register(new TerminalHandler(client, logger));
+  dispatcher.register(new MachineHandler(client, logger, { sessions }));
   dispatcher.register(new AgentHandler(client, logger));
   dispatcher.register(new FilesHandler(client, logger));
   dispatcher.register(new HelpHandler(client, logger, {
@@ -36,7 +41,7 @@ function buildStack() {
     onOutput: (_text, msg) => outputs.push(msg),
   });
 
-  return { client, store, permissions, channel, outputs, dispatcher };
+  return { client, store, sessions, permissions, channel, outputs, dispatcher };
 }
 
 describe('DemoChannel integration', () => {
@@ -133,6 +138,48 @@ describe('DemoChannel integration', () => {
     }
   });
 
+  // ─── /machine ───────────────────────────────────────────────────────────────
+
+  it('/machine selection routes later commands for that user only', async () => {
+    await stack.store.setLevel('other', 'EXECUTE');
+    await stack.channel.injectMessage({ userId: 'admin', text: '/machine web-01' });
+    await stack.channel.injectMessage({ userId: 'admin', text: '/exec uptime' });
+    await stack.channel.injectMessage({ userId: 'other', text: '/exec uptime' });
+
+    expect(stack.client.terminal.getActiveSession).toHaveBeenLastCalledWith({ hostname: 'web-01' });
+    expect(stack.client.terminal.getActiveSession).toHaveBeenCalledTimes(2);
+    expect(stack.client.terminal.list).toHaveBeenCalledOnce();
+  });
+
+  it('--machine flag overrides the selection for one command', async () => {
+    await stack.channel.injectMessage({ userId: 'admin', text: '/machine web-01' });
+    await stack.channel.injectMessage({ userId: 'admin', text: '/exec --machine=db-01 uptime' });
+
+    expect(stack.client.terminal.getActiveSession).toHaveBeenLastCalledWith({ hostname: 'db-01' });
+    expect(stack.client.terminal.execute).toHaveBeenCalledWith('uptime', expect.anything());
+  });
+
+  it('/files and /agent follow each user\'s own selection', async () => {
+    await stack.store.setLevel('other', 'EXECUTE');
+    vi.mocked(stack.client.terminal.getActiveSession).mockImplementation(
+      async (options) => ({ sessionId: `sess-${options?.hostname}`, hostname: options?.hostname }) as never,
+    );
+    await stack.channel.injectMessage({ userId: 'admin', text: '/machine web-01' });
+    await stack.channel.injectMessage({ userId: 'other', text: '/machine db-01' });
+
+    await stack.channel.injectMessage({ userId: 'admin', text: '/files /srv' });
+    await stack.channel.injectMessage({ userId: 'other', text: '/files /srv' });
+    await stack.channel.injectMessage({ userId: 'admin', text: '/agent check disk' });
+    await stack.channel.injectMessage({ userId: 'other', text: '/agent check disk' });
+
+    const listSessions = vi.mocked(stack.client.files.list).mock.calls.map(([, options]) => options?.sessionId);
+    const runSessions = vi.mocked(stack.client.agent.run).mock.calls.map(([, options]) => options?.sessionId);
+    expect(listSessions).toEqual(['sess-web-01', 'sess-db-01']);
+    expect(runSessions).toEqual(['sess-web-01', 'sess-db-01']);
+    expect(stack.client.files.setMachine).not.toHaveBeenCalled();
+    expect(stack.client.agent.setMachine).not.toHaveBeenCalled();
+  });
+
   // ─── unknown command ─────────────────────────────────────────────────────────
 
   it('unknown command returns error', async () => {
@@ -161,4 +208,52 @@ describe('DemoChannel integration', () => {
     await stack.channel.injectMessage({ userId: 'custom-user', text: '/help' });
     expect(stack.outputs).toHaveLength(1);
   });
+
+  // ─── streamed replies ────────────────────────────────────────────────────────
+
+  it('finishes a streamed draft instead of sending a new message', async () => {
+    const drafts: string[] = [];
+    const finished: OutgoingMessage[] = [];
+    class StreamingDemoChannel extends DemoChannel {
+      protected override openReply(_msg: IncomingMessage): ChannelReplyStream {
+        let started = false;
+        return {
+          get started() { return started; },
+          append: (text) => { started = true; drafts.push(text); },
+          status: (line) => { started = true; drafts.push(line); },
+          finish: async (message) => { finished.push(message); },
+        };
+      }
+    }
+    const channel = new StreamingDemoChannel(stack.permissions, stack.dispatcher, createLogger('error'), {
+      onOutput: (_text, msg) => stack.outputs.push(msg),
+    });
+    vi.mocked(stack.client.agent.stream).mockReturnValue({
+      on: (cb: (e: unknown) => void) => cb({ type: 'token', requestId: '', token: 'Hi', timestamp: 0 }),
+      start: async () => ({ success: true, text: 'Hi there', durationMs: 1, toolResults: [], usage: null }),
+    } as never);
+
+    await channel.injectMessage({ userId: 'admin', text: 'hello' });
+
+    expect(drafts).toEqual(['Hi']);
+    expect(finished).toEqual([{ type: 'text', text: 'Hi there' }]);
+    expect(stack.outputs).toHaveLength(0);
+  });
+
+  it('sends normally when the handler does not stream', async () => {
+    const finish = vi.fn();
+    class StreamingDemoChannel extends DemoChannel {
+      protected override openReply(): ChannelReplyStream {
+        return { started: false, append: vi.fn(), status: vi.fn(), finish };
+      }
+    }
+    const channel = new StreamingDemoChannel(stack.permissions, stack.dispatcher, createLogger('error'), {
+      onOutput: (_text, msg) => stack.outputs.push(msg),
+    });
+
+    await channel.injectMessage({ userId: 'admin', text: '/help' });
+
+    expect(finish).not.toHaveBeenCalled();
+    expect(stack.outputs).toHaveLength(1);
+  });
 });
@@ -91,8 +91,8 @@ describe('AgentHandler error injection', () => {
     }
   });
 
-  it('agent.setMachine() throws → wrapped as CMDOPError', async () => {
-    vi.mocked(s.client.agent.setMachine).mockRejectedValue(new Error('machine not found'));
+  it('machine lookup throws → wrapped as CMDOPError', async () => {
+    vi.mocked(s.client.terminal.getActiveSession).mockRejectedValue(new Error('machine not found'));
     const result = await s.agent.handle(
       makeCtx({ command: 'agent', args: ['ls'], machine: 'bad-host' }),
     );
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { BotUserSchema, PermissionLevelSchema, PERMISSION_ORDER } from '../../src/models/user.js';
 import { OutgoingMessageSchema } from '../../src/models/message.js';
-import { parseCommand } from '../../src/models/command.js';
+import { parseCommand, extractMachineFlag } from '../../src/models/command.js';
 import { UserSessionSchema, MachineSessionSchema } from '../../src/models/session.js';
 
 describe('PermissionLevelSchema', () => {
@@ -64,6 +64,12 @@ describe('OutgoingMessageSchema', () => {
     expect(m.type).toBe('error');
   });
 
+  it('parses file message with binary data', () => {
+    const m = OutgoingMessageSchema.parse({ type: 'file', filename: 'hosts', data: Buffer.from('127.0.0.1') });
+    expect(m.type).toBe('file');
+    expect(() => OutgoingMessageSchema.parse({ type: 'file', filename: 'hosts', data: 'text' })).toThrow();
+  });
+
   it('rejects unknown type', () => {
     expect(() => OutgoingMessageSchema.parse({ type: 'gif', url: 'http://x.com' })).toThrow();
   });
@@ -102,6 +108,21 @@ describe('parseCommand', () => {
   });
 });
 
+describe('extractMachineFlag', () => {
+  it('splits a leading flag off the args', () => {
+    expect(extractMachineFlag(['--machine=web-01', 'ls', '-la'])).toEqual({ args: ['ls', '-la'], machine: 'web-01' });
+  });
+
+  it('leaves machine unset without a flag', () => {
+    expect(extractMachineFlag(['ls', '-la'])).toEqual({ args: ['ls', '-la'] });
+  });
+
+  it('passes a flag later in the args through to the command', () => {
+    expect(extractMachineFlag(['grep', '--machine=a', 'hosts'])).toEqual({ args: ['grep', '--machine=a', 'hosts'] });
+    expect(extractMachineFlag(['--machine=a', '--machine=b'])).toEqual({ args: ['--machine=b'], machine: 'a' });
+  });
+});
+
 describe('UserSessionSchema', () => {
   it('parses valid session', () => {
     const s = UserSessionSchema.parse({
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EditableReply, type EditableMessageTarget } from '../../src/streaming/editable-reply.js';
+
+function makeTarget() {
+  const target = {
+    post: vi.fn().mockResolvedValue(42),
+    edit: vi.fn().mockResolvedValue(undefined),
+    finalize: vi.fn().mockResolvedValue(undefined),
+  } satisfies EditableMessageTarget<number>;
+  return target;
+}
+
+describe('EditableReply', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is not started until something is appended', () => {
+    const reply = new EditableReply(makeTarget());
+    reply.append('');
+    expect(reply.started).toBe(false);
+    reply.append('hi');
+    expect(reply.started).toBe(true);
+  });
+
+  it('posts the first draft and edits it with the accumulated text', async () => {
+    const target = makeTarget();
+    const reply = new EditableReply(target, { debounceMs: 500 });
+
+    reply.append('Hello');
+    await vi.advanceTimersByTimeAsync(500);
+    reply.append(', ');
+    reply.append('world');
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(target.post).toHaveBeenCalledOnce();
+    expect(target.post).toHaveBeenCalledWith('Hello');
+    expect(target.edit).toHaveBeenCalledOnce();
+    expect(target.edit).toHaveBeenCalledWith(42, 'Hello, world');
+  });
+
+  it('puts status lines on their own line', async () => {
+    const target = makeTarget();
+    const reply = new EditableReply(target);
+
+    reply.status('🔧 ls');
+    reply.append('Found 3 files');
+    reply.status('✔️ ls');
+    await vi.runAllTimersAsync();
+
+    expect(target.post).toHaveBeenCalledWith('🔧 ls\nFound 3 files\n✔️ ls\n');
+  });
+
+  it('shows the tail of drafts longer than maxLength', async () => {
+    const target = makeTarget();
+    const reply = new EditableReply(target, { maxLength: 5 });
+
+    reply.append('abcdefgh');
+    await vi.runAllTimersAsync();
+
+    expect(target.post).toHaveBeenCalledWith('…efgh');
+  });
+
+  it('flushes pending text before finalizing', async () => {
+    const target = makeTarget();
+    const reply = new EditableReply(target, { debounceMs: 10_000 });
+
+    reply.append('partial');
+    await reply.finish({ type: 'text', text: 'final' });
+
+    expect(target.post).toHaveBeenCalledWith('partial');
+    expect(target.finalize).toHaveBeenCalledWith(42, { type: 'text', text: 'final' });
+  });
+
+  it('keeps editing after a failed edit and finalizes without a draft if posting failed', async () => {
+    const target = makeTarget();
+    target.post.mockRejectedValueOnce(new Error('flood wait'));
+    const reply = new EditableReply(target);
+
+    reply.append('a');
+    await vi.runAllTimersAsync();
+    await reply.finish({ type: 'error', message: 'boom' });
+
+    expect(target.finalize).toHaveBeenCalledWith(null, { type: 'error', message: 'boom' });
+  });
+});
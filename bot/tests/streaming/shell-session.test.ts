@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShellSession, stripAnsi, renderTerminalText } from '../../src/streaming/shell-session.js';
+import { createFakeAttachStream } from '../helpers/mock-cmdop.js';
+
+async function openSession(options = {}) {
+  const stream = createFakeAttachStream();
+  const session = new ShellSession(stream, { settleMs: 100, maxWaitMs: 1000, ...options });
+  await session.open();
+  return { stream, session };
+}
+
+describe('stripAnsi / renderTerminalText', () => {
+  it('removes colors, cursor movement and window titles', () => {
+    expect(stripAnsi('\x1b[1;32mok\x1b[0m \x1b[2K\x1b]0;user@host\x07$ ')).toBe('ok $ ');
+  });
+
+  it('collapses carriage returns and backspaces like a terminal', () => {
+    expect(renderTerminalText('10%\r55%\r100%\r\ndone\n')).toBe('100%\ndone\n');
+    expect(renderTerminalText('lss\b -la\x07')).toBe('ls -la');
+  });
+});
+
+describe('ShellSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('open() resolves once the terminal is ready', async () => {
+    const { stream } = await openSession();
+    expect(stream.connect).toHaveBeenCalledOnce();
+  });
+
+  it('open() rejects when the terminal never answers', async () => {
+    const stream = createFakeAttachStream({ ready: false });
+    const session = new ShellSession(stream, { readyTimeoutMs: 500 });
+    const opening = expect(session.open()).rejects.toThrow('did not respond');
+    await vi.advanceTimersByTimeAsync(500);
+    await opening;
+    expect(stream.close).toHaveBeenCalled();
+  });
+
+  it('collects output until the terminal is quiet, streaming it into the reply', async () => {
+    const { stream, session } = await openSession();
+    const reply = { append: vi.fn(), status: vi.fn() };
+
+    session.write('uptime\r');
+    const collecting = session.collect(reply);
+    stream.output('\x1b[32m up 3 days\x1b[0m\r\n');
+    await vi.advanceTimersByTimeAsync(50);
+    stream.output('$ ');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(collecting).resolves.toBe(' up 3 days\n$ ');
+    expect(stream.sendInput).toHaveBeenCalledWith('uptime\r');
+    expect(reply.append).toHaveBeenCalledWith(' up 3 days\n');
+    expect(reply.append).toHaveBeenCalledWith('$ ');
+  });
+
+  it('streams lines rendered from the whole buffer, not chunk by chunk', async () => {
+    const { stream, session } = await openSession();
+    const reply = { append: vi.fn(), status: vi.fn() };
+
+    const collecting = session.collect(reply);
+    stream.output('10%');
+    stream.output('\r55%\r');
+    stream.output('100%\r\nlss');
+    stream.output('\b -la\n');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(collecting).resolves.toBe('100%\nls -la\n');
+    expect(reply.append.mock.calls.map(([text]) => text).join('')).toBe('100%\nls -la\n');
+    expect(reply.append).not.toHaveBeenCalledWith('10%');
+  });
+
+  it('joins escape sequences split across chunks', async () => {
+    const { stream, session } = await openSession();
+    const collecting = session.collect();
+    stream.output('\x1b[3');
+    stream.output('1mred\x1b[0m');
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(collecting).resolves.toBe('red');
+  });
+
+  it('keeps output that arrives between collects for the next one', async () => {
+    const { stream, session } = await openSession();
+    stream.output('background job done\n');
+
+    const collecting = session.collect();
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(collecting).resolves.toBe('background job done\n');
+  });
+
+  it('stops waiting after maxWaitMs when output never pauses', async () => {
+    const { stream, session } = await openSession({ maxWaitMs: 300 });
+    const timer = setInterval(() => stream.output('.'), 50);
+
+    const collecting = session.collect();
+    await vi.advanceTimersByTimeAsync(300);
+    clearInterval(timer);
+    await expect(collecting).resolves.toMatch(/^\.+$/);
+  });
+
+  it('closes when the machine ends the session', async () => {
+    const { stream, session } = await openSession();
+    const onClose = vi.fn();
+    session.onClose(onClose);
+
+    const collecting = session.collect();
+    stream.output('logout\n');
+    stream.emit({ type: 'closed', reason: 'shell exited' });
+
+    await expect(collecting).resolves.toBe('logout\n');
+    expect(session.closed).toBe(true);
+    expect(onClose).toHaveBeenCalledWith('shell exited');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { SlackStream } from '../../src/streaming/slack-stream.js';
+import { SlackStream, SlackReply } from '../../src/streaming/slack-stream.js';
 import type { WebClient } from '@slack/web-api';
 
 function makeMockClient(ts = '1234567890.123456') {
@@ -91,3 +91,65 @@ describe('SlackStream', () => {
     });
   });
 });
+
+describe('SlackReply', () => {
+  it('opens the stream lazily in the thread and appends in order', async () => {
+    const { client, startStream, appendStream, stopStream } = makeMockClient('ts-1');
+    const reply = new SlackReply(client, 'C1', 'thread-1', vi.fn());
+    expect(startStream).not.toHaveBeenCalled();
+
+    reply.append('Hello');
+    reply.status('🔧 ls');
+    reply.append('done');
+    await reply.finish({ type: 'text', text: 'Hello done' });
+
+    expect(startStream).toHaveBeenCalledOnce();
+    expect(startStream).toHaveBeenCalledWith({ channel: 'C1', thread_ts: 'thread-1' });
+    expect(appendStream.mock.calls.map(([a]) => a.markdown_text)).toEqual(['Hello', '\n_🔧 ls_\n', 'done']);
+    expect(stopStream).toHaveBeenCalledWith({ channel: 'C1', ts: 'ts-1' });
+  });
+
+  it('appends error results before stopping', async () => {
+    const { client, appendStream } = makeMockClient();
+    const reply = new SlackReply(client, 'C1', undefined, vi.fn());
+
+    reply.append('working');
+    await reply.finish({ type: 'error', message: 'agent failed' });
+
+    expect(appendStream).toHaveBeenLastCalledWith(expect.objectContaining({ markdown_text: '\n:x: agent failed' }));
+  });
+
+  it('writes the final text when only status lines were streamed', async () => {
+    const { client, appendStream, stopStream } = makeMockClient();
+    const reply = new SlackReply(client, 'C1', undefined, vi.fn());
+
+    reply.status('🔧 ls');
+    await reply.finish({ type: 'text', text: 'Found 3 files' });
+
+    expect(appendStream.mock.calls.map(([a]) => a.markdown_text)).toEqual(['_🔧 ls_\n', 'Found 3 files']);
+    expect(stopStream).toHaveBeenCalledOnce();
+  });
+
+  it('writes final code output in a code block when nothing was streamed', async () => {
+    const { client, appendStream } = makeMockClient();
+    const reply = new SlackReply(client, 'C1', undefined, vi.fn());
+
+    reply.status('running');
+    await reply.finish({ type: 'code', code: 'total 0' });
+
+    expect(appendStream).toHaveBeenLastCalledWith(expect.objectContaining({ markdown_text: '```\ntotal 0\n```' }));
+  });
+
+  it('falls back to a plain message when the stream cannot start', async () => {
+    const client = {
+      chat: { startStream: vi.fn().mockRejectedValue(new Error('not_allowed')) },
+    } as unknown as WebClient;
+    const fallback = vi.fn().mockResolvedValue(undefined);
+    const reply = new SlackReply(client, 'C1', undefined, fallback);
+
+    reply.append('x');
+    await reply.finish({ type: 'text', text: 'final' });
+
+    expect(fallback).toHaveBeenCalledWith({ type: 'text', text: 'final' });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'bun:test';
+import { parseCopyArgs } from '../cp.js';
+
+describe('parseCopyArgs', () => {
+  it('splits source and targets', () => {
+    expect(parseCopyArgs(['build-01:/out/app.tgz', 'web-01:/opt/', 'web-02:/opt/'])).toEqual({
+      from: 'build-01:/out/app.tgz',
+      to: ['web-01:/opt/', 'web-02:/opt/'],
+    });
+  });
+
+  it('requires at least one target', () => {
+    expect(parseCopyArgs(['build-01:/out/app.tgz'])).toBeNull();
+    expect(parseCopyArgs([])).toBeNull();
+  });
+
+  it('rejects local paths', () => {
+    expect(parseCopyArgs(['./app.tgz', 'web-01:/opt/'])).toBeNull();
+    expect(parseCopyArgs(['build-01:/out/app.tgz', '/opt/app.tgz'])).toBeNull();
+    expect(parseCopyArgs(['build-01:', 'web-01:/opt/'])).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { CMDOPClient, SessionError, type RelayProgress } from '@cmdop/node';
+import { consola as logger } from 'consola';
+import type { CopyArgs } from '../cp.js';
+
+export interface CopyOptions extends CopyArgs {
+  apiKey: string;
+  server?: string;
+  debug: boolean;
+}
+
+function formatProgress(progress: RelayProgress): string {
+  const targets = progress.targets
+    .filter((t) => t.status !== 'offline')
+    .map((t) => `${t.hostname} ${t.progress.toFixed(0)}%`)
+    .join('  ');
+  return `${progress.overallProgress.toFixed(0)}%  ${targets}`;
+}
+
+export async function cmdCopy(opts: CopyOptions): Promise<number> {
+  const client = CMDOPClient.remote(opts.apiKey, opts.server ? { server: opts.server } : undefined);
+
+  try {
+    logger.start(`Relaying ${opts.from} → ${opts.to.join(', ')}`);
+    const transfer = await client.relay.copy({
+      from: opts.from,
+      to: opts.to,
+      onProgress: (progress) => logger.info(formatProgress(progress)),
+    });
+
+    for (const target of transfer.offlineTargets) {
+      logger.warn(`Skipping \`${target.hostname}\`: offline`);
+    }
+
+    const onInterrupt = () => void transfer.cancel('interrupted');
+    process.once('SIGINT', onInterrupt);
+    const result = await transfer.wait();
+    process.off('SIGINT', onInterrupt);
+
+    for (const target of result.targets) {
+      if (target.status === 'completed') logger.success(`${target.hostname}:${target.path}`);
+      else if (target.status === 'failed') logger.error(`${target.hostname}: ${target.error}`);
+    }
+
+    if (result.cancelled) {
+      logger.warn('Cancelled');
+      return 130;
+    }
+    if (!result.success) {
+      if (result.error) logger.error(result.error);
+      return 1;
+    }
+    logger.success(`Copied ${result.size} bytes in ${(result.metrics.totalTimeMs / 1000).toFixed(1)}s`);
+    return 0;
+  } catch (error) {
+    if (error instanceof SessionError) {
+      logger.error(error.message);
+      return 1;
+    }
+    if (error instanceof Error) logger.error(error.message);
+    return 1;
+  } finally {
+    await client.close();
+  }
+}
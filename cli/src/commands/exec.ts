@@ -1,4 +1,5 @@
 import { CMDOPClient, AgentOfflineError } from '@cmdop/node';
+import type { ExecResult } from '@cmdop/node';
 import { consola as logger } from 'consola';
 
 export interface ExecOptions {
@@ -18,15 +19,30 @@ export async function cmdExec(opts: ExecOptions): Promise<number> {
     await client.terminal.setMachine(opts.hostname);
 
     logger.info(`$ ${opts.command}\n`);
-    const { output, exitCode } = await client.terminal.execute(opts.command, {
+    const proc = await client.terminal.exec(opts.command, {
       timeoutMs: opts.timeout * 1000,
     });
 
-    if (output) process.stdout.write(output + '\n');
-    if (exitCode !== 0) logger.error(`Exit code: ${exitCode}`);
+    const onInterrupt = () => void proc.cancel('SIGINT').catch(() => {});
+    process.once('SIGINT', onInterrupt);
+    let result: ExecResult;
+    try {
+      for await (const chunk of proc) {
+        (chunk.stream === 'stderr' ? process.stderr : process.stdout).write(chunk.data);
+      }
+      result = await proc.wait();
+    } finally {
+      process.off('SIGINT', onInterrupt);
+    }
+
+    if (result.stdoutTruncated || result.stderrTruncated) logger.warn('Output truncated');
+    if (result.timedOut) logger.error(`Timed out after ${opts.timeout}s`);
+    else if (result.cancelled) logger.warn('Cancelled');
+    else if (result.exitCode !== 0) logger.error(`Exit code: ${result.exitCode}`);
     else logger.success('Done');
 
-    return exitCode;
+    if (result.exitCode === 0 && (result.timedOut || result.cancelled)) return 1;
+    return result.exitCode;
   } catch (error) {
     if (error instanceof AgentOfflineError) {
       logger.error(`Agent \`${opts.hostname}\` is offline`);
@@ -38,3 +54,4 @@ export async function cmdExec(opts: ExecOptions): Promise<number> {
     await client.close();
   }
 }
+
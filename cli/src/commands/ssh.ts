@@ -18,6 +18,7 @@ export async function cmdSSH(opts: SSHOptions): Promise<number> {
       client,
       hostname: opts.hostname,
       debug: opts.debug,
+      reconnect: true,
       onShareRequest: async () => {
         try {
           console.log('\n');
@@ -0,0 +1,16 @@
+export interface CopyArgs {
+  from: string;
+  to: string[];
+}
+
+const REMOTE_SPEC = /^[^:/\\]+:.+$/;
+
+/**
+ * Parse `cmdok cp` arguments: a source and one or more targets, all `hostname:/path`.
+ */
+export function parseCopyArgs(args: string[]): CopyArgs | null {
+  const [from, ...to] = args;
+  if (!from || to.length === 0) return null;
+  if (![from, ...to].every((spec) => REMOTE_SPEC.test(spec))) return null;
+  return { from, to };
+}
@@ -11,9 +11,11 @@ import { cmdSSH } from './commands/ssh.js';
 import { cmdExec } from './commands/exec.js';
 import { cmdAgent } from './commands/agent.js';
 import { cmdShare } from './commands/share.js';
+import { cmdCopy } from './commands/cp.js';
 import { cmdLogin } from './commands/login.js';
 import { loadConfig, deleteConfig, maskApiKey, getConfigPath } from './config.js';
 import { resolveApiKey, resolveHostname } from './resolve.js';
+import { parseCopyArgs } from './cp.js';
 import { CLI_NAME } from './constants.js';
 
 // Build-time constants (injected via --define)
@@ -33,6 +35,7 @@ interface ParsedArgs {
   command: string;
   hostname: string;
   extra: string; // command text for exec, prompt for agent
+  args: string[]; // positional arguments after the command
   apiKey: string;
   server?: string;
   timeout: number;
@@ -48,6 +51,7 @@ Usage:
   ${CLI_NAME} exec [hostname] <command>    Execute command remotely
   ${CLI_NAME} agent [hostname] <prompt>    Run AI agent with prompt
   ${CLI_NAME} share [hostname]             Create a share link for a machine
+  ${CLI_NAME} cp <host:path> <host:path>...  Copy a file from one machine to others
   ${CLI_NAME} login                        Configure API key
   ${CLI_NAME} logout                       Remove saved configuration
   ${CLI_NAME} config                       Show current configuration
@@ -67,6 +71,7 @@ Examples:
   ${CLI_NAME} ssh my-server
   ${CLI_NAME} exec my-server "ls -la /tmp"
   ${CLI_NAME} agent my-server "List running processes"
+  ${CLI_NAME} cp build-01:/out/app.tgz web-01:/opt/ web-02:/opt/
   ${CLI_NAME} login
 `.trim());
 }
@@ -109,7 +114,7 @@ function parseArgs(): ParsedArgs | null {
     return null;
   }
 
-  return { command, hostname, extra, apiKey, server, timeout, debug };
+  return { command, hostname, extra, args: positional.slice(1), apiKey, server, timeout, debug };
 }
 
 // ─────────────────────────────────────────────────────────────────────
@@ -212,6 +217,16 @@ async function main(): Promise<number> {
       return cmdShare({ apiKey, hostname: resolvedShare.hostname, machineId: resolvedShare.machineId, debug });
     }
 
+
+    case 'cp': {
+      const copyArgs = parseCopyArgs(args.args);
+      if (!copyArgs) {
+        console.error(`Error: source and target(s) required as hostname:/path.\n\n  Usage: ${CLI_NAME} cp <host:path> <host:path>...\n`);
+        return 1;
+      }
+      return cmdCopy({ apiKey, ...copyArgs, server: resolvedServer, debug });
+    }
+
     default:
       console.error(`Unknown command: ${command}\n`);
       printUsage();
@@ -13,6 +13,9 @@ import { FilesService } from './services/files';
 import { AgentService } from './services/agent';
 import { ExtractService } from './services/extract';
 import { DownloadService } from './services/download';
+import { UploadService } from './services/upload';
+import { MediaService } from './services/media';
+import { RelayService } from './services/relay';
 import { SkillsService } from './services/skills';
 
 /**
@@ -52,6 +55,9 @@ export class CMDOPClient {
   private _agent: AgentService | null = null;
   private _extract: ExtractService | null = null;
   private _download: DownloadService | null = null;
+  private _upload: UploadService | null = null;
+  private _media: MediaService | null = null;
+  private _relay: RelayService | null = null;
   private _skills: SkillsService | null = null;
   private _sessionId: string = '';
 
@@ -285,6 +291,74 @@ export class CMDOPClient {
     return this._download;
   }
 
+  /**
+   * Upload service for transferring files from local disk to the agent.
+   *
+   * @example Upload a local file
+   * ```typescript
+   * const result = await client.upload.uploadFile('/local/app.tar.gz', '/opt/app.tar.gz');
+   * console.log(`Uploaded ${result.size} bytes (md5 ${result.checksum})`);
+   * ```
+   *
+   * @example Upload a directory tree
+   * ```typescript
+   * const result = await client.upload.uploadDirectory('./dist', '/opt/app/dist', {
+   *   overwrite: true,
+   * });
+   * ```
+   */
+  get upload(): UploadService {
+    if (!this._upload) {
+      this._upload = new UploadService(this._transport.createClient());
+      if (this._sessionId) {
+        this._upload.setSessionId(this._sessionId);
+      }
+    }
+    return this._upload;
+  }
+
+  /**
+   * Media service for HLS streaming of remote video files.
+   *
+   * @example Stream a remote recording to a local player
+   * ```typescript
+   * const proxy = await client.media.serve('/recordings/run-42.mp4');
+   * console.log(`Open ${proxy.url} in any HLS player`);
+   * await proxy.close();
+   * ```
+   */
+  get media(): MediaService {
+    if (!this._media) {
+      this._media = new MediaService(this._transport.createClient());
+      if (this._sessionId) {
+        this._media.setSessionId(this._sessionId);
+      }
+    }
+    return this._media;
+  }
+
+  /**
+   * Relay service for copying files between machines without local staging.
+   *
+   * @example Distribute a build artifact
+   * ```typescript
+   * const transfer = await client.relay.copy({
+   *   from: 'build-01:/out/app.tar.gz',
+   *   to: ['web-01:/opt/app/', 'web-02:/opt/app/'],
+   * });
+   * const result = await transfer.wait();
+   * ```
+   */
+  get relay(): RelayService {
+    if (!this._relay) {
+      this._relay = new RelayService(this._transport.createClient());
+      if (this._sessionId) {
+        this._relay.setSessionId(this._sessionId);
+      }
+    }
+    return this._relay;
+  }
+
   /**
    * Skills service for listing, showing, and running skills
    */
@@ -360,6 +434,9 @@ export class CMDOPClient {
     this._agent = null;
     this._extract = null;
     this._download = null;
+    this._upload = null;
+    this._media = null;
+    this._relay = null;
     this._skills = null;
   }
 
@@ -395,6 +472,9 @@ export class CMDOPClient {
     this._agent = null;
     this._extract = null;
     this._download = null;
+    this._upload = null;
+    this._media = null;
+    this._relay = null;
     this._skills = null;
     await this._transport.close();
   }
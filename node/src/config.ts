@@ -23,7 +23,7 @@ export interface SDKSettings {
   // Streaming / keepalive
   /** Keepalive ping interval in ms (default: 25000) */
   keepaliveIntervalMs: number;
-  /** Max outbound queue size for streaming (default: 1000) */
+  /** Max unsent messages an attached terminal holds, e.g. while reconnecting; further input throws (default: 1000) */
   queueMaxSize: number;
 
   // Circuit breaker
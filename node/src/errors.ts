@@ -206,6 +206,22 @@ export class RateLimitError extends CMDOPError {
   }
 }
 
+/**
+ * Circuit breaker for an agent is open — calls fail fast until it half-opens.
+ */
+export class CircuitOpenError extends CMDOPError {
+  constructor(
+    public readonly agentKey: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(
+      `Circuit open for ${agentKey || 'local agent'}, retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      'CIRCUIT_OPEN'
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
 /**
  * Error context for enriched error messages
  */
@@ -222,6 +238,26 @@ function isGrpcError(error: unknown): error is Error & { code: number; details?:
   return error instanceof Error && typeof (error as any).code === 'number';
 }
 
+const RETRY_AFTER_PATTERN = /retry[ _-]?after[\s:=]*(\d+(?:\.\d+)?)\s*s?/i;
+
+/**
+ * Extract a retry hint in seconds from a RESOURCE_EXHAUSTED error.
+ *
+ * Checks `retry-after` trailing metadata (grpc-js ServiceError) first, then
+ * falls back to a "retry after Ns" phrase in the status details.
+ */
+function parseRetryAfter(error: Error & { details?: string }): number | undefined {
+  const metadata = (error as any).metadata;
+  if (metadata && typeof metadata.get === 'function') {
+    const [value] = metadata.get('retry-after') as unknown[];
+    const seconds = Number(value);
+    if (value !== undefined && Number.isFinite(seconds) && seconds >= 0) return seconds;
+  }
+
+  const match = RETRY_AFTER_PATTERN.exec(error.details || error.message);
+  return match ? Number(match[1]) : undefined;
+}
+
 /**
  * Map a gRPC error to the appropriate SDK error type
  *
@@ -274,7 +310,7 @@ export function mapGrpcError(error: unknown, context?: ErrorContext): CMDOPError
       return new PermissionError(message);
 
     case Status.RESOURCE_EXHAUSTED:
-      return new RateLimitError();
+      return new RateLimitError(parseRetryAfter(error));
 
     case Status.FAILED_PRECONDITION:
       return new CMDOPError(message, 'FAILED_PRECONDITION', error);
@@ -305,6 +341,25 @@ export function mapGrpcError(error: unknown, context?: ErrorContext): CMDOPError
   }
 }
 
+/**
+ * Whether a mapped error is transient and the call may be retried.
+ *
+ * Retryable: UNAVAILABLE (AgentOfflineError), DEADLINE_EXCEEDED (TimeoutError),
+ * RESOURCE_EXHAUSTED (RateLimitError), ABORTED and lost connections.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (
+    error instanceof AgentOfflineError ||
+    error instanceof TimeoutError ||
+    error instanceof RateLimitError ||
+    error instanceof ConnectionLostError
+  ) {
+    return true;
+  }
+  return error instanceof CMDOPError && error.code === 'ABORTED';
+}
+
 /**
  * Format error message with context
  */
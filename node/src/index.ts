@@ -27,7 +27,7 @@ export type { ZodToJsonSchemaOptions, InferSchema } from './schema';
 // Error mapping utilities + extended error hierarchy
 // ============================================================================
 
-export { mapGrpcError, withErrorMapping } from './errors';
+export { mapGrpcError, withErrorMapping, isRetryableError } from './errors';
 export type { ErrorContext } from './errors';
 
 // Extended error classes (Node.js SDK-specific)
@@ -50,6 +50,8 @@ export {
   FileTooLargeError,
   // Rate limiting
   RateLimitError,
+  // Resilience
+  CircuitOpenError,
 } from './errors';
 
 // ============================================================================
@@ -73,6 +75,13 @@ export type { RemoteAgentInfo, AgentStatus } from './discovery';
 export { getSettings, configure, resetSettings } from './config';
 export type { SDKSettings } from './config';
 
+// ============================================================================
+// Resilience
+// ============================================================================
+
+export { CircuitBreaker, getCircuitBreaker, resetCircuitBreakers, withResilience } from './resilience';
+export type { CircuitState, ResilienceOptions } from './resilience';
+
 // ============================================================================
 // Models (Zod schemas + inferred types)
 // ============================================================================
@@ -87,6 +96,10 @@ export {
   SessionStatusInfoSchema,
   SetMachineResultSchema,
   OutputChunkSchema,
+  ExecStreamNameSchema,
+  ExecOptionsSchema,
+  ExecChunkSchema,
+  ExecResultSchema,
   // files
   FileTypeSchema,
   FileEntrySchema,
@@ -113,6 +126,21 @@ export {
   // download
   DownloadMetricsSchema,
   DownloadResultSchema,
+  DownloadDirectoryEntryResultSchema,
+  DownloadDirectoryResultSchema,
+  // upload
+  UploadMetricsSchema,
+  UploadResultSchema,
+  UploadDirectoryResultSchema,
+  // media
+  HlsPlaylistSchema,
+  HlsSegmentSchema,
+  // relay
+  RelayEndpointSchema,
+  RelayTargetStatusSchema,
+  RelayTargetSchema,
+  RelayMetricsSchema,
+  RelayCopyResultSchema,
   // skills
   SkillInfoSchema,
   SkillDetailSchema,
@@ -133,7 +161,7 @@ export type {
 // Streaming
 // ============================================================================
 
-export { StreamState, AgentStream, TerminalStream, AttachStream } from './streaming';
+export { StreamState, AgentStream, TerminalStream, AttachStream, ExecStream } from './streaming';
 export type {
   AgentStreamEvent,
   AgentTokenEvent,
@@ -156,8 +184,17 @@ export type {
   AttachOutputEvent,
   AttachClosedEvent,
   AttachErrorEvent,
+  AttachReconnectingEvent,
+  AttachReconnectedEvent,
   AttachStreamCallback,
   AttachStreamOptions,
+  AttachReconnectPolicy,
+  ExecStreamEvent,
+  ExecOutputEvent,
+  ExecExitEvent,
+  ExecErrorEvent,
+  ExecStreamCallback,
+  ExecSignal,
   StreamMetrics,
 } from './streaming';
 
@@ -184,8 +221,9 @@ export type {
 // Services
 // ============================================================================
 
-export { BaseService, TerminalService, FilesService, AgentService, ExtractService, DownloadService, SkillsService } from './services';
+export { BaseService, TerminalService, FilesService, AgentService, ExtractService, DownloadService, UploadService, MediaService, HlsProxy, RelayService, RelayTransfer, parseRelayEndpoint, SkillsService } from './services';
 export type {
+  CallOptions,
   CreateSessionOptions,
   ListSessionsOptions,
   SessionInfo,
@@ -209,6 +247,10 @@ export type {
   AgentResult,
   // Terminal extra
   SetMachineResult,
+  ExecStreamName,
+  ExecOptions,
+  ExecChunk,
+  ExecResult,
   // Extract types
   ExtractServiceOptions,
   ExtractMetrics,
@@ -218,6 +260,30 @@ export type {
   DownloadMetrics,
   DownloadFileOptions,
   DownloadUrlOptions,
+  DownloadDirectoryOptions,
+  DownloadDirectoryResult,
+  DownloadDirectoryEntryResult,
+  // Upload types
+  UploadResult,
+  UploadMetrics,
+  UploadDirectoryResult,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+  // Media types
+  HlsPlaylist,
+  HlsSegment,
+  HlsSessionOptions,
+  HlsOptions,
+  HlsPlaylistOptions,
+  HlsProxyOptions,
+  // Relay types
+  RelayEndpoint,
+  RelayTarget,
+  RelayTargetStatus,
+  RelayMetrics,
+  RelayCopyOptions,
+  RelayCopyResult,
+  RelayProgress,
   // Skills types
   SkillInfo,
   SkillDetail,
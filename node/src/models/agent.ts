@@ -30,6 +30,8 @@ export const RunAgentOptionsSchema = sdkObject({
   options: z.record(z.string(), z.string()).optional(),
   outputSchema: z.string().optional(),
   requestId: z.string().optional(),
+  /** Session to target (falls back to the cached session) */
+  sessionId: z.string().optional(),
 });
 
 export type RunAgentOptions = z.infer<typeof RunAgentOptionsSchema>;
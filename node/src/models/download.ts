@@ -11,6 +11,7 @@ export const DownloadMetricsSchema = z.object({
   retriesCount: z.number(),
   remoteSizeBytes: z.number(),
   transferredBytes: z.number(),
+  resumedBytes: z.number().optional(),
 });
 
 export type DownloadMetrics = z.infer<typeof DownloadMetricsSchema>;
@@ -19,12 +20,33 @@ export const DownloadResultSchema = z.object({
   success: z.boolean(),
   localPath: z.string().optional(),
   size: z.number(),
+  checksum: z.string().optional(),
+  resumed: z.boolean().optional(),
   error: z.string().optional(),
   metrics: DownloadMetricsSchema.optional(),
 });
 
 export type DownloadResult = z.infer<typeof DownloadResultSchema>;
 
+export const DownloadDirectoryEntryResultSchema = DownloadResultSchema.extend({
+  remotePath: z.string(),
+  /** True when the local copy already matched (size + mtime) and was not transferred */
+  skipped: z.boolean(),
+});
+
+export type DownloadDirectoryEntryResult = z.infer<typeof DownloadDirectoryEntryResultSchema>;
+
+export const DownloadDirectoryResultSchema = z.object({
+  success: z.boolean(),
+  localPath: z.string(),
+  size: z.number(),
+  files: z.array(DownloadDirectoryEntryResultSchema),
+  error: z.string().optional(),
+  metrics: DownloadMetricsSchema,
+});
+
+export type DownloadDirectoryResult = z.infer<typeof DownloadDirectoryResultSchema>;
+
 export interface DownloadFileOptions {
   /** Session ID override (defaults to service sessionId) */
   sessionId?: string;
@@ -34,6 +56,17 @@ export interface DownloadFileOptions {
   maxRetries?: number;
   /** Progress callback — called after each chunk */
   onProgress?: (transferred: number, total: number) => void;
+  /**
+   * Keep the partial file and a sidecar state file on failure, and continue
+   * from the verified chunks on the next call (default: false).
+   */
+  resume?: boolean;
+  /** Sidecar state file path (default: `<localPath>.cmdop-download.json`) */
+  statePath?: string;
+  /** Number of concurrent range reads (default: 1) */
+  parallel?: number;
+  /** Expected MD5 of the remote file; the finished download must match it */
+  checksum?: string;
 }
 
 export interface DownloadUrlOptions extends DownloadFileOptions {
@@ -47,3 +80,19 @@ export interface DownloadUrlOptions extends DownloadFileOptions {
    */
   cleanup?: boolean;
 }
+
+export interface DownloadDirectoryOptions
+  extends Omit<DownloadFileOptions, 'onProgress' | 'statePath'> {
+  /** Glob patterns (relative to remoteDir) a file must match to be downloaded */
+  include?: string[];
+  /** Glob patterns (relative to remoteDir) to skip; matching directories are not walked */
+  exclude?: string[];
+  /** Include dotfiles and dot-directories (default: false) */
+  includeHidden?: boolean;
+  /** Skip files whose local size and mtime already match the remote (default: true) */
+  skipUnchanged?: boolean;
+  /** Progress callback — aggregate bytes across all files */
+  onProgress?: (transferred: number, total: number) => void;
+  /** Called after each file finishes (downloaded, skipped or failed) */
+  onFileComplete?: (result: DownloadDirectoryEntryResult) => void;
+}
@@ -33,6 +33,8 @@ export const ListOptionsSchema = sdkObject({
   includeHidden: z.boolean().optional(),
   pageSize: z.number().int().positive().optional(),
   pageToken: z.string().optional(),
+  /** Session to target (falls back to the cached session) */
+  sessionId: z.string().optional(),
 });
 
 export type ListOptions = z.infer<typeof ListOptionsSchema>;
@@ -50,6 +52,8 @@ export type ListResult = z.infer<typeof ListResultSchema>;
 export const ReadOptionsSchema = sdkObject({
   offset: z.number().int().min(0).optional(),
   length: z.number().int().min(0).optional(),
+  /** Session to target (falls back to the cached session) */
+  sessionId: z.string().optional(),
 });
 
 export type ReadOptions = z.infer<typeof ReadOptionsSchema>;
@@ -69,6 +73,8 @@ export type ReadResult = z.infer<typeof ReadResultSchema>;
 export const WriteOptionsSchema = sdkObject({
   overwrite: z.boolean().optional(),
   createParents: z.boolean().optional(),
+  /** Session to target (falls back to the cached session) */
+  sessionId: z.string().optional(),
 });
 
 export type WriteOptions = z.infer<typeof WriteOptionsSchema>;
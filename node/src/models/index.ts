@@ -8,4 +8,7 @@ export * from './files';
 export * from './agent';
 export * from './config';
 export * from './download';
+export * from './upload';
+export * from './media';
+export * from './relay';
 export * from './skills';
@@ -0,0 +1,53 @@
+/**
+ * Models for MediaService
+ */
+
+import { z } from '../schema';
+
+export const HlsPlaylistSchema = z.object({
+  /** Playlist text (m3u8) */
+  content: z.string(),
+  contentType: z.string(),
+  /** Total video duration in seconds */
+  duration: z.number(),
+  /** Segment duration in seconds */
+  segmentDuration: z.number(),
+});
+
+export type HlsPlaylist = z.infer<typeof HlsPlaylistSchema>;
+
+export const HlsSegmentSchema = z.object({
+  content: z.instanceof(Buffer),
+  contentType: z.string(),
+  /** True if the agent had to start a new transcoding session for this segment */
+  createdNewSession: z.boolean(),
+});
+
+export type HlsSegment = z.infer<typeof HlsSegmentSchema>;
+
+export interface HlsSessionOptions {
+  /** Session ID override (defaults to service sessionId) */
+  sessionId?: string;
+}
+
+export interface HlsOptions extends HlsSessionOptions {
+  /** Start position in seconds, for seeking (default: 0) */
+  startTime?: number;
+}
+
+export interface HlsPlaylistOptions extends HlsOptions {
+  /** Quality level, e.g. '720p' (default: master playlist) */
+  quality?: string;
+}
+
+export interface HlsProxyOptions extends HlsOptions {
+  /** Local interface to bind (default: '127.0.0.1') */
+  host?: string;
+  /** Local port (default: 0 = any free port) */
+  port?: number;
+  /**
+   * Browser origins allowed to read the proxy cross-origin, e.g.
+   * 'http://localhost:5173' for an hls.js page (default: none)
+   */
+  corsOrigins?: string[];
+}
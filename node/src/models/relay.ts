@@ -0,0 +1,76 @@
+/**
+ * Models for RelayService
+ */
+
+import { z } from '../schema';
+
+export const RelayEndpointSchema = z.object({
+  hostname: z.string(),
+  path: z.string(),
+});
+
+export type RelayEndpoint = z.infer<typeof RelayEndpointSchema>;
+
+export const RelayTargetStatusSchema = z.enum(['pending', 'streaming', 'completed', 'failed', 'offline', 'cancelled']);
+
+export type RelayTargetStatus = z.infer<typeof RelayTargetStatusSchema>;
+
+export const RelayTargetSchema = RelayEndpointSchema.extend({
+  /** Session the target resolved to (empty when the host has no active session) */
+  sessionId: z.string(),
+  status: RelayTargetStatusSchema,
+  /** 0-100, as reported by the server */
+  progress: z.number(),
+  chunksAcked: z.number(),
+  error: z.string().optional(),
+});
+
+export type RelayTarget = z.infer<typeof RelayTargetSchema>;
+
+export const RelayMetricsSchema = z.object({
+  totalTimeMs: z.number(),
+  transferSpeedMbps: z.number(),
+  chunksCount: z.number(),
+  transferredBytes: z.number(),
+});
+
+export type RelayMetrics = z.infer<typeof RelayMetricsSchema>;
+
+export const RelayCopyResultSchema = z.object({
+  /** True when every online target received the file */
+  success: z.boolean(),
+  transferId: z.string(),
+  source: RelayEndpointSchema,
+  size: z.number(),
+  targets: z.array(RelayTargetSchema),
+  cancelled: z.boolean(),
+  error: z.string().optional(),
+  metrics: RelayMetricsSchema,
+});
+
+export type RelayCopyResult = z.infer<typeof RelayCopyResultSchema>;
+
+export interface RelayProgress {
+  transferId: string;
+  /** Bytes read from the source and pushed to the relay */
+  transferred: number;
+  total: number;
+  /** 0-100 across all targets, as reported by the server */
+  overallProgress: number;
+  targets: RelayTarget[];
+}
+
+export interface RelayCopyOptions {
+  /** Source as `hostname:/path` */
+  from: string;
+  /** Targets as `hostname:/path` — all must share the same path; a trailing `/` keeps the source file name */
+  to: string[];
+  /** Bytes per chunk (default: 1MB) */
+  chunkSize?: number;
+  /** MD5 of the source file, forwarded to targets for verification */
+  checksum?: string;
+  /** Minimum interval between status polls in ms (default: 1000) */
+  statusIntervalMs?: number;
+  /** Progress callback — called after each status poll */
+  onProgress?: (progress: RelayProgress) => void;
+}
@@ -39,6 +39,8 @@ export const SkillRunOptionsSchema = sdkObject({
   model: z.string().optional(),
   timeoutSeconds: z.number().int().positive().max(600).optional(),
   options: z.record(z.string(), z.string()).optional(),
+  /** Session to target (falls back to the cached session) */
+  sessionId: z.string().optional(),
 });
 
 export type SkillRunOptions = z.infer<typeof SkillRunOptionsSchema>;
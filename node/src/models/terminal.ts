@@ -97,3 +97,51 @@ export const OutputChunkSchema = sdkObject({
 });
 
 export type OutputChunk = z.infer<typeof OutputChunkSchema>;
+
+// ── Exec ───────────────────────────────────────────────────────────────────
+
+export const ExecStreamNameSchema = z.enum(['stdout', 'stderr']);
+
+export type ExecStreamName = z.infer<typeof ExecStreamNameSchema>;
+
+export const ExecOptionsSchema = sdkObject({
+  /** Session to run on (falls back to the cached session) */
+  sessionId: z.string().optional(),
+  /** Extra environment variables */
+  env: z.record(z.string(), z.string()).optional(),
+  /** Working directory (default: the agent user's home) */
+  cwd: z.string().optional(),
+  /** Written to stdin, which is then closed; passed on the command line, so keep it small */
+  stdin: z.union([z.string(), z.instanceof(Uint8Array)]).optional(),
+  /** Send SIGTERM to the command after this long (default: no limit) */
+  timeoutMs: z.number().int().positive().optional(),
+  /** Per-stream output cap in bytes; the rest is dropped and flagged truncated (default: no cap) */
+  maxOutputBytes: z.number().int().positive().optional(),
+  /** Sends SIGTERM to the command when aborted */
+  signal: z.instanceof(AbortSignal).optional(),
+});
+
+export type ExecOptions = z.infer<typeof ExecOptionsSchema>;
+
+export const ExecChunkSchema = sdkObject({
+  stream: ExecStreamNameSchema,
+  data: z.instanceof(Buffer),
+});
+
+export type ExecChunk = z.infer<typeof ExecChunkSchema>;
+
+export const ExecResultSchema = sdkObject({
+  commandId: z.string(),
+  exitCode: z.number().int(),
+  durationMs: z.number(),
+  stdout: z.string(),
+  stderr: z.string(),
+  stdoutTruncated: z.boolean(),
+  stderrTruncated: z.boolean(),
+  /** Killed after timeoutMs */
+  timedOut: z.boolean(),
+  /** Killed by cancel() or the abort signal */
+  cancelled: z.boolean(),
+});
+
+export type ExecResult = z.infer<typeof ExecResultSchema>;
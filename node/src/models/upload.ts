@@ -0,0 +1,65 @@
+/**
+ * Models for UploadService
+ */
+
+import { z } from '../schema';
+
+export const UploadMetricsSchema = z.object({
+  totalTimeMs: z.number(),
+  transferSpeedMbps: z.number(),
+  chunksCount: z.number(),
+  retriesCount: z.number(),
+  localSizeBytes: z.number(),
+  transferredBytes: z.number(),
+});
+
+export type UploadMetrics = z.infer<typeof UploadMetricsSchema>;
+
+export const UploadResultSchema = z.object({
+  success: z.boolean(),
+  localPath: z.string(),
+  remotePath: z.string().optional(),
+  size: z.number(),
+  checksum: z.string().optional(),
+  error: z.string().optional(),
+  metrics: UploadMetricsSchema.optional(),
+});
+
+export type UploadResult = z.infer<typeof UploadResultSchema>;
+
+export const UploadDirectoryResultSchema = z.object({
+  success: z.boolean(),
+  remotePath: z.string(),
+  size: z.number(),
+  files: z.array(UploadResultSchema),
+  error: z.string().optional(),
+  metrics: UploadMetricsSchema,
+});
+
+export type UploadDirectoryResult = z.infer<typeof UploadDirectoryResultSchema>;
+
+export interface UploadFileOptions {
+  /** Session ID override (defaults to service sessionId) */
+  sessionId?: string;
+  /** Bytes per chunk (default: 4MB) */
+  chunkSize?: number;
+  /** Maximum retry attempts per chunk (default: 3) */
+  maxRetries?: number;
+  /** Replace an existing remote file (default: false) */
+  overwrite?: boolean;
+  /** Create missing remote parent directories (default: true) */
+  createParents?: boolean;
+  /** Have the agent check the assembled file against the local MD5 for multi-chunk uploads (default: true) */
+  verifyChecksum?: boolean;
+  /** Progress callback — called after each chunk */
+  onProgress?: (transferred: number, total: number) => void;
+}
+
+export interface UploadDirectoryOptions extends Omit<UploadFileOptions, 'onProgress'> {
+  /** Include dotfiles and dot-directories (default: false) */
+  includeHidden?: boolean;
+  /** Progress callback — aggregate bytes across all files */
+  onProgress?: (transferred: number, total: number) => void;
+  /** Called after each file finishes (successfully or not) */
+  onFileComplete?: (result: UploadResult) => void;
+}
@@ -0,0 +1,208 @@
+/**
+ * Resilience layer for unary service calls
+ *
+ *   retry           — opt-in per call: exponential backoff with full jitter for transient
+ *                     errors (see isRetryableError), bounded by retryAttempts and retryTimeoutMs
+ *   circuit breaker — one per agent (session ID); opens after circuitBreakerFailMax
+ *                     consecutive transient failures and fails fast with CircuitOpenError
+ *                     until circuitBreakerResetMs has passed, then lets one probe through;
+ *                     breakers unused for BREAKER_IDLE_MS are dropped so sessions that
+ *                     come and go don't accumulate
+ *
+ * RateLimitError.retryAfterSeconds, when the server sends it, replaces the
+ * computed backoff delay.
+ *
+ * All limits are read from getSettings() on every call, so configure() and
+ * CMDOP_* env vars take effect immediately.
+ */
+
+import { getSettings } from './config';
+import { mapGrpcError, isRetryableError, RateLimitError, CircuitOpenError } from './errors';
+
+/** First backoff ceiling in ms; doubles per attempt */
+const BASE_DELAY_MS = 250;
+/** Upper bound for a single computed backoff delay */
+const MAX_DELAY_MS = 10_000;
+/** A breaker with no calls for this long is dropped; the next call starts a closed one */
+const BREAKER_IDLE_MS = 10 * 60_000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ResilienceOptions {
+  /** Retry transient failures (default: false). Enable only for calls that are safe to run twice. */
+  retry?: boolean;
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// CircuitBreaker
+// ──────────────────────────────────────────────────────────────────────
+
+export class CircuitBreaker {
+  private _failures = 0;
+  private _openedAt = 0;
+  private _state: CircuitState = 'closed';
+  private _probeInFlight = false;
+  private _inFlight = 0;
+  private _lastUsedAt = Date.now();
+
+  constructor(readonly key: string) {}
+
+  get state(): CircuitState {
+    if (this._state === 'open' && this._remainingMs() <= 0) {
+      this._state = 'half-open';
+    }
+    return this._state;
+  }
+
+  /** Consecutive transient failures since the last success */
+  get failures(): number {
+    return this._failures;
+  }
+
+  /**
+   * Admit a call, or throw CircuitOpenError.
+   * In half-open state only a single probe call is admitted at a time.
+   */
+  acquire(): void {
+    this._lastUsedAt = Date.now();
+    const state = this.state;
+    if (state === 'open') {
+      throw new CircuitOpenError(this.key, this._remainingMs());
+    }
+    if (state === 'half-open') {
+      if (this._probeInFlight) {
+        throw new CircuitOpenError(this.key, 0);
+      }
+      this._probeInFlight = true;
+    }
+    this._inFlight++;
+  }
+
+  /** The agent answered — close the circuit */
+  onSuccess(): void {
+    this._inFlight = Math.max(0, this._inFlight - 1);
+    this._failures = 0;
+    this._state = 'closed';
+    this._probeInFlight = false;
+  }
+
+  /** A transient failure — trip after failMax in a row, or immediately when probing */
+  onFailure(): void {
+    this._inFlight = Math.max(0, this._inFlight - 1);
+    this._failures++;
+    const wasProbe = this._probeInFlight;
+    this._probeInFlight = false;
+
+    if (wasProbe || this._failures >= getSettings().circuitBreakerFailMax) {
+      this._state = 'open';
+      this._openedAt = Date.now();
+    }
+  }
+
+  /** No call in flight and none admitted for idleMs */
+  isIdle(now: number, idleMs: number): boolean {
+    return this._inFlight === 0 && now - this._lastUsedAt >= idleMs;
+  }
+
+  private _remainingMs(): number {
+    return Math.max(0, this._openedAt + getSettings().circuitBreakerResetMs - Date.now());
+  }
+}
+
+const _breakers = new Map<string, CircuitBreaker>();
+let _lastSweepAt = Date.now();
+
+/**
+ * Get the circuit breaker for an agent. Key is the session ID ('' for the local agent).
+ */
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  sweepIdleBreakers();
+  let breaker = _breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key);
+    _breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Drop all circuit breaker state.
+ * Primarily for testing.
+ */
+export function resetCircuitBreakers(): void {
+  _breakers.clear();
+  _lastSweepAt = Date.now();
+}
+
+/** Drop idle breakers, at most once per BREAKER_IDLE_MS */
+function sweepIdleBreakers(): void {
+  const now = Date.now();
+  if (now - _lastSweepAt < BREAKER_IDLE_MS) return;
+  _lastSweepAt = now;
+  for (const [key, breaker] of _breakers) {
+    if (breaker.isIdle(now, BREAKER_IDLE_MS)) _breakers.delete(key);
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// Retry
+// ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Delay before retry number `attempt` (0-based): full jitter over
+ * min(MAX_DELAY_MS, BASE_DELAY_MS * 2^attempt), or the server's retry-after.
+ */
+export function backoffDelay(attempt: number, error?: unknown): number {
+  if (error instanceof RateLimitError && error.retryAfterSeconds !== undefined) {
+    return error.retryAfterSeconds * 1000;
+  }
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Run a unary call through the agent's circuit breaker, retrying transient
+ * failures when `options.retry` is set. Errors are mapped with mapGrpcError.
+ *
+ * @throws {CircuitOpenError} if the agent's circuit is open
+ */
+export async function withResilience<T>(
+  key: string,
+  fn: () => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const breaker = getCircuitBreaker(key);
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    breaker.acquire();
+
+    let error;
+    try {
+      const result = await fn();
+      breaker.onSuccess();
+      return result;
+    } catch (err) {
+      error = mapGrpcError(err);
+    }
+
+    if (!isRetryableError(error)) {
+      // The agent responded — it's healthy even if the call failed
+      breaker.onSuccess();
+      throw error;
+    }
+
+    breaker.onFailure();
+
+    const { retryAttempts, retryTimeoutMs } = getSettings();
+    if (!options.retry || attempt >= retryAttempts || breaker.state === 'open') {
+      throw error;
+    }
+
+    const delay = backoffDelay(attempt, error);
+    if (Date.now() - startedAt + delay > retryTimeoutMs) {
+      throw error;
+    }
+    await new Promise((r) => setTimeout(r, delay));
+  }
+}
@@ -37,16 +37,19 @@ export class AgentService extends BaseService {
     if (options.maxRetries !== undefined) builtOptions['max_retries'] = String(options.maxRetries);
     if (options.model !== undefined)     builtOptions['model']        = options.model;
 
-    const response = await this.call(() =>
-      this.client.runAgent({
-        sessionId: this._sessionId,
-        prompt,
-        requestId: options.requestId ?? '',
-        agentType: mapAgentMode(options.mode ?? 'chat'),
-        timeoutSeconds: options.timeoutSeconds ?? 300,
-        options: builtOptions,
-        outputSchema: options.outputSchema ?? '',
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.runAgent({
+          sessionId,
+          prompt,
+          requestId: options.requestId ?? '',
+          agentType: mapAgentMode(options.mode ?? 'chat'),
+          timeoutSeconds: options.timeoutSeconds ?? 300,
+          options: builtOptions,
+          outputSchema: options.outputSchema ?? '',
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -80,7 +83,7 @@ export class AgentService extends BaseService {
    * ```
    */
   stream(prompt: string, options: RunAgentOptions = {}): AgentStream {
-    return new AgentStream(this.client, this._sessionId, prompt, options);
+    return new AgentStream(this.client, options.sessionId ?? this._sessionId, prompt, options);
   }
 
   async extract<T = unknown>(
@@ -3,10 +3,15 @@
  */
 
 import { SessionError } from '@cmdop/core';
-import { mapGrpcError } from '../errors';
+import { withResilience, type ResilienceOptions } from '../resilience';
 import type { TerminalStreamingServiceClient } from '../proto/generated/service';
 import type { SetMachineResult } from '../models/terminal';
 
+export interface CallOptions extends ResilienceOptions {
+  /** Session the call targets, when it isn't this service's session (keys the circuit breaker) */
+  sessionId?: string;
+}
+
 export abstract class BaseService {
   protected _sessionId: string = '';
   private _hostname: string = '';
@@ -70,8 +75,9 @@ export abstract class BaseService {
     hostname: string,
     partialMatch: boolean = true
   ): Promise<SetMachineResult> {
-    const response = await this.call(() =>
-      this.client.getSessionByHostname({ hostname, partialMatch })
+    const response = await this.call(
+      () => this.client.getSessionByHostname({ hostname, partialMatch }),
+      { retry: true }
     );
 
     if (response.ambiguous) {
@@ -133,12 +139,14 @@ export abstract class BaseService {
 
   /**
    * Wrap an async gRPC call, mapping gRPC status errors to CMDOPError.
+   *
+   * Transient failures count against the target agent's circuit breaker
+   * (see resilience.ts). They are retried with backoff only when the call
+   * passes `retry: true`, which is reserved for reads that are safe to repeat.
+   *
+   * @throws {CircuitOpenError} if the agent's circuit is open
    */
-  protected async call<T>(fn: () => Promise<T>): Promise<T> {
-    try {
-      return await fn();
-    } catch (err) {
-      throw mapGrpcError(err);
-    }
+  protected async call<T>(fn: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    return withResilience(options.sessionId ?? this._sessionId, fn, options);
   }
 }
@@ -1,23 +1,35 @@
 /**
  * DownloadService — transfer files from a remote agent to local disk.
  *
- * Two modes:
- *   downloadFile(remotePath, localPath)  — reads a remote file in chunks via fileRead RPC
- *   downloadUrl(url, localPath)          — agent downloads URL first, then SDK reads it back
+ * Three modes:
+ *   downloadFile(remotePath, localPath)      — reads a remote file in chunks via fileRead RPC
+ *   downloadUrl(url, localPath)              — agent downloads URL first, then SDK reads it back
+ *   downloadDirectory(remoteDir, localDir)   — mirrors a remote tree, skipping unchanged files
  *
- * Both modes write to the local Node.js filesystem.
+ * All modes write to the local Node.js filesystem.
+ *
+ * downloadFile switches to ranged mode when `resume`, `parallel` or
+ * `checksum` is set: fixed-size chunks are read (optionally in parallel),
+ * each chunk's MD5 is recorded in a sidecar state file, and the finished
+ * file can be checked against an expected MD5 supplied by the caller.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { CMDOPError } from '@cmdop/core';
 import { AgentType } from '../proto/generated/control_messages';
 import { BaseService } from './base';
+import { FilesService } from './files';
 import { mapGrpcError } from '../errors';
+import type { FileEntry } from '../models/files';
 import type {
   DownloadResult,
   DownloadFileOptions,
   DownloadUrlOptions,
+  DownloadDirectoryOptions,
+  DownloadDirectoryResult,
+  DownloadDirectoryEntryResult,
 } from '../models/download';
 
 export type {
@@ -25,11 +37,24 @@ export type {
   DownloadMetrics,
   DownloadFileOptions,
   DownloadUrlOptions,
+  DownloadDirectoryOptions,
+  DownloadDirectoryResult,
+  DownloadDirectoryEntryResult,
 } from '../models/download';
 
 /** Default chunk size: 4 MB */
 const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
 
+/** Sidecar state for resumable downloads */
+interface DownloadState {
+  version: 1;
+  remotePath: string;
+  totalSize: number;
+  chunkSize: number;
+  /** chunk index → MD5 of the chunk as written to disk */
+  chunks: Record<string, string>;
+}
+
 export class DownloadService extends BaseService {
   /**
    * Download a file from the remote agent to local disk.
@@ -39,7 +64,7 @@ export class DownloadService extends BaseService {
    *
    * @param remotePath  Absolute path on the remote agent
    * @param localPath   Absolute or relative path on the local machine
-   * @param options     Chunk size, retry, progress callback
+   * @param options     Chunk size, retry, progress callback, resume/parallel/checksum
    *
    * @example
    * ```typescript
@@ -50,6 +75,16 @@ export class DownloadService extends BaseService {
    * );
    * console.log(`Downloaded ${result.size} bytes to ${result.localPath}`);
    * ```
+   *
+   * @example Resumable, parallel, verified
+   * ```typescript
+   * const result = await client.download.downloadFile(
+   *   '/var/log/archive.tar.gz',
+   *   '/backups/archive.tar.gz',
+   *   { resume: true, parallel: 4, checksum: expectedMd5 }
+   * );
+   * // On failure the partial file is kept — calling again continues from it
+   * ```
    */
   async downloadFile(
     remotePath: string,
@@ -66,6 +101,14 @@ export class DownloadService extends BaseService {
     // Ensure parent directory exists
     fs.mkdirSync(path.dirname(absLocal), { recursive: true });
 
+    if (
+      options.resume ||
+      (options.parallel ?? 1) > 1 ||
+      options.checksum !== undefined
+    ) {
+      return this._downloadRanges(remotePath, absLocal, sessionId, options);
+    }
+
     let fd: number | null = null;
     let offset = 0;
     let totalSize = 0;
@@ -222,12 +265,14 @@ export class DownloadService extends BaseService {
     // Step 3: Cleanup temp file on agent
     if (cleanup) {
       try {
-        await this.call(() =>
-          this.client.fileDelete({
-            sessionId,
-            path: remoteTempPath,
-            recursive: false,
-          })
+        await this.call(
+          () =>
+            this.client.fileDelete({
+              sessionId,
+              path: remoteTempPath,
+              recursive: false,
+            }),
+          { sessionId }
         );
       } catch {
         // Non-fatal — local file already saved
@@ -237,10 +282,374 @@ export class DownloadService extends BaseService {
     return result;
   }
 
+  /**
+   * Download a remote directory tree to local disk, rsync-style.
+   *
+   * Walks `remoteDir` with FilesService.list, keeps the relative layout under
+   * `localDir`, and skips files whose local size and mtime already match.
+   * Downloaded files get the remote mtime, so the next sync skips them.
+   * Files are downloaded sequentially; a failed file does not stop the rest.
+   *
+   * Glob patterns support `*`, `?` and `**`. A pattern without `/` matches
+   * the file name at any depth (`*.log`); otherwise it matches the path
+   * relative to `remoteDir` (`nginx/**`).
+   *
+   * @param remoteDir  Absolute directory on the remote agent
+   * @param localDir   Absolute or relative directory on the local machine
+   * @param options    Per-file download options plus filters
+   *
+   * @example
+   * ```typescript
+   * const result = await client.download.downloadDirectory('/var/log', '/backups/logs', {
+   *   include: ['*.log', '*.gz'],
+   *   exclude: ['journal/**'],
+   * });
+   * const skipped = result.files.filter((f) => f.skipped).length;
+   * console.log(`${result.files.length} files (${skipped} unchanged), ${result.metrics.transferredBytes} bytes`);
+   * ```
+   */
+  async downloadDirectory(
+    remoteDir: string,
+    localDir: string,
+    options: DownloadDirectoryOptions = {}
+  ): Promise<DownloadDirectoryResult> {
+    const startMs = Date.now();
+    const absLocal = path.resolve(localDir);
+    const sessionId = options.sessionId ?? this._sessionId;
+    const {
+      include,
+      exclude,
+      includeHidden,
+      skipUnchanged,
+      onProgress,
+      onFileComplete,
+      ...fileOptions
+    } = options;
+
+    let remoteFiles: Array<{ entry: FileEntry; relPath: string }>;
+    try {
+      remoteFiles = await this._walkRemote(remoteDir, sessionId, {
+        include: (include ?? []).map(compileGlob),
+        exclude: (exclude ?? []).map(compileGlob),
+        includeHidden: includeHidden ?? false,
+      });
+      fs.mkdirSync(absLocal, { recursive: true });
+    } catch (err) {
+      return {
+        success: false,
+        localPath: absLocal,
+        size: 0,
+        files: [],
+        error: mapGrpcError(err).message,
+        metrics: {
+          totalTimeMs: Date.now() - startMs,
+          transferSpeedMbps: 0,
+          chunksCount: 0,
+          retriesCount: 0,
+          remoteSizeBytes: 0,
+          transferredBytes: 0,
+        },
+      };
+    }
+
+    const totalBytes = remoteFiles.reduce((sum, f) => sum + f.entry.size, 0);
+    const files: DownloadDirectoryEntryResult[] = [];
+    let completedBytes = 0;
+
+    for (const { entry, relPath } of remoteFiles) {
+      const localPath = path.join(absLocal, ...relPath.split('/'));
+      let result: DownloadDirectoryEntryResult;
+
+      if ((skipUnchanged ?? true) && isUnchanged(localPath, entry)) {
+        result = {
+          success: true,
+          localPath,
+          remotePath: entry.path,
+          size: entry.size,
+          skipped: true,
+        };
+      } else {
+        const downloaded = await this.downloadFile(entry.path, localPath, {
+          ...fileOptions,
+          sessionId,
+          onProgress: onProgress
+            ? (transferred) => onProgress(completedBytes + transferred, totalBytes)
+            : undefined,
+        });
+        if (downloaded.success && entry.modifiedAt) {
+          try { fs.utimesSync(localPath, entry.modifiedAt, entry.modifiedAt); } catch { /* ignore */ }
+        }
+        result = { ...downloaded, remotePath: entry.path, skipped: false };
+      }
+
+      completedBytes += entry.size;
+      if (result.skipped) onProgress?.(completedBytes, totalBytes);
+      files.push(result);
+      onFileComplete?.(result);
+    }
+
+    const failed = files.filter((f) => !f.success);
+    const transferredBytes = files.reduce((sum, f) => sum + (f.metrics?.transferredBytes ?? 0), 0);
+    const totalTimeMs = Date.now() - startMs;
+
+    return {
+      success: failed.length === 0,
+      localPath: absLocal,
+      size: files.filter((f) => f.success).reduce((sum, f) => sum + f.size, 0),
+      files,
+      error: failed.length > 0 ? `${failed.length} of ${files.length} files failed to download` : undefined,
+      metrics: {
+        totalTimeMs,
+        transferSpeedMbps:
+          totalTimeMs > 0 ? (transferredBytes / 1024 / 1024) / (totalTimeMs / 1000) : 0,
+        chunksCount: files.reduce((sum, f) => sum + (f.metrics?.chunksCount ?? 0), 0),
+        retriesCount: files.reduce((sum, f) => sum + (f.metrics?.retriesCount ?? 0), 0),
+        remoteSizeBytes: totalBytes,
+        transferredBytes,
+      },
+    };
+  }
+
   // ──────────────────────────────────────────────────────────────────
   // Private helpers
   // ──────────────────────────────────────────────────────────────────
 
+  private async _walkRemote(
+    remoteDir: string,
+    sessionId: string,
+    filters: { include: GlobMatcher[]; exclude: GlobMatcher[]; includeHidden: boolean }
+  ): Promise<Array<{ entry: FileEntry; relPath: string }>> {
+    const files = new FilesService(this.client);
+    files.setSessionId(sessionId);
+
+    const out: Array<{ entry: FileEntry; relPath: string }> = [];
+
+    const walk = async (dir: string, relDir: string) => {
+      let pageToken: string | undefined;
+      do {
+        const page = await files.list(dir, {
+          includeHidden: filters.includeHidden,
+          pageSize: 500,
+          pageToken,
+        });
+
+        for (const entry of page.entries) {
+          if (!filters.includeHidden && entry.name.startsWith('.')) continue;
+          const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+          if (matchesAny(relPath, filters.exclude)) continue;
+
+          if (entry.type === 'directory') {
+            // `dir/**` matches `dir/` — skip the whole subtree without listing it
+            if (matchesAny(`${relPath}/`, filters.exclude)) continue;
+            await walk(entry.path, relPath);
+          } else if (entry.type === 'file') {
+            if (filters.include.length > 0 && !matchesAny(relPath, filters.include)) continue;
+            out.push({ entry, relPath });
+          }
+        }
+
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+    };
+
+    await walk(remoteDir, '');
+    return out;
+  }
+
+  private async _downloadRanges(
+    remotePath: string,
+    absLocal: string,
+    sessionId: string,
+    options: DownloadFileOptions
+  ): Promise<DownloadResult> {
+    const startMs = Date.now();
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const maxRetries = options.maxRetries ?? 3;
+    const parallel = Math.max(1, options.parallel ?? 1);
+    const resume = options.resume ?? false;
+    const statePath = options.statePath ?? `${absLocal}.cmdop-download.json`;
+
+    let fd: number | null = null;
+    let totalSize = 0;
+    let resumedBytes = 0;
+    let transferredBytes = 0;
+    let chunksCount = 0;
+    let retriesCount = 0;
+
+    const metrics = (speed: boolean) => {
+      const totalTimeMs = Date.now() - startMs;
+      return {
+        totalTimeMs,
+        transferSpeedMbps:
+          speed && totalTimeMs > 0 ? (transferredBytes / 1024 / 1024) / (totalTimeMs / 1000) : 0,
+        chunksCount,
+        retriesCount,
+        remoteSizeBytes: totalSize,
+        transferredBytes,
+        resumedBytes,
+      };
+    };
+
+    try {
+      totalSize = await this._remoteSize(remotePath, sessionId);
+      const totalChunks = Math.max(1, Math.ceil(totalSize / chunkSize));
+
+      // Load sidecar state and keep only chunks that still match on disk
+      let state = resume ? readState(statePath) : null;
+      if (
+        !state ||
+        state.remotePath !== remotePath ||
+        state.totalSize !== totalSize ||
+        state.chunkSize !== chunkSize ||
+        !fs.existsSync(absLocal)
+      ) {
+        state = { version: 1, remotePath, totalSize, chunkSize, chunks: {} };
+      }
+
+      fd = fs.openSync(absLocal, Object.keys(state.chunks).length > 0 ? 'r+' : 'w');
+
+      for (const [key, md5] of Object.entries(state.chunks)) {
+        const index = Number(key);
+        const offset = index * chunkSize;
+        const length = Math.min(chunkSize, totalSize - offset);
+        const data = Buffer.alloc(length);
+        const read = fs.readSync(fd, data, 0, length, offset);
+        if (read !== length || md5Hex(data) !== md5) {
+          delete state.chunks[key];
+        } else {
+          resumedBytes += length;
+        }
+      }
+
+      const currentState = state;
+      const pending: number[] = [];
+      for (let i = 0; i < totalChunks; i++) {
+        if (currentState.chunks[String(i)] === undefined) pending.push(i);
+      }
+
+      let completedBytes = resumedBytes;
+      if (resumedBytes > 0) options.onProgress?.(completedBytes, totalSize);
+
+      // Workers pull chunk indices from a shared queue; the first failure
+      // stops the rest once their in-flight chunk finishes
+      const openFd = fd;
+      let failure: unknown = null;
+      const worker = async () => {
+        while (failure === null) {
+          const index = pending.shift();
+          if (index === undefined) return;
+
+          try {
+            const offset = index * chunkSize;
+            const length = Math.min(chunkSize, totalSize - offset);
+            // The agent may return fewer bytes than asked for; keep reading
+            // from where the last response ended until the range is full
+            const data = Buffer.alloc(length);
+            let filled = 0;
+            while (filled < length) {
+              const chunk = await this._readChunkWithRetry(
+                remotePath,
+                sessionId,
+                offset + filled,
+                length - filled,
+                maxRetries,
+                () => retriesCount++
+              );
+
+              if (chunk.totalSize !== totalSize) {
+                throw new CMDOPError(`Remote file changed during download: ${remotePath}`);
+              }
+              if (chunk.data.length === 0) {
+                throw new CMDOPError(
+                  `Short read at offset ${offset}: ${filled}/${length} bytes`
+                );
+              }
+              filled += chunk.data.copy(data, filled);
+            }
+
+            if (length > 0) {
+              fs.writeSync(openFd, data, 0, length, offset);
+            }
+            currentState.chunks[String(index)] = md5Hex(data);
+            if (resume) writeState(statePath, currentState);
+
+            transferredBytes += length;
+            completedBytes += length;
+            chunksCount++;
+            options.onProgress?.(completedBytes, totalSize);
+          } catch (err) {
+            failure ??= err;
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(parallel, pending.length) }, worker));
+      if (failure !== null) throw failure;
+
+      fs.closeSync(fd);
+      fd = null;
+
+      const checksum = await md5File(absLocal);
+      const expected = options.checksum;
+
+      if (expected !== undefined && expected.toLowerCase() !== checksum) {
+        // Corrupt result — nothing worth resuming from
+        try { fs.unlinkSync(absLocal); } catch { /* ignore */ }
+        try { fs.unlinkSync(statePath); } catch { /* ignore */ }
+        return {
+          success: false,
+          size: totalSize,
+          error: `Checksum mismatch for ${remotePath}: expected ${expected}, got ${checksum}`,
+          metrics: metrics(false),
+        };
+      }
+
+      try { fs.unlinkSync(statePath); } catch { /* ignore */ }
+
+      return {
+        success: true,
+        localPath: absLocal,
+        size: totalSize,
+        checksum,
+        resumed: resumedBytes > 0,
+        metrics: metrics(true),
+      };
+    } catch (err) {
+      if (fd !== null) {
+        try { fs.closeSync(fd); fd = null; } catch { /* ignore */ }
+      }
+      if (!resume) {
+        try { fs.unlinkSync(absLocal); } catch { /* ignore */ }
+      }
+
+      const mapped = mapGrpcError(err);
+      return {
+        success: false,
+        size: resumedBytes + transferredBytes,
+        resumed: resumedBytes > 0,
+        error: mapped.message,
+        metrics: metrics(false),
+      };
+    } finally {
+      if (fd !== null) {
+        try { fs.closeSync(fd); } catch { /* ignore */ }
+      }
+    }
+  }
+
+  private async _remoteSize(remotePath: string, sessionId: string): Promise<number> {
+    const response = await this.call(
+      () => this.client.fileGetInfo({ sessionId, path: remotePath }),
+      { retry: true, sessionId }
+    );
+
+    if (!response.success || !response.result?.entry) {
+      throw new CMDOPError(response.error || `Failed to get file info: ${remotePath}`);
+    }
+
+    return parseInt(response.result.entry.size, 10);
+  }
+
   private async _readChunkWithRetry(
     remotePath: string,
     sessionId: string,
@@ -312,16 +721,18 @@ export class DownloadService extends BaseService {
     // Use runAgent with the terminal agent type to execute the curl command.
     //
     // Alternative: use the runAgent RPC directly.
-    const response = await this.call(() =>
-      this.client.runAgent({
-        sessionId,
-        prompt: `Download the URL "${url}" to "${destPath}" using curl or wget. Run: curl -fsSL -o "${destPath}" "${url}" || wget -q -O "${destPath}" "${url}"`,
-        requestId: '',
-        agentType: AgentType.AGENT_TYPE_COMMAND,
-        timeoutSeconds: 120,
-        options: {},
-        outputSchema: '',
-      })
+    const response = await this.call(
+      () =>
+        this.client.runAgent({
+          sessionId,
+          prompt: `Download the URL "${url}" to "${destPath}" using curl or wget. Run: curl -fsSL -o "${destPath}" "${url}" || wget -q -O "${destPath}" "${url}"`,
+          requestId: '',
+          agentType: AgentType.AGENT_TYPE_COMMAND,
+          timeoutSeconds: 120,
+          options: {},
+          outputSchema: '',
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -329,3 +740,82 @@ export class DownloadService extends BaseService {
     }
   }
 }
+
+function md5Hex(data: Buffer): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+async function md5File(filePath: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function readState(statePath: string): DownloadState | null {
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as DownloadState;
+    return state.version === 1 && typeof state.chunks === 'object' ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeState(statePath: string, state: DownloadState): void {
+  // Write-then-rename so a crash never leaves a truncated state file
+  const tmp = `${statePath}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state));
+  fs.renameSync(tmp, statePath);
+}
+
+function isUnchanged(localPath: string, entry: FileEntry): boolean {
+  if (!entry.modifiedAt) return false;
+  try {
+    const stat = fs.statSync(localPath);
+    return (
+      stat.isFile() &&
+      stat.size === entry.size &&
+      Math.floor(stat.mtimeMs / 1000) === Math.floor(entry.modifiedAt.getTime() / 1000)
+    );
+  } catch {
+    return false;
+  }
+}
+
+interface GlobMatcher {
+  re: RegExp;
+  /** Pattern contains `/` — match the full relative path instead of the name */
+  fullPath: boolean;
+}
+
+/** Compile a glob (`*`, `?`, `**`) to an anchored RegExp over `/`-separated paths */
+function compileGlob(glob: string): GlobMatcher {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          re += '(?:.*/)?';
+        } else {
+          re += '.*';
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return { re: new RegExp(`^${re}$`), fullPath: glob.includes('/') };
+}
+
+function matchesAny(relPath: string, patterns: GlobMatcher[]): boolean {
+  const name = relPath.slice(relPath.lastIndexOf('/') + 1);
+  return patterns.some((p) => p.re.test(p.fullPath ? relPath : name));
+}
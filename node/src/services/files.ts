@@ -36,14 +36,17 @@ export type {
 
 export class FilesService extends BaseService {
   async list(path: string, options: ListOptions = {}): Promise<ListResult> {
-    const response = await this.call(() =>
-      this.client.fileListDirectory({
-        sessionId: this._sessionId,
-        path,
-        includeHidden: options.includeHidden ?? false,
-        pageSize: options.pageSize ?? 100,
-        pageToken: options.pageToken ?? '',
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.fileListDirectory({
+          sessionId,
+          path,
+          includeHidden: options.includeHidden ?? false,
+          pageSize: options.pageSize ?? 100,
+          pageToken: options.pageToken ?? '',
+        }),
+      { retry: true, sessionId }
     );
 
     if (!response.success) {
@@ -59,14 +62,17 @@ export class FilesService extends BaseService {
   }
 
   async read(path: string, options: ReadOptions = {}): Promise<ReadResult> {
-    const response = await this.call(() =>
-      this.client.fileRead({
-        sessionId: this._sessionId,
-        path,
-        offset: String(options.offset ?? 0),
-        length: String(options.length ?? 0),
-        transcode: false,
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.fileRead({
+          sessionId,
+          path,
+          offset: String(options.offset ?? 0),
+          length: String(options.length ?? 0),
+          transcode: false,
+        }),
+      { retry: true, sessionId }
     );
 
     if (!response.success) {
@@ -90,14 +96,17 @@ export class FilesService extends BaseService {
   ): Promise<{ bytesWritten: number; entry?: FileEntry }> {
     const buffer = typeof content === 'string' ? Buffer.from(content) : content;
 
-    const response = await this.call(() =>
-      this.client.fileWrite({
-        sessionId: this._sessionId,
-        path,
-        content: buffer,
-        overwrite: options.overwrite ?? false,
-        createParents: options.createParents ?? false,
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.fileWrite({
+          sessionId,
+          path,
+          content: buffer,
+          overwrite: options.overwrite ?? false,
+          createParents: options.createParents ?? false,
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -134,9 +143,11 @@ export class FilesService extends BaseService {
     };
   }
 
-  async stat(path: string): Promise<FileEntry> {
-    const response = await this.call(() =>
-      this.client.fileGetInfo({ sessionId: this._sessionId, path })
+  async stat(path: string, options: { sessionId?: string } = {}): Promise<FileEntry> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () => this.client.fileGetInfo({ sessionId, path }),
+      { retry: true, sessionId }
     );
 
     if (!response.success) {
@@ -226,18 +237,20 @@ export class FilesService extends BaseService {
   }
 
   async search(path: string, options: SearchOptions): Promise<FileEntry[]> {
-    const response = await this.call(() =>
-      this.client.fileSearch({
-        sessionId: this._sessionId,
-        path,
-        filenamePattern: options.pattern,
-        contentPattern: '',
-        caseSensitive: false,
-        includeHidden: options.includeHidden ?? false,
-        maxResults: options.maxResults ?? 100,
-        maxDepth: options.recursive === false ? 1 : 0,
-        contextLines: 0,
-      })
+    const response = await this.call(
+      () =>
+        this.client.fileSearch({
+          sessionId: this._sessionId,
+          path,
+          filenamePattern: options.pattern,
+          contentPattern: '',
+          caseSensitive: false,
+          includeHidden: options.includeHidden ?? false,
+          maxResults: options.maxResults ?? 100,
+          maxDepth: options.recursive === false ? 1 : 0,
+          contextLines: 0,
+        }),
+      { retry: true }
     );
 
     if (!response.success) {
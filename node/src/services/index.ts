@@ -3,6 +3,7 @@
  */
 
 export { BaseService } from './base';
+export type { CallOptions } from './base';
 export { TerminalService } from './terminal';
 export type {
   CreateSessionOptions,
@@ -10,6 +11,10 @@ export type {
   SessionInfo,
   SessionStatusInfo,
   SetMachineResult,
+  ExecStreamName,
+  ExecOptions,
+  ExecChunk,
+  ExecResult,
 } from './terminal';
 
 export { FilesService } from './files';
@@ -48,8 +53,41 @@ export type {
   DownloadMetrics,
   DownloadFileOptions,
   DownloadUrlOptions,
+  DownloadDirectoryOptions,
+  DownloadDirectoryResult,
+  DownloadDirectoryEntryResult,
 } from './download';
 
+export { UploadService } from './upload';
+export type {
+  UploadResult,
+  UploadMetrics,
+  UploadDirectoryResult,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+} from './upload';
+
+export { MediaService, HlsProxy } from './media';
+export type {
+  HlsPlaylist,
+  HlsSegment,
+  HlsSessionOptions,
+  HlsOptions,
+  HlsPlaylistOptions,
+  HlsProxyOptions,
+} from './media';
+
+export { RelayService, RelayTransfer, parseRelayEndpoint } from './relay';
+export type {
+  RelayEndpoint,
+  RelayTarget,
+  RelayTargetStatus,
+  RelayMetrics,
+  RelayCopyOptions,
+  RelayCopyResult,
+  RelayProgress,
+} from './relay';
+
 export { SkillsService } from './skills';
 export type {
   SkillInfo,
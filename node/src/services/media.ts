@@ -0,0 +1,315 @@
+/**
+ * MediaService — HLS streaming of remote video files.
+ *
+ *   getPlaylist / getSegment / stopSession — thin wrappers over the HLS RPCs
+ *   serve(path)                           — local HTTP proxy any HLS player can open
+ *
+ * The agent transcodes on demand (FFmpeg) and keeps a session per file until
+ * HlsStopSession is called; closing the proxy stops it.
+ *
+ * The proxy only answers under a random path prefix, so other local users and
+ * web pages cannot guess its URLs. CORS headers are sent only to the origins
+ * listed in `corsOrigins`.
+ */
+
+import * as http from 'http';
+import { randomBytes } from 'crypto';
+import { CMDOPError } from '@cmdop/core';
+import { BaseService } from './base';
+import type {
+  HlsPlaylist,
+  HlsSegment,
+  HlsSessionOptions,
+  HlsOptions,
+  HlsPlaylistOptions,
+  HlsProxyOptions,
+} from '../models/media';
+
+export type {
+  HlsPlaylist,
+  HlsSegment,
+  HlsSessionOptions,
+  HlsOptions,
+  HlsPlaylistOptions,
+  HlsProxyOptions,
+} from '../models/media';
+
+export class MediaService extends BaseService {
+  /**
+   * Fetch the master playlist, or a quality playlist when `quality` is set.
+   */
+  async getPlaylist(path: string, options: HlsPlaylistOptions = {}): Promise<HlsPlaylist> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.hlsGetPlaylist({
+          sessionId,
+          path,
+          quality: options.quality ?? '',
+          startTime: options.startTime ?? 0,
+        }),
+      { retry: true, sessionId }
+    );
+
+    if (!response.success) {
+      throw new CMDOPError(response.error || 'Failed to get HLS playlist');
+    }
+
+    return {
+      content: Buffer.from(response.content).toString('utf-8'),
+      contentType: response.contentType || 'application/vnd.apple.mpegurl',
+      duration: response.duration,
+      segmentDuration: response.segmentDuration,
+    };
+  }
+
+  /**
+   * Fetch one transport-stream segment of a quality level.
+   */
+  async getSegment(
+    path: string,
+    quality: string,
+    segmentNum: number,
+    options: HlsOptions = {}
+  ): Promise<HlsSegment> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.hlsGetSegment({
+          sessionId,
+          path,
+          quality,
+          segmentNum,
+          startTime: options.startTime ?? 0,
+        }),
+      { retry: true, sessionId }
+    );
+
+    if (!response.success) {
+      throw new CMDOPError(response.error || 'Failed to get HLS segment');
+    }
+
+    return {
+      content: Buffer.from(response.content),
+      contentType: response.contentType || 'video/mp2t',
+      createdNewSession: response.createdNewSession,
+    };
+  }
+
+  /**
+   * Stop transcoding for a file and free the agent-side session.
+   */
+  async stopSession(path: string, options: HlsSessionOptions = {}): Promise<void> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () => this.client.hlsStopSession({ sessionId, path }),
+      { sessionId }
+    );
+
+    if (!response.success) {
+      throw new CMDOPError(response.error || 'Failed to stop HLS session');
+    }
+  }
+
+  /**
+   * Serve a remote video through a local HTTP proxy.
+   *
+   * Playlists are rewritten so every variant and segment URI points back at
+   * the proxy. Seeking works with `?t=<seconds>` on the master playlist URL.
+   *
+   * @example
+   * ```typescript
+   * await using proxy = await client.media.serve('/recordings/run-42.mp4');
+   * console.log(`Open ${proxy.url} in VLC / Safari / hls.js`);
+   * ```
+   */
+  async serve(path: string, options: HlsProxyOptions = {}): Promise<HlsProxy> {
+    // The proxy keeps talking to this session even if the service is re-pointed
+    const sessionId = options.sessionId ?? this._sessionId;
+
+    // Fail fast if the file can't be streamed, before binding a port
+    const master = await this.getPlaylist(path, { startTime: options.startTime, sessionId });
+
+    const proxy = new HlsProxy(this, path, sessionId, master.duration, options.corsOrigins ?? []);
+    try {
+      await proxy.listen(options.host ?? '127.0.0.1', options.port ?? 0, options.startTime ?? 0);
+    } catch (err) {
+      await proxy.close();
+      throw new CMDOPError(`Failed to start HLS proxy: ${(err as Error).message}`);
+    }
+    return proxy;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// HlsProxy
+// ──────────────────────────────────────────────────────────────────────
+
+const MASTER_ROUTE = /^\/master\.m3u8$/;
+const PLAYLIST_ROUTE = /^\/q\/([^/]+)\/index\.m3u8$/;
+const SEGMENT_ROUTE = /^(?:\/q\/([^/]+))?\/(\d+)\.ts$/;
+
+export class HlsProxy {
+  private _server: http.Server | null = null;
+  private _url = '';
+  private _closed = false;
+
+  private readonly _media: MediaService;
+  private readonly _path: string;
+  private readonly _sessionId: string;
+  private readonly _corsOrigins: ReadonlySet<string>;
+  private readonly _prefix = `/${randomBytes(16).toString('hex')}`;
+
+  /** Total video duration in seconds, as reported by the agent */
+  readonly duration: number;
+
+  constructor(media: MediaService, path: string, sessionId: string, duration: number, corsOrigins: string[] = []) {
+    this._media = media;
+    this._path = path;
+    this._sessionId = sessionId;
+    this._corsOrigins = new Set(corsOrigins);
+    this.duration = duration;
+  }
+
+  /** URL of the master playlist */
+  get url(): string {
+    return this._url;
+  }
+
+  /** @internal — called by MediaService.serve() */
+  async listen(host: string, port: number, startTime: number): Promise<void> {
+    const server = http.createServer((req, res) => {
+      void this._handle(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this._server = server;
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    const query = startTime > 0 ? `?t=${startTime}` : '';
+    this._url = `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}${this._prefix}/master.m3u8${query}`;
+  }
+
+  /**
+   * Stop the local server and the agent's transcoding session.
+   */
+  async close(): Promise<void> {
+    if (this._closed) return;
+    this._closed = true;
+
+    if (this._server) {
+      const server = this._server;
+      this._server = null;
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    try {
+      await this._media.stopSession(this._path, { sessionId: this._sessionId });
+    } catch {
+      // best-effort — the agent also reaps idle sessions
+    }
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  private async _handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const origin = req.headers.origin;
+    if (origin && this._corsOrigins.has(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    if (!url.pathname.startsWith(`${this._prefix}/`)) {
+      res.writeHead(404).end();
+      return;
+    }
+    const route = url.pathname.slice(this._prefix.length);
+    const startTime = Number(url.searchParams.get('t') ?? 0) || 0;
+    const query = startTime > 0 ? `?t=${startTime}` : '';
+
+    try {
+      let match: RegExpExecArray | null;
+      if (MASTER_ROUTE.test(route)) {
+        const playlist = await this._media.getPlaylist(this._path, { startTime, sessionId: this._sessionId });
+        send(res, req, playlist.contentType, rewritePlaylist(playlist.content, query));
+      } else if ((match = PLAYLIST_ROUTE.exec(route))) {
+        const quality = decodeURIComponent(match[1]!);
+        const playlist = await this._media.getPlaylist(this._path, {
+          quality,
+          startTime,
+          sessionId: this._sessionId,
+        });
+        send(res, req, playlist.contentType, rewritePlaylist(playlist.content, query));
+      } else if ((match = SEGMENT_ROUTE.exec(route))) {
+        const quality = match[1] ? decodeURIComponent(match[1]) : '';
+        const segment = await this._media.getSegment(this._path, quality, Number(match[2]), {
+          startTime,
+          sessionId: this._sessionId,
+        });
+        send(res, req, segment.contentType, segment.content);
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(502, { 'Content-Type': 'text/plain' }).end((err as Error).message);
+    }
+  }
+}
+
+function send(
+  res: http.ServerResponse,
+  req: http.IncomingMessage,
+  contentType: string,
+  body: string | Buffer
+): void {
+  const data = typeof body === 'string' ? Buffer.from(body) : body;
+  res.writeHead(200, { 'Content-Type': contentType, 'Content-Length': data.length });
+  res.end(req.method === 'HEAD' ? undefined : data);
+}
+
+/**
+ * Point every URI line of a playlist back at the proxy:
+ *   variant playlists → q/<quality>/index.m3u8
+ *   segments          → <n>.ts (relative to the playlist being served)
+ */
+function rewritePlaylist(content: string, query: string): string {
+  return content
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return line;
+
+      const uri = trimmed.split('?')[0]!;
+      const parts = uri.split('/').filter(Boolean);
+      const basename = parts[parts.length - 1] ?? '';
+
+      if (basename.endsWith('.m3u8')) {
+        // 720p/playlist.m3u8 → 720p, 720p.m3u8 → 720p
+        const quality = parts.length > 1 ? parts[parts.length - 2]! : basename.slice(0, -'.m3u8'.length);
+        return `q/${encodeURIComponent(quality)}/index.m3u8${query}`;
+      }
+
+      const segment = /(\d+)\.\w+$/.exec(basename);
+      return segment ? `${Number(segment[1])}.ts${query}` : line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,408 @@
+/**
+ * RelayService — copy a file from one machine to one or more others.
+ *
+ *   copy({ from: 'host-a:/path', to: ['host-b:/path', 'host-c:/path'] })
+ *
+ * Uses the StreamingRelay RPCs: the relay is initiated for every online
+ * target at once, then the SDK reads the source in chunks (fileRead) and
+ * pushes each chunk once with RelayChunk; the server fans it out. Nothing is
+ * written to local disk. Targets without an active session are reported as
+ * `offline` instead of failing the copy.
+ */
+
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { CMDOPError, SessionError } from '@cmdop/core';
+import { StreamingRelayState, type StreamingRelayStatus } from '../proto/generated/file_operations/transfer';
+import type { TerminalStreamingServiceClient } from '../proto/generated/service';
+import { BaseService } from './base';
+import { mapGrpcError } from '../errors';
+import type {
+  RelayEndpoint,
+  RelayTarget,
+  RelayCopyOptions,
+  RelayCopyResult,
+  RelayProgress,
+} from '../models/relay';
+
+export type {
+  RelayEndpoint,
+  RelayTarget,
+  RelayTargetStatus,
+  RelayMetrics,
+  RelayCopyOptions,
+  RelayCopyResult,
+  RelayProgress,
+} from '../models/relay';
+
+/** Default chunk size: 1 MB (StreamingRelayRequest default) */
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+export class RelayService extends BaseService {
+  /**
+   * Start copying a file between machines.
+   *
+   * Resolves once the relay is initiated — `offlineTargets` on the returned
+   * handle is already known at that point. Use `wait()` for the result and
+   * `cancel()` to abort.
+   *
+   * @example
+   * ```typescript
+   * const transfer = await client.relay.copy({
+   *   from: 'build-01:/out/app.tar.gz',
+   *   to: ['web-01:/opt/app/', 'web-02:/opt/app/'],
+   *   onProgress: (p) => console.log(`${p.overallProgress.toFixed(0)}%`),
+   * });
+   * for (const t of transfer.offlineTargets) console.warn(`${t.hostname} is offline`);
+   * const result = await transfer.wait();
+   * ```
+   */
+  async copy(options: RelayCopyOptions): Promise<RelayTransfer> {
+    const source = parseRelayEndpoint(options.from);
+    if (options.to.length === 0) {
+      throw new CMDOPError('At least one relay target is required');
+    }
+    const endpoints = options.to.map(parseRelayEndpoint);
+
+    // StreamingRelayRequest carries a single target_path for all targets
+    const targetPath = resolveTargetPath(endpoints, source.path);
+
+    const sourceSession = await this.getSessionByHostname(source.hostname);
+    const targets = await Promise.all(
+      endpoints.map((endpoint) => this._resolveTarget(endpoint.hostname, targetPath))
+    );
+
+    const info = await this.call(
+      () => this.client.fileGetInfo({ sessionId: sourceSession.sessionId, path: source.path }),
+      { retry: true, sessionId: sourceSession.sessionId }
+    );
+    if (!info.success || !info.result?.entry) {
+      throw new CMDOPError(info.error || `Failed to get file info: ${source.path}`);
+    }
+    const size = parseInt(info.result.entry.size, 10);
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const transferId = randomUUID();
+
+    const online = targets.filter((t) => t.status !== 'offline');
+    if (online.length === 0) {
+      return new RelayTransfer(this.client, {
+        transferId, source, sourceSessionId: sourceSession.sessionId, size, chunkSize,
+        totalChunks: 0, targets, options,
+      }, 'All relay targets are offline');
+    }
+
+    const response = await this.call(
+      () =>
+        this.client.initiateStreamingRelay({
+          transferId,
+          sourceSessionId: sourceSession.sessionId,
+          targetSessionIds: online.map((t) => t.sessionId),
+          fileName: path.posix.basename(source.path),
+          sourcePath: source.path,
+          targetPath,
+          fileSize: String(size),
+          fileChecksum: options.checksum ?? '',
+          chunkSize,
+        }),
+      { sessionId: sourceSession.sessionId }
+    );
+
+    if (!response.success) {
+      throw new CMDOPError(response.error || 'Failed to initiate relay');
+    }
+
+    // The server may know about disconnects the hostname lookup didn't see
+    for (const target of online) {
+      if (response.offlineTargets.includes(target.sessionId)) {
+        target.status = 'offline';
+      }
+    }
+
+    return new RelayTransfer(this.client, {
+      transferId: response.transferId || transferId,
+      source,
+      sourceSessionId: sourceSession.sessionId,
+      size,
+      chunkSize,
+      totalChunks: response.totalChunks || Math.max(1, Math.ceil(size / chunkSize)),
+      targets,
+      options,
+    });
+  }
+
+  private async _resolveTarget(hostname: string, targetPath: string): Promise<RelayTarget> {
+    const target: RelayTarget = {
+      hostname,
+      path: targetPath,
+      sessionId: '',
+      status: 'pending',
+      progress: 0,
+      chunksAcked: 0,
+    };
+    try {
+      target.sessionId = (await this.getSessionByHostname(hostname)).sessionId;
+    } catch (err) {
+      if (!(err instanceof SessionError)) throw err;
+      target.status = 'offline';
+      target.error = err.message;
+    }
+    return target;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────────
+// RelayTransfer
+// ──────────────────────────────────────────────────────────────────────
+
+interface RelayContext {
+  transferId: string;
+  source: RelayEndpoint;
+  sourceSessionId: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  targets: RelayTarget[];
+  options: RelayCopyOptions;
+}
+
+/**
+ * Handle for a running relay copy, returned by RelayService.copy().
+ */
+export class RelayTransfer {
+  private _cancelReason: string | null = null;
+  private _overallProgress = 0;
+  private _transferred = 0;
+  private readonly _done: Promise<RelayCopyResult>;
+
+  private readonly _client: TerminalStreamingServiceClient;
+  private readonly _ctx: RelayContext;
+
+  /** @internal — created by RelayService.copy() */
+  constructor(client: TerminalStreamingServiceClient, ctx: RelayContext, initError?: string) {
+    this._client = client;
+    this._ctx = ctx;
+    this._done = initError !== undefined
+      ? Promise.resolve(this._result(Date.now(), 0, initError))
+      : this._run();
+  }
+
+  get transferId(): string {
+    return this._ctx.transferId;
+  }
+
+  get source(): RelayEndpoint {
+    return { ...this._ctx.source };
+  }
+
+  /** Snapshot of every target and its current status */
+  get targets(): RelayTarget[] {
+    return this._ctx.targets.map((t) => ({ ...t }));
+  }
+
+  /** Targets that had no active session when the relay started */
+  get offlineTargets(): RelayTarget[] {
+    return this.targets.filter((t) => t.status === 'offline');
+  }
+
+  /** Resolves when the copy finished, failed or was cancelled — never rejects */
+  wait(): Promise<RelayCopyResult> {
+    return this._done;
+  }
+
+  /**
+   * Stop sending chunks and cancel the relay on the server.
+   * Resolves with the final (cancelled) result.
+   */
+  async cancel(reason = 'cancelled by client'): Promise<RelayCopyResult> {
+    this._cancelReason ??= reason;
+    return this._done;
+  }
+
+  /**
+   * Fetch current per-target progress from the server.
+   */
+  async status(): Promise<RelayProgress> {
+    await this._pollStatus();
+    return this._progress();
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────────────────────────
+
+  private async _run(): Promise<RelayCopyResult> {
+    const { transferId, source, sourceSessionId, size, chunkSize, totalChunks, targets, options } = this._ctx;
+    const statusIntervalMs = options.statusIntervalMs ?? 1000;
+    const startMs = Date.now();
+    let chunksCount = 0;
+    let lastStatusMs = startMs;
+
+    try {
+      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+        if (this._cancelReason !== null) break;
+
+        const active = targets.filter((t) => t.status === 'pending' || t.status === 'streaming');
+        if (active.length === 0) break;
+
+        const offset = chunkIndex * chunkSize;
+        const data = await this._readChunk(offset, Math.min(chunkSize, size - offset));
+
+        for (const target of active) target.status = 'streaming';
+        const ack = await this._client.relayChunk({
+          transferId,
+          sourceSessionId,
+          targetSessionIds: active.map((t) => t.sessionId),
+          chunkIndex,
+          totalChunks,
+          data,
+          chunkChecksum: createHash('md5').update(data).digest('hex'),
+          offset: String(offset),
+          isFirst: chunkIndex === 0,
+          isLast: chunkIndex === totalChunks - 1,
+        });
+
+        if (!ack.success) {
+          const rejected = active.find((t) => t.sessionId === ack.sessionId);
+          if (!rejected) {
+            throw new CMDOPError(ack.error || `Relay rejected chunk ${chunkIndex}`);
+          }
+          // One target failing doesn't stop the others
+          rejected.status = 'failed';
+          rejected.error = ack.error || `Rejected chunk ${chunkIndex}`;
+        }
+
+        this._transferred = offset + data.length;
+        chunksCount++;
+
+        if (Date.now() - lastStatusMs >= statusIntervalMs) {
+          await this._pollStatus();
+          lastStatusMs = Date.now();
+        }
+      }
+
+      if (this._cancelReason !== null) {
+        await this._cancelOnServer(this._cancelReason);
+        this._settle('cancelled');
+        return this._result(startMs, chunksCount, undefined, true);
+      }
+
+      await this._pollStatus();
+      this._settle('completed');
+      return this._result(startMs, chunksCount);
+    } catch (err) {
+      const mapped = mapGrpcError(err);
+      await this._cancelOnServer(mapped.message);
+      this._settle('failed', mapped.message);
+      return this._result(startMs, chunksCount, `Relay from ${source.hostname}:${source.path} failed: ${mapped.message}`);
+    }
+  }
+
+  private async _readChunk(offset: number, length: number): Promise<Buffer> {
+    if (length <= 0) return Buffer.alloc(0);
+
+    const response = await this._client.fileRead({
+      sessionId: this._ctx.sourceSessionId,
+      path: this._ctx.source.path,
+      offset: String(offset),
+      length: String(length),
+      transcode: false,
+    });
+    if (!response.success || !response.result) {
+      throw new CMDOPError(response.error || `Failed to read ${this._ctx.source.path}`);
+    }
+    return Buffer.from(response.result.content);
+  }
+
+  /** Refresh per-target progress and notify onProgress */
+  private async _pollStatus(): Promise<void> {
+    let status: StreamingRelayStatus;
+    try {
+      status = await this._client.getStreamingRelayStatus({ transferId: this._ctx.transferId });
+    } catch {
+      return; // progress is informational — chunk acks decide success
+    }
+
+    if (status.state === StreamingRelayState.RELAY_FAILED) {
+      throw new CMDOPError(status.error || 'Relay failed on the server');
+    }
+
+    this._overallProgress = status.overallProgress;
+    for (const target of this._ctx.targets) {
+      if (!target.sessionId) continue;
+      target.progress = status.targetProgress[target.sessionId] ?? target.progress;
+      target.chunksAcked = status.targetChunksAcked[target.sessionId] ?? target.chunksAcked;
+    }
+    this._ctx.options.onProgress?.(this._progress());
+  }
+
+  private async _cancelOnServer(reason: string): Promise<void> {
+    try {
+      await this._client.cancelStreamingRelay({ transferId: this._ctx.transferId, reason });
+    } catch {
+      // best-effort — the server also expires stalled relays
+    }
+  }
+
+  /** Move every still-running target to a final status */
+  private _settle(status: 'completed' | 'failed' | 'cancelled', error?: string): void {
+    for (const target of this._ctx.targets) {
+      if (target.status !== 'pending' && target.status !== 'streaming') continue;
+      target.status = status;
+      if (status === 'completed') target.progress = 100;
+      if (error) target.error = error;
+    }
+  }
+
+  private _progress(): RelayProgress {
+    return {
+      transferId: this._ctx.transferId,
+      transferred: this._transferred,
+      total: this._ctx.size,
+      overallProgress: this._overallProgress,
+      targets: this.targets,
+    };
+  }
+
+  private _result(startMs: number, chunksCount: number, error?: string, cancelled = false): RelayCopyResult {
+    const totalTimeMs = Date.now() - startMs;
+    const online = this._ctx.targets.filter((t) => t.status !== 'offline');
+    const success = !error && !cancelled && online.length > 0 && online.every((t) => t.status === 'completed');
+    const failed = online.filter((t) => t.status === 'failed');
+
+    return {
+      success,
+      transferId: this._ctx.transferId,
+      source: this.source,
+      size: this._ctx.size,
+      targets: this.targets,
+      cancelled,
+      error: error ?? (failed.length > 0 ? failed.map((t) => `${t.hostname}: ${t.error}`).join('; ') : undefined),
+      metrics: {
+        totalTimeMs,
+        transferSpeedMbps: totalTimeMs > 0 ? (this._transferred / (1024 * 1024)) / (totalTimeMs / 1000) : 0,
+        chunksCount,
+        transferredBytes: this._transferred,
+      },
+    };
+  }
+}
+
+/**
+ * Parse `hostname:/path` into its parts.
+ */
+export function parseRelayEndpoint(spec: string): RelayEndpoint {
+  const idx = spec.indexOf(':');
+  if (idx <= 0 || idx === spec.length - 1) {
+    throw new CMDOPError(`Invalid relay endpoint "${spec}": expected hostname:/path`);
+  }
+  return { hostname: spec.slice(0, idx), path: spec.slice(idx + 1) };
+}
+
+function resolveTargetPath(endpoints: RelayEndpoint[], sourcePath: string): string {
+  const paths = new Set(endpoints.map((e) => e.path));
+  if (paths.size > 1) {
+    throw new CMDOPError(`All relay targets must use the same path, got: ${[...paths].join(', ')}`);
+  }
+  const targetPath = endpoints[0]!.path;
+  return targetPath.endsWith('/') ? targetPath + path.posix.basename(sourcePath) : targetPath;
+}
@@ -31,9 +31,11 @@ export class SkillsService extends BaseService {
   /**
    * List all installed skills on the connected machine.
    */
-  async list(): Promise<SkillInfo[]> {
-    const response = await this.call(() =>
-      this.client.skillList({ sessionId: this._sessionId })
+  async list(options: { sessionId?: string } = {}): Promise<SkillInfo[]> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () => this.client.skillList({ sessionId }),
+      { retry: true, sessionId }
     );
 
     if (response.error) {
@@ -46,9 +48,11 @@ export class SkillsService extends BaseService {
   /**
    * Get details of a specific skill by name.
    */
-  async show(skillName: string): Promise<SkillDetail> {
-    const response = await this.call(() =>
-      this.client.skillShow({ sessionId: this._sessionId, skillName })
+  async show(skillName: string, options: { sessionId?: string } = {}): Promise<SkillDetail> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () => this.client.skillShow({ sessionId, skillName }),
+      { retry: true, sessionId }
     );
 
     return mapSkillDetail(response);
@@ -63,16 +67,19 @@ export class SkillsService extends BaseService {
     const builtOptions: Record<string, string> = { ...(options.options ?? {}) };
     if (options.model !== undefined) builtOptions['model'] = options.model;
 
-    const response = await this.call(() =>
-      this.client.skillRun({
-        sessionId: this._sessionId,
-        requestId: '',
-        skillName,
-        prompt,
-        options: builtOptions,
-        timeoutSeconds: options.timeoutSeconds ?? 300,
-        outputSchema: '',
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.skillRun({
+          sessionId,
+          requestId: '',
+          skillName,
+          prompt,
+          options: builtOptions,
+          timeoutSeconds: options.timeoutSeconds ?? 300,
+          outputSchema: '',
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -99,16 +106,19 @@ export class SkillsService extends BaseService {
     const builtOptions: Record<string, string> = { ...(options.options ?? {}) };
     if (options.model !== undefined) builtOptions['model'] = options.model;
 
-    const response = await this.call(() =>
-      this.client.skillRun({
-        sessionId: this._sessionId,
-        requestId: '',
-        skillName,
-        prompt,
-        options: builtOptions,
-        timeoutSeconds: options.timeoutSeconds ?? 300,
-        outputSchema,
-      })
+    const sessionId = options.sessionId ?? this._sessionId;
+    const response = await this.call(
+      () =>
+        this.client.skillRun({
+          sessionId,
+          requestId: '',
+          skillName,
+          prompt,
+          options: builtOptions,
+          timeoutSeconds: options.timeoutSeconds ?? 300,
+          outputSchema,
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
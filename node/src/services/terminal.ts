@@ -2,7 +2,8 @@
  * Terminal service for session management and I/O
  */
 
-import { SessionError } from '@cmdop/core';
+import { randomUUID } from 'node:crypto';
+import { CancelledError, SessionError } from '@cmdop/core';
 import type { SessionInfoItem } from '../proto/generated/rpc_messages/session';
 import { sessionStatusToJSON } from '../proto/generated/common_types';
 import { BaseService } from './base';
@@ -10,12 +11,14 @@ import { TerminalStream } from '../streaming/terminal';
 import type { TerminalStreamOptions } from '../streaming/terminal';
 import { AttachStream } from '../streaming/attach';
 import type { AttachStreamOptions } from '../streaming/attach';
+import { ExecStream } from '../streaming/exec';
 import type {
   CreateSessionOptions,
   ListSessionsOptions,
   SessionInfo,
   SessionStatusInfo,
   SetMachineResult,
+  ExecOptions,
 } from '../models/terminal';
 
 export type {
@@ -24,6 +27,10 @@ export type {
   SessionInfo,
   SessionStatusInfo,
   SetMachineResult,
+  ExecStreamName,
+  ExecOptions,
+  ExecChunk,
+  ExecResult,
 } from '../models/terminal';
 
 export class TerminalService extends BaseService {
@@ -55,12 +62,14 @@ export class TerminalService extends BaseService {
   }
 
   async close(sessionId: string, options?: { reason?: string; force?: boolean }): Promise<void> {
-    const response = await this.call(() =>
-      this.client.closeSession({
-        sessionId,
-        reason: options?.reason ?? '',
-        force: options?.force ?? false,
-      })
+    const response = await this.call(
+      () =>
+        this.client.closeSession({
+          sessionId,
+          reason: options?.reason ?? '',
+          force: options?.force ?? false,
+        }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -69,8 +78,9 @@ export class TerminalService extends BaseService {
   }
 
   async getStatus(sessionId: string): Promise<SessionStatusInfo> {
-    const response = await this.call(() =>
-      this.client.getSessionStatus({ sessionId })
+    const response = await this.call(
+      () => this.client.getSessionStatus({ sessionId }),
+      { retry: true, sessionId }
     );
 
     return {
@@ -88,13 +98,15 @@ export class TerminalService extends BaseService {
     total: number;
     workspaceName: string;
   }> {
-    const response = await this.call(() =>
-      this.client.listSessions({
-        hostnameFilter: options.hostname ?? '',
-        statusFilter: options.status ?? '',
-        limit: options.limit ?? 20,
-        offset: options.offset ?? 0,
-      })
+    const response = await this.call(
+      () =>
+        this.client.listSessions({
+          hostnameFilter: options.hostname ?? '',
+          statusFilter: options.status ?? '',
+          limit: options.limit ?? 20,
+          offset: options.offset ?? 0,
+        }),
+      { retry: true }
     );
 
     if (response.error) {
@@ -119,8 +131,9 @@ export class TerminalService extends BaseService {
   async sendInput(sessionId: string, data: string | Uint8Array): Promise<void> {
     const buffer = typeof data === 'string' ? Buffer.from(data) : Buffer.from(data);
 
-    const response = await this.call(() =>
-      this.client.sendInput({ sessionId, data: buffer })
+    const response = await this.call(
+      () => this.client.sendInput({ sessionId, data: buffer }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -129,8 +142,9 @@ export class TerminalService extends BaseService {
   }
 
   async resize(sessionId: string, cols: number, rows: number): Promise<void> {
-    const response = await this.call(() =>
-      this.client.sendResize({ sessionId, cols, rows })
+    const response = await this.call(
+      () => this.client.sendResize({ sessionId, cols, rows }),
+      { retry: true, sessionId }
     );
 
     if (!response.success) {
@@ -144,8 +158,9 @@ export class TerminalService extends BaseService {
   ): Promise<void> {
     const signalNum = typeof signal === 'number' ? signal : SIGNAL_MAP[signal];
 
-    const response = await this.call(() =>
-      this.client.sendSignal({ sessionId, signal: signalNum })
+    const response = await this.call(
+      () => this.client.sendSignal({ sessionId, signal: signalNum }),
+      { sessionId }
     );
 
     if (!response.success) {
@@ -157,12 +172,14 @@ export class TerminalService extends BaseService {
     sessionId: string,
     options?: { limit?: number; offset?: number }
   ): Promise<{ commands: string[]; total: number }> {
-    const response = await this.call(() =>
-      this.client.getHistory({
-        sessionId,
-        limit: options?.limit ?? 100,
-        offset: options?.offset ?? 0,
-      })
+    const response = await this.call(
+      () =>
+        this.client.getHistory({
+          sessionId,
+          limit: options?.limit ?? 100,
+          offset: options?.offset ?? 0,
+        }),
+      { retry: true, sessionId }
     );
 
     return {
@@ -179,12 +196,14 @@ export class TerminalService extends BaseService {
     sessionId: string,
     options?: { offset?: number; limit?: number }
   ): Promise<{ data: Buffer; totalBytes: number; hasMore: boolean }> {
-    const response = await this.call(() =>
-      this.client.getOutput({
-        sessionId,
-        offset: options?.offset ?? 0,
-        limit: options?.limit ?? 0,
-      })
+    const response = await this.call(
+      () =>
+        this.client.getOutput({
+          sessionId,
+          offset: options?.offset ?? 0,
+          limit: options?.limit ?? 0,
+        }),
+      { retry: true, sessionId }
     );
 
     return {
@@ -230,9 +249,53 @@ export class TerminalService extends BaseService {
     return new AttachStream(this.client, sessionId, options);
   }
 
+  /**
+   * Run a command in the session's shell with separate stdout and stderr,
+   * exit code and duration.
+   *
+   * The command is typed into the session over an attached terminal stream
+   * (see ExecStream), so the session's shell must be idle at a prompt.
+   * stdout streams while the command runs; stderr is captured on the agent
+   * and arrives after the command exits.
+   *
+   * The returned stream is already running: iterate it for output chunks,
+   * listen with on(), or just `await stream.wait()` for the result.
+   * Requires either an explicit `sessionId` option or a prior `setMachine()` call.
+   *
+   * @throws {SessionError} if no session is set
+   * @throws {CancelledError} if `options.signal` is already aborted
+   * @throws {CMDOPError} if an `env` name is not a valid shell variable name
+   *
+   * @example
+   * ```typescript
+   * await client.terminal.setMachine('my-server');
+   * const proc = await client.terminal.exec('make test', { cwd: '/srv/app', env: { CI: '1' } });
+   * for await (const chunk of proc) {
+   *   (chunk.stream === 'stderr' ? process.stderr : process.stdout).write(chunk.data);
+   * }
+   * const { exitCode, durationMs } = await proc.wait();
+   * ```
+   */
+  async exec(command: string, options: ExecOptions = {}): Promise<ExecStream> {
+    const sessionId = options.sessionId ?? this._sessionId;
+    if (!sessionId) {
+      throw new SessionError('No session. Call setMachine() first or pass sessionId.');
+    }
+    if (options.signal?.aborted) {
+      throw new CancelledError('Command aborted before it started');
+    }
+
+    const stream = new ExecStream(this.client, sessionId, randomUUID(), command, options);
+    stream.start();
+    return stream;
+  }
+
   /**
    * Execute a command and return its output.
    *
+   * @deprecated Scrapes the interactive shell's output buffer, so large output
+   * is cut off and prompt-like lines are dropped. Use `exec()` instead.
+   *
    * Wraps the command with unique START/END markers, sends it to the terminal,
    * then polls the output buffer until the END marker appears and extracts the
    * clean output between the markers.
@@ -0,0 +1,518 @@
+/**
+ * UploadService — transfer files from local disk to a remote agent.
+ *
+ * Mirror of DownloadService:
+ *   uploadFile(localPath, remotePath)       — writes a local file in chunks via fileWrite RPC
+ *   uploadDirectory(localDir, remoteDir)    — uploads every file in a local tree
+ *
+ * Files that fit in a single chunk are written directly with fileWrite.
+ * Larger files go through the StreamingRelay RPCs with the SDK as the
+ * source: the relay is initiated for the file's session, every chunk is
+ * pushed with RelayChunk and the agent assembles the file at the target
+ * path, verifying the whole-file MD5 when one is given.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { CMDOPError } from '@cmdop/core';
+import { StreamingRelayState } from '../proto/generated/file_operations/transfer';
+import type { TerminalStreamingServiceClient } from '../proto/generated/service';
+import { BaseService } from './base';
+import { mapGrpcError } from '../errors';
+import type {
+  UploadResult,
+  UploadMetrics,
+  UploadDirectoryResult,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+} from '../models/upload';
+
+export type {
+  UploadResult,
+  UploadMetrics,
+  UploadDirectoryResult,
+  UploadFileOptions,
+  UploadDirectoryOptions,
+} from '../models/upload';
+
+/** Default chunk size: 4 MB */
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** How often to poll the relay for completion after the last chunk */
+const RELAY_POLL_INTERVAL_MS = 200;
+
+/** How long the agent may take to finish a relay after the last chunk */
+const RELAY_COMPLETE_TIMEOUT_MS = 60_000;
+
+export class UploadService extends BaseService {
+  /**
+   * Upload a local file to the remote agent.
+   *
+   * Files up to one chunk are sent with a single fileWrite RPC and checked
+   * against the byte count the agent reports. Larger files are streamed
+   * through the relay; with `verifyChecksum` the agent compares the
+   * assembled file with the local MD5. On failure, the relay is cancelled
+   * and a partially written remote file is removed.
+   *
+   * @param localPath   Absolute or relative path on the local machine
+   * @param remotePath  Absolute path on the remote agent
+   * @param options     Chunk size, retry, overwrite, progress callback
+   *
+   * @example
+   * ```typescript
+   * const result = await client.upload.uploadFile(
+   *   './dist/app.tar.gz',
+   *   '/opt/app/app.tar.gz',
+   *   { overwrite: true, onProgress: (n, total) => console.log(`${n}/${total}`) }
+   * );
+   * console.log(`Uploaded ${result.size} bytes (md5 ${result.checksum})`);
+   * ```
+   */
+  async uploadFile(
+    localPath: string,
+    remotePath: string,
+    options: UploadFileOptions = {}
+  ): Promise<UploadResult> {
+    const startMs = Date.now();
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const maxRetries = options.maxRetries ?? 3;
+    const sessionId = options.sessionId ?? this._sessionId;
+    const overwrite = options.overwrite ?? false;
+    const createParents = options.createParents ?? true;
+    const verifyChecksum = options.verifyChecksum ?? true;
+
+    const absLocal = path.resolve(localPath);
+    const transferId = randomUUID();
+
+    let fd: number | null = null;
+    let offset = 0;
+    let totalSize = 0;
+    let chunksCount = 0;
+    let retriesCount = 0;
+    let relayStarted = false;
+    let remoteWritten = false;
+
+    const metrics = (): UploadMetrics => {
+      const totalTimeMs = Date.now() - startMs;
+      return {
+        totalTimeMs,
+        transferSpeedMbps: totalTimeMs > 0 ? (offset / 1024 / 1024) / (totalTimeMs / 1000) : 0,
+        chunksCount,
+        retriesCount,
+        localSizeBytes: totalSize,
+        transferredBytes: offset,
+      };
+    };
+
+    try {
+      totalSize = fs.statSync(absLocal).size;
+      fd = fs.openSync(absLocal, 'r');
+
+      const totalChunks = Math.max(1, Math.ceil(totalSize / chunkSize));
+
+      if (totalChunks === 1) {
+        const data = readFully(fd, totalSize, 0);
+        await this._writeWithRetry(
+          remotePath,
+          data,
+          sessionId,
+          { overwrite, createParents },
+          maxRetries,
+          () => retriesCount++
+        );
+        remoteWritten = true;
+        offset = data.length;
+        chunksCount = 1;
+        options.onProgress?.(offset, totalSize);
+
+        return {
+          success: true,
+          localPath: absLocal,
+          remotePath,
+          size: offset,
+          checksum: md5(data),
+          metrics: metrics(),
+        };
+      }
+
+      if (!overwrite && (await this._remoteExists(remotePath, sessionId))) {
+        throw new CMDOPError(`Remote file already exists: ${remotePath}`, 'ALREADY_EXISTS');
+      }
+      if (createParents) {
+        await this._createParentsQuietly(remotePath, sessionId);
+      }
+
+      // The relay needs the whole-file MD5 up front
+      const checksum = md5File(fd, totalSize, chunkSize);
+
+      const response = await this.call(
+        () =>
+          this.client.initiateStreamingRelay({
+            transferId,
+            // Empty source session: the SDK itself pushes the chunks
+            sourceSessionId: '',
+            targetSessionIds: [sessionId],
+            fileName: path.posix.basename(remotePath),
+            sourcePath: absLocal,
+            targetPath: remotePath,
+            fileSize: String(totalSize),
+            fileChecksum: verifyChecksum ? checksum : '',
+            chunkSize,
+          }),
+        { sessionId }
+      );
+      if (!response.success) {
+        throw new CMDOPError(response.error || 'Failed to initiate upload relay');
+      }
+      if (response.offlineTargets.includes(sessionId)) {
+        throw new CMDOPError(`Session ${sessionId} is offline`, 'UNAVAILABLE');
+      }
+      relayStarted = true;
+
+      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+        const data = readFully(fd, Math.min(chunkSize, totalSize - offset), offset);
+
+        await this._relayChunkWithRetry(
+          {
+            transferId,
+            sourceSessionId: '',
+            targetSessionIds: [sessionId],
+            chunkIndex,
+            totalChunks,
+            data,
+            chunkChecksum: md5(data),
+            offset: String(offset),
+            isFirst: chunkIndex === 0,
+            isLast: chunkIndex === totalChunks - 1,
+          },
+          maxRetries,
+          () => retriesCount++
+        );
+        remoteWritten = true;
+
+        offset += data.length;
+        chunksCount++;
+        options.onProgress?.(offset, totalSize);
+      }
+
+      await this._waitForRelay(transferId);
+      relayStarted = false;
+
+      return {
+        success: true,
+        localPath: absLocal,
+        remotePath,
+        size: offset,
+        checksum,
+        metrics: metrics(),
+      };
+    } catch (err) {
+      const mapped = mapGrpcError(err);
+
+      // Stop the relay and remove the partial remote file
+      if (relayStarted) {
+        await this._cancelRelayQuietly(transferId, mapped.message);
+      }
+      if (remoteWritten) {
+        await this._deleteQuietly(remotePath, sessionId, false);
+      }
+
+      return {
+        success: false,
+        localPath: absLocal,
+        size: offset,
+        error: mapped.message,
+        metrics: { ...metrics(), transferSpeedMbps: 0 },
+      };
+    } finally {
+      if (fd !== null) {
+        try { fs.closeSync(fd); } catch { /* ignore */ }
+      }
+    }
+  }
+
+  /**
+   * Upload every file under a local directory to the remote agent.
+   *
+   * Preserves the relative layout under `remoteDir`. Files are uploaded
+   * sequentially; a failed file does not stop the remaining ones.
+   * Symlinks and empty directories are skipped.
+   *
+   * @param localDir   Absolute or relative directory on the local machine
+   * @param remoteDir  Absolute directory on the remote agent
+   * @param options    Per-file upload options plus hidden-file filter
+   *
+   * @example
+   * ```typescript
+   * const result = await client.upload.uploadDirectory('./dist', '/opt/app/dist', {
+   *   overwrite: true,
+   *   onFileComplete: (r) => console.log(r.success ? 'ok' : 'FAIL', r.remotePath ?? r.localPath),
+   * });
+   * console.log(`${result.files.length} files, ${result.size} bytes`);
+   * ```
+   */
+  async uploadDirectory(
+    localDir: string,
+    remoteDir: string,
+    options: UploadDirectoryOptions = {}
+  ): Promise<UploadDirectoryResult> {
+    const startMs = Date.now();
+    const absLocal = path.resolve(localDir);
+    const { includeHidden, onProgress, onFileComplete, ...fileOptions } = options;
+
+    let localFiles: Array<{ absPath: string; relPath: string; size: number }>;
+    try {
+      localFiles = collectFiles(absLocal, includeHidden ?? false);
+    } catch (err) {
+      return {
+        success: false,
+        remotePath: remoteDir,
+        size: 0,
+        files: [],
+        error: mapGrpcError(err).message,
+        metrics: emptyMetrics(Date.now() - startMs),
+      };
+    }
+
+    const totalBytes = localFiles.reduce((sum, f) => sum + f.size, 0);
+    const files: UploadResult[] = [];
+    let completedBytes = 0;
+
+    for (const file of localFiles) {
+      const remotePath = path.posix.join(remoteDir, file.relPath.split(path.sep).join('/'));
+      const result = await this.uploadFile(file.absPath, remotePath, {
+        ...fileOptions,
+        onProgress: onProgress
+          ? (transferred) => onProgress(completedBytes + transferred, totalBytes)
+          : undefined,
+      });
+
+      completedBytes += file.size;
+      files.push(result);
+      onFileComplete?.(result);
+    }
+
+    const failed = files.filter((f) => !f.success);
+    const transferredBytes = files.reduce((sum, f) => sum + (f.metrics?.transferredBytes ?? 0), 0);
+    const totalTimeMs = Date.now() - startMs;
+
+    return {
+      success: failed.length === 0,
+      remotePath: remoteDir,
+      size: files.filter((f) => f.success).reduce((sum, f) => sum + f.size, 0),
+      files,
+      error: failed.length > 0 ? `${failed.length} of ${files.length} files failed to upload` : undefined,
+      metrics: {
+        totalTimeMs,
+        transferSpeedMbps:
+          totalTimeMs > 0 ? (transferredBytes / 1024 / 1024) / (totalTimeMs / 1000) : 0,
+        chunksCount: files.reduce((sum, f) => sum + (f.metrics?.chunksCount ?? 0), 0),
+        retriesCount: files.reduce((sum, f) => sum + (f.metrics?.retriesCount ?? 0), 0),
+        localSizeBytes: totalBytes,
+        transferredBytes,
+      },
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────────────────────────
+
+  private async _writeWithRetry(
+    remotePath: string,
+    data: Buffer,
+    sessionId: string,
+    flags: { overwrite: boolean; createParents: boolean },
+    maxRetries: number,
+    onRetry: () => void
+  ): Promise<void> {
+    await withRetry(maxRetries, onRetry, async () => {
+      const response = await this.client.fileWrite({
+        sessionId,
+        path: remotePath,
+        content: data,
+        overwrite: flags.overwrite,
+        createParents: flags.createParents,
+      });
+
+      if (!response.success) {
+        throw new CMDOPError(response.error || 'Failed to write file');
+      }
+
+      const written = parseInt(response.result?.bytesWritten ?? '', 10);
+      if (!Number.isNaN(written) && written !== data.length) {
+        throw new CMDOPError(`Short write: ${written}/${data.length} bytes`, 'DATA_LOSS');
+      }
+    });
+  }
+
+  private async _relayChunkWithRetry(
+    request: Parameters<TerminalStreamingServiceClient['relayChunk']>[0],
+    maxRetries: number,
+    onRetry: () => void
+  ): Promise<void> {
+    await withRetry(maxRetries, onRetry, async () => {
+      const ack = await this.client.relayChunk(request);
+      if (!ack.success) {
+        throw new CMDOPError(ack.error || `Agent rejected chunk ${request.chunkIndex}`);
+      }
+    });
+  }
+
+  /** Poll the relay until the agent has assembled (and verified) the file */
+  private async _waitForRelay(transferId: string): Promise<void> {
+    const deadline = Date.now() + RELAY_COMPLETE_TIMEOUT_MS;
+
+    for (;;) {
+      const status = await this.call(
+        () => this.client.getStreamingRelayStatus({ transferId }),
+        { retry: true }
+      );
+
+      switch (status.state) {
+        case StreamingRelayState.RELAY_COMPLETED:
+          return;
+        case StreamingRelayState.RELAY_FAILED:
+          throw new CMDOPError(status.error || 'Upload failed on the agent', 'DATA_LOSS');
+        case StreamingRelayState.RELAY_CANCELLED:
+          throw new CMDOPError(status.error || 'Upload was cancelled on the agent');
+      }
+
+      if (Date.now() >= deadline) {
+        throw new CMDOPError('Timed out waiting for the agent to finish the upload', 'DEADLINE_EXCEEDED');
+      }
+      await new Promise((r) => setTimeout(r, RELAY_POLL_INTERVAL_MS));
+    }
+  }
+
+  private async _cancelRelayQuietly(transferId: string, reason: string): Promise<void> {
+    try {
+      await this.client.cancelStreamingRelay({ transferId, reason });
+    } catch {
+      // best-effort — the server also expires stalled relays
+    }
+  }
+
+  private async _createParentsQuietly(remotePath: string, sessionId: string): Promise<void> {
+    try {
+      await this.client.fileCreateDirectory({
+        sessionId,
+        path: path.posix.dirname(remotePath),
+        createParents: true,
+      });
+    } catch {
+      // The directory usually exists already; the relay reports real failures
+    }
+  }
+
+  private async _remoteExists(remotePath: string, sessionId: string): Promise<boolean> {
+    try {
+      const response = await this.client.fileGetInfo({ sessionId, path: remotePath });
+      return response.success && !!response.result?.entry;
+    } catch {
+      return false;
+    }
+  }
+
+  private async _deleteQuietly(
+    remotePath: string,
+    sessionId: string,
+    recursive: boolean
+  ): Promise<void> {
+    try {
+      await this.client.fileDelete({ sessionId, path: remotePath, recursive });
+    } catch {
+      // Non-fatal — original error is more useful
+    }
+  }
+}
+
+function md5(data: Buffer): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+/**
+ * Read exactly `length` bytes at `position`. fs.readSync may return fewer
+ * bytes than asked for, and a file that shrank since it was stat'ed ends early.
+ */
+function readFully(fd: number, length: number, position: number): Buffer {
+  const data = Buffer.alloc(length);
+  let filled = 0;
+  while (filled < length) {
+    const n = fs.readSync(fd, data, filled, length - filled, position + filled);
+    if (n === 0) {
+      throw new CMDOPError(
+        `Local file ended after ${position + filled} bytes; it changed during the upload`,
+        'DATA_LOSS'
+      );
+    }
+    filled += n;
+  }
+  return data;
+}
+
+function md5File(fd: number, size: number, chunkSize: number): string {
+  const hash = createHash('md5');
+  for (let position = 0; position < size; position += chunkSize) {
+    hash.update(readFully(fd, Math.min(chunkSize, size - position), position));
+  }
+  return hash.digest('hex');
+}
+
+/** Run `fn` up to maxRetries + 1 times with exponential backoff: 200ms, 400ms, 800ms */
+async function withRetry(maxRetries: number, onRetry: () => void, fn: () => Promise<void>): Promise<void> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      onRetry();
+      await new Promise((r) => setTimeout(r, 200 * Math.pow(2, attempt - 1)));
+    }
+    try {
+      await fn();
+      return;
+    } catch (err) {
+      lastError = err;
+    }
+  }
+
+  throw lastError;
+}
+
+function emptyMetrics(totalTimeMs: number): UploadMetrics {
+  return {
+    totalTimeMs,
+    transferSpeedMbps: 0,
+    chunksCount: 0,
+    retriesCount: 0,
+    localSizeBytes: 0,
+    transferredBytes: 0,
+  };
+}
+
+function collectFiles(
+  root: string,
+  includeHidden: boolean
+): Array<{ absPath: string; relPath: string; size: number }> {
+  const out: Array<{ absPath: string; relPath: string; size: number }> = [];
+
+  const walk = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (!includeHidden && entry.name.startsWith('.')) continue;
+      const absPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        walk(absPath);
+      } else if (entry.isFile()) {
+        out.push({ absPath, relPath: path.relative(root, absPath), size: fs.statSync(absPath).size });
+      }
+    }
+  };
+
+  walk(root);
+  return out;
+}
@@ -9,6 +9,7 @@
 import { SessionError } from '@cmdop/core';
 import type { CMDOPClient } from './client';
 import type { AttachStreamEvent } from './streaming/base';
+import type { AttachReconnectPolicy } from './streaming/attach';
 import { consola as logger } from './logging';
 
 export interface SSHConnectOptions {
@@ -16,6 +17,8 @@ export interface SSHConnectOptions {
   hostname: string;
   sessionId?: string;
   debug?: boolean;
+  /** Re-attach after network drops instead of exiting (default: false) */
+  reconnect?: boolean | AttachReconnectPolicy;
   onShareRequest?: () => Promise<void>;
 }
 
@@ -28,6 +31,9 @@ export interface SSHConnectOptions {
  * 4. On output: writes to stdout
  * 5. Ctrl+D: disconnects
  *
+ * With `reconnect`, a dropped stream is re-attached and output missed in the
+ * meantime is replayed; the local terminal stays in raw mode throughout.
+ *
  * @returns Exit code (0 = success, 1 = error)
  *
  * @example
@@ -38,7 +44,7 @@ export interface SSHConnectOptions {
  * ```
  */
 export async function sshConnect(options: SSHConnectOptions): Promise<number> {
-  const { client, hostname, debug = false, onShareRequest } = options;
+  const { client, hostname, debug = false, reconnect = false, onShareRequest } = options;
 
   // 1. Find active session and set machine (sets x-agent-id on transport)
   logger.start(`Finding session for \`${hostname}\`...`);
@@ -75,7 +81,7 @@ export async function sshConnect(options: SSHConnectOptions): Promise<number> {
   // 2. Create AttachStream
   const cols = process.stdout.columns || 80;
   const rows = process.stdout.rows || 24;
-  const stream = client.terminal.attach(sessionId, { cols, rows, debug });
+  const stream = client.terminal.attach(sessionId, { cols, rows, debug, reconnect });
 
   // 3. Setup terminal I/O handlers
   let cleanedUp = false;
@@ -140,6 +146,16 @@ export async function sshConnect(options: SSHConnectOptions): Promise<number> {
         process.stdout.write(event.data);
         break;
 
+      case 'reconnecting':
+        if (!cleanedUp) {
+          logger.warn(`Connection lost, reconnecting (attempt ${event.attempt})...`);
+        }
+        break;
+
+      case 'reconnected':
+        logger.success('Reconnected.');
+        break;
+
       case 'closed':
         if (debug) process.stderr.write(`[ssh] closed: ${event.reason}\n`);
         cleanup();
@@ -8,13 +8,25 @@
  * Message flow:
  *   Client → Server: RegisterRequest, TerminalOutput (stdin), StatusUpdate (resize/signal), HeartbeatUpdate
  *   Server → Client: StartSessionCommand, TerminalInput (stdout), CloseSessionCommand, PingCommand
+ *
+ * Reconnect (opt-in):
+ *   After a transient stream failure the stream re-registers with backoff,
+ *   replays output missed while disconnected from the GetOutput buffer, and
+ *   re-sends the current terminal size. GetOutput offsets index a capped
+ *   buffer rather than the session's output, so the gap is found by content:
+ *   the last bytes emitted before the drop are located in the buffer and
+ *   what follows them is replayed. Limits: if those bytes were already
+ *   trimmed from the buffer nothing is replayed; repeated output at the
+ *   boundary can align to the wrong place; and output produced while the
+ *   new stream registers may arrive both in the replay and live.
  */
 
 import * as os from 'node:os';
 import { CMDOPError } from '@cmdop/core';
+import { getSettings } from '../config';
 import type { AgentMessage } from '../proto/generated/agent_messages';
 import type { TerminalStreamingServiceClient } from '../proto/generated/service';
-import { mapGrpcError } from '../errors';
+import { mapGrpcError, isRetryableError } from '../errors';
 import {
   StreamState,
   type AttachStreamEvent,
@@ -23,6 +35,17 @@ import {
 } from './base';
 
 const KEEPALIVE_INTERVAL = 25_000;
+/** Output kept to find the reconnect point in the GetOutput buffer */
+const REPLAY_ANCHOR_BYTES = 256;
+
+export interface AttachReconnectPolicy {
+  /** Max consecutive attempts before giving up (default: 10) */
+  maxAttempts?: number;
+  /** Delay before the first attempt in ms, doubled per attempt (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between attempts in ms (default: 10000) */
+  maxDelayMs?: number;
+}
 
 export interface AttachStreamOptions {
   /** Initial terminal columns (default: 80) */
@@ -31,6 +54,8 @@ export interface AttachStreamOptions {
   rows?: number;
   /** Enable debug logging to stderr (default: false) */
   debug?: boolean;
+  /** Re-establish the stream after transient failures (default: false) */
+  reconnect?: boolean | AttachReconnectPolicy;
 }
 
 // ============================================================================
@@ -69,6 +94,17 @@ class MessageQueue {
     }
   }
 
+  /**
+   * Refuse new input once queueMaxSize messages are waiting, e.g. while a
+   * reconnect holds everything typed in the meantime.
+   */
+  assertCapacity(): void {
+    const max = getSettings().queueMaxSize;
+    if (this._messages.length >= max) {
+      throw new CMDOPError(`AttachStream send queue is full (${max} messages waiting)`, 'RESOURCE_EXHAUSTED');
+    }
+  }
+
   sendInput(data: Buffer | Uint8Array): void {
     this.enqueue({
       $case: 'output' as const,
@@ -97,6 +133,19 @@ class MessageQueue {
     });
   }
 
+  /**
+   * Take over input/status messages a previous connection never sent.
+   * Registration and heartbeats are dropped — the new connection sends its own.
+   */
+  adopt(previous: MessageQueue): void {
+    const pending = previous._messages;
+    previous._messages = [];
+    for (const msg of pending) {
+      const kind = msg.payload?.$case;
+      if (kind === 'output' || kind === 'status') this.enqueue(msg.payload);
+    }
+  }
+
   async *generate(): AsyncGenerator<AgentMessage> {
     while (!this.done) {
       if (this._messages.length === 0) {
@@ -149,9 +198,18 @@ export class AttachStream {
     errors: 0,
   };
 
+  private _cols: number;
+  private _rows: number;
+  private _ready = false;
+  private _sessionClosed = false;
+  /** Last output emitted, located in the GetOutput buffer after a reconnect */
+  private _anchor: Buffer = Buffer.alloc(0);
+  private _wake: (() => void) | null = null;
+
   private readonly _client: TerminalStreamingServiceClient;
   private readonly _sessionId: string;
-  private readonly _opts: Required<AttachStreamOptions>;
+  private readonly _opts: Required<Omit<AttachStreamOptions, 'reconnect'>>;
+  private readonly _reconnect: Required<AttachReconnectPolicy> | null;
 
   constructor(
     client: TerminalStreamingServiceClient,
@@ -165,6 +223,15 @@ export class AttachStream {
       rows: options.rows ?? 24,
       debug: options.debug ?? false,
     };
+    this._cols = this._opts.cols;
+    this._rows = this._opts.rows;
+
+    const policy = options.reconnect === true ? {} : options.reconnect || null;
+    this._reconnect = policy && {
+      maxAttempts: policy.maxAttempts ?? 10,
+      initialDelayMs: policy.initialDelayMs ?? 500,
+      maxDelayMs: policy.maxDelayMs ?? 10_000,
+    };
   }
 
   // ──────────────────────────────────────────────────────────────────
@@ -203,6 +270,10 @@ export class AttachStream {
    * Sends a RegisterRequest with version ending in "-attach" to signal
    * attach mode, then processes ControlMessage responses.
    *
+   * With `reconnect` enabled, transient failures emit `reconnecting` and the
+   * stream is re-established; `reconnected` follows once missed output has
+   * been replayed. `sessionReady` is only emitted for the first connection.
+   *
    * Resolves when the stream closes (server disconnect, error, or close() call).
    */
   async connect(): Promise<void> {
@@ -210,6 +281,104 @@ export class AttachStream {
       throw new CMDOPError('AttachStream already started');
     }
 
+    let attempt = 0;
+    for (;;) {
+      const { ready, error } = await this._runConnection(attempt);
+      if (ready) attempt = 0;
+
+      if (this._isClosing() || this._sessionClosed) break;
+
+      const policy = this._reconnect;
+      const retryable = !error || isRetryableError(error);
+      if (!policy || !retryable || attempt >= policy.maxAttempts) {
+        if (error) this._emit({ type: 'error', error });
+        break;
+      }
+
+      attempt++;
+      const delayMs = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+      this._state = StreamState.RECONNECTING;
+      this._emit({ type: 'reconnecting', attempt, delayMs, error });
+      if (this._opts.debug) process.stderr.write(`[attach] reconnecting in ${delayMs}ms (attempt ${attempt})\n`);
+      if (this._isClosing()) break;
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delayMs);
+        this._wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this._wake = null;
+      if (this._isClosing()) break;
+    }
+
+    if (this._getState() !== StreamState.CLOSED) {
+      this._state = StreamState.CLOSED;
+      this._queue?.shutdown();
+    }
+  }
+
+  /**
+   * Send terminal input (stdin data) to the remote session.
+   * While reconnecting, input is held and sent once the stream is back;
+   * beyond queueMaxSize unsent messages this throws.
+   */
+  sendInput(data: Buffer | Uint8Array | string): void {
+    this._assertConnected();
+    this._queue!.assertCapacity();
+    const buffer = typeof data === 'string' ? Buffer.from(data) : data;
+    this._queue!.sendInput(buffer);
+    this._metrics.bytesSent += buffer.length;
+    this._metrics.lastActivityAt = Date.now();
+  }
+
+  /**
+   * Send terminal resize event.
+   */
+  sendResize(cols: number, rows: number): void {
+    this._assertConnected();
+    this._queue!.assertCapacity();
+    this._cols = cols;
+    this._rows = rows;
+    this._queue!.sendResize(cols, rows);
+  }
+
+  /**
+   * Send a signal to the remote process.
+   */
+  sendSignal(signal: number): void {
+    this._assertConnected();
+    this._queue!.assertCapacity();
+    this._queue!.sendSignal(signal);
+  }
+
+  /**
+   * Close the stream gracefully.
+   */
+  close(): void {
+    const s = this._getState();
+    if (s === StreamState.CLOSED || s === StreamState.CLOSING) return;
+    this._state = StreamState.CLOSING;
+    this._queue?.shutdown();
+    this._wake?.();
+    this._state = StreamState.CLOSED;
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers — connection
+  // ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Run one connectTerminal stream until it ends.
+   * Returns whether the session became ready and the error that ended it, if any.
+   */
+  private async _runConnection(attempt: number): Promise<{ ready: boolean; error?: CMDOPError }> {
+    const previous = this._queue;
     this._state = StreamState.CONNECTING;
     this._queue = new MessageQueue(this._sessionId, this._opts.debug);
 
@@ -222,7 +391,7 @@ export class AttachStream {
         hostname: os.hostname(),
         platform: process.platform.toLowerCase(),
         supportedShells: [],
-        initialSize: { cols: this._opts.cols, rows: this._opts.rows, width: 0, height: 0 },
+        initialSize: { cols: this._cols, rows: this._rows, width: 0, height: 0 },
         architecture: '',
         deviceId: '',
         deviceType: '',
@@ -242,6 +411,11 @@ export class AttachStream {
         uptimeSeconds: '0',
       },
     });
+    if (previous) {
+      // Input typed while reconnecting goes out right after registration
+      this._queue.adopt(previous);
+      previous.shutdown();
+    }
 
     this._state = StreamState.REGISTERING;
 
@@ -252,32 +426,35 @@ export class AttachStream {
     const responseStream = this._client.connectTerminal(this._queue.generate());
 
     this._state = StreamState.CONNECTED;
+    let ready = false;
 
     try {
       for await (const msg of responseStream) {
-        const s = this._getState();
-        if (s === StreamState.CLOSING || s === StreamState.CLOSED) break;
+        if (this._isClosing()) break;
         if (!msg.payload) continue;
 
         if (this._opts.debug) process.stderr.write(`[attach] recv ${msg.payload.$case}\n`);
 
         switch (msg.payload.$case) {
           case 'startSession':
-            this._emit({ type: 'sessionReady' });
+            ready = true;
+            if (!this._ready) {
+              this._ready = true;
+              this._emit({ type: 'sessionReady' });
+            } else {
+              // Live output is not consumed until the gap has been replayed
+              const replayedBytes = await this._replayMissedOutput();
+              this._queue?.sendResize(this._cols, this._rows);
+              this._emit({ type: 'reconnected', attempt, replayedBytes });
+            }
             break;
 
           case 'input':
-            this._metrics.bytesReceived += msg.payload.input.data.length;
-            this._metrics.lastActivityAt = Date.now();
-            this._emit({
-              type: 'output',
-              data: Buffer.isBuffer(msg.payload.input.data)
-                ? msg.payload.input.data
-                : Buffer.from(msg.payload.input.data),
-            });
+            this._handleOutput(msg.payload.input.data);
             break;
 
           case 'closeSession':
+            this._sessionClosed = true;
             this._emit({ type: 'closed', reason: msg.payload.closeSession.reason });
             break;
 
@@ -287,60 +464,62 @@ export class AttachStream {
         }
       }
     } catch (err) {
-      const s = this._getState();
-      if (s !== StreamState.CLOSING && s !== StreamState.CLOSED) {
+      if (!this._isClosing()) {
         this._metrics.errors++;
-        const mapped = mapGrpcError(err);
-        this._emit({ type: 'error', error: mapped });
+        return { ready, error: mapGrpcError(err) };
       }
-    }
-
-    if (this._getState() !== StreamState.CLOSED) {
-      this._state = StreamState.CLOSED;
+    } finally {
+      // Stop feeding the dead stream; unsent messages stay queued for adopt()
       this._queue?.shutdown();
     }
+
+    return { ready };
   }
 
-  /**
-   * Send terminal input (stdin data) to the remote session.
-   */
-  sendInput(data: Buffer | Uint8Array | string): void {
-    this._assertConnected();
-    const buffer = typeof data === 'string' ? Buffer.from(data) : data;
-    this._queue!.sendInput(buffer);
-    this._metrics.bytesSent += buffer.length;
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers — output positioning
+  // ──────────────────────────────────────────────────────────────────
+
+  private _handleOutput(raw: Uint8Array): void {
+    const data = Buffer.isBuffer(raw) ? raw : Buffer.from(raw);
+    this._metrics.bytesReceived += data.length;
     this._metrics.lastActivityAt = Date.now();
+    this._emitOutput(data);
   }
 
-  /**
-   * Send terminal resize event.
-   */
-  sendResize(cols: number, rows: number): void {
-    this._assertConnected();
-    this._queue!.sendResize(cols, rows);
+  private _emitOutput(data: Buffer): void {
+    if (this._reconnect) {
+      const kept = Buffer.concat([this._anchor, data]);
+      this._anchor = kept.subarray(Math.max(0, kept.length - REPLAY_ANCHOR_BYTES));
+    }
+    this._emit({ type: 'output', data });
   }
 
-  /**
-   * Send a signal to the remote process.
-   */
-  sendSignal(signal: number): void {
-    this._assertConnected();
-    this._queue!.sendSignal(signal);
-  }
+  /** Emit output produced while disconnected. Returns the number of bytes replayed. */
+  private async _replayMissedOutput(): Promise<number> {
+    if (this._anchor.length === 0) return 0;
+
+    const parts: Buffer[] = [];
+    let offset = 0;
+    for (;;) {
+      const response = await this._client.getOutput({ sessionId: this._sessionId, offset, limit: 0 });
+      const data = Buffer.isBuffer(response.data) ? response.data : Buffer.from(response.data);
+      parts.push(data);
+      offset += data.length;
+      if (!response.hasMore || data.length === 0) break;
+    }
 
-  /**
-   * Close the stream gracefully.
-   */
-  close(): void {
-    const s = this._getState();
-    if (s === StreamState.CLOSED || s === StreamState.CLOSING) return;
-    this._state = StreamState.CLOSING;
-    this._queue?.shutdown();
-    this._state = StreamState.CLOSED;
-  }
+    const buffer = Buffer.concat(parts);
+    const at = buffer.lastIndexOf(this._anchor);
+    if (at === -1) {
+      // The last output we saw was trimmed from the buffer — the gap is gone
+      if (this._opts.debug) process.stderr.write('[attach] replay anchor not in output buffer\n');
+      return 0;
+    }
 
-  async [Symbol.asyncDispose](): Promise<void> {
-    this.close();
+    const missed = buffer.subarray(at + this._anchor.length);
+    if (missed.length > 0) this._emitOutput(Buffer.from(missed));
+    return missed.length;
   }
 
   // ──────────────────────────────────────────────────────────────────
@@ -351,9 +530,19 @@ export class AttachStream {
     return this._state;
   }
 
+  private _isClosing(): boolean {
+    const s = this._getState();
+    return s === StreamState.CLOSING || s === StreamState.CLOSED;
+  }
+
   private _assertConnected(): void {
     const s = this._getState();
-    if (s !== StreamState.CONNECTED && s !== StreamState.REGISTERING) {
+    if (
+      s !== StreamState.CONNECTED &&
+      s !== StreamState.REGISTERING &&
+      s !== StreamState.CONNECTING &&
+      s !== StreamState.RECONNECTING
+    ) {
       throw new CMDOPError(`AttachStream is not connected (state: ${s})`);
     }
   }
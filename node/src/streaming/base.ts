@@ -3,6 +3,7 @@
  */
 
 import type { AgentResult } from '../models/agent';
+import type { ExecResult, ExecStreamName } from '../models/terminal';
 
 // ============================================================================
 // StreamState
@@ -146,14 +147,56 @@ export interface AttachErrorEvent {
   error: Error;
 }
 
+export interface AttachReconnectingEvent {
+  type: 'reconnecting';
+  /** 1-based attempt number */
+  attempt: number;
+  delayMs: number;
+  /** Error that dropped the stream (undefined when the server ended it) */
+  error?: Error;
+}
+
+export interface AttachReconnectedEvent {
+  type: 'reconnected';
+  attempt: number;
+  /** Output bytes recovered from the server buffer */
+  replayedBytes: number;
+}
+
 export type AttachStreamEvent =
   | AttachSessionReadyEvent
   | AttachOutputEvent
   | AttachClosedEvent
-  | AttachErrorEvent;
+  | AttachErrorEvent
+  | AttachReconnectingEvent
+  | AttachReconnectedEvent;
 
 export type AttachStreamCallback = (event: AttachStreamEvent) => void;
 
+// ============================================================================
+// Exec stream events (command framed in an attached terminal)
+// ============================================================================
+
+export interface ExecOutputEvent {
+  type: 'output';
+  stream: ExecStreamName;
+  data: Buffer;
+}
+
+export interface ExecExitEvent {
+  type: 'exit';
+  result: ExecResult;
+}
+
+export interface ExecErrorEvent {
+  type: 'error';
+  error: Error;
+}
+
+export type ExecStreamEvent = ExecOutputEvent | ExecExitEvent | ExecErrorEvent;
+
+export type ExecStreamCallback = (event: ExecStreamEvent) => void;
+
 // ============================================================================
 // Stream metrics
 // ============================================================================
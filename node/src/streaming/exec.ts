@@ -0,0 +1,457 @@
+/**
+ * ExecStream — output and exit status of one command run in a terminal session
+ *
+ * Architecture:
+ *   The server has no exec RPC for SDK clients; CommandComplete/CommandAck
+ *   only travel from the agent to the server. ExecStream therefore attaches
+ *   to the session (connectTerminal, like AttachStream) and types a single
+ *   `sh -c` line into its shell. That line prints framing markers around
+ *   the command, so the stream can cut the command's own bytes out of the
+ *   terminal output:
+ *
+ *     \x1e<id>:S          command started — stdout follows
+ *     \x1e<id>:R          command exited — captured stderr follows
+ *     \x1e<id>:E:<code>   exit status (CommandComplete.exit_code)
+ *
+ *   The shell echoes the typed line with `\036` spelled out, so the echo
+ *   never matches a marker. The PTY merges stdout and stderr, so stderr is
+ *   written to a temp file on the agent and delivered after the command
+ *   exits. Cancel and timeout send a signal to the terminal's foreground
+ *   process, as AttachStream.sendSignal does.
+ *
+ * Consumption:
+ *   - `for await (const chunk of stream)` yields chunks in order
+ *   - on() listeners receive output / exit / error events
+ *   - wait() resolves with the collected ExecResult
+ *   Chunks are kept until the stream ends, so an iterator started late (or
+ *   a second one) still sees the full output.
+ */
+
+import { CMDOPError, CancelledError } from '@cmdop/core';
+import type { ExecChunk, ExecOptions, ExecResult, ExecStreamName } from '../models/terminal';
+import type { TerminalStreamingServiceClient } from '../proto/generated/service';
+import { AttachStream } from './attach';
+import {
+  StreamState,
+  type AttachStreamEvent,
+  type ExecStreamCallback,
+  type ExecStreamEvent,
+} from './base';
+
+const SIGNAL_MAP: Record<string, number> = {
+  SIGINT: 2,
+  SIGTERM: 15,
+  SIGKILL: 9,
+  SIGHUP: 1,
+};
+
+const MARKER_START = 0x1e;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type ExecSignal = 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGHUP' | number;
+
+/** Quote a string for a POSIX shell */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the line typed into the session's shell.
+ *
+ * The outer `sh` traps INT/TERM/HUP so a signalled command still reports
+ * its exit status; the command itself runs with default signal handling.
+ * The leading space keeps the line out of history under HISTCONTROL=ignorespace.
+ */
+function buildCommandLine(commandId: string, command: string, options: ExecOptions): string {
+  const env = Object.entries(options.env ?? {}).map(([name, value]) => {
+    if (!ENV_NAME.test(name)) {
+      throw new CMDOPError(`Invalid environment variable name: ${name}`);
+    }
+    return `${name}=${shellQuote(value)}`;
+  });
+
+  const run = [
+    options.cwd ? `cd -- ${shellQuote(options.cwd)} &&` : '',
+    'exec env',
+    ...env,
+    'sh -c',
+    shellQuote(command),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const { stdin } = options;
+  const job =
+    stdin === undefined
+      ? `(${run}) </dev/null 2>"$e"`
+      : `printf %s ${shellQuote(Buffer.from(stdin).toString('base64'))} | base64 -d | (${run}) 2>"$e"`;
+
+  const marker = (tag: string) => `printf '\\036%s:${tag}\\n' ${commandId}`;
+  const script = [
+    'trap : INT TERM HUP',
+    'e=$(mktemp 2>/dev/null) || e=/dev/null',
+    'stty -onlcr 2>/dev/null',
+    marker('S'),
+    job,
+    'x=$?',
+    marker('R'),
+    'cat "$e"',
+    '[ "$e" = /dev/null ] || rm -f "$e"',
+    'stty onlcr 2>/dev/null',
+    `printf '\\036%s:E:%d\\n' ${commandId} "$x"`,
+  ].join('; ');
+
+  return ` sh -c ${shellQuote(script)}\n`;
+}
+
+/** Length of the line ending at `pos`, or null if it hasn't fully arrived */
+function lineEnding(buffer: Buffer, pos: number): number | null {
+  if (pos >= buffer.length) return null;
+  if (buffer[pos] === 0x0a) return 1;
+  if (buffer[pos] === 0x0d) {
+    if (pos + 1 >= buffer.length) return null;
+    return buffer[pos + 1] === 0x0a ? 2 : 1;
+  }
+  return 0;
+}
+
+type Phase = 'pending' | ExecStreamName | 'exited';
+
+export class ExecStream {
+  private _state: StreamState = StreamState.IDLE;
+  private _listeners: ExecStreamCallback[] = [];
+  private _chunks: ExecChunk[] = [];
+  private _result: ExecResult | null = null;
+  private _error: CMDOPError | null = null;
+  private _waiters: Array<() => void> = [];
+
+  private _phase: Phase = 'pending';
+  private _pending: Buffer = Buffer.alloc(0);
+  private _bytes: Record<ExecStreamName, number> = { stdout: 0, stderr: 0 };
+  private _truncated: Record<ExecStreamName, boolean> = { stdout: false, stderr: false };
+  private _startedAt = 0;
+  private _cancelled = false;
+  private _timedOut = false;
+  private _timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private _resolveDone!: (result: ExecResult) => void;
+  private _rejectDone!: (err: Error) => void;
+  private readonly _done: Promise<ExecResult>;
+
+  private readonly _attach: AttachStream;
+  private readonly _line: string;
+  private readonly _signal: AbortSignal | undefined;
+  private readonly _timeoutMs: number | undefined;
+  private readonly _maxOutputBytes: number;
+
+  /** ID in the command's framing markers */
+  readonly commandId: string;
+
+  /**
+   * @throws {CMDOPError} if an `env` name is not a valid shell variable name
+   */
+  constructor(
+    client: TerminalStreamingServiceClient,
+    sessionId: string,
+    commandId: string,
+    command: string,
+    options: ExecOptions = {}
+  ) {
+    this.commandId = commandId;
+    this._line = buildCommandLine(commandId, command, options);
+    this._attach = new AttachStream(client, sessionId);
+    this._signal = options.signal;
+    this._timeoutMs = options.timeoutMs;
+    this._maxOutputBytes = options.maxOutputBytes ?? Infinity;
+
+    this._done = new Promise<ExecResult>((resolve, reject) => {
+      this._resolveDone = resolve;
+      this._rejectDone = reject;
+    });
+    // wait() is optional — don't surface an unhandled rejection if nobody calls it
+    this._done.catch(() => {});
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Public API — event listeners
+  // ──────────────────────────────────────────────────────────────────
+
+  on(callback: ExecStreamCallback): this {
+    this._listeners.push(callback);
+    return this;
+  }
+
+  off(callback: ExecStreamCallback): this {
+    this._listeners = this._listeners.filter((l) => l !== callback);
+    return this;
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Public API — state
+  // ──────────────────────────────────────────────────────────────────
+
+  get state(): StreamState {
+    return this._state;
+  }
+
+  /** Final result, once the command has exited */
+  get result(): ExecResult | null {
+    return this._result;
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Public API — lifecycle
+  // ──────────────────────────────────────────────────────────────────
+
+  /** @internal — called by TerminalService.exec() */
+  start(): void {
+    if (this._state !== StreamState.IDLE) {
+      throw new CMDOPError('ExecStream already started');
+    }
+    this._state = StreamState.CONNECTING;
+    this._signal?.addEventListener('abort', this._onAbort, { once: true });
+    this._attach.on(this._onAttachEvent);
+    void this._attach.connect().then(() => {
+      if (!this._isFinished()) {
+        this._fail(new CMDOPError('Terminal stream closed before the command exited'));
+      }
+    });
+  }
+
+  /**
+   * Wait for the command to exit.
+   *
+   * @throws {CMDOPError} if the terminal stream fails or is closed first
+   */
+  wait(): Promise<ExecResult> {
+    return this._done;
+  }
+
+  /**
+   * Signal the command (default: SIGTERM). The stream keeps reading and ends
+   * with `cancelled: true` once the command exits.
+   */
+  async cancel(signal: ExecSignal = 'SIGTERM'): Promise<void> {
+    if (this._isFinished()) return;
+
+    this._cancelled = true;
+    this._sendSignal(signal);
+    if (this._phase === 'pending') {
+      this._fail(new CancelledError('Command cancelled before it started'));
+    }
+  }
+
+  /**
+   * Stop reading. A command that is still running is killed (best-effort)
+   * and wait() rejects with CancelledError.
+   */
+  async close(): Promise<void> {
+    if (this._isFinished()) return;
+    this._sendSignal('SIGTERM');
+    this._fail(new CancelledError('Command stream closed before the command exited'));
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ExecChunk> {
+    let index = 0;
+    return {
+      next: async () => {
+        for (;;) {
+          if (index < this._chunks.length) return { value: this._chunks[index++]!, done: false };
+          if (this._error) throw this._error;
+          if (this._isFinished()) return { value: undefined, done: true };
+          await new Promise<void>((resolve) => this._waiters.push(resolve));
+        }
+      },
+      return: async () => ({ value: undefined, done: true }),
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers — terminal stream
+  // ──────────────────────────────────────────────────────────────────
+
+  private readonly _onAbort = (): void => {
+    this.cancel().catch((err: Error) => this._emit({ type: 'error', error: err }));
+  };
+
+  private readonly _onAttachEvent = (event: AttachStreamEvent): void => {
+    if (this._isFinished()) return;
+
+    switch (event.type) {
+      case 'sessionReady':
+        this._state = StreamState.CONNECTED;
+        this._attach.sendInput(this._line);
+        if (this._timeoutMs !== undefined) {
+          this._timeoutTimer = setTimeout(() => {
+            this._timedOut = true;
+            this._sendSignal('SIGTERM');
+          }, this._timeoutMs);
+        }
+        break;
+
+      case 'output':
+        this._handleOutput(event.data);
+        break;
+
+      case 'closed':
+        this._fail(new CMDOPError(`Session closed before the command exited${event.reason ? `: ${event.reason}` : ''}`));
+        break;
+
+      case 'error':
+        this._fail(event.error instanceof CMDOPError ? event.error : new CMDOPError(event.error.message));
+        break;
+    }
+  };
+
+  private _sendSignal(signal: ExecSignal): void {
+    const signalNum = typeof signal === 'number' ? signal : SIGNAL_MAP[signal] ?? 15;
+    try {
+      this._attach.sendSignal(signalNum);
+    } catch {
+      // stream already gone — nothing left to signal
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers — output framing
+  // ──────────────────────────────────────────────────────────────────
+
+  private _marker(tag: 'S' | 'R' | 'E'): Buffer {
+    return Buffer.from(`\x1e${this.commandId}:${tag}`);
+  }
+
+  private _handleOutput(data: Buffer): void {
+    this._pending = this._pending.length > 0 ? Buffer.concat([this._pending, data]) : data;
+
+    while (!this._isFinished()) {
+      const phase = this._phase;
+      if (phase === 'exited') return;
+
+      const marker = this._marker(phase === 'pending' ? 'S' : phase === 'stdout' ? 'R' : 'E');
+      const at = this._pending.indexOf(marker);
+
+      if (at === -1) {
+        // Hold back a tail that may be the start of a split marker
+        const keep = this._partialMarkerAt(marker);
+        if (phase !== 'pending') this._push(phase, this._pending.subarray(0, keep));
+        this._pending = this._pending.subarray(keep);
+        return;
+      }
+
+      if (phase !== 'pending') this._push(phase, this._pending.subarray(0, at));
+      this._pending = this._pending.subarray(at);
+
+      if (phase === 'stderr') {
+        const match = /^:(-?\d+)\r?\n/.exec(this._pending.subarray(marker.length).toString('latin1'));
+        if (!match) return; // exit code still arriving
+        this._complete(parseInt(match[1]!, 10));
+        return;
+      }
+
+      const eol = lineEnding(this._pending, marker.length);
+      if (eol === null) return;
+      this._pending = this._pending.subarray(marker.length + eol);
+      if (phase === 'pending') {
+        this._startedAt = Date.now();
+        this._phase = 'stdout';
+      } else {
+        this._phase = 'stderr';
+      }
+    }
+  }
+
+  /** Index where a possible marker prefix starts at the end of the pending bytes */
+  private _partialMarkerAt(marker: Buffer): number {
+    const from = Math.max(0, this._pending.length - marker.length + 1);
+    const at = this._pending.indexOf(MARKER_START, from);
+    if (at === -1) return this._pending.length;
+    const tail = this._pending.subarray(at);
+    return marker.subarray(0, tail.length).equals(tail) ? at : this._pending.length;
+  }
+
+  private _push(stream: ExecStreamName, bytes: Buffer): void {
+    const room = this._maxOutputBytes - this._bytes[stream];
+    if (bytes.length > room) {
+      this._truncated[stream] = true;
+      bytes = bytes.subarray(0, Math.max(0, room));
+    }
+    if (bytes.length === 0) return;
+
+    this._bytes[stream] += bytes.length;
+    // Copy: the pending buffer's memory is reused by later slices
+    const chunk: ExecChunk = { stream, data: Buffer.from(bytes) };
+    this._chunks.push(chunk);
+    this._emit({ type: 'output', ...chunk });
+    this._wake();
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────────────────────────
+
+  private _isFinished(): boolean {
+    return this._state === StreamState.CLOSED;
+  }
+
+  private _emit(event: ExecStreamEvent): void {
+    for (const listener of this._listeners) {
+      try {
+        listener(event);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+
+  private _wake(): void {
+    const waiters = this._waiters;
+    this._waiters = [];
+    for (const wake of waiters) wake();
+  }
+
+  private _complete(exitCode: number): void {
+    const collect = (stream: ExecStreamName) =>
+      Buffer.concat(this._chunks.filter((c) => c.stream === stream).map((c) => c.data)).toString('utf-8');
+
+    const result: ExecResult = {
+      commandId: this.commandId,
+      exitCode,
+      durationMs: Date.now() - this._startedAt,
+      stdout: collect('stdout'),
+      stderr: collect('stderr'),
+      stdoutTruncated: this._truncated.stdout,
+      stderrTruncated: this._truncated.stderr,
+      timedOut: this._timedOut,
+      cancelled: this._cancelled && !this._timedOut,
+    };
+
+    this._phase = 'exited';
+    this._result = result;
+    this._finish();
+    this._emit({ type: 'exit', result });
+    this._resolveDone(result);
+  }
+
+  private _fail(error: CMDOPError): void {
+    this._error = error;
+    this._finish();
+    this._emit({ type: 'error', error });
+    this._rejectDone(error);
+  }
+
+  private _finish(): void {
+    this._state = StreamState.CLOSED;
+    if (this._timeoutTimer !== null) {
+      clearTimeout(this._timeoutTimer);
+      this._timeoutTimer = null;
+    }
+    this._signal?.removeEventListener('abort', this._onAbort);
+    this._attach.off(this._onAttachEvent);
+    this._attach.close();
+    this._wake();
+  }
+}
@@ -20,7 +20,14 @@ export {
   type AttachOutputEvent,
   type AttachClosedEvent,
   type AttachErrorEvent,
+  type AttachReconnectingEvent,
+  type AttachReconnectedEvent,
   type AttachStreamCallback,
+  type ExecStreamEvent,
+  type ExecOutputEvent,
+  type ExecExitEvent,
+  type ExecErrorEvent,
+  type ExecStreamCallback,
   type StreamMetrics,
 } from './base';
 
@@ -28,4 +35,6 @@ export { AgentStream } from './agent';
 export { TerminalStream } from './terminal';
 export type { TerminalStreamOptions } from './terminal';
 export { AttachStream } from './attach';
-export type { AttachStreamOptions } from './attach';
+export type { AttachStreamOptions, AttachReconnectPolicy } from './attach';
+export { ExecStream } from './exec';
+export type { ExecSignal } from './exec';
@@ -22,8 +22,10 @@ import {
   SessionInterruptedError,
   FileTooLargeError,
   RateLimitError,
+  CircuitOpenError,
   mapGrpcError,
   withErrorMapping,
+  isRetryableError,
 } from '../src/errors';
 
 // ============================================================================
@@ -224,6 +226,17 @@ describe('RateLimitError', () => {
   });
 });
 
+describe('CircuitOpenError', () => {
+  it('has correct name, code and retry hint', () => {
+    const err = new CircuitOpenError('sess-1', 12_500);
+    expect(err.name).toBe('CircuitOpenError');
+    expect(err.code).toBe('CIRCUIT_OPEN');
+    expect(err.agentKey).toBe('sess-1');
+    expect(err.retryAfterMs).toBe(12_500);
+    expect(err.message).toBe('Circuit open for sess-1, retry in 13s');
+  });
+});
+
 // ============================================================================
 // mapGrpcError
 // ============================================================================
@@ -273,6 +286,20 @@ describe('mapGrpcError', () => {
     expect(result).toBeInstanceOf(RateLimitError);
   });
 
+  it('parses retry-after from RESOURCE_EXHAUSTED details', () => {
+    const result = mapGrpcError(
+      makeGrpcError(Status.RESOURCE_EXHAUSTED, 'msg', 'relay overloaded, retry after 7s')
+    ) as RateLimitError;
+    expect(result.retryAfterSeconds).toBe(7);
+  });
+
+  it('parses retry-after from trailing metadata', () => {
+    const err = Object.assign(makeGrpcError(Status.RESOURCE_EXHAUSTED), {
+      metadata: { get: (key: string) => (key === 'retry-after' ? ['3'] : []) },
+    });
+    expect((mapGrpcError(err) as RateLimitError).retryAfterSeconds).toBe(3);
+  });
+
   it('maps UNAVAILABLE to AgentOfflineError', () => {
     const result = mapGrpcError(makeGrpcError(Status.UNAVAILABLE));
     expect(result).toBeInstanceOf(AgentOfflineError);
@@ -320,6 +347,26 @@ describe('mapGrpcError', () => {
   });
 });
 
+// ============================================================================
+// isRetryableError
+// ============================================================================
+
+describe('isRetryableError', () => {
+  it('retries transient gRPC codes', () => {
+    for (const code of [Status.UNAVAILABLE, Status.DEADLINE_EXCEEDED, Status.RESOURCE_EXHAUSTED, Status.ABORTED]) {
+      expect(isRetryableError(mapGrpcError(makeGrpcError(code)))).toBe(true);
+    }
+  });
+
+  it('does not retry permanent failures', () => {
+    for (const code of [Status.NOT_FOUND, Status.INVALID_ARGUMENT, Status.PERMISSION_DENIED, Status.UNAUTHENTICATED]) {
+      expect(isRetryableError(mapGrpcError(makeGrpcError(code)))).toBe(false);
+    }
+    expect(isRetryableError(new CircuitOpenError('sess-1', 1000))).toBe(false);
+    expect(isRetryableError(new Error('plain'))).toBe(false);
+  });
+});
+
 // ============================================================================
 // withErrorMapping
 // ============================================================================
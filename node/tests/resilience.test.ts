@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Status } from '@grpc/grpc-js/build/src/constants';
+import { configure, resetSettings } from '../src/config';
+import { AgentOfflineError, CircuitOpenError, NotFoundError, RateLimitError } from '../src/errors';
+import {
+  backoffDelay,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  withResilience,
+} from '../src/resilience';
+
+function grpcError(code: number, details = 'grpc error') {
+  return Object.assign(new Error(details), { code, details });
+}
+
+describe('withResilience', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetSettings();
+    resetCircuitBreakers();
+    configure({ retryAttempts: 3, retryTimeoutMs: 60_000, circuitBreakerFailMax: 5, circuitBreakerResetMs: 30_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetSettings();
+    resetCircuitBreakers();
+  });
+
+  it('returns the result without retrying on success', async () => {
+    const fn = vi.fn().mockResolvedValue('ok');
+    await expect(withResilience('sess-1', fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures with backoff', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(grpcError(Status.UNAVAILABLE))
+      .mockRejectedValueOnce(grpcError(Status.DEADLINE_EXCEEDED))
+      .mockResolvedValue('ok');
+
+    const promise = withResilience('sess-1', fn, { retry: true });
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(getCircuitBreaker('sess-1').failures).toBe(0);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const fn = vi.fn().mockRejectedValue(grpcError(Status.NOT_FOUND));
+    await expect(withResilience('sess-1', fn)).rejects.toBeInstanceOf(NotFoundError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after retryAttempts', async () => {
+    const fn = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+
+    const promise = withResilience('sess-1', fn, { retry: true });
+    const assertion = expect(promise).rejects.toBeInstanceOf(AgentOfflineError);
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops retrying when the next delay would exceed retryTimeoutMs', async () => {
+    configure({ retryTimeoutMs: 1_000 });
+    const fn = vi.fn().mockRejectedValue(grpcError(Status.RESOURCE_EXHAUSTED, 'retry after 5s'));
+
+    await expect(withResilience('sess-1', fn, { retry: true })).rejects.toBeInstanceOf(RateLimitError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry unless enabled for the call', async () => {
+    const fn = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+    await expect(withResilience('sess-1', fn)).rejects.toBeInstanceOf(AgentOfflineError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(getCircuitBreaker('sess-1').failures).toBe(1);
+  });
+
+  it('waits for retry-after on rate limits', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(grpcError(Status.RESOURCE_EXHAUSTED, 'slow down, retry after 2s'))
+      .mockResolvedValue('ok');
+
+    const promise = withResilience('sess-1', fn, { retry: true });
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      configure({ retryAttempts: 0, circuitBreakerFailMax: 2, circuitBreakerResetMs: 10_000 });
+    });
+
+    it('opens after consecutive failures and fails fast', async () => {
+      const fn = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+
+      await expect(withResilience('sess-1', fn)).rejects.toBeInstanceOf(AgentOfflineError);
+      await expect(withResilience('sess-1', fn)).rejects.toBeInstanceOf(AgentOfflineError);
+      expect(getCircuitBreaker('sess-1').state).toBe('open');
+
+      const err = await withResilience('sess-1', fn).catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(CircuitOpenError);
+      expect((err as CircuitOpenError).retryAfterMs).toBe(10_000);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('is tracked per agent', async () => {
+      const failing = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+      await withResilience('sess-1', failing).catch(() => {});
+      await withResilience('sess-1', failing).catch(() => {});
+
+      await expect(withResilience('sess-2', async () => 'ok')).resolves.toBe('ok');
+      expect(getCircuitBreaker('sess-2').state).toBe('closed');
+    });
+
+    it('does not count permanent failures', async () => {
+      const fn = vi.fn().mockRejectedValue(grpcError(Status.NOT_FOUND));
+      for (let i = 0; i < 3; i++) {
+        await withResilience('sess-1', fn).catch(() => {});
+      }
+      expect(getCircuitBreaker('sess-1').state).toBe('closed');
+    });
+
+    it('half-opens after the reset timeout and closes on a successful probe', async () => {
+      const failing = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+      await withResilience('sess-1', failing).catch(() => {});
+      await withResilience('sess-1', failing).catch(() => {});
+
+      vi.advanceTimersByTime(10_000);
+      expect(getCircuitBreaker('sess-1').state).toBe('half-open');
+
+      await expect(withResilience('sess-1', async () => 'ok')).resolves.toBe('ok');
+      expect(getCircuitBreaker('sess-1').state).toBe('closed');
+    });
+
+    it('drops breakers that have been idle for ten minutes', async () => {
+      const failing = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+      await withResilience('sess-1', failing).catch(() => {});
+      await withResilience('sess-1', failing).catch(() => {});
+      const tripped = getCircuitBreaker('sess-1');
+
+      let resolve!: (value: string) => void;
+      const slow = withResilience('sess-2', () => new Promise<string>((r) => { resolve = r; }));
+      const inFlight = getCircuitBreaker('sess-2');
+
+      vi.advanceTimersByTime(10 * 60_000);
+      expect(getCircuitBreaker('sess-1')).not.toBe(tripped);
+      expect(getCircuitBreaker('sess-1').state).toBe('closed');
+      // A breaker with a call in flight is kept
+      expect(getCircuitBreaker('sess-2')).toBe(inFlight);
+
+      resolve('ok');
+      await expect(slow).resolves.toBe('ok');
+    });
+
+    it('admits a single probe and reopens when it fails', async () => {
+      const failing = vi.fn().mockRejectedValue(grpcError(Status.UNAVAILABLE));
+      await withResilience('sess-1', failing).catch(() => {});
+      await withResilience('sess-1', failing).catch(() => {});
+      vi.advanceTimersByTime(10_000);
+
+      let reject!: (err: unknown) => void;
+      const probe = withResilience('sess-1', () => new Promise((_, r) => { reject = r; }));
+      await expect(withResilience('sess-1', async () => 'ok')).rejects.toBeInstanceOf(CircuitOpenError);
+
+      reject(grpcError(Status.UNAVAILABLE));
+      await expect(probe).rejects.toBeInstanceOf(AgentOfflineError);
+      expect(getCircuitBreaker('sess-1').state).toBe('open');
+    });
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('applies full jitter over an exponential ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(backoffDelay(0)).toBe(249);
+    expect(backoffDelay(3)).toBe(1_998);
+    expect(backoffDelay(10)).toBe(9_990);
+  });
+
+  it('uses retry-after from rate limit errors', () => {
+    expect(backoffDelay(0, new RateLimitError(4))).toBe(4_000);
+  });
+});
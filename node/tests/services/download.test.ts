@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { createHash } from 'crypto';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DownloadService } from '../../src/services/download';
 import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
@@ -413,3 +414,462 @@ describe('DownloadService.downloadUrl', () => {
     expect(result.error).toContain('curl not found');
   });
 });
+
+// ──────────────────────────────────────────────────────────────────
+// downloadFile — ranged mode (resume / parallel / checksum)
+// ──────────────────────────────────────────────────────────────────
+
+describe('DownloadService.downloadFile (ranged)', () => {
+  const remoteContent = Buffer.from('0123456789abcdefghij'); // 20 bytes
+  const remoteMd5 = createHash('md5').update(remoteContent).digest('hex');
+
+  let client: TerminalStreamingServiceClient;
+  let service: DownloadService;
+  let tmpDir: string;
+
+  function serveRange(req: { offset: string; length: string }) {
+    const offset = parseInt(req.offset, 10);
+    const length = parseInt(req.length, 10);
+    const content = remoteContent.subarray(offset, offset + length);
+    return {
+      success: true,
+      error: '',
+      result: {
+        content,
+        encoding: 'binary',
+        totalSize: String(remoteContent.length),
+        isTruncated: offset + content.length < remoteContent.length,
+        viewerType: 0,
+        mimeType: '',
+        isTranscoded: false,
+        transcodeComplete: false,
+      },
+    };
+  }
+
+  beforeEach(() => {
+    client = {
+      ...createMockClient(),
+      fileGetInfo: vi.fn().mockResolvedValue({
+        success: true,
+        error: '',
+        result: { entry: { size: String(remoteContent.length) } },
+      }),
+    } as unknown as TerminalStreamingServiceClient;
+    vi.mocked(client.fileRead).mockImplementation(async (req) => serveRange(req));
+    service = new DownloadService(client);
+    tmpDir = makeTmpDir();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('downloads with parallel range reads', async () => {
+    const localPath = path.join(tmpDir, 'out.bin');
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 3,
+      parallel: 4,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.checksum).toBe(remoteMd5);
+    expect(result.metrics?.chunksCount).toBe(7);
+    expect(fs.readFileSync(localPath)).toEqual(remoteContent);
+  });
+
+  it('keeps partial file and state on failure, then resumes', async () => {
+    const localPath = path.join(tmpDir, 'out.bin');
+    const statePath = `${localPath}.cmdop-download.json`;
+
+    // Fail once the first two chunks (offsets 0 and 5) are through
+    vi.mocked(client.fileRead).mockImplementation(async (req) => {
+      if (parseInt(req.offset, 10) >= 10) throw new Error('relay dropped');
+      return serveRange(req);
+    });
+
+    const first = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 5,
+      resume: true,
+      maxRetries: 0,
+    });
+
+    expect(first.success).toBe(false);
+    expect(first.error).toContain('relay dropped');
+    expect(fs.existsSync(localPath)).toBe(true);
+    expect(Object.keys(JSON.parse(fs.readFileSync(statePath, 'utf-8')).chunks)).toEqual(['0', '1']);
+
+    vi.mocked(client.fileRead).mockClear();
+    vi.mocked(client.fileRead).mockImplementation(async (req) => serveRange(req));
+
+    const second = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 5,
+      resume: true,
+    });
+
+    expect(second.success).toBe(true);
+    expect(second.resumed).toBe(true);
+    expect(second.metrics?.resumedBytes).toBe(10);
+    expect(second.metrics?.transferredBytes).toBe(10);
+    expect(client.fileRead).toHaveBeenCalledTimes(2);
+    expect(fs.readFileSync(localPath)).toEqual(remoteContent);
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it('re-downloads chunks that no longer match the recorded checksum', async () => {
+    const localPath = path.join(tmpDir, 'out.bin');
+    const statePath = `${localPath}.cmdop-download.json`;
+    fs.writeFileSync(localPath, Buffer.concat([Buffer.from('XXXXX56789'), Buffer.alloc(10)]));
+    fs.writeFileSync(
+      statePath,
+      JSON.stringify({
+        version: 1,
+        remotePath: '/remote/file.bin',
+        totalSize: 20,
+        chunkSize: 5,
+        chunks: {
+          '0': createHash('md5').update('01234').digest('hex'),
+          '1': createHash('md5').update('56789').digest('hex'),
+        },
+      })
+    );
+
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 5,
+      resume: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metrics?.resumedBytes).toBe(5);
+    expect(fs.readFileSync(localPath)).toEqual(remoteContent);
+  });
+
+  it('restarts when the remote size no longer matches the state', async () => {
+    const localPath = path.join(tmpDir, 'out.bin');
+    fs.writeFileSync(localPath, 'stale');
+    fs.writeFileSync(
+      `${localPath}.cmdop-download.json`,
+      JSON.stringify({
+        version: 1,
+        remotePath: '/remote/file.bin',
+        totalSize: 5,
+        chunkSize: 5,
+        chunks: { '0': createHash('md5').update('stale').digest('hex') },
+      })
+    );
+
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 5,
+      resume: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.resumed).toBe(false);
+    expect(fs.readFileSync(localPath)).toEqual(remoteContent);
+  });
+
+  it('deletes the partial file on failure when resume is off', async () => {
+    vi.mocked(client.fileRead).mockRejectedValue(new Error('boom'));
+
+    const localPath = path.join(tmpDir, 'out.bin');
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      parallel: 2,
+      maxRetries: 0,
+    });
+
+    expect(result.success).toBe(false);
+    expect(fs.existsSync(localPath)).toBe(false);
+  });
+
+  it('verifies against an expected checksum', async () => {
+    const localPath = path.join(tmpDir, 'out.bin');
+
+    const ok = await service.downloadFile('/remote/file.bin', localPath, { checksum: remoteMd5 });
+    expect(ok.success).toBe(true);
+
+    const bad = await service.downloadFile('/remote/file.bin', localPath, { checksum: 'f'.repeat(32) });
+    expect(bad.success).toBe(false);
+    expect(bad.error).toContain('Checksum mismatch');
+    expect(fs.existsSync(localPath)).toBe(false);
+  });
+
+  it('keeps reading when the agent returns part of a range', async () => {
+    // Serve at most 3 bytes per read
+    vi.mocked(client.fileRead).mockImplementation(async (req) =>
+      serveRange({ offset: req.offset, length: String(Math.min(3, parseInt(req.length, 10))) })
+    );
+
+    const localPath = path.join(tmpDir, 'out.bin');
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 8,
+      checksum: remoteMd5,
+    });
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(localPath)).toEqual(remoteContent);
+    expect(vi.mocked(client.fileRead).mock.calls.map(([req]) => req.offset).slice(0, 3)).toEqual(['0', '3', '6']);
+  });
+
+  it('fails when the agent returns no bytes for a range', async () => {
+    vi.mocked(client.fileRead).mockImplementation(async (req) =>
+      serveRange({ offset: req.offset, length: req.offset === '0' ? req.length : '0' })
+    );
+
+    const localPath = path.join(tmpDir, 'out.bin');
+    const result = await service.downloadFile('/remote/file.bin', localPath, {
+      chunkSize: 8,
+      parallel: 2,
+      maxRetries: 0,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Short read');
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// downloadDirectory
+// ──────────────────────────────────────────────────────────────────
+
+describe('DownloadService.downloadDirectory', () => {
+  const mtime = new Date('2024-06-01T12:00:00Z');
+  const remoteFiles: Record<string, string> = {
+    '/var/log/syslog': 'sys',
+    '/var/log/app.log': 'application',
+    '/var/log/nginx/access.log': 'GET /',
+    '/var/log/nginx/error.log.gz': 'gz',
+    '/var/log/journal/x.journal': 'jj',
+    '/var/log/.hidden': 'h',
+  };
+
+  let client: TerminalStreamingServiceClient;
+  let service: DownloadService;
+  let tmpDir: string;
+
+  function entry(p: string, type: number) {
+    return {
+      name: p.split('/').pop()!,
+      path: p,
+      type,
+      size: String(type === 2 ? 0 : Buffer.byteLength(remoteFiles[p]!)),
+      permissions: '',
+      owner: '',
+      modifiedAt: mtime,
+      isHidden: p.split('/').pop()!.startsWith('.'),
+      isReadable: true,
+      isWritable: true,
+      mimeType: '',
+      symlinkTarget: '',
+      iconType: 0,
+      isSystem: false,
+      viewerType: 0,
+      loadMethod: 0,
+      mediaMetadata: undefined,
+    };
+  }
+
+  function listing(dir: string) {
+    const children = new Map<string, number>();
+    for (const p of Object.keys(remoteFiles)) {
+      if (!p.startsWith(`${dir}/`)) continue;
+      const [first, ...rest] = p.slice(dir.length + 1).split('/');
+      children.set(`${dir}/${first}`, rest.length > 0 ? 2 : 1);
+    }
+    return [...children].map(([p, type]) => entry(p, type));
+  }
+
+  beforeEach(() => {
+    client = {
+      ...createMockClient(),
+      fileListDirectory: vi.fn(async (req: { path: string; includeHidden: boolean }) => ({
+        success: true,
+        error: '',
+        result: {
+          currentPath: req.path,
+          entries: listing(req.path).filter((e) => req.includeHidden || !e.isHidden),
+          nextPageToken: '',
+          totalCount: 0,
+          hasMore: false,
+        },
+      })),
+    } as unknown as TerminalStreamingServiceClient;
+    vi.mocked(client.fileRead).mockImplementation(async (req) => {
+      const content = Buffer.from(remoteFiles[req.path]!);
+      return {
+        success: true,
+        error: '',
+        result: {
+          content,
+          encoding: 'binary',
+          totalSize: String(content.length),
+          isTruncated: false,
+          viewerType: 0,
+          mimeType: '',
+          isTranscoded: false,
+          transcodeComplete: false,
+        },
+      };
+    });
+    service = new DownloadService(client);
+    tmpDir = makeTmpDir();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('mirrors the remote tree preserving relative layout', async () => {
+    const result = await service.downloadDirectory('/var/log', tmpDir);
+
+    expect(result.success).toBe(true);
+    expect(result.files).toHaveLength(5);
+    expect(fs.readFileSync(path.join(tmpDir, 'nginx', 'access.log'), 'utf-8')).toBe('GET /');
+    expect(fs.existsSync(path.join(tmpDir, '.hidden'))).toBe(false);
+    expect(result.metrics.remoteSizeBytes).toBe(3 + 11 + 5 + 2 + 2);
+    expect(result.metrics.transferredBytes).toBe(result.metrics.remoteSizeBytes);
+  });
+
+  it('sets the remote mtime on downloaded files', async () => {
+    await service.downloadDirectory('/var/log', tmpDir);
+
+    const stat = fs.statSync(path.join(tmpDir, 'syslog'));
+    expect(Math.floor(stat.mtimeMs / 1000)).toBe(mtime.getTime() / 1000);
+  });
+
+  it('skips files whose size and mtime already match', async () => {
+    await service.downloadDirectory('/var/log', tmpDir);
+    vi.mocked(client.fileRead).mockClear();
+
+    // Modify one local file so it no longer matches
+    fs.writeFileSync(path.join(tmpDir, 'app.log'), 'changed locally!');
+
+    const result = await service.downloadDirectory('/var/log', tmpDir);
+
+    expect(result.success).toBe(true);
+    expect(result.files.filter((f) => f.skipped)).toHaveLength(4);
+    expect(client.fileRead).toHaveBeenCalledTimes(1);
+    expect(fs.readFileSync(path.join(tmpDir, 'app.log'), 'utf-8')).toBe('application');
+    expect(result.metrics.transferredBytes).toBe(11);
+  });
+
+  it('re-downloads everything when skipUnchanged is false', async () => {
+    await service.downloadDirectory('/var/log', tmpDir);
+    vi.mocked(client.fileRead).mockClear();
+
+    await service.downloadDirectory('/var/log', tmpDir, { skipUnchanged: false });
+
+    expect(client.fileRead).toHaveBeenCalledTimes(5);
+  });
+
+  it('honours include and exclude globs', async () => {
+    const result = await service.downloadDirectory('/var/log', tmpDir, {
+      include: ['*.log', '**/*.gz'],
+      exclude: ['journal/**', 'nginx/access.log'],
+    });
+
+    expect(result.files.map((f) => f.remotePath).sort()).toEqual([
+      '/var/log/app.log',
+      '/var/log/nginx/error.log.gz',
+    ]);
+  });
+
+  it('does not walk excluded directories', async () => {
+    await service.downloadDirectory('/var/log', tmpDir, { exclude: ['nginx'] });
+
+    expect(client.fileListDirectory).not.toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/var/log/nginx' })
+    );
+  });
+
+  it('does not list directories excluded by a subtree glob', async () => {
+    const result = await service.downloadDirectory('/var/log', tmpDir, {
+      exclude: ['journal/**', '**/nginx/**'],
+    });
+
+    const listed = vi.mocked(client.fileListDirectory).mock.calls.map(([req]) => req.path);
+    expect(listed).toEqual(['/var/log']);
+    expect(result.files.map((f) => f.remotePath).sort()).toEqual(['/var/log/app.log', '/var/log/syslog']);
+  });
+
+  it('includes hidden files when requested', async () => {
+    const result = await service.downloadDirectory('/var/log', tmpDir, { includeHidden: true });
+
+    expect(result.files).toHaveLength(6);
+    expect(fs.existsSync(path.join(tmpDir, '.hidden'))).toBe(true);
+  });
+
+  it('follows pagination tokens', async () => {
+    vi.mocked(client.fileListDirectory)
+      .mockResolvedValueOnce({
+        success: true,
+        error: '',
+        result: {
+          currentPath: '/var/log',
+          entries: [entry('/var/log/syslog', 1)],
+          nextPageToken: 'page2',
+          totalCount: 2,
+          hasMore: true,
+        },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        error: '',
+        result: {
+          currentPath: '/var/log',
+          entries: [entry('/var/log/app.log', 1)],
+          nextPageToken: '',
+          totalCount: 2,
+          hasMore: false,
+        },
+      });
+
+    const result = await service.downloadDirectory('/var/log', tmpDir);
+
+    expect(result.files).toHaveLength(2);
+    expect(client.fileListDirectory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pageToken: 'page2' })
+    );
+  });
+
+  it('reports per-file failures without stopping', async () => {
+    vi.mocked(client.fileRead).mockImplementation(async (req) => {
+      if (req.path === '/var/log/app.log') throw new Error('permission denied');
+      const content = Buffer.from(remoteFiles[req.path]!);
+      return {
+        success: true,
+        error: '',
+        result: {
+          content,
+          encoding: 'binary',
+          totalSize: String(content.length),
+          isTruncated: false,
+          viewerType: 0,
+          mimeType: '',
+          isTranscoded: false,
+          transcodeComplete: false,
+        },
+      };
+    });
+
+    const result = await service.downloadDirectory('/var/log', tmpDir, { maxRetries: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('1 of 5');
+    expect(result.files.find((f) => f.remotePath === '/var/log/app.log')?.error).toContain(
+      'permission denied'
+    );
+  });
+
+  it('returns error result when listing fails', async () => {
+    vi.mocked(client.fileListDirectory).mockResolvedValue({
+      success: false,
+      error: 'no such directory',
+      result: undefined,
+    });
+
+    const result = await service.downloadDirectory('/nope', tmpDir);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no such directory');
+  });
+});
@@ -95,6 +95,21 @@ describe('FilesService', () => {
         pageToken: 'token-abc',
       });
     });
+
+    it('should target the sessionId option over the cached session', async () => {
+      vi.mocked(client.fileListDirectory).mockResolvedValue({
+        success: true,
+        error: '',
+        result: { currentPath: '/tmp', entries: [], nextPageToken: '', totalCount: 0, hasMore: false },
+      });
+
+      await service.list('/tmp', { sessionId: 'sess-other' });
+
+      expect(client.fileListDirectory).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'sess-other' })
+      );
+      expect(service.getSessionId()).toBe('sess-123');
+    });
   });
 
   describe('read', () => {
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MediaService, type HlsProxy } from '../../src/services/media';
+import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
+
+const MASTER = [
+  '#EXTM3U',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720',
+  '720p/playlist.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360',
+  '360p.m3u8',
+].join('\n');
+
+const MEDIA = [
+  '#EXTM3U',
+  '#EXT-X-TARGETDURATION:4',
+  '#EXTINF:4.0,',
+  'segment_000.ts',
+  '#EXTINF:4.0,',
+  'segment_001.ts',
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+function createMockClient(): TerminalStreamingServiceClient {
+  return {
+    hlsGetPlaylist: vi.fn().mockImplementation(async (req: { quality: string }) => ({
+      success: true,
+      error: '',
+      content: Buffer.from(req.quality ? MEDIA : MASTER),
+      contentType: 'application/vnd.apple.mpegurl',
+      duration: 8,
+      segmentDuration: 4,
+    })),
+    hlsGetSegment: vi.fn().mockImplementation(async (req: { segmentNum: number }) => ({
+      success: true,
+      error: '',
+      content: Buffer.from(`segment-${req.segmentNum}`),
+      contentType: 'video/mp2t',
+      createdNewSession: false,
+    })),
+    hlsStopSession: vi.fn().mockResolvedValue({ success: true, error: '' }),
+  } as unknown as TerminalStreamingServiceClient;
+}
+
+describe('MediaService', () => {
+  let client: TerminalStreamingServiceClient;
+  let service: MediaService;
+
+  beforeEach(() => {
+    client = createMockClient();
+    service = new MediaService(client);
+    service.setSessionId('sess-123');
+  });
+
+  describe('getPlaylist', () => {
+    it('requests the master playlist by default', async () => {
+      const playlist = await service.getPlaylist('/videos/run.mp4');
+
+      expect(client.hlsGetPlaylist).toHaveBeenCalledWith({
+        sessionId: 'sess-123',
+        path: '/videos/run.mp4',
+        quality: '',
+        startTime: 0,
+      });
+      expect(playlist.content).toBe(MASTER);
+      expect(playlist.duration).toBe(8);
+    });
+
+    it('throws on failure', async () => {
+      vi.mocked(client.hlsGetPlaylist).mockResolvedValue({
+        success: false,
+        error: 'ffmpeg not installed',
+        content: Buffer.alloc(0),
+        contentType: '',
+        duration: 0,
+        segmentDuration: 0,
+      });
+
+      await expect(service.getPlaylist('/videos/run.mp4')).rejects.toThrow('ffmpeg not installed');
+    });
+
+    it('uses options.sessionId over the service session', async () => {
+      await service.getPlaylist('/videos/run.mp4', { sessionId: 'sess-other' });
+
+      expect(client.hlsGetPlaylist).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'sess-other' }));
+    });
+  });
+
+  describe('getSegment', () => {
+    it('passes quality, segment number and start time', async () => {
+      const segment = await service.getSegment('/videos/run.mp4', '720p', 3, { startTime: 12 });
+
+      expect(client.hlsGetSegment).toHaveBeenCalledWith({
+        sessionId: 'sess-123',
+        path: '/videos/run.mp4',
+        quality: '720p',
+        segmentNum: 3,
+        startTime: 12,
+      });
+      expect(segment.content.toString()).toBe('segment-3');
+      expect(segment.contentType).toBe('video/mp2t');
+    });
+  });
+
+  describe('serve', () => {
+    let proxy: HlsProxy | undefined;
+
+    afterEach(async () => {
+      await proxy?.close();
+      proxy = undefined;
+    });
+
+    it('rewrites the master playlist to point at the proxy', async () => {
+      proxy = await service.serve('/videos/run.mp4');
+      expect(proxy.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/[0-9a-f]{32}\/master\.m3u8$/);
+      expect(proxy.duration).toBe(8);
+
+      const res = await fetch(proxy.url);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('application/vnd.apple.mpegurl');
+
+      const lines = (await res.text()).split('\n');
+      expect(lines).toContain('q/720p/index.m3u8');
+      expect(lines).toContain('q/360p/index.m3u8');
+    });
+
+    it('serves quality playlists and segments from the agent', async () => {
+      proxy = await service.serve('/videos/run.mp4');
+      const base = new URL(proxy.url);
+
+      const playlist = await (await fetch(new URL('q/720p/index.m3u8', base))).text();
+      expect(playlist.split('\n')).toEqual(expect.arrayContaining(['0.ts', '1.ts']));
+      expect(client.hlsGetPlaylist).toHaveBeenLastCalledWith(expect.objectContaining({ quality: '720p' }));
+
+      const segment = await fetch(new URL('q/720p/1.ts', base));
+      expect(segment.headers.get('content-type')).toBe('video/mp2t');
+      expect(await segment.text()).toBe('segment-1');
+      expect(client.hlsGetSegment).toHaveBeenLastCalledWith(
+        expect.objectContaining({ quality: '720p', segmentNum: 1 })
+      );
+    });
+
+    it('propagates the seek position through rewritten URIs', async () => {
+      proxy = await service.serve('/videos/run.mp4', { startTime: 30 });
+      expect(proxy.url).toMatch(/master\.m3u8\?t=30$/);
+
+      const master = await (await fetch(proxy.url)).text();
+      expect(master.split('\n')).toContain('q/720p/index.m3u8?t=30');
+
+      await fetch(new URL('q/720p/0.ts?t=30', proxy.url));
+      expect(client.hlsGetSegment).toHaveBeenLastCalledWith(expect.objectContaining({ startTime: 30 }));
+    });
+
+    it('returns 502 when the agent fails and 404 for unknown paths', async () => {
+      proxy = await service.serve('/videos/run.mp4');
+      vi.mocked(client.hlsGetSegment).mockResolvedValue({
+        success: false,
+        error: 'segment not ready',
+        content: Buffer.alloc(0),
+        contentType: '',
+        createdNewSession: false,
+      });
+
+      const failed = await fetch(new URL('q/720p/0.ts', proxy.url));
+      expect(failed.status).toBe(502);
+      expect(await failed.text()).toContain('segment not ready');
+
+      const missing = await fetch(new URL('nope.txt', proxy.url));
+      expect(missing.status).toBe(404);
+    });
+
+    it('only answers under the random URL prefix', async () => {
+      proxy = await service.serve('/videos/run.mp4');
+      const guessed = new URL('/master.m3u8', proxy.url);
+
+      expect((await fetch(guessed)).status).toBe(404);
+      expect(client.hlsGetPlaylist).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends CORS headers only to configured origins', async () => {
+      proxy = await service.serve('/videos/run.mp4', { corsOrigins: ['http://localhost:5173'] });
+
+      const allowed = await fetch(proxy.url, { headers: { Origin: 'http://localhost:5173' } });
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('http://localhost:5173');
+
+      const other = await fetch(proxy.url, { headers: { Origin: 'https://evil.example' } });
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('stops the agent session on close', async () => {
+      proxy = await service.serve('/videos/run.mp4');
+      const url = proxy.url;
+      await proxy.close();
+
+      expect(client.hlsStopSession).toHaveBeenCalledWith({ sessionId: 'sess-123', path: '/videos/run.mp4' });
+      await expect(fetch(url)).rejects.toThrow();
+    });
+
+    it('keeps using the session it was started with', async () => {
+      proxy = await service.serve('/videos/run.mp4', { sessionId: 'sess-other' });
+      service.setSessionId('sess-456');
+
+      await fetch(new URL('q/720p/0.ts', proxy.url));
+      expect(client.hlsGetSegment).toHaveBeenLastCalledWith(expect.objectContaining({ sessionId: 'sess-other' }));
+
+      await proxy.close();
+      expect(client.hlsStopSession).toHaveBeenCalledWith({ sessionId: 'sess-other', path: '/videos/run.mp4' });
+    });
+
+    it('does not bind a port when the file cannot be streamed', async () => {
+      vi.mocked(client.hlsGetPlaylist).mockResolvedValue({
+        success: false,
+        error: 'not a video',
+        content: Buffer.alloc(0),
+        contentType: '',
+        duration: 0,
+        segmentDuration: 0,
+      });
+
+      await expect(service.serve('/etc/hosts')).rejects.toThrow('not a video');
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RelayService, parseRelayEndpoint } from '../../src/services/relay';
+import { StreamingRelayState } from '../../src/proto/generated/file_operations/transfer';
+import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
+
+const SESSIONS: Record<string, string> = {
+  'build-01': 'sess-src',
+  'web-01': 'sess-a',
+  'web-02': 'sess-b',
+};
+
+function sessionResponse(hostname: string) {
+  const sessionId = SESSIONS[hostname];
+  return {
+    found: !!sessionId,
+    sessionId: sessionId ?? '',
+    machineHostname: hostname,
+    machineName: hostname,
+    status: 'connected',
+    os: '',
+    agentVersion: '',
+    heartbeatAgeSeconds: 0,
+    hasShell: true,
+    shell: '',
+    workingDirectory: '',
+    connectedAt: undefined,
+    error: sessionId ? '' : `No active session found for hostname "${hostname}"`,
+    ambiguous: false,
+    matchesCount: sessionId ? 1 : 0,
+  };
+}
+
+function createMockClient(content: Buffer): TerminalStreamingServiceClient {
+  return {
+    getSessionByHostname: vi.fn().mockImplementation(async ({ hostname }: { hostname: string }) =>
+      sessionResponse(hostname)
+    ),
+    fileGetInfo: vi.fn().mockResolvedValue({
+      success: true,
+      error: '',
+      result: { entry: { size: String(content.length) } },
+    }),
+    fileRead: vi.fn().mockImplementation(async (req: { offset: string; length: string }) => {
+      const offset = Number(req.offset);
+      return {
+        success: true,
+        error: '',
+        result: { content: content.subarray(offset, offset + Number(req.length)) },
+      };
+    }),
+    initiateStreamingRelay: vi.fn().mockImplementation(async (req: { transferId: string }) => ({
+      transferId: req.transferId,
+      success: true,
+      error: '',
+      totalChunks: 0,
+      connectedTargets: [],
+      offlineTargets: [],
+    })),
+    relayChunk: vi.fn().mockImplementation(async (req: { transferId: string; chunkIndex: number }) => ({
+      transferId: req.transferId,
+      sessionId: '',
+      chunkIndex: req.chunkIndex,
+      success: true,
+      error: '',
+    })),
+    getStreamingRelayStatus: vi.fn().mockImplementation(async ({ transferId }: { transferId: string }) => ({
+      transferId,
+      state: StreamingRelayState.RELAY_STREAMING,
+      overallProgress: 50,
+      targetProgress: { 'sess-a': 60, 'sess-b': 40 },
+      targetChunksAcked: { 'sess-a': 3, 'sess-b': 2 },
+      chunksSent: 0,
+      totalChunks: 0,
+      error: '',
+      fileName: '',
+      fileSize: '0',
+    })),
+    cancelStreamingRelay: vi.fn().mockResolvedValue({ transferId: '', success: true, error: '' }),
+  } as unknown as TerminalStreamingServiceClient;
+}
+
+describe('RelayService', () => {
+  const content = Buffer.from('0123456789abcdefghij'); // 20 bytes
+  let client: TerminalStreamingServiceClient;
+  let service: RelayService;
+
+  beforeEach(() => {
+    client = createMockClient(content);
+    service = new RelayService(client);
+  });
+
+  describe('parseRelayEndpoint', () => {
+    it('splits hostname and path', () => {
+      expect(parseRelayEndpoint('web-01:/opt/app')).toEqual({ hostname: 'web-01', path: '/opt/app' });
+    });
+
+    it('rejects specs without a hostname or path', () => {
+      expect(() => parseRelayEndpoint('/opt/app')).toThrow('expected hostname:/path');
+      expect(() => parseRelayEndpoint('web-01:')).toThrow('expected hostname:/path');
+    });
+  });
+
+  describe('copy', () => {
+    it('initiates one relay for all targets and streams chunks from the source', async () => {
+      const transfer = await service.copy({
+        from: 'build-01:/out/app.tar.gz',
+        to: ['web-01:/opt/app/', 'web-02:/opt/app/'],
+        chunkSize: 8,
+      });
+      const result = await transfer.wait();
+
+      expect(client.initiateStreamingRelay).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceSessionId: 'sess-src',
+          targetSessionIds: ['sess-a', 'sess-b'],
+          fileName: 'app.tar.gz',
+          sourcePath: '/out/app.tar.gz',
+          targetPath: '/opt/app/app.tar.gz',
+          fileSize: '20',
+          chunkSize: 8,
+        })
+      );
+
+      const chunks = vi.mocked(client.relayChunk).mock.calls.map(([c]) => c);
+      expect(chunks).toHaveLength(3);
+      expect(Buffer.concat(chunks.map((c) => c.data)).equals(content)).toBe(true);
+      expect(chunks[0]).toMatchObject({ chunkIndex: 0, offset: '0', isFirst: true, isLast: false, totalChunks: 3 });
+      expect(chunks[2]).toMatchObject({ chunkIndex: 2, offset: '16', isFirst: false, isLast: true });
+      expect(vi.mocked(client.fileRead).mock.calls[0]![0]).toMatchObject({ sessionId: 'sess-src' });
+
+      expect(result.success).toBe(true);
+      expect(result.size).toBe(20);
+      expect(result.metrics.chunksCount).toBe(3);
+      expect(result.targets.map((t) => t.status)).toEqual(['completed', 'completed']);
+      expect(result.targets[0]!.chunksAcked).toBe(3);
+    });
+
+    it('reports per-target progress', async () => {
+      const onProgress = vi.fn();
+      const transfer = await service.copy({
+        from: 'build-01:/out/app.tar.gz',
+        to: ['web-01:/opt/app.tar.gz', 'web-02:/opt/app.tar.gz'],
+        statusIntervalMs: 0,
+        onProgress,
+      });
+      await transfer.wait();
+
+      const last = onProgress.mock.calls.at(-1)![0];
+      expect(last.overallProgress).toBe(50);
+      expect(last.total).toBe(20);
+      expect(last.targets.map((t: { hostname: string; progress: number }) => [t.hostname, t.progress])).toEqual([
+        ['web-01', 60],
+        ['web-02', 40],
+      ]);
+    });
+
+    it('exposes offline targets on the handle and skips them', async () => {
+      const transfer = await service.copy({
+        from: 'build-01:/out/app.tar.gz',
+        to: ['web-01:/opt/app.tar.gz', 'web-99:/opt/app.tar.gz'],
+      });
+
+      expect(transfer.offlineTargets).toEqual([
+        expect.objectContaining({ hostname: 'web-99', status: 'offline', sessionId: '' }),
+      ]);
+      expect(client.initiateStreamingRelay).toHaveBeenCalledWith(
+        expect.objectContaining({ targetSessionIds: ['sess-a'] })
+      );
+
+      const result = await transfer.wait();
+      expect(result.success).toBe(true);
+      expect(result.targets.map((t) => t.status)).toEqual(['completed', 'offline']);
+    });
+
+    it('fails without initiating when every target is offline', async () => {
+      const transfer = await service.copy({ from: 'build-01:/a', to: ['web-98:/a', 'web-99:/a'] });
+      const result = await transfer.wait();
+
+      expect(client.initiateStreamingRelay).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('All relay targets are offline');
+    });
+
+    it('keeps streaming to healthy targets when one rejects a chunk', async () => {
+      vi.mocked(client.relayChunk).mockResolvedValueOnce({
+        transferId: '',
+        sessionId: 'sess-b',
+        chunkIndex: 0,
+        success: false,
+        error: 'disk full',
+      });
+
+      const transfer = await service.copy({
+        from: 'build-01:/out/app.tar.gz',
+        to: ['web-01:/opt/app.tar.gz', 'web-02:/opt/app.tar.gz'],
+        chunkSize: 8,
+      });
+      const result = await transfer.wait();
+
+      const second = vi.mocked(client.relayChunk).mock.calls[1]![0];
+      expect(second.targetSessionIds).toEqual(['sess-a']);
+      expect(result.success).toBe(false);
+      expect(result.targets.map((t) => t.status)).toEqual(['completed', 'failed']);
+      expect(result.error).toBe('web-02: disk full');
+    });
+
+    it('cancels the relay on the server', async () => {
+      let release!: () => void;
+      vi.mocked(client.fileRead).mockImplementationOnce(async () => {
+        await new Promise<void>((r) => { release = r; });
+        return { success: true, error: '', result: { content: content.subarray(0, 8) } } as never;
+      });
+
+      const transfer = await service.copy({
+        from: 'build-01:/out/app.tar.gz',
+        to: ['web-01:/opt/app.tar.gz'],
+        chunkSize: 8,
+      });
+      const cancelled = transfer.cancel('operator abort');
+      release();
+      const result = await cancelled;
+
+      expect(client.cancelStreamingRelay).toHaveBeenCalledWith({
+        transferId: transfer.transferId,
+        reason: 'operator abort',
+      });
+      expect(result.cancelled).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.targets[0]!.status).toBe('cancelled');
+      expect(vi.mocked(client.relayChunk).mock.calls.length).toBeLessThan(3);
+    });
+
+    it('fails when the server reports the relay failed', async () => {
+      vi.mocked(client.getStreamingRelayStatus).mockResolvedValue({
+        transferId: '',
+        state: StreamingRelayState.RELAY_FAILED,
+        overallProgress: 0,
+        targetProgress: {},
+        targetChunksAcked: {},
+        chunksSent: 0,
+        totalChunks: 0,
+        error: 'checksum mismatch',
+        fileName: '',
+        fileSize: '0',
+      });
+
+      const transfer = await service.copy({ from: 'build-01:/a', to: ['web-01:/a'] });
+      const result = await transfer.wait();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('checksum mismatch');
+      expect(result.targets[0]!.status).toBe('failed');
+    });
+
+    it('rejects targets with different paths', async () => {
+      await expect(service.copy({ from: 'build-01:/a', to: ['web-01:/x', 'web-02:/y'] })).rejects.toThrow(
+        'same path'
+      );
+    });
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
 import { TerminalService } from '../../src/services/terminal';
 import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
+import type { AgentMessage } from '../../src/proto/generated/agent_messages';
+import type { ControlMessage } from '../../src/proto/generated/control_messages';
+import { Status } from '@grpc/grpc-js/build/src/constants';
+import { AgentOfflineError } from '../../src/errors';
+import { getCircuitBreaker, resetCircuitBreakers } from '../../src/resilience';
 
 // Create mock client
 function createMockClient(): TerminalStreamingServiceClient {
@@ -23,6 +29,7 @@ describe('TerminalService', () => {
   let service: TerminalService;
 
   beforeEach(() => {
+    resetCircuitBreakers();
     client = createMockClient();
     service = new TerminalService(client);
   });
@@ -179,6 +186,19 @@ describe('TerminalService', () => {
 
       await expect(service.sendInput('sess-123', 'test')).rejects.toThrow('Session disconnected');
     });
+
+    it('should not retry, and should trip the breaker of the target session', async () => {
+      vi.mocked(client.sendInput).mockRejectedValue(
+        Object.assign(new Error('unavailable'), { code: Status.UNAVAILABLE, details: 'unavailable' })
+      );
+      service.setSessionId('sess-default');
+
+      await expect(service.sendInput('sess-123', 'rm -rf build\n')).rejects.toBeInstanceOf(AgentOfflineError);
+
+      expect(client.sendInput).toHaveBeenCalledTimes(1);
+      expect(getCircuitBreaker('sess-123').failures).toBe(1);
+      expect(getCircuitBreaker('sess-default').failures).toBe(0);
+    });
   });
 
   describe('resize', () => {
@@ -688,3 +708,153 @@ describe('TerminalService.getActiveSession', () => {
     );
   });
 });
+
+// ──────────────────────────────────────────────────────────────────
+// exec()
+// ──────────────────────────────────────────────────────────────────
+
+describe('TerminalService.exec', () => {
+  let client: TerminalStreamingServiceClient;
+  let service: TerminalService;
+  let sent: AgentMessage[];
+
+  type Step = string | 'read';
+
+  /**
+   * One connectTerminal call: the session starts, the typed command line is
+   * read, then `script` returns terminal output to deliver. A 'read' step
+   * waits for the next client message (e.g. a signal).
+   */
+  function scriptTerminal(script: (id: string, line: string) => Step[]) {
+    vi.mocked(client.connectTerminal).mockImplementation(((reqs: AsyncIterable<AgentMessage>) => {
+      const iterator = reqs[Symbol.asyncIterator]();
+      const message = (payload: ControlMessage['payload']) => ({ commandId: '', timestamp: undefined, payload }) as ControlMessage;
+      const output = (text: string) =>
+        message({ $case: 'input', input: { data: Buffer.from(text, 'latin1'), sequence: '0' } });
+      return (async function* () {
+        sent.push((await iterator.next()).value as AgentMessage);
+        yield message({ $case: 'startSession', startSession: { config: undefined, webTerminalUrl: '', expiresAt: undefined } });
+        const typed = (await iterator.next()).value as AgentMessage;
+        sent.push(typed);
+        const line = typed.payload?.$case === 'output' ? typed.payload.output.data.toString() : '';
+        const id = /%s:S\\n'\\''? ([0-9a-f-]{36})/.exec(line)![1]!;
+        for (const step of script(id, line)) {
+          if (step === 'read') {
+            sent.push((await iterator.next()).value as AgentMessage);
+            continue;
+          }
+          yield output(step);
+        }
+      })();
+    }) as never);
+  }
+
+  const signalsSent = () =>
+    sent.flatMap((m) => (m.payload?.$case === 'status' ? [m.payload.status.reason] : []));
+
+  beforeEach(() => {
+    sent = [];
+    client = {
+      ...createMockClient(),
+      connectTerminal: vi.fn(),
+    } as unknown as TerminalStreamingServiceClient;
+    service = new TerminalService(client);
+    service.setSessionId('sess-123');
+  });
+
+  it('runs the typed line through a shell with env, cwd and stdin', async () => {
+    scriptTerminal((_id, line) => {
+      const out = execFileSync('sh', [], { input: line }).toString('latin1');
+      // Echo of the typed line first, then the output in small pieces to split the markers
+      const steps: Step[] = [line];
+      for (let i = 0; i < out.length; i += 7) steps.push(out.slice(i, i + 7));
+      return steps;
+    });
+
+    const proc = await service.exec('sort; echo "$LANG $(pwd)"; echo oops >&2; exit 3', {
+      env: { LANG: 'C' },
+      cwd: '/tmp',
+      stdin: 'b\na\n',
+    });
+    const result = await proc.wait();
+
+    expect(result).toMatchObject({
+      commandId: proc.commandId,
+      exitCode: 3,
+      stdout: 'a\nb\nC /tmp\n',
+      stderr: 'oops\n',
+      stdoutTruncated: false,
+      stderrTruncated: false,
+      timedOut: false,
+      cancelled: false,
+    });
+    expect(proc.commandId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(sent[0]!.payload).toMatchObject({ $case: 'register', register: { version: expect.stringMatching(/-attach$/) } });
+  });
+
+  it('iterates stdout while running and stderr after the exit', async () => {
+    scriptTerminal((id) => [
+      'user@host:~$ ',
+      `\x1e${id}:S\r\nout 1\n`,
+      'out 2\n',
+      `\x1e${id}:R\nwarn\n\x1e${id}:E:0\r\n`,
+      'user@host:~$ ',
+    ]);
+
+    const proc = await service.exec('make');
+    const seen: string[] = [];
+    for await (const c of proc) seen.push(`${c.stream}:${c.data.toString()}`);
+
+    expect(seen).toEqual(['stdout:out 1\n', 'stdout:out 2\n', 'stderr:warn\n']);
+    expect(proc.result).toMatchObject({ exitCode: 0, stdout: 'out 1\nout 2\n', stderr: 'warn\n' });
+  });
+
+  it('caps each stream at maxOutputBytes', async () => {
+    scriptTerminal((id) => [`\x1e${id}:S\n0123456789\x1e${id}:R\nab\x1e${id}:E:0\n`]);
+
+    const proc = await service.exec('cat big', { maxOutputBytes: 4 });
+    const result = await proc.wait();
+
+    expect(result).toMatchObject({ stdout: '0123', stdoutTruncated: true, stderr: 'ab', stderrTruncated: false });
+  });
+
+  it('cancels through the abort signal', async () => {
+    const controller = new AbortController();
+    scriptTerminal((id) => [`\x1e${id}:S\n`, 'read', `\x1e${id}:R\n\x1e${id}:E:143\n`]);
+
+    const proc = await service.exec('sleep 100', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    const result = await proc.wait();
+
+    expect(signalsSent()).toEqual(['signal:15']);
+    expect(result.cancelled).toBe(true);
+    expect(result.exitCode).toBe(143);
+  });
+
+  it('signals the command after timeoutMs', async () => {
+    scriptTerminal((id) => [`\x1e${id}:S\n`, 'read', `\x1e${id}:R\n\x1e${id}:E:143\n`]);
+
+    const proc = await service.exec('sleep 100', { timeoutMs: 5 });
+    const result = await proc.wait();
+
+    expect(signalsSent()).toEqual(['signal:15']);
+    expect(result).toMatchObject({ timedOut: true, cancelled: false, exitCode: 143 });
+  });
+
+  it('rejects wait() when the stream ends before the exit status', async () => {
+    scriptTerminal((id) => [`\x1e${id}:S\npartial`]);
+
+    const proc = await service.exec('ls');
+
+    await expect(proc.wait()).rejects.toThrow('Terminal stream closed before the command exited');
+  });
+
+  it('rejects environment variable names the shell cannot assign', async () => {
+    await expect(service.exec('ls', { env: { 'A B': '1' } })).rejects.toThrow('Invalid environment variable name');
+    expect(client.connectTerminal).not.toHaveBeenCalled();
+  });
+
+  it('requires a session', async () => {
+    await expect(new TerminalService(client).exec('ls')).rejects.toThrow('No session');
+  });
+});
@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UploadService } from '../../src/services/upload';
+import { StreamingRelayState } from '../../src/proto/generated/file_operations/transfer';
+import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
+
+// ──────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────
+
+/**
+ * Mock client backed by an in-memory "remote filesystem".
+ * The relay RPCs assemble chunks at the target path the way the agent does,
+ * failing the relay when the whole-file MD5 doesn't match.
+ */
+function createMockClient(remote: Map<string, Buffer>): TerminalStreamingServiceClient {
+  const relays = new Map<
+    string,
+    { targetPath: string; checksum: string; chunks: Buffer[]; state: StreamingRelayState; error: string }
+  >();
+
+  return {
+    fileWrite: vi.fn(async (req: { path: string; content: Buffer; overwrite: boolean }) => {
+      if (remote.has(req.path) && !req.overwrite) {
+        return { success: false, error: 'file exists', result: undefined };
+      }
+      remote.set(req.path, Buffer.from(req.content));
+      return {
+        success: true,
+        error: '',
+        result: { bytesWritten: String(req.content.length), entry: undefined },
+      };
+    }),
+    fileCreateDirectory: vi.fn(async () => ({ success: true, error: '', result: undefined })),
+    fileGetInfo: vi.fn(async (req: { path: string }) =>
+      remote.has(req.path)
+        ? {
+            success: true,
+            error: '',
+            result: { entry: { path: req.path, size: String(remote.get(req.path)!.length) } },
+          }
+        : { success: false, error: 'not found', result: undefined }
+    ),
+    fileDelete: vi.fn(async (req: { path: string }) => {
+      for (const key of [...remote.keys()]) {
+        if (key === req.path || key.startsWith(`${req.path}/`)) remote.delete(key);
+      }
+      return { success: true, error: '', result: undefined };
+    }),
+    initiateStreamingRelay: vi.fn(
+      async (req: { transferId: string; targetPath: string; fileChecksum: string; fileSize: string; chunkSize: number }) => {
+        relays.set(req.transferId, {
+          targetPath: req.targetPath,
+          checksum: req.fileChecksum,
+          chunks: [],
+          state: StreamingRelayState.RELAY_INITIATED,
+          error: '',
+        });
+        return {
+          transferId: req.transferId,
+          success: true,
+          error: '',
+          totalChunks: Math.ceil(parseInt(req.fileSize, 10) / req.chunkSize),
+          connectedTargets: [],
+          offlineTargets: [],
+        };
+      }
+    ),
+    relayChunk: vi.fn(async (req: { transferId: string; chunkIndex: number; data: Buffer; isLast: boolean }) => {
+      const relay = relays.get(req.transferId)!;
+      relay.chunks[req.chunkIndex] = Buffer.from(req.data);
+      relay.state = StreamingRelayState.RELAY_STREAMING;
+      if (req.isLast) {
+        const data = Buffer.concat(relay.chunks);
+        if (relay.checksum && md5(data) !== relay.checksum) {
+          relay.state = StreamingRelayState.RELAY_FAILED;
+          relay.error = 'checksum mismatch';
+        } else {
+          remote.set(relay.targetPath, data);
+          relay.state = StreamingRelayState.RELAY_COMPLETED;
+        }
+      }
+      return { transferId: req.transferId, sessionId: '', chunkIndex: req.chunkIndex, success: true, error: '' };
+    }),
+    getStreamingRelayStatus: vi.fn(async (req: { transferId: string }) => {
+      const relay = relays.get(req.transferId)!;
+      return { transferId: req.transferId, state: relay.state, error: relay.error };
+    }),
+    cancelStreamingRelay: vi.fn(async (req: { transferId: string }) => {
+      relays.get(req.transferId)!.state = StreamingRelayState.RELAY_CANCELLED;
+      return { success: true, error: '' };
+    }),
+  } as unknown as TerminalStreamingServiceClient;
+}
+
+function makeTmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'cmdop-ul-test-'));
+}
+
+function md5(data: Buffer | string): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+// ──────────────────────────────────────────────────────────────────
+// uploadFile
+// ──────────────────────────────────────────────────────────────────
+
+describe('UploadService.uploadFile', () => {
+  let remote: Map<string, Buffer>;
+  let client: TerminalStreamingServiceClient;
+  let service: UploadService;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    remote = new Map();
+    client = createMockClient(remote);
+    service = new UploadService(client);
+    tmpDir = makeTmpDir();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('uploads a small file in a single write', async () => {
+    const localPath = path.join(tmpDir, 'small.txt');
+    fs.writeFileSync(localPath, 'hello world');
+
+    const result = await service.uploadFile(localPath, '/remote/small.txt');
+
+    expect(result.success).toBe(true);
+    expect(result.remotePath).toBe('/remote/small.txt');
+    expect(result.size).toBe(11);
+    expect(result.checksum).toBe(md5('hello world'));
+    expect(remote.get('/remote/small.txt')!.toString()).toBe('hello world');
+    expect(client.fileWrite).toHaveBeenCalledTimes(1);
+    expect(client.initiateStreamingRelay).not.toHaveBeenCalled();
+  });
+
+  it('streams larger files through the relay', async () => {
+    const localPath = path.join(tmpDir, 'big.bin');
+    const content = Buffer.from('abcdefghij');
+    fs.writeFileSync(localPath, content);
+
+    const result = await service.uploadFile(localPath, '/remote/big.bin', { chunkSize: 4 });
+
+    expect(result.success).toBe(true);
+    expect(result.checksum).toBe(md5(content));
+    expect(result.metrics?.chunksCount).toBe(3);
+    expect(client.fileWrite).not.toHaveBeenCalled();
+    expect(client.initiateStreamingRelay).toHaveBeenCalledWith(
+      expect.objectContaining({
+        targetSessionIds: [''],
+        targetPath: '/remote/big.bin',
+        fileSize: '10',
+        fileChecksum: md5(content),
+        chunkSize: 4,
+      })
+    );
+    expect(vi.mocked(client.relayChunk).mock.calls.map(([req]) => req.offset)).toEqual(['0', '4', '8']);
+    expect(vi.mocked(client.relayChunk).mock.calls.map(([req]) => req.isLast)).toEqual([false, false, true]);
+    expect(remote.get('/remote/big.bin')).toEqual(content);
+  });
+
+  it('fails and cleans up when the agent rejects the assembled file', async () => {
+    const localPath = path.join(tmpDir, 'bad.bin');
+    fs.writeFileSync(localPath, 'abcdefghij');
+    vi.mocked(client.getStreamingRelayStatus).mockResolvedValueOnce({
+      state: StreamingRelayState.RELAY_FAILED,
+      error: 'checksum mismatch',
+    } as Awaited<ReturnType<TerminalStreamingServiceClient['getStreamingRelayStatus']>>);
+
+    const result = await service.uploadFile(localPath, '/remote/bad.bin', { chunkSize: 4 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('checksum mismatch');
+    expect(client.cancelStreamingRelay).toHaveBeenCalled();
+    expect(client.fileDelete).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/remote/bad.bin', recursive: false })
+    );
+  });
+
+  it('calls onProgress after each chunk', async () => {
+    const localPath = path.join(tmpDir, 'p.txt');
+    fs.writeFileSync(localPath, 'abcdef');
+
+    const progress: Array<[number, number]> = [];
+    await service.uploadFile(localPath, '/remote/p.txt', {
+      chunkSize: 3,
+      onProgress: (n, total) => progress.push([n, total]),
+    });
+
+    expect(progress).toEqual([[3, 6], [6, 6]]);
+  });
+
+  it('uploads an empty file', async () => {
+    const localPath = path.join(tmpDir, 'empty');
+    fs.writeFileSync(localPath, '');
+
+    const result = await service.uploadFile(localPath, '/remote/empty');
+
+    expect(result.success).toBe(true);
+    expect(result.size).toBe(0);
+    expect(remote.get('/remote/empty')!.length).toBe(0);
+  });
+
+  it('refuses to replace an existing remote file without overwrite', async () => {
+    remote.set('/remote/exists.bin', Buffer.from('old'));
+    const localPath = path.join(tmpDir, 'exists.bin');
+    fs.writeFileSync(localPath, 'new content');
+
+    const result = await service.uploadFile(localPath, '/remote/exists.bin', { chunkSize: 4 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already exists');
+    expect(remote.get('/remote/exists.bin')!.toString()).toBe('old');
+  });
+
+  it('fails on a short write', async () => {
+    const localPath = path.join(tmpDir, 'short.txt');
+    fs.writeFileSync(localPath, 'expected');
+    vi.mocked(client.fileWrite).mockResolvedValue({
+      success: true,
+      error: '',
+      result: { bytesWritten: '3', entry: undefined },
+    });
+
+    const result = await service.uploadFile(localPath, '/remote/short.txt', { maxRetries: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Short write');
+  });
+
+  it('sends no checksum to the relay when verifyChecksum is false', async () => {
+    const localPath = path.join(tmpDir, 'nv.bin');
+    fs.writeFileSync(localPath, 'abcdefgh');
+
+    const result = await service.uploadFile(localPath, '/remote/nv.bin', {
+      chunkSize: 4,
+      verifyChecksum: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(client.initiateStreamingRelay).toHaveBeenCalledWith(
+      expect.objectContaining({ fileChecksum: '' })
+    );
+  });
+
+  it('fails when the local file shrinks during the upload', async () => {
+    const localPath = path.join(tmpDir, 'shrink.bin');
+    fs.writeFileSync(localPath, 'abcdefghij');
+    // Truncate the file after it was stat'ed, during the remote existence check
+    vi.mocked(client.fileGetInfo).mockImplementationOnce(async () => {
+      fs.truncateSync(localPath, 6);
+      return { success: false, error: 'not found', result: undefined };
+    });
+
+    const result = await service.uploadFile(localPath, '/remote/shrink.bin', { chunkSize: 4 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('changed during the upload');
+    expect(client.initiateStreamingRelay).not.toHaveBeenCalled();
+  });
+
+  it('retries on transient failure and succeeds', async () => {
+    const localPath = path.join(tmpDir, 'retry.txt');
+    fs.writeFileSync(localPath, 'ok');
+    vi.mocked(client.fileWrite).mockRejectedValueOnce(new Error('transient'));
+
+    const result = await service.uploadFile(localPath, '/remote/retry.txt', { maxRetries: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.metrics?.retriesCount).toBe(1);
+  });
+
+  it('cancels the relay when a chunk keeps failing', async () => {
+    const localPath = path.join(tmpDir, 'fail.bin');
+    fs.writeFileSync(localPath, 'abcdefgh');
+    vi.mocked(client.relayChunk)
+      .mockResolvedValueOnce({ transferId: '', sessionId: '', chunkIndex: 0, success: true, error: '' })
+      .mockRejectedValue(new Error('connection lost'));
+
+    const result = await service.uploadFile(localPath, '/remote/fail.bin', {
+      chunkSize: 4,
+      maxRetries: 0,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('connection lost');
+    expect(client.cancelStreamingRelay).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: expect.stringContaining('connection lost') })
+    );
+    expect(client.fileDelete).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/remote/fail.bin', recursive: false })
+    );
+  });
+
+  it('returns error result when the local file does not exist', async () => {
+    const result = await service.uploadFile(path.join(tmpDir, 'missing'), '/remote/missing');
+
+    expect(result.success).toBe(false);
+    expect(client.fileWrite).not.toHaveBeenCalled();
+  });
+
+  it('respects sessionId option over service-level sessionId', async () => {
+    const localPath = path.join(tmpDir, 's.txt');
+    fs.writeFileSync(localPath, 'x');
+    service.setSessionId('default-session');
+
+    await service.uploadFile(localPath, '/remote/s.txt', { sessionId: 'override-session' });
+
+    expect(client.fileWrite).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'override-session' })
+    );
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// uploadDirectory
+// ──────────────────────────────────────────────────────────────────
+
+describe('UploadService.uploadDirectory', () => {
+  let remote: Map<string, Buffer>;
+  let client: TerminalStreamingServiceClient;
+  let service: UploadService;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    remote = new Map();
+    client = createMockClient(remote);
+    service = new UploadService(client);
+    tmpDir = makeTmpDir();
+    fs.mkdirSync(path.join(tmpDir, 'sub', 'deep'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'a.txt'), 'aaa');
+    fs.writeFileSync(path.join(tmpDir, 'sub', 'b.txt'), 'bb');
+    fs.writeFileSync(path.join(tmpDir, 'sub', 'deep', 'c.txt'), 'c');
+    fs.writeFileSync(path.join(tmpDir, '.hidden'), 'secret');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('uploads all files preserving relative layout', async () => {
+    const result = await service.uploadDirectory(tmpDir, '/srv/app');
+
+    expect(result.success).toBe(true);
+    expect(result.files).toHaveLength(3);
+    expect(result.size).toBe(6);
+    expect(remote.get('/srv/app/a.txt')!.toString()).toBe('aaa');
+    expect(remote.get('/srv/app/sub/b.txt')!.toString()).toBe('bb');
+    expect(remote.get('/srv/app/sub/deep/c.txt')!.toString()).toBe('c');
+    expect(remote.has('/srv/app/.hidden')).toBe(false);
+  });
+
+  it('includes hidden files when requested', async () => {
+    const result = await service.uploadDirectory(tmpDir, '/srv/app', { includeHidden: true });
+
+    expect(result.files).toHaveLength(4);
+    expect(remote.get('/srv/app/.hidden')!.toString()).toBe('secret');
+  });
+
+  it('reports aggregate progress and per-file completion', async () => {
+    const progress: number[] = [];
+    const completed: string[] = [];
+
+    await service.uploadDirectory(tmpDir, '/srv/app', {
+      onProgress: (n, total) => {
+        expect(total).toBe(6);
+        progress.push(n);
+      },
+      onFileComplete: (r) => completed.push(r.remotePath!),
+    });
+
+    expect(progress[progress.length - 1]).toBe(6);
+    expect(completed).toEqual(['/srv/app/a.txt', '/srv/app/sub/b.txt', '/srv/app/sub/deep/c.txt']);
+  });
+
+  it('continues after a failed file and reports partial failure', async () => {
+    remote.set('/srv/app/a.txt', Buffer.from('existing'));
+
+    const result = await service.uploadDirectory(tmpDir, '/srv/app', { maxRetries: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('1 of 3');
+    expect(result.files.filter((f) => f.success)).toHaveLength(2);
+  });
+
+  it('returns error result when the local directory does not exist', async () => {
+    const result = await service.uploadDirectory(path.join(tmpDir, 'nope'), '/srv/app');
+
+    expect(result.success).toBe(false);
+    expect(result.files).toHaveLength(0);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Status } from '@grpc/grpc-js/build/src/constants';
+import { configure, resetSettings } from '../../src/config';
+import { AttachStream } from '../../src/streaming/attach';
+import { StreamState, type AttachStreamEvent } from '../../src/streaming/base';
+import type { AgentMessage } from '../../src/proto/generated/agent_messages';
+import type { ControlMessage } from '../../src/proto/generated/control_messages';
+import type { TerminalStreamingServiceClient } from '../../src/proto/generated/service';
+
+type Payload = NonNullable<ControlMessage['payload']>;
+
+const startSession: Payload = {
+  $case: 'startSession',
+  startSession: { config: undefined, webTerminalUrl: '', expiresAt: undefined },
+};
+
+function input(text: string): Payload {
+  return { $case: 'input', input: { data: Buffer.from(text), sequence: '0' } };
+}
+
+const closeSession: Payload = { $case: 'closeSession', closeSession: { reason: 'exit', force: false } };
+
+function grpcError(code: number) {
+  return Object.assign(new Error('stream failed'), { code, details: 'stream failed' });
+}
+
+/**
+ * Each script is one connectTerminal call: payloads to deliver, then an
+ * optional error that drops the stream. A 'read' step pulls the next
+ * client message into `sent[call]`, like a server waiting for input.
+ */
+function createMockClient(scripts: Array<{ payloads: Array<Payload | 'read'>; error?: Error }>) {
+  const sent: AgentMessage[][] = [];
+  const client = {
+    connectTerminal: vi.fn().mockImplementation((reqs: AsyncIterable<AgentMessage>) => {
+      const received: AgentMessage[] = [];
+      sent.push(received);
+      const iterator = reqs[Symbol.asyncIterator]();
+      const script = scripts.shift() ?? { payloads: [] };
+      return (async function* () {
+        for (const step of script.payloads) {
+          if (step === 'read') {
+            received.push((await iterator.next()).value as AgentMessage);
+            continue;
+          }
+          yield { commandId: '', timestamp: undefined, payload: step } as ControlMessage;
+        }
+        if (script.error) throw script.error;
+      })();
+    }),
+    getOutput: vi.fn().mockResolvedValue({ data: Buffer.alloc(0), totalBytes: 0, hasMore: false }),
+  } as unknown as TerminalStreamingServiceClient;
+  return { client, sent };
+}
+
+function collect(stream: AttachStream): AttachStreamEvent[] {
+  const events: AttachStreamEvent[] = [];
+  stream.on((e) => events.push(e));
+  return events;
+}
+
+function outputOf(events: AttachStreamEvent[]): string {
+  return events
+    .filter((e): e is Extract<AttachStreamEvent, { type: 'output' }> => e.type === 'output')
+    .map((e) => e.data.toString())
+    .join('');
+}
+
+describe('AttachStream', () => {
+  it('ends on a stream error without a reconnect policy', async () => {
+    const { client } = createMockClient([
+      { payloads: [startSession, input('hello')], error: grpcError(Status.UNAVAILABLE) },
+    ]);
+    const stream = new AttachStream(client, 'sess-1');
+    const events = collect(stream);
+
+    await stream.connect();
+
+    expect(client.connectTerminal).toHaveBeenCalledTimes(1);
+    expect(events.map((e) => e.type)).toEqual(['sessionReady', 'output', 'error']);
+    expect(stream.state).toBe(StreamState.CLOSED);
+  });
+
+  it('reconnects and replays the output that followed the last bytes seen', async () => {
+    const { client } = createMockClient([
+      { payloads: [startSession, input('hello')], error: grpcError(Status.UNAVAILABLE) },
+      { payloads: [startSession, input('!'), closeSession] },
+    ]);
+    // Capped buffer: its offsets say nothing about how much we received
+    vi.mocked(client.getOutput)
+      .mockResolvedValueOnce({ data: Buffer.from('$ echo hel'), totalBytes: 16, hasMore: true })
+      .mockResolvedValueOnce({ data: Buffer.from('lo world'), totalBytes: 16, hasMore: false });
+
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { initialDelayMs: 0 } });
+    const events = collect(stream);
+
+    await stream.connect();
+
+    expect(client.connectTerminal).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(client.getOutput).mock.calls.map(([req]) => req.offset)).toEqual([0, 10]);
+    expect(outputOf(events)).toBe('hello world!');
+    expect(events.map((e) => e.type)).toEqual([
+      'sessionReady',
+      'output',
+      'reconnecting',
+      'output',
+      'reconnected',
+      'output',
+      'closed',
+    ]);
+    expect(events.find((e) => e.type === 'reconnected')).toEqual({
+      type: 'reconnected',
+      attempt: 1,
+      replayedBytes: 6,
+    });
+  });
+
+  it('replays nothing when the last bytes seen were trimmed from the buffer', async () => {
+    const { client } = createMockClient([
+      { payloads: [startSession, input('hello')], error: grpcError(Status.UNAVAILABLE) },
+      { payloads: [startSession, input('!'), closeSession] },
+    ]);
+    vi.mocked(client.getOutput).mockResolvedValueOnce({ data: Buffer.from('much later'), totalBytes: 10, hasMore: false });
+
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { initialDelayMs: 0 } });
+    const events = collect(stream);
+    await stream.connect();
+
+    expect(outputOf(events)).toBe('hello!');
+    expect(events.find((e) => e.type === 'reconnected')).toMatchObject({ replayedBytes: 0 });
+  });
+
+  it('re-registers with the current size and flushes input typed while reconnecting', async () => {
+    const { client, sent } = createMockClient([
+      { payloads: ['read', startSession, 'read'], error: grpcError(Status.UNAVAILABLE) },
+      { payloads: ['read', 'read', startSession, 'read', closeSession] },
+    ]);
+    const stream = new AttachStream(client, 'sess-1', { cols: 80, rows: 24, reconnect: { initialDelayMs: 0 } });
+    stream.on((e) => {
+      if (e.type === 'sessionReady') stream.sendResize(120, 40);
+      if (e.type === 'reconnecting') stream.sendInput('ls\n');
+    });
+
+    await stream.connect();
+
+    const [register, typed, resize] = sent[1]!;
+    expect(register!.payload).toMatchObject({
+      $case: 'register',
+      register: { initialSize: { cols: 120, rows: 40 } },
+    });
+    expect(typed!.payload).toMatchObject({ $case: 'output', output: { data: Buffer.from('ls\n') } });
+    expect(resize!.payload).toMatchObject({ $case: 'status', status: { reason: 'resize:120x40' } });
+  });
+
+  it('refuses input beyond queueMaxSize while reconnecting', async () => {
+    configure({ queueMaxSize: 2 });
+    const { client } = createMockClient([
+      { payloads: ['read', startSession], error: grpcError(Status.UNAVAILABLE) },
+    ]);
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { initialDelayMs: 0 } });
+    let overflow: unknown;
+    stream.on((e) => {
+      if (e.type !== 'reconnecting') return;
+      stream.sendInput('a');
+      stream.sendInput('b');
+      try {
+        stream.sendInput('c');
+      } catch (err) {
+        overflow = err;
+      }
+      stream.close();
+    });
+
+    try {
+      await stream.connect();
+    } finally {
+      resetSettings();
+    }
+
+    expect(overflow).toMatchObject({ message: expect.stringContaining('queue is full') });
+  });
+
+  it('does not reconnect on non-retryable errors', async () => {
+    const { client } = createMockClient([{ payloads: [], error: grpcError(Status.UNAUTHENTICATED) }]);
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { initialDelayMs: 0 } });
+    const events = collect(stream);
+
+    await stream.connect();
+
+    expect(client.connectTerminal).toHaveBeenCalledTimes(1);
+    expect(events.map((e) => e.type)).toEqual(['error']);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const drop = () => ({ payloads: [], error: grpcError(Status.UNAVAILABLE) });
+    const { client } = createMockClient([drop(), drop(), drop()]);
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { maxAttempts: 2, initialDelayMs: 0 } });
+    const events = collect(stream);
+
+    await stream.connect();
+
+    expect(client.connectTerminal).toHaveBeenCalledTimes(3);
+    expect(events.map((e) => e.type)).toEqual(['reconnecting', 'reconnecting', 'error']);
+  });
+
+  it('stops waiting to reconnect when closed', async () => {
+    const { client } = createMockClient([{ payloads: [], error: grpcError(Status.UNAVAILABLE) }]);
+    const stream = new AttachStream(client, 'sess-1', { reconnect: { initialDelayMs: 60_000 } });
+    stream.on((e) => {
+      if (e.type === 'reconnecting') stream.close();
+    });
+
+    await stream.connect();
+
+    expect(client.connectTerminal).toHaveBeenCalledTimes(1);
+    expect(stream.state).toBe(StreamState.CLOSED);
+  });
+});
@@ -0,0 +1,522 @@
+/**
+ * File Browser Component
+ *
+ * Remote directory browser with breadcrumbs, sorting, search,
+ * drag-and-drop moves, context menu actions and file previews
+ */
+
+'use client';
+
+import {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  type DragEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+  type ReactNode,
+} from 'react';
+import {
+  ArrowUp,
+  ArrowDown,
+  ChevronRight,
+  CornerLeftUp,
+  Eye,
+  EyeOff,
+  FolderPlus,
+  Loader2,
+  RefreshCw,
+  Search,
+  X,
+} from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { WsFileEntry } from '../../ws/generated/types';
+import { useFileBrowser } from './useFileBrowser';
+import { FileIcon } from './FileIcon';
+import { FilePreview } from './FilePreview';
+import { formatBytes, isDirectory, parentPath, pathSegments } from './utils';
+import type { FileBrowserProps, FileSortKey } from './types';
+
+/** Drag payload type, so drops from outside the browser are ignored */
+const DRAG_TYPE = 'application/x-cmdop-path';
+
+type Editing = { mode: 'rename'; path: string } | { mode: 'mkdir' } | null;
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  entry: WsFileEntry | null;
+}
+
+const COLUMNS: Array<{ key: FileSortKey; label: string; className: string }> = [
+  { key: 'name', label: 'Name', className: 'flex-1' },
+  { key: 'size', label: 'Size', className: 'w-20 text-right' },
+  { key: 'modified', label: 'Modified', className: 'w-40 text-right' },
+];
+
+export function FileBrowser({
+  sessionId,
+  initialPath,
+  pageSize,
+  showHidden,
+  previewMaxBytes,
+  live,
+  onOpenFile,
+  onPathChange,
+  className,
+}: FileBrowserProps) {
+  const browser = useFileBrowser({ sessionId, initialPath, pageSize, showHidden, live });
+  const [selected, setSelected] = useState<WsFileEntry | null>(null);
+  const [preview, setPreview] = useState<WsFileEntry | null>(null);
+  const [editing, setEditing] = useState<Editing>(null);
+  const [menu, setMenu] = useState<ContextMenuState | null>(null);
+  const [query, setQuery] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const draggedRef = useRef<WsFileEntry | null>(null);
+
+  // Notify on directory changes
+  const onPathChangeRef = useRef(onPathChange);
+  onPathChangeRef.current = onPathChange;
+  useEffect(() => {
+    onPathChangeRef.current?.(browser.path);
+    setSelected(null);
+    setPreview(null);
+  }, [browser.path]);
+
+  // Close the context menu on any outside click or Escape
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const onKey = (e: globalThis.KeyboardEvent) => e.key === 'Escape' && close();
+    window.addEventListener('click', close);
+    window.addEventListener('keydown', onKey);
+    return () => {
+      window.removeEventListener('click', close);
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [menu]);
+
+  const { navigate } = browser;
+  const open = useCallback(
+    (entry: WsFileEntry) => {
+      if (isDirectory(entry)) {
+        setQuery('');
+        navigate(entry.path);
+        return;
+      }
+      setSelected(entry);
+      setPreview(entry);
+      onOpenFile?.(entry);
+    },
+    [navigate, onOpenFile]
+  );
+
+  const toggleSort = (key: FileSortKey) => {
+    const { sort, setSort } = browser;
+    setSort({
+      key,
+      direction: sort.key === key && sort.direction === 'asc' ? 'desc' : 'asc',
+    });
+  };
+
+  const handleSearchKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') void browser.search(query);
+    if (e.key === 'Escape') {
+      setQuery('');
+      browser.clearSearch();
+    }
+  };
+
+  // Drag and drop: any entry onto a directory row or breadcrumb segment
+  const handleDragStart = (e: DragEvent, entry: WsFileEntry) => {
+    draggedRef.current = entry;
+    e.dataTransfer.setData(DRAG_TYPE, entry.path);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const dropProps = (directory: string) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(directory);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === directory ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const entry = draggedRef.current;
+      draggedRef.current = null;
+      if (entry) void browser.moveTo(entry, directory);
+    },
+  });
+
+  const openMenu = (e: MouseEvent, entry: WsFileEntry | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (entry) setSelected(entry);
+    setMenu({ x: e.clientX, y: e.clientY, entry });
+  };
+
+  const confirmRemove = (entry: WsFileEntry) => {
+    const what = isDirectory(entry) ? 'folder and everything in it' : 'file';
+    if (window.confirm(`Delete ${entry.name}? This ${what} will be removed.`)) {
+      void browser.remove(entry);
+    }
+  };
+
+  const rows = browser.searchResults ?? browser.entries;
+  const isSearching = browser.searchQuery !== null;
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0 text-sm', className)}>
+      {/* Toolbar */}
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b border-border">
+        <IconButton label="Up" onClick={browser.goUp} disabled={browser.path === '/'}>
+          <CornerLeftUp className="h-4 w-4" />
+        </IconButton>
+
+        <nav className="flex items-center flex-1 min-w-0 overflow-x-auto" aria-label="Path">
+          {pathSegments(browser.path).map((segment, index) => (
+            <span key={segment.path} className="flex items-center shrink-0">
+              {index > 1 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+              <button
+                type="button"
+                onClick={() => navigate(segment.path)}
+                {...dropProps(segment.path)}
+                className={cn(
+                  'px-1.5 py-0.5 rounded hover:bg-muted',
+                  dropTarget === segment.path && 'bg-blue-500/20'
+                )}
+              >
+                {segment.name}
+              </button>
+            </span>
+          ))}
+        </nav>
+
+        <div className="flex items-center gap-1 px-2 rounded border border-border">
+          <Search className="h-3 w-3 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleSearchKey}
+            placeholder="Search"
+            className="w-32 py-0.5 bg-transparent outline-none text-xs"
+          />
+          {isSearching && (
+            <button
+              type="button"
+              aria-label="Clear search"
+              onClick={() => {
+                setQuery('');
+                browser.clearSearch();
+              }}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+
+        <IconButton
+          label={browser.showHidden ? 'Hide hidden files' : 'Show hidden files'}
+          onClick={() => browser.setShowHidden(!browser.showHidden)}
+        >
+          {browser.showHidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+        </IconButton>
+        <IconButton label="New folder" onClick={() => setEditing({ mode: 'mkdir' })}>
+          <FolderPlus className="h-4 w-4" />
+        </IconButton>
+        <IconButton label="Refresh" onClick={browser.refresh}>
+          {browser.isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+        </IconButton>
+      </div>
+
+      {/* Error */}
+      {browser.error && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-red-500 border-b border-border">
+          <span className="flex-1">{browser.error}</span>
+          <button type="button" aria-label="Dismiss" onClick={browser.clearError}>
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {/* Listing */}
+        <div
+          className="flex flex-col flex-1 min-w-0 overflow-auto"
+          onContextMenu={(e) => openMenu(e, null)}
+          {...(isSearching ? {} : dropProps(browser.path))}
+        >
+          <div className="flex items-center gap-2 px-3 py-1 text-xs text-muted-foreground border-b border-border sticky top-0 bg-background">
+            <span className="w-4" />
+            {COLUMNS.map((column) => (
+              <button
+                key={column.key}
+                type="button"
+                onClick={() => toggleSort(column.key)}
+                className={cn('flex items-center gap-1 hover:text-foreground', column.className, column.key !== 'name' && 'justify-end')}
+              >
+                {column.label}
+                {browser.sort.key === column.key &&
+                  (browser.sort.direction === 'asc' ? (
+                    <ArrowUp className="h-3 w-3" />
+                  ) : (
+                    <ArrowDown className="h-3 w-3" />
+                  ))}
+              </button>
+            ))}
+          </div>
+
+          {editing?.mode === 'mkdir' && (
+            <div className="flex items-center gap-2 px-3 py-1">
+              <FolderPlus className="h-4 w-4 text-blue-500" />
+              <NameInput
+                initial=""
+                onSubmit={(name) => {
+                  setEditing(null);
+                  void browser.mkdir(name);
+                }}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          )}
+
+          {rows.map((entry) => {
+            const folder = isDirectory(entry);
+            const isRenaming = editing?.mode === 'rename' && editing.path === entry.path;
+            return (
+              <div
+                key={entry.path}
+                draggable={!isRenaming}
+                onDragStart={(e) => handleDragStart(e, entry)}
+                {...(folder ? dropProps(entry.path) : {})}
+                onClick={() => setSelected(entry)}
+                onDoubleClick={() => open(entry)}
+                onContextMenu={(e) => openMenu(e, entry)}
+                className={cn(
+                  'flex items-center gap-2 px-3 py-1 cursor-default select-none',
+                  selected?.path === entry.path ? 'bg-muted' : 'hover:bg-muted/50',
+                  dropTarget === entry.path && 'bg-blue-500/20',
+                  entry.is_hidden && 'opacity-60'
+                )}
+              >
+                <FileIcon entry={entry} />
+                <div className="flex-1 min-w-0">
+                  {isRenaming ? (
+                    <NameInput
+                      initial={entry.name}
+                      onSubmit={(name) => {
+                        setEditing(null);
+                        void browser.rename(entry, name);
+                      }}
+                      onCancel={() => setEditing(null)}
+                    />
+                  ) : (
+                    <div className="truncate" title={entry.symlink_target ? `${entry.path} → ${entry.symlink_target}` : entry.path}>
+                      {entry.name}
+                      {isSearching && (
+                        <span className="ml-2 text-xs text-muted-foreground">{parentPath(entry.path)}</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <span className="w-20 text-right text-xs text-muted-foreground">
+                  {folder ? '' : formatBytes(entry.size)}
+                </span>
+                <span className="w-40 text-right text-xs text-muted-foreground">
+                  {formatDate(entry.modified_at)}
+                </span>
+              </div>
+            );
+          })}
+
+          {rows.length === 0 && !browser.isLoading && (
+            <div className="p-6 text-center text-muted-foreground">
+              {isSearching ? 'No matches' : 'Empty folder'}
+            </div>
+          )}
+
+          {!isSearching && browser.hasMore && (
+            <button
+              type="button"
+              onClick={browser.loadMore}
+              disabled={browser.isLoading}
+              className="m-2 py-1 text-xs rounded border border-border hover:bg-muted"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+
+        {/* Preview */}
+        {preview && (
+          <FilePreview
+            sessionId={sessionId}
+            entry={preview}
+            maxBytes={previewMaxBytes}
+            onClose={() => setPreview(null)}
+            className="w-1/2"
+          />
+        )}
+      </div>
+
+      {/* Context menu */}
+      {menu && (
+        <div
+          role="menu"
+          className="fixed z-50 min-w-40 py-1 rounded-md border border-border bg-background shadow-md text-sm"
+          style={{ left: menu.x, top: menu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {menu.entry ? (
+            <EntryMenu
+              entry={menu.entry}
+              onOpen={() => open(menu.entry!)}
+              onPreview={() => setPreview(menu.entry)}
+              onRename={() => setEditing({ mode: 'rename', path: menu.entry!.path })}
+              onDelete={() => confirmRemove(menu.entry!)}
+              onDone={() => setMenu(null)}
+            />
+          ) : (
+            <>
+              <MenuItem onClick={() => { setMenu(null); setEditing({ mode: 'mkdir' }); }}>
+                New folder
+              </MenuItem>
+              <MenuItem onClick={() => { setMenu(null); browser.refresh(); }}>Refresh</MenuItem>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Parts
+// =============================================================================
+
+function IconButton({
+  label,
+  onClick,
+  disabled,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      onClick={onClick}
+      disabled={disabled}
+      className="p-1 rounded hover:bg-muted disabled:opacity-40"
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Actions for a right-clicked entry; every item closes the menu first */
+function EntryMenu({
+  entry,
+  onOpen,
+  onPreview,
+  onRename,
+  onDelete,
+  onDone,
+}: {
+  entry: WsFileEntry;
+  onOpen: () => void;
+  onPreview: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+}) {
+  const run = (action: () => void) => () => {
+    onDone();
+    action();
+  };
+
+  return (
+    <>
+      <MenuItem onClick={run(onOpen)}>Open</MenuItem>
+      {!isDirectory(entry) && <MenuItem onClick={run(onPreview)}>Preview</MenuItem>}
+      <MenuItem onClick={run(onRename)}>Rename</MenuItem>
+      <MenuItem onClick={run(() => void navigator.clipboard?.writeText(entry.path))}>
+        Copy path
+      </MenuItem>
+      <MenuItem className="text-red-500" onClick={run(onDelete)}>
+        Delete
+      </MenuItem>
+    </>
+  );
+}
+
+function MenuItem({
+  onClick,
+  className,
+  children,
+}: {
+  onClick: () => void;
+  className?: string;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      role="menuitem"
+      onClick={onClick}
+      className={cn('block w-full px-3 py-1 text-left hover:bg-muted', className)}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Inline name editor: Enter submits, Escape or blur cancels */
+function NameInput({
+  initial,
+  onSubmit,
+  onCancel,
+}: {
+  initial: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => {
+        // Select the name without its extension, like desktop file managers
+        const dot = initial.lastIndexOf('.');
+        e.currentTarget.setSelectionRange(0, dot > 0 ? dot : initial.length);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') onSubmit(value);
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={onCancel}
+      onClick={(e) => e.stopPropagation()}
+      className="w-full px-1 rounded border border-border bg-background outline-none"
+    />
+  );
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
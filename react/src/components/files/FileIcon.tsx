@@ -0,0 +1,93 @@
+/**
+ * File Icon Component
+ *
+ * Icon chosen by the agent's FileIconType classification
+ */
+
+'use client';
+
+import {
+  File,
+  FileCode,
+  FileText,
+  FileImage,
+  FileVideo,
+  FileAudio,
+  FileArchive,
+  FileSpreadsheet,
+  Folder,
+  FolderArchive,
+  FolderCog,
+  FolderDot,
+  FolderGit2,
+  FolderLock,
+  House,
+  Monitor,
+  Download,
+  Image,
+  Music,
+  Video,
+  AppWindow,
+  Library,
+  HardDrive,
+  Cloud,
+  Trash2,
+  Server,
+  Database,
+  type LucideIcon,
+} from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { WsFileIconType } from '../../ws/generated/types';
+import { isDirectory } from './utils';
+import type { FileIconProps } from './types';
+
+const ICONS: Partial<Record<WsFileIconType, LucideIcon>> = {
+  [WsFileIconType.FILE]: File,
+  [WsFileIconType.CODE]: FileCode,
+  [WsFileIconType.TEXT]: FileText,
+  [WsFileIconType.IMAGE]: FileImage,
+  [WsFileIconType.VIDEO]: FileVideo,
+  [WsFileIconType.AUDIO]: FileAudio,
+  [WsFileIconType.ARCHIVE]: FileArchive,
+  [WsFileIconType.DATA]: FileSpreadsheet,
+  [WsFileIconType.PDF]: FileText,
+  [WsFileIconType.FOLDER]: Folder,
+  [WsFileIconType.FOLDER_HOME]: House,
+  [WsFileIconType.FOLDER_DESKTOP]: Monitor,
+  [WsFileIconType.FOLDER_DOCUMENTS]: FileText,
+  [WsFileIconType.FOLDER_DOWNLOADS]: Download,
+  [WsFileIconType.FOLDER_PICTURES]: Image,
+  [WsFileIconType.FOLDER_MUSIC]: Music,
+  [WsFileIconType.FOLDER_VIDEOS]: Video,
+  [WsFileIconType.FOLDER_APPLICATIONS]: AppWindow,
+  [WsFileIconType.FOLDER_LIBRARY]: Library,
+  [WsFileIconType.FOLDER_SYSTEM]: FolderCog,
+  [WsFileIconType.FOLDER_DRIVE]: HardDrive,
+  [WsFileIconType.FOLDER_CLOUD]: Cloud,
+  [WsFileIconType.FOLDER_TRASH]: Trash2,
+  [WsFileIconType.FOLDER_HIDDEN]: FolderDot,
+  [WsFileIconType.FOLDER_CODE]: FolderGit2,
+  [WsFileIconType.FOLDER_SERVER]: Server,
+  [WsFileIconType.FOLDER_DATABASE]: Database,
+  [WsFileIconType.FOLDER_ARCHIVE]: FolderArchive,
+};
+
+export function FileIcon({ entry, className }: FileIconProps) {
+  const folder = isDirectory(entry);
+  const Icon =
+    (entry.icon_type !== undefined && ICONS[entry.icon_type]) || (folder ? Folder : File);
+
+  if (folder && !entry.is_readable) {
+    return <FolderLock className={cn('h-4 w-4 shrink-0 text-muted-foreground', className)} />;
+  }
+
+  return (
+    <Icon
+      className={cn(
+        'h-4 w-4 shrink-0',
+        folder ? 'text-blue-500' : 'text-muted-foreground',
+        className
+      )}
+    />
+  );
+}
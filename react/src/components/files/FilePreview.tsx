@@ -0,0 +1,191 @@
+/**
+ * File Preview Component
+ *
+ * Renders a file according to the agent's ViewerType classification
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { decodeBase64, decodeBase64Bytes } from '../../utils/base64';
+import { useFiles } from '../../hooks/useFiles';
+import { WsViewerType, type WsReadFileResult } from '../../ws/generated/types';
+import { FileIcon } from './FileIcon';
+import { formatBytes } from './utils';
+import type { FilePreviewProps } from './types';
+
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const HEX_MAX_BYTES = 4096;
+
+/** Viewers that need the whole file; a truncated read is useless to them */
+const WHOLE_FILE_VIEWERS = new Set<WsViewerType>([
+  WsViewerType.IMAGE,
+  WsViewerType.VIDEO,
+  WsViewerType.AUDIO,
+  WsViewerType.PDF,
+]);
+
+export function FilePreview({
+  sessionId,
+  entry,
+  maxBytes = DEFAULT_MAX_BYTES,
+  onClose,
+  className,
+}: FilePreviewProps) {
+  const { read } = useFiles({ sessionId });
+  const [result, setResult] = useState<WsReadFileResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const viewer = entry.viewer_type ?? WsViewerType.UNKNOWN;
+  const tooLarge = WHOLE_FILE_VIEWERS.has(viewer) && entry.size > maxBytes;
+  const skipRead =
+    tooLarge || viewer === WsViewerType.ARCHIVE || viewer === WsViewerType.UNKNOWN;
+
+  useEffect(() => {
+    if (skipRead) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    const length = viewer === WsViewerType.HEX ? Math.min(maxBytes, HEX_MAX_BYTES) : maxBytes;
+    read(entry.path, { length })
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) throw new Error(res.error ?? 'Cannot read file');
+        setResult(res);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [read, entry.path, viewer, maxBytes, skipRead]);
+
+  const body = useMemo<ReactNode>(() => {
+    if (tooLarge) {
+      return <Notice>Too large to preview ({formatBytes(entry.size)})</Notice>;
+    }
+    if (skipRead) {
+      return <Notice>No preview available</Notice>;
+    }
+    if (isLoading) {
+      return (
+        <Notice>
+          <Loader2 className="h-4 w-4 animate-spin" />
+        </Notice>
+      );
+    }
+    if (error) {
+      return <Notice className="text-red-500">{error}</Notice>;
+    }
+    if (!result) {
+      return null;
+    }
+    return renderContent(viewer, result, entry.mime_type ?? result.mime_type ?? undefined);
+  }, [tooLarge, skipRead, isLoading, error, result, viewer, entry.size, entry.mime_type]);
+
+  const truncated =
+    result?.total_size !== undefined &&
+    result.read_size !== undefined &&
+    result.read_size < result.total_size;
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0 border-l border-border', className)}>
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <FileIcon entry={entry} />
+        <span className="text-sm font-medium flex-1 truncate" title={entry.path}>
+          {entry.name}
+        </span>
+        <span className="text-xs text-muted-foreground">{formatBytes(entry.size)}</span>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded hover:bg-muted"
+            aria-label="Close preview"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">{body}</div>
+      {truncated && (
+        <div className="px-3 py-1 text-xs text-muted-foreground border-t border-border">
+          Showing first {formatBytes(result!.read_size!)} of {formatBytes(result!.total_size!)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function renderContent(viewer: WsViewerType, result: WsReadFileResult, mimeType?: string): ReactNode {
+  const content = result.content ?? '';
+  const dataUrl = `data:${mimeType ?? 'application/octet-stream'};base64,${content}`;
+
+  switch (viewer) {
+    case WsViewerType.IMAGE:
+      return <img src={dataUrl} alt="" className="max-w-full h-auto mx-auto p-3" />;
+    case WsViewerType.VIDEO:
+      return <video src={dataUrl} controls className="max-w-full mx-auto p-3" />;
+    case WsViewerType.AUDIO:
+      return <audio src={dataUrl} controls className="w-full p-3" />;
+    case WsViewerType.PDF:
+      return <object data={dataUrl} type="application/pdf" className="w-full h-full" />;
+    case WsViewerType.HEX:
+      return <Pre>{hexDump(decodeBase64Bytes(content))}</Pre>;
+    case WsViewerType.JSON:
+      return <Pre>{prettyJson(decodeBase64(content))}</Pre>;
+    default:
+      // CODE, TEXT, MARKDOWN, YAML, XML are shown as source
+      return <Pre>{decodeBase64(content)}</Pre>;
+  }
+}
+
+function Pre({ children }: { children: ReactNode }) {
+  return (
+    <pre className="p-3 text-xs font-mono whitespace-pre overflow-x-auto">{children}</pre>
+  );
+}
+
+function Notice({ children, className }: { children: ReactNode; className?: string }) {
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-center h-full p-6 text-sm text-muted-foreground',
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+function prettyJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Truncated or invalid JSON is shown as-is
+    return text;
+  }
+}
+
+/** `00000000  7f 45 4c 46 …  |.ELF…|` */
+function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, (b) => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,24 @@
+/**
+ * File Components
+ *
+ * Remote file browser UI on top of useFiles
+ */
+
+// Components
+export { FileBrowser } from './FileBrowser';
+export { FilePreview } from './FilePreview';
+export { FileIcon } from './FileIcon';
+
+// Hooks
+export { useFileBrowser } from './useFileBrowser';
+
+// Types
+export type {
+  FileSortKey,
+  FileSort,
+  FileBrowserProps,
+  FilePreviewProps,
+  FileIconProps,
+  UseFileBrowserOptions,
+  UseFileBrowserResult,
+} from './types';
@@ -0,0 +1,105 @@
+/**
+ * File Browser Component Types
+ */
+
+import type { WsFileEntry } from '../../ws/generated/types';
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+export type FileSortKey = 'name' | 'size' | 'modified' | 'type';
+
+export interface FileSort {
+  key: FileSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+export interface FileBrowserProps {
+  /** Terminal session UUID */
+  sessionId: string;
+  /** Directory shown first (the agent resolves `~`) */
+  initialPath?: string;
+  /** Entries fetched per page */
+  pageSize?: number;
+  /** Show hidden files initially */
+  showHidden?: boolean;
+  /** Largest file read for a preview, in bytes */
+  previewMaxBytes?: number;
+  /** Refresh on file change events */
+  live?: boolean;
+  /** Called when a file is opened (double click or context menu) */
+  onOpenFile?: (entry: WsFileEntry) => void;
+  /** Called after navigating to another directory */
+  onPathChange?: (path: string) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+export interface FilePreviewProps {
+  /** Terminal session UUID */
+  sessionId: string;
+  /** File to preview */
+  entry: WsFileEntry;
+  /** Largest file read, in bytes */
+  maxBytes?: number;
+  /** Called when the preview is closed */
+  onClose?: () => void;
+  className?: string;
+}
+
+export interface FileIconProps {
+  entry: WsFileEntry;
+  className?: string;
+}
+
+// =============================================================================
+// Hook Types
+// =============================================================================
+
+export interface UseFileBrowserOptions {
+  /** Terminal session UUID */
+  sessionId: string;
+  /** Directory shown first */
+  initialPath?: string;
+  /** Entries fetched per page */
+  pageSize?: number;
+  /** Show hidden files initially */
+  showHidden?: boolean;
+  /** Refresh on file change events */
+  live?: boolean;
+}
+
+export interface UseFileBrowserResult {
+  /** Current directory, as resolved by the agent */
+  path: string;
+  /** Loaded entries of the current directory, sorted */
+  entries: WsFileEntry[];
+  /** Whether another page can be loaded */
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+  sort: FileSort;
+  setSort: (sort: FileSort) => void;
+  showHidden: boolean;
+  setShowHidden: (show: boolean) => void;
+  /** Active search query, null when listing */
+  searchQuery: string | null;
+  /** Search matches, null when listing */
+  searchResults: WsFileEntry[] | null;
+  navigate: (path: string) => void;
+  goUp: () => void;
+  refresh: () => void;
+  loadMore: () => void;
+  search: (query: string) => Promise<void>;
+  clearSearch: () => void;
+  rename: (entry: WsFileEntry, newName: string) => Promise<void>;
+  moveTo: (entry: WsFileEntry, directory: string) => Promise<void>;
+  remove: (entry: WsFileEntry) => Promise<void>;
+  mkdir: (name: string) => Promise<void>;
+  clearError: () => void;
+}
@@ -0,0 +1,257 @@
+/**
+ * useFileBrowser - Directory listing state for FileBrowser
+ *
+ * Wraps useFiles with navigation, pagination, sorting, search and
+ * live refresh from the session's file change events.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useWebSocket, useSubscription } from '../../ws/index';
+import { useFiles } from '../../hooks/useFiles';
+import { fileChangesChannel } from '../../hooks/useFileChanges';
+import type { WsFileEntry } from '../../ws/generated/types';
+import type { WsFileChangesEvent } from '../../ws/generated/subscriptions';
+import { affectsDirectory, isDirectory, joinPath, parentPath, sortEntries } from './utils';
+import type { FileSort, UseFileBrowserOptions, UseFileBrowserResult } from './types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const SEARCH_MAX_RESULTS = 200;
+/** Change events arrive in bursts (e.g. git checkout); refresh once per burst */
+const REFRESH_DEBOUNCE_MS = 300;
+
+export function useFileBrowser({
+  sessionId,
+  initialPath = '~',
+  pageSize = DEFAULT_PAGE_SIZE,
+  showHidden: initialShowHidden = false,
+  live = true,
+}: UseFileBrowserOptions): UseFileBrowserResult {
+  const { isConnected } = useWebSocket();
+  const files = useFiles({ sessionId });
+
+  const [path, setPath] = useState(initialPath);
+  const [rawEntries, setRawEntries] = useState<WsFileEntry[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<FileSort>({ key: 'name', direction: 'asc' });
+  const [showHidden, setShowHidden] = useState(initialShowHidden);
+  const [searchQuery, setSearchQuery] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<WsFileEntry[] | null>(null);
+
+  // Latest request wins; responses to older ones are dropped
+  const requestRef = useRef(0);
+  const pathRef = useRef(initialPath);
+  const loadedCountRef = useRef(0);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const reportError = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : String(err));
+  }, []);
+
+  const { list } = files;
+  const load = useCallback(
+    async (target: string, options: { pageToken?: string; pageSize?: number } = {}) => {
+      const request = ++requestRef.current;
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await list(target, {
+          pageSize: options.pageSize ?? pageSize,
+          pageToken: options.pageToken,
+          includeHidden: showHidden,
+        });
+        if (request !== requestRef.current) return;
+        if (!result.success) throw new Error(result.error ?? `Cannot list ${target}`);
+
+        const resolved = result.current_path || target;
+        pathRef.current = resolved;
+        setPath(resolved);
+        setRawEntries((prev) => {
+          const next = options.pageToken ? [...prev, ...(result.entries ?? [])] : (result.entries ?? []);
+          loadedCountRef.current = next.length;
+          return next;
+        });
+        setNextPageToken(result.has_more ? result.next_page_token : undefined);
+      } catch (err) {
+        if (request === requestRef.current) reportError(err);
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [list, pageSize, showHidden, reportError]
+  );
+
+  // Initial load, and reload when the connection or hidden toggle changes
+  useEffect(() => {
+    if (!isConnected) return;
+    void load(pathRef.current);
+  }, [isConnected, load]);
+
+  const navigate = useCallback(
+    (target: string) => {
+      setSearchQuery(null);
+      setSearchResults(null);
+      void load(target);
+    },
+    [load]
+  );
+
+  const goUp = useCallback(() => navigate(parentPath(pathRef.current)), [navigate]);
+
+  // Re-fetch everything loaded so far in one page, keeping the scroll position meaningful
+  const refresh = useCallback(() => {
+    void load(pathRef.current, { pageSize: Math.max(pageSize, loadedCountRef.current) });
+  }, [load, pageSize]);
+
+  const loadMore = useCallback(() => {
+    if (!nextPageToken) return;
+    void load(pathRef.current, { pageToken: nextPageToken });
+  }, [load, nextPageToken]);
+
+  // Live refresh
+  useSubscription<WsFileChangesEvent>({
+    channel: fileChangesChannel(sessionId),
+    enabled: live && !!sessionId,
+    onData: (event) => {
+      if (!affectsDirectory(event, pathRef.current)) return;
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(() => {
+        refreshTimerRef.current = null;
+        refresh();
+      }, REFRESH_DEBOUNCE_MS);
+    },
+  });
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    };
+  }, []);
+
+  const { search: searchFiles } = files;
+  const search = useCallback(
+    async (query: string) => {
+      const trimmed = query.trim();
+      if (!trimmed) {
+        setSearchQuery(null);
+        setSearchResults(null);
+        return;
+      }
+      setSearchQuery(trimmed);
+      setIsLoading(true);
+      setError(null);
+      try {
+        // Plain text means "name contains"; anything with glob characters is used as-is
+        const pattern = /[*?[]/.test(trimmed) ? trimmed : `*${trimmed}*`;
+        const result = await searchFiles(pathRef.current, {
+          filenamePattern: pattern,
+          maxResults: SEARCH_MAX_RESULTS,
+        });
+        if (!result.success) throw new Error(result.error ?? 'Search failed');
+        setSearchResults((result.matches ?? []).map((match) => match.entry));
+      } catch (err) {
+        reportError(err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [searchFiles, reportError]
+  );
+
+  const clearSearch = useCallback(() => {
+    setSearchQuery(null);
+    setSearchResults(null);
+  }, []);
+
+  // Mutations report failures through `error` and refresh the listing on success
+  const mutate = useCallback(
+    async (operation: () => Promise<{ success: boolean; error?: string | null }>) => {
+      try {
+        const result = await operation();
+        if (!result.success) throw new Error(result.error ?? 'Operation failed');
+        refresh();
+      } catch (err) {
+        reportError(err);
+      }
+    },
+    [refresh, reportError]
+  );
+
+  const { move, remove: removeFile, mkdir: makeDirectory } = files;
+
+  const rename = useCallback(
+    async (entry: WsFileEntry, newName: string) => {
+      const name = newName.trim();
+      if (!name || name === entry.name) return;
+      await mutate(() => move(entry.path, joinPath(parentPath(entry.path), name)));
+    },
+    [move, mutate]
+  );
+
+  const moveTo = useCallback(
+    async (entry: WsFileEntry, directory: string) => {
+      // Dropping onto its own folder, itself, or a descendant is a no-op
+      if (
+        directory === parentPath(entry.path) ||
+        directory === entry.path ||
+        directory.startsWith(`${entry.path}/`)
+      ) {
+        return;
+      }
+      await mutate(() => move(entry.path, joinPath(directory, entry.name)));
+    },
+    [move, mutate]
+  );
+
+  const remove = useCallback(
+    async (entry: WsFileEntry) => {
+      await mutate(() => removeFile(entry.path, isDirectory(entry)));
+    },
+    [removeFile, mutate]
+  );
+
+  const mkdir = useCallback(
+    async (name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      await mutate(() => makeDirectory(joinPath(pathRef.current, trimmed), false));
+    },
+    [makeDirectory, mutate]
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const entries = useMemo(() => sortEntries(rawEntries, sort), [rawEntries, sort]);
+  const sortedResults = useMemo(
+    () => (searchResults ? sortEntries(searchResults, sort) : null),
+    [searchResults, sort]
+  );
+
+  return {
+    path,
+    entries,
+    hasMore: !!nextPageToken,
+    isLoading,
+    error,
+    sort,
+    setSort,
+    showHidden,
+    setShowHidden,
+    searchQuery,
+    searchResults: sortedResults,
+    navigate,
+    goUp,
+    refresh,
+    loadMore,
+    search,
+    clearSearch,
+    rename,
+    moveTo,
+    remove,
+    mkdir,
+    clearError,
+  };
+}
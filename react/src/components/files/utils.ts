@@ -0,0 +1,94 @@
+/**
+ * File browser helpers
+ *
+ * Remote paths are POSIX-style; Windows agents report forward slashes too.
+ */
+
+import type { WsFileEntry } from '../../ws/generated/types';
+import type { WsFileChangesEvent } from '../../ws/generated/subscriptions';
+import type { FileSort } from './types';
+
+export function isDirectory(entry: WsFileEntry): boolean {
+  return entry.type === 'directory';
+}
+
+export function joinPath(dir: string, name: string): string {
+  return dir.endsWith('/') ? `${dir}${name}` : `${dir}/${name}`;
+}
+
+export function parentPath(path: string): string {
+  const trimmed = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  const index = trimmed.lastIndexOf('/');
+  if (index <= 0) return '/';
+  return trimmed.slice(0, index);
+}
+
+/**
+ * Breadcrumb segments: `/home/me` → `/`, `/home`, `/home/me`
+ */
+export function pathSegments(path: string): Array<{ name: string; path: string }> {
+  const segments = [{ name: '/', path: '/' }];
+  let current = '';
+  for (const part of path.split('/').filter(Boolean)) {
+    current = `${current}/${part}`;
+    segments.push({ name: part, path: current });
+  }
+  return segments;
+}
+
+/**
+ * Directories first, then by the chosen key; ties fall back to name.
+ */
+export function sortEntries(entries: WsFileEntry[], sort: FileSort): WsFileEntry[] {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const byName = (a: WsFileEntry, b: WsFileEntry) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+  return [...entries].sort((a, b) => {
+    const dirs = Number(isDirectory(b)) - Number(isDirectory(a));
+    if (dirs !== 0) return dirs;
+
+    let result = 0;
+    switch (sort.key) {
+      case 'size':
+        result = a.size - b.size;
+        break;
+      case 'modified':
+        result = Date.parse(a.modified_at) - Date.parse(b.modified_at);
+        break;
+      case 'type':
+        result = extension(a.name).localeCompare(extension(b.name));
+        break;
+    }
+    return (result || byName(a, b)) * factor;
+  });
+}
+
+/**
+ * Whether a change event touches the listing of `dir`
+ */
+export function affectsDirectory(event: WsFileChangesEvent, dir: string): boolean {
+  switch (event.type) {
+    case 'file_created':
+    case 'file_modified':
+      return parentPath(event.item.path) === dir;
+    case 'file_moved':
+      return parentPath(event.item.path) === dir || parentPath(event.old_path) === dir;
+    case 'file_deleted':
+      return parentPath(event.path) === dir;
+    case 'sync_complete':
+      return true;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function extension(name: string): string {
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+}
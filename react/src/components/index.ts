@@ -3,3 +3,4 @@
  */
 
 export * from './chat/index';
+export * from './files/index';
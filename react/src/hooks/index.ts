@@ -32,11 +32,41 @@ export {
   type ReadOptions,
   type WriteOptions,
   type SearchOptions,
+  type UploadOptions,
+  type DownloadOptions,
 } from './useFiles';
 
+export {
+  useFileChanges,
+  fileChangesChannel,
+  type UseFileChangesOptions,
+  type UseFileChangesResult,
+} from './useFileChanges';
+
+export {
+  useTransfers,
+  type UseTransfersOptions,
+  type UseTransfersResult,
+  type Transfer,
+  type TransferDirection,
+  type TransferState,
+  type TransferHandle,
+} from './useTransfers';
+
 export {
   useSessions,
   type UseSessionsOptions,
   type UseSessionsResult,
   type CreateSessionOptions,
 } from './useSessions';
+
+export {
+  useBrowser,
+  type UseBrowserOptions,
+  type UseBrowserResult,
+  type BrowserField,
+  type BrowserSchema,
+  type BrowserExtractOptions,
+  type BrowserExtractResult,
+  type BrowserRegexOptions,
+} from './useBrowser';
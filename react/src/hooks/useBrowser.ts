@@ -0,0 +1,288 @@
+/**
+ * useBrowser hook - Browser automation via WebSocket RPC
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import { useWebSocket } from '../ws/index';
+import { APIClient } from '../ws/generated/index';
+import type {
+  WsBrowserValidateSelectorsResult,
+  WsBrowserExtractDataResult,
+  WsBrowserExecuteScriptResult,
+  WsBrowserExtractRegexResult,
+} from '../ws/generated/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseBrowserOptions {
+  /**
+   * Session ID of the agent running the browser
+   */
+  sessionId: string;
+  /**
+   * Browser session on that agent
+   */
+  browserSessionId: string;
+}
+
+/**
+ * Field extractor: a CSS selector (relative to the item) for its text, or an
+ * object reading an attribute and/or applying a regex
+ */
+export type BrowserField = string | { selector: string; attr?: string; regex?: string };
+
+/**
+ * Anything with Zod's `safeParse`, e.g. `z.object({...})`
+ */
+export interface BrowserSchema<T> {
+  safeParse: (
+    data: unknown
+  ) => { success: true; data: T } | { success: false; error: { message: string } };
+}
+
+export interface BrowserExtractOptions {
+  /**
+   * Max items to extract
+   */
+  limit?: number;
+}
+
+export interface BrowserRegexOptions {
+  /**
+   * Match against the page HTML or its visible text
+   * @default 'html'
+   */
+  source?: 'html' | 'text';
+  /**
+   * Max matches
+   */
+  limit?: number;
+}
+
+export interface BrowserExtractResult<T> {
+  items: T[];
+  count: number;
+}
+
+export interface UseBrowserResult {
+  /**
+   * Check item and field selectors against the current page
+   */
+  validateSelectors: (
+    item: string,
+    fields: Record<string, string>
+  ) => Promise<WsBrowserValidateSelectorsResult>;
+  /**
+   * Extract one record per element matching `item`
+   */
+  extractData: (
+    item: string,
+    fields: Record<string, BrowserField>,
+    options?: BrowserExtractOptions
+  ) => Promise<WsBrowserExtractDataResult>;
+  /**
+   * Extract records and validate each one against a schema; throws on a mismatch
+   */
+  extract: <T>(
+    item: string,
+    fields: Record<string, BrowserField>,
+    schema: BrowserSchema<T>,
+    options?: BrowserExtractOptions
+  ) => Promise<BrowserExtractResult<T>>;
+  /**
+   * Evaluate JavaScript in the page
+   */
+  executeScript: (script: string) => Promise<WsBrowserExecuteScriptResult>;
+  /**
+   * Run a regular expression over the page
+   */
+  extractRegex: (pattern: string, options?: BrowserRegexOptions) => Promise<WsBrowserExtractRegexResult>;
+  /**
+   * Loading state
+   */
+  isLoading: boolean;
+  /**
+   * Last error
+   */
+  error: Error | null;
+  /**
+   * Clear error
+   */
+  clearError: () => void;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Hook for scraping a browser session on the agent
+ *
+ * @example
+ * ```tsx
+ * const Product = z.object({ title: z.string(), price: z.string() });
+ *
+ * function Products({ sessionId }: { sessionId: string }) {
+ *   const { extract, isLoading, error } = useBrowser({ sessionId, browserSessionId: 'browser-1' });
+ *   const [items, setItems] = useState<z.infer<typeof Product>[]>([]);
+ *
+ *   const scrape = async () => {
+ *     const result = await extract('.product', { title: 'h2', price: '.price' }, Product);
+ *     setItems(result.items);
+ *   };
+ *
+ *   return <button onClick={scrape} disabled={isLoading}>Scrape</button>;
+ * }
+ * ```
+ */
+export function useBrowser({ sessionId, browserSessionId }: UseBrowserOptions): UseBrowserResult {
+  const { client, isConnected } = useWebSocket();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const apiClient = useMemo(() => {
+    if (!client) return null;
+    return new APIClient(client);
+  }, [client]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  // Helper for wrapping operations; `success: false` results become errors
+  const wrapOperation = useCallback(
+    async <T extends { success: boolean; error?: string }>(
+      operation: () => Promise<T>,
+      failure: string
+    ): Promise<T> => {
+      if (!apiClient || !isConnected) {
+        throw new Error('WebSocket not connected');
+      }
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await operation();
+        if (!result.success) {
+          throw new Error(result.error || failure);
+        }
+        return result;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [apiClient, isConnected]
+  );
+
+  const validateSelectors = useCallback(
+    async (item: string, fields: Record<string, string>): Promise<WsBrowserValidateSelectorsResult> => {
+      return wrapOperation(
+        () =>
+          apiClient!.browserValidateSelectors({
+            session_id: sessionId,
+            browser_session_id: browserSessionId,
+            item,
+            fields,
+          }),
+        'Selector validation failed'
+      );
+    },
+    [apiClient, sessionId, browserSessionId, wrapOperation]
+  );
+
+  const extractData = useCallback(
+    async (
+      item: string,
+      fields: Record<string, BrowserField>,
+      options?: BrowserExtractOptions
+    ): Promise<WsBrowserExtractDataResult> => {
+      return wrapOperation(
+        () =>
+          apiClient!.browserExtractData({
+            session_id: sessionId,
+            browser_session_id: browserSessionId,
+            item,
+            fields,
+            limit: options?.limit,
+          }),
+        'Browser extraction failed'
+      );
+    },
+    [apiClient, sessionId, browserSessionId, wrapOperation]
+  );
+
+  // Mirrors ExtractService.runSchema in @cmdop/node: validate, then type by the schema
+  const extract = useCallback(
+    async <T>(
+      item: string,
+      fields: Record<string, BrowserField>,
+      schema: BrowserSchema<T>,
+      options?: BrowserExtractOptions
+    ): Promise<BrowserExtractResult<T>> => {
+      const result = await extractData(item, fields, options);
+      const records = result.items ?? [];
+
+      const items: T[] = [];
+      for (const [index, record] of records.entries()) {
+        const parsed = schema.safeParse(record);
+        if (!parsed.success) {
+          const error = new Error(`Extracted item ${index} does not match schema: ${parsed.error.message}`);
+          setError(error);
+          throw error;
+        }
+        items.push(parsed.data);
+      }
+
+      return { items, count: result.count ?? items.length };
+    },
+    [extractData]
+  );
+
+  const executeScript = useCallback(
+    async (script: string): Promise<WsBrowserExecuteScriptResult> => {
+      return wrapOperation(
+        () =>
+          apiClient!.browserExecuteScript({
+            session_id: sessionId,
+            browser_session_id: browserSessionId,
+            script,
+          }),
+        'Script execution failed'
+      );
+    },
+    [apiClient, sessionId, browserSessionId, wrapOperation]
+  );
+
+  const extractRegex = useCallback(
+    async (pattern: string, options?: BrowserRegexOptions): Promise<WsBrowserExtractRegexResult> => {
+      return wrapOperation(
+        () =>
+          apiClient!.browserExtractRegex({
+            session_id: sessionId,
+            browser_session_id: browserSessionId,
+            pattern,
+            source: options?.source,
+            limit: options?.limit,
+          }),
+        'Regex extraction failed'
+      );
+    },
+    [apiClient, sessionId, browserSessionId, wrapOperation]
+  );
+
+  return {
+    validateSelectors,
+    extractData,
+    extract,
+    executeScript,
+    extractRegex,
+    isLoading,
+    error,
+    clearError,
+  };
+}
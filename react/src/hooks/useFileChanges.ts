@@ -0,0 +1,315 @@
+/**
+ * useFileChanges hook - Live directory model via file change events
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useWebSocket, useSubscription } from '../ws/index';
+import { APIClient } from '../ws/generated/index';
+import type { WsFileEntry } from '../ws/generated/types';
+import type { WsFileChangeItem, WsFileChangesEvent } from '../ws/generated/subscriptions';
+import { applyChanges, isWithin, removeTree } from '../utils/fileChanges';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseFileChangesOptions {
+  /**
+   * Session ID for file operations
+   */
+  sessionId: string;
+  /**
+   * Root directory to mirror
+   */
+  path: string;
+  /**
+   * Enable syncing
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Max changes per `file.get_changes` call. The initial load must fit in
+   * one call, otherwise the hook fails with an error; a catch-up that does
+   * not fit reloads the directory.
+   * @default 1000
+   */
+  limit?: number;
+}
+
+export interface UseFileChangesResult {
+  /**
+   * Every known entry under the root, sorted by path
+   */
+  entries: WsFileEntry[];
+  /**
+   * Look up an entry by path
+   */
+  get: (path: string) => WsFileEntry | undefined;
+  /**
+   * Direct children of a directory, for rendering trees
+   */
+  children: (dir: string) => WsFileEntry[];
+  /**
+   * Sequence number the model is current to
+   */
+  sequence: number | null;
+  /**
+   * Whether the initial load has completed
+   */
+  isReady: boolean;
+  /**
+   * Whether a load or catch-up is in flight
+   */
+  isSyncing: boolean;
+  /**
+   * Last sync error
+   */
+  error: Error | null;
+  /**
+   * Drop the model and reload it from scratch
+   */
+  resync: () => Promise<void>;
+}
+
+/**
+ * Channel carrying WsFileChangesEvent for a session
+ */
+export function fileChangesChannel(sessionId: string): string {
+  return `files#${sessionId}#changes`;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Hook keeping an always-current model of a remote directory
+ *
+ * The first sync reads every change since sequence 0, which the agent
+ * answers with the full listing. After that, live events are applied as they
+ * arrive, and a reconnect catches up from the last sequence instead of
+ * reloading. If the agent's sequence goes backwards (restarted with a fresh
+ * journal), or more changes are pending than one `limit`-sized call returns,
+ * the model is rebuilt.
+ *
+ * @example
+ * ```tsx
+ * function Tree({ sessionId }: { sessionId: string }) {
+ *   const { children, isReady } = useFileChanges({ sessionId, path: '/srv/app' });
+ *   if (!isReady) return <div>Loading...</div>;
+ *   return (
+ *     <ul>
+ *       {children('/srv/app').map((e) => <li key={e.path}>{e.name}</li>)}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useFileChanges(options: UseFileChangesOptions): UseFileChangesResult {
+  const { sessionId, path, enabled = true, limit = 1000 } = options;
+  const { client, isConnected } = useWebSocket();
+
+  const [entries, setEntries] = useState<WsFileEntry[]>([]);
+  const [sequence, setSequence] = useState<number | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const entriesRef = useRef(new Map<string, WsFileEntry>());
+  const sequenceRef = useRef<number | null>(null);
+  // Events that arrive mid-sync are replayed on top of the synced model
+  const syncingRef = useRef(false);
+  const queuedRef = useRef<WsFileChangesEvent[]>([]);
+  const generationRef = useRef(0);
+
+  const apiClient = useMemo(() => {
+    if (!client) return null;
+    return new APIClient(client);
+  }, [client]);
+
+  const root = normalizePath(path);
+  const isActive = enabled && !!sessionId && !!apiClient && isConnected;
+
+  // Publish a sorted snapshot of the mutable model
+  const commit = useCallback(
+    () => setEntries([...entriesRef.current.values()].sort((a, b) => a.path.localeCompare(b.path))),
+    []
+  );
+
+  const setAnchor = useCallback((value: number) => {
+    sequenceRef.current = value;
+    setSequence(value);
+  }, []);
+
+  const applyEvent = useCallback(
+    (event: WsFileChangesEvent): boolean => {
+      const entries = entriesRef.current;
+      switch (event.type) {
+        case 'file_created':
+        case 'file_modified':
+          if (!isWithin(event.item.path, root)) return false;
+          entries.set(event.item.path, fromChangeItem(event.item, entries.get(event.item.path)));
+          return true;
+        case 'file_deleted':
+          return removeTree(entries, event.path);
+        case 'file_moved': {
+          const previous = entries.get(event.old_path);
+          const removed = removeTree(entries, event.old_path);
+          if (!isWithin(event.item.path, root)) return removed;
+          entries.set(event.item.path, fromChangeItem(event.item, previous));
+          return true;
+        }
+        case 'sync_complete':
+          if (event.sequence > (sequenceRef.current ?? -1)) setAnchor(event.sequence);
+          return false;
+      }
+    },
+    [root, setAnchor]
+  );
+
+  /**
+   * Read the changes since `since` and apply them. Returns the sequence the
+   * model is current to, -1 if it must be rebuilt, or null if a newer sync
+   * took over.
+   */
+  const fetchChanges = useCallback(
+    async (since: number, generation: number): Promise<number | null> => {
+      const result = await apiClient!.fileGetChanges({
+        session_id: sessionId,
+        path: root,
+        since_sequence: since,
+        limit,
+      });
+      if (generation !== generationRef.current) return null;
+      if (result.success === false) {
+        throw new Error(result.error ?? 'Failed to get file changes');
+      }
+      return applyChanges(entriesRef.current, result, since, root) ?? -1;
+    },
+    [apiClient, sessionId, root, limit]
+  );
+
+  const sync = useCallback(
+    async (full: boolean): Promise<void> => {
+      if (!isActive) return;
+      const generation = ++generationRef.current;
+      syncingRef.current = true;
+      setIsSyncing(true);
+
+      try {
+        let since = full ? null : sequenceRef.current;
+        let reached: number | null = null;
+
+        if (since !== null) {
+          reached = await fetchChanges(since, generation);
+          if (reached === -1) since = null;
+        }
+        if (since === null) {
+          entriesRef.current = new Map();
+          reached = await fetchChanges(0, generation);
+          if (reached === -1) {
+            throw new Error(`${root} has more than ${limit} entries; raise the limit option to sync it`);
+          }
+        }
+        if (reached === null || generation !== generationRef.current) return;
+
+        setAnchor(reached);
+        for (const event of queuedRef.current) applyEvent(event);
+        queuedRef.current = [];
+        setIsReady(true);
+        setError(null);
+        commit();
+      } catch (err) {
+        if (generation === generationRef.current) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      } finally {
+        if (generation === generationRef.current) {
+          syncingRef.current = false;
+          setIsSyncing(false);
+        }
+      }
+    },
+    [isActive, fetchChanges, setAnchor, applyEvent, commit]
+  );
+
+  // New root or session: start over
+  useEffect(() => {
+    generationRef.current++;
+    entriesRef.current = new Map();
+    sequenceRef.current = null;
+    queuedRef.current = [];
+    setSequence(null);
+    setIsReady(false);
+    commit();
+  }, [sessionId, root, commit]);
+
+  // Initial load, and catch-up after every reconnect
+  useEffect(() => {
+    if (!isActive) return;
+    void sync(false);
+  }, [isActive, sync]);
+
+  useSubscription<WsFileChangesEvent>({
+    channel: fileChangesChannel(sessionId),
+    enabled: enabled && !!sessionId,
+    onData: (event) => {
+      if (syncingRef.current) {
+        queuedRef.current.push(event);
+        return;
+      }
+      if (applyEvent(event)) commit();
+    },
+    onError: (err) => setError(err),
+  });
+
+  const get = useCallback((p: string) => entriesRef.current.get(normalizePath(p)), []);
+
+  const children = useCallback(
+    (dir: string) => {
+      const parent = normalizePath(dir);
+      return entries.filter((entry) => parentOf(entry.path) === parent);
+    },
+    [entries]
+  );
+
+  const resync = useCallback(() => sync(true), [sync]);
+
+  return { entries, get, children, sequence, isReady, isSyncing, error, resync };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? '/' : path.slice(0, index);
+}
+
+/**
+ * Live events carry a slimmer item than listings; keep what the model
+ * already knew about the file and fill in the rest.
+ */
+function fromChangeItem(item: WsFileChangeItem, previous?: WsFileEntry): WsFileEntry {
+  return {
+    permissions: '',
+    owner: '',
+    is_readable: true,
+    is_writable: true,
+    ...previous,
+    name: item.name,
+    path: item.path,
+    type: item.is_directory ? 'directory' : 'file',
+    size: item.size ?? previous?.size ?? 0,
+    modified_at: item.modified_at ? String(item.modified_at) : (previous?.modified_at ?? ''),
+    mime_type: item.mime_type ?? previous?.mime_type,
+    is_hidden: item.name.startsWith('.'),
+  };
+}
@@ -7,7 +7,8 @@
 import { useState, useCallback, useMemo } from 'react';
 import { useWebSocket } from '../ws/index';
 import { APIClient } from '../ws/generated/index';
-import { encodeBase64 } from '../utils/base64';
+import { encodeBase64, encodeBase64Bytes, decodeBase64Bytes } from '../utils/base64';
+import { TransferTask, type TransferHandle } from './useTransfers';
 import type {
   WsListDirectoryParams,
   WsListDirectoryResult,
@@ -72,6 +73,14 @@ export interface UseFilesResult {
    * Get file/directory info
    */
   getInfo: (path: string) => Promise<WsGetFileInfoResult>;
+  /**
+   * Upload a browser File or Blob (binary-safe); tracked by useTransfers
+   */
+  upload: (file: Blob, path: string, options?: UploadOptions) => TransferHandle<WsWriteFileResult>;
+  /**
+   * Download a file in chunks as a Blob; tracked by useTransfers
+   */
+  download: (path: string, options?: DownloadOptions) => TransferHandle<Blob>;
   /**
    * Loading state
    */
@@ -103,6 +112,29 @@ export interface WriteOptions {
   createParents?: boolean;
 }
 
+export interface UploadOptions {
+  overwrite?: boolean;
+  createParents?: boolean;
+  /**
+   * Largest accepted file. `file.write` has no offset, so an upload is a
+   * single RPC message; raise this only if your server accepts larger ones.
+   * @default 4 MiB
+   */
+  maxBytes?: number;
+}
+
+export interface DownloadOptions {
+  /**
+   * Bytes per `file.read` call
+   * @default 256 KiB
+   */
+  chunkSize?: number;
+  /**
+   * Blob type; defaults to the MIME type reported by the agent
+   */
+  mimeType?: string;
+}
+
 export interface SearchOptions {
   filenamePattern?: string;
   contentPattern?: string;
@@ -111,6 +143,15 @@ export interface SearchOptions {
   maxDepth?: number;
 }
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+const DEFAULT_MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+/** Multiple of 3, so base64 of consecutive slices concatenates cleanly */
+const ENCODE_SLICE_BYTES = 3 * 64 * 1024;
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
@@ -265,6 +306,94 @@ export function useFiles({ sessionId }: UseFilesOptions): UseFilesResult {
     [apiClient, sessionId, wrapOperation]
   );
 
+  const upload = useCallback(
+    (file: Blob, path: string, options: UploadOptions = {}): TransferHandle<WsWriteFileResult> => {
+      const maxBytes = options.maxBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+      const task = new TransferTask({ direction: 'upload', sessionId, path, totalBytes: file.size });
+
+      const run = async (): Promise<WsWriteFileResult> => {
+        if (file.size > maxBytes) {
+          throw new Error(`File is ${file.size} bytes; uploads are limited to ${maxBytes} bytes`);
+        }
+        if (!apiClient || !isConnected) {
+          throw new Error('WebSocket not connected');
+        }
+
+        // Encode slice by slice so pause and cancel apply until the write starts
+        let content = '';
+        for (let offset = 0; offset < file.size; offset += ENCODE_SLICE_BYTES) {
+          await task.checkpoint();
+          const slice = file.slice(offset, offset + ENCODE_SLICE_BYTES);
+          content += encodeBase64Bytes(new Uint8Array(await slice.arrayBuffer()));
+        }
+        await task.checkpoint();
+
+        const result = await apiClient.fileWrite({
+          session_id: sessionId,
+          path,
+          content,
+          overwrite: options.overwrite,
+          create_parents: options.createParents,
+        });
+        if (!result.success) {
+          throw new Error(result.error ?? `Failed to write ${path}`);
+        }
+        task.progress(file.size, file.size);
+        return result;
+      };
+
+      return task.run(run());
+    },
+    [apiClient, isConnected, sessionId]
+  );
+
+  const download = useCallback(
+    (path: string, options: DownloadOptions = {}): TransferHandle<Blob> => {
+      const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+      const task = new TransferTask({ direction: 'download', sessionId, path, totalBytes: 0 });
+
+      const run = async (): Promise<Blob> => {
+        if (!apiClient || !isConnected) {
+          throw new Error('WebSocket not connected');
+        }
+
+        const chunks: BlobPart[] = [];
+        let offset = 0;
+        let total = Infinity;
+        let mimeType = options.mimeType;
+
+        while (offset < total) {
+          await task.checkpoint();
+          const result = await apiClient.fileRead({
+            session_id: sessionId,
+            path,
+            offset,
+            length: chunkSize,
+          });
+          if (!result.success) {
+            throw new Error(result.error ?? `Failed to read ${path}`);
+          }
+
+          const bytes = decodeBase64Bytes(result.content ?? '');
+          mimeType ??= result.mime_type ?? undefined;
+          // Without a reported size, a short read marks the end of the file
+          total = result.total_size ?? (bytes.length < chunkSize ? offset + bytes.length : Infinity);
+          if (bytes.length === 0) break;
+
+          // Freshly decoded, so never backed by a SharedArrayBuffer
+          chunks.push(bytes as BlobPart);
+          offset += bytes.length;
+          task.progress(offset, Number.isFinite(total) ? total : 0);
+        }
+
+        return new Blob(chunks, { type: mimeType ?? 'application/octet-stream' });
+      };
+
+      return task.run(run());
+    },
+    [apiClient, isConnected, sessionId]
+  );
+
   return {
     list,
     read,
@@ -274,6 +403,8 @@ export function useFiles({ sessionId }: UseFilesOptions): UseFilesResult {
     mkdir,
     search,
     getInfo,
+    upload,
+    download,
     isLoading,
     error,
     clearError,
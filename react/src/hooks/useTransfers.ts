@@ -0,0 +1,384 @@
+/**
+ * useTransfers hook - In-flight file transfers
+ *
+ * Lists browser-side uploads and downloads started with useFiles, plus
+ * agent-to-agent relay transfers reported by the `transfer.*` RPCs.
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { CancelledError } from '@cmdop/core';
+import { useWebSocket } from '../ws/index';
+import { APIClient } from '../ws/generated/index';
+import type { WsTransferInfo } from '../ws/generated/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TransferDirection = 'upload' | 'download' | 'relay';
+
+export type TransferState = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface Transfer {
+  /**
+   * Transfer ID (relay transfers use the server's ID)
+   */
+  id: string;
+  direction: TransferDirection;
+  /**
+   * Session the file lives on (the source session for relays)
+   */
+  sessionId: string;
+  /**
+   * Remote path (the target path for relays)
+   */
+  path: string;
+  /**
+   * File size in bytes, 0 until known
+   */
+  totalBytes: number;
+  transferredBytes: number;
+  /**
+   * Progress percentage, 0-100
+   */
+  progress: number;
+  state: TransferState;
+  error?: string;
+  /**
+   * Start time (browser transfers only)
+   */
+  startedAt?: Date;
+}
+
+/**
+ * Control handle returned by useFiles upload/download
+ */
+export interface TransferHandle<T> {
+  id: string;
+  /**
+   * Settles with the result; rejects with CancelledError after cancel()
+   */
+  promise: Promise<T>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+export interface UseTransfersOptions {
+  /**
+   * Only show transfers for this session; also enables relay listing
+   */
+  sessionId?: string;
+  /**
+   * Include agent-to-agent relay transfers (needs sessionId)
+   * @default true
+   */
+  includeRelay?: boolean;
+  /**
+   * Relay polling interval in ms
+   * @default 2000
+   */
+  pollInterval?: number;
+}
+
+export interface UseTransfersResult {
+  /**
+   * All known transfers, newest first
+   */
+  transfers: Transfer[];
+  /**
+   * Transfers still pending, running or paused
+   */
+  active: Transfer[];
+  /**
+   * Pause a browser transfer (relays cannot be paused)
+   */
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  /**
+   * Cancel a browser transfer, or ask the server to cancel a relay
+   */
+  cancel: (id: string) => Promise<void>;
+  /**
+   * Forget completed, failed and cancelled browser transfers
+   */
+  clearFinished: () => void;
+  /**
+   * Re-fetch relay transfers now
+   */
+  refresh: () => Promise<void>;
+  /**
+   * Last relay listing error
+   */
+  error: Error | null;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const registry = new Map<string, Transfer>();
+const tasks = new Map<string, TransferTask>();
+const listeners = new Set<() => void>();
+let snapshot: Transfer[] = [];
+let nextId = 0;
+
+function emit(): void {
+  snapshot = [...registry.values()].reverse();
+  for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getSnapshot(): Transfer[] {
+  return snapshot;
+}
+
+const FINISHED: TransferState[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * A browser-side transfer. The runner calls checkpoint() between chunks,
+ * which is where pause and cancel take effect.
+ */
+export class TransferTask {
+  readonly id: string;
+  private cancelled = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  constructor(init: Pick<Transfer, 'direction' | 'sessionId' | 'path' | 'totalBytes'>) {
+    this.id = `${init.direction}-${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+    registry.set(this.id, {
+      ...init,
+      id: this.id,
+      transferredBytes: 0,
+      progress: 0,
+      state: 'pending',
+      startedAt: new Date(),
+    });
+    tasks.set(this.id, this);
+    emit();
+  }
+
+  private get state(): TransferState | undefined {
+    return registry.get(this.id)?.state;
+  }
+
+  private update(patch: Partial<Transfer>): void {
+    const current = registry.get(this.id);
+    if (!current) return;
+    registry.set(this.id, { ...current, ...patch });
+    emit();
+  }
+
+  pause(): void {
+    if (this.state === 'running' || this.state === 'pending') this.update({ state: 'paused' });
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.update({ state: 'running' });
+    this.wake();
+  }
+
+  cancel(): void {
+    if (this.state && FINISHED.includes(this.state)) return;
+    this.cancelled = true;
+    this.wake();
+  }
+
+  /**
+   * Wait while paused; throw CancelledError once cancelled
+   */
+  async checkpoint(): Promise<void> {
+    while (this.state === 'paused' && !this.cancelled) {
+      await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    }
+    if (this.cancelled) throw new CancelledError('Transfer cancelled');
+    if (this.state === 'pending') this.update({ state: 'running' });
+  }
+
+  progress(transferredBytes: number, totalBytes: number): void {
+    this.update({
+      transferredBytes,
+      totalBytes,
+      progress: totalBytes > 0 ? Math.min(100, Math.round((transferredBytes / totalBytes) * 100)) : 0,
+    });
+  }
+
+  /**
+   * Track a runner's promise and hand back the control handle
+   */
+  run<T>(promise: Promise<T>): TransferHandle<T> {
+    const tracked = promise.then(
+      (value) => {
+        this.update({ state: 'completed', progress: 100 });
+        return value;
+      },
+      (err: unknown) => {
+        const cancelled = err instanceof CancelledError;
+        this.update({
+          state: cancelled ? 'cancelled' : 'failed',
+          error: cancelled ? undefined : err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      }
+    );
+    // Failures are reported through the registry too; callers may not await
+    tracked.catch(() => {});
+
+    return {
+      id: this.id,
+      promise: tracked,
+      pause: () => this.pause(),
+      resume: () => this.resume(),
+      cancel: () => this.cancel(),
+    };
+  }
+
+  private wake(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Hook listing in-flight transfers
+ *
+ * @example
+ * ```tsx
+ * function Transfers({ sessionId }: { sessionId: string }) {
+ *   const { active, pause, resume, cancel } = useTransfers({ sessionId });
+ *   return (
+ *     <ul>
+ *       {active.map((t) => (
+ *         <li key={t.id}>
+ *           {t.path} {t.progress}%
+ *           <button onClick={() => cancel(t.id)}>Cancel</button>
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useTransfers(options: UseTransfersOptions = {}): UseTransfersResult {
+  const { sessionId, includeRelay = true, pollInterval = 2000 } = options;
+  const { client, isConnected } = useWebSocket();
+
+  const local = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const [relays, setRelays] = useState<Transfer[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  const apiClient = useMemo(() => {
+    if (!client) return null;
+    return new APIClient(client);
+  }, [client]);
+
+  const relayEnabled = includeRelay && !!sessionId && !!apiClient && isConnected;
+
+  const refresh = useCallback(async (): Promise<void> => {
+    if (!relayEnabled) return;
+    try {
+      const result = await apiClient!.transferList({ session_id: sessionId! });
+      if (!result.success) throw new Error(result.error ?? 'Failed to list transfers');
+      setRelays((result.transfers ?? []).map(toTransfer));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, [relayEnabled, apiClient, sessionId]);
+
+  // Poll relay transfers
+  useEffect(() => {
+    if (!relayEnabled) {
+      setRelays([]);
+      return;
+    }
+    void refresh();
+    const timer = setInterval(() => void refresh(), pollInterval);
+    return () => clearInterval(timer);
+  }, [relayEnabled, refresh, pollInterval]);
+
+  const transfers = useMemo(() => {
+    const mine = sessionId ? local.filter((t) => t.sessionId === sessionId) : local;
+    return [...mine, ...relays];
+  }, [local, relays, sessionId]);
+
+  const active = useMemo(
+    () => transfers.filter((t) => !FINISHED.includes(t.state)),
+    [transfers]
+  );
+
+  const pause = useCallback((id: string) => tasks.get(id)?.pause(), []);
+  const resume = useCallback((id: string) => tasks.get(id)?.resume(), []);
+
+  const cancel = useCallback(
+    async (id: string): Promise<void> => {
+      const task = tasks.get(id);
+      if (task) {
+        task.cancel();
+        return;
+      }
+      if (!apiClient) throw new Error('WebSocket not connected');
+      const result = await apiClient.transferCancel({ transfer_id: id });
+      if (!result.success) throw new Error(result.error ?? 'Failed to cancel transfer');
+      await refresh();
+    },
+    [apiClient, refresh]
+  );
+
+  const clearFinished = useCallback(() => {
+    for (const [id, transfer] of registry) {
+      if (FINISHED.includes(transfer.state)) {
+        registry.delete(id);
+        tasks.delete(id);
+      }
+    }
+    emit();
+  }, []);
+
+  return { transfers, active, pause, resume, cancel, clearFinished, refresh, error };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toTransfer(info: WsTransferInfo): Transfer {
+  // The relay reports progress per side; show the side this session is on
+  const progress = info.is_target ? info.download_progress : info.upload_progress;
+  return {
+    id: info.transfer_id,
+    direction: 'relay',
+    sessionId: info.source_session_id,
+    path: info.target_path,
+    totalBytes: info.file_size,
+    transferredBytes: Math.round((info.file_size * progress) / 100),
+    progress,
+    state: toTransferState(info.state),
+  };
+}
+
+function toTransferState(state: string): TransferState {
+  switch (state.toLowerCase()) {
+    case 'pending':
+    case 'initiated':
+      return 'pending';
+    case 'completed':
+    case 'failed':
+    case 'cancelled':
+      return state.toLowerCase() as TransferState;
+    default:
+      return 'running';
+  }
+}
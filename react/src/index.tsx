@@ -71,7 +71,7 @@ export {
 export * from './ws/generated/types';
 
 // ============================================================================
-// Real-time Hooks (Terminal, Agent, Files, Sessions)
+// Real-time Hooks (Terminal, Agent, Files, Transfers, Sessions)
 // ============================================================================
 
 export {
@@ -101,11 +101,34 @@ export {
   type ReadOptions,
   type WriteOptions,
   type SearchOptions,
+  type UploadOptions,
+  type DownloadOptions,
+  useFileChanges,
+  fileChangesChannel,
+  type UseFileChangesOptions,
+  type UseFileChangesResult,
+  // Transfers
+  useTransfers,
+  type UseTransfersOptions,
+  type UseTransfersResult,
+  type Transfer,
+  type TransferDirection,
+  type TransferState,
+  type TransferHandle,
   // Sessions
   useSessions,
   type UseSessionsOptions,
   type UseSessionsResult,
   type CreateSessionOptions,
+  // Browser
+  useBrowser,
+  type UseBrowserOptions,
+  type UseBrowserResult,
+  type BrowserField,
+  type BrowserSchema,
+  type BrowserExtractOptions,
+  type BrowserExtractResult,
+  type BrowserRegexOptions,
 } from './hooks/index';
 
 // ============================================================================
@@ -158,6 +181,27 @@ export {
   type MachineCentrifugoMessage,
 } from './components/index';
 
+// ============================================================================
+// File Components
+// ============================================================================
+
+export {
+  // Components
+  FileBrowser,
+  FilePreview,
+  FileIcon,
+  // Hooks
+  useFileBrowser,
+  // Types
+  type FileSortKey,
+  type FileSort,
+  type FileBrowserProps,
+  type FilePreviewProps,
+  type FileIconProps,
+  type UseFileBrowserOptions,
+  type UseFileBrowserResult,
+} from './components/index';
+
 // ============================================================================
 // HTTP API Context & Provider
 // ============================================================================
@@ -10,8 +10,7 @@
 export function encodeBase64(str: string): string {
   // Handle Unicode: encode to UTF-8 bytes first
   const utf8Bytes = new TextEncoder().encode(str);
-  const binary = String.fromCharCode(...utf8Bytes);
-  return btoa(binary);
+  return btoa(bytesToBinary(utf8Bytes));
 }
 
 /**
@@ -42,8 +41,7 @@ export function tryDecodeBase64(str: string): string {
  * Encode binary data (Uint8Array) to base64
  */
 export function encodeBase64Bytes(data: Uint8Array): string {
-  const binary = String.fromCharCode(...data);
-  return btoa(binary);
+  return btoa(bytesToBinary(data));
 }
 
 /**
@@ -57,3 +55,16 @@ export function decodeBase64Bytes(base64: string): Uint8Array {
   }
   return bytes;
 }
+
+/**
+ * Bytes to a binary string, in blocks: spreading a large array into
+ * String.fromCharCode overflows the call stack
+ */
+function bytesToBinary(bytes: Uint8Array): string {
+  const BLOCK = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BLOCK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BLOCK));
+  }
+  return binary;
+}
@@ -0,0 +1,72 @@
+/**
+ * Directory model helpers for useFileChanges
+ * Kept free of React so the sync rules can be tested on their own
+ */
+
+import { WsFileChangeType, type WsFileChange, type WsFileEntry, type WsGetChangesResult } from '../ws/generated/types';
+
+export function isWithin(path: string, root: string): boolean {
+  if (root === '/') return path.startsWith('/');
+  return path === root || path.startsWith(`${root}/`);
+}
+
+/**
+ * Remove an entry and, for directories, everything below it
+ */
+export function removeTree(entries: Map<string, WsFileEntry>, path: string): boolean {
+  let removed = entries.delete(path);
+  const prefix = `${path}/`;
+  for (const key of entries.keys()) {
+    if (key.startsWith(prefix)) {
+      entries.delete(key);
+      removed = true;
+    }
+  }
+  return removed;
+}
+
+export function applyChange(entries: Map<string, WsFileEntry>, change: WsFileChange, root: string): void {
+  const item = change.item;
+  switch (change.change_type) {
+    case WsFileChangeType.CREATE:
+    case WsFileChangeType.MODIFY:
+      if (item && isWithin(item.path, root)) entries.set(item.path, item);
+      break;
+    case WsFileChangeType.DELETE: {
+      const target = item?.path || change.old_path;
+      if (target) removeTree(entries, target);
+      break;
+    }
+    case WsFileChangeType.MOVE:
+      if (change.old_path) removeTree(entries, change.old_path);
+      if (item && isWithin(item.path, root)) entries.set(item.path, item);
+      break;
+  }
+}
+
+/**
+ * Apply a `file.get_changes` result read since `since`
+ *
+ * Returns the sequence the model is now current to, or null if the result
+ * cannot be applied and the model must be rebuilt from a full listing:
+ * - the sequence went backwards, so the agent's journal was reset
+ * - `has_more` is set: `file.get_changes` takes no cursor, and
+ *   `current_sequence` is the head of the journal rather than the last
+ *   change returned, so reading on from it would skip changes
+ *
+ * Nothing is applied when null is returned.
+ */
+export function applyChanges(
+  entries: Map<string, WsFileEntry>,
+  result: WsGetChangesResult,
+  since: number,
+  root: string
+): number | null {
+  const current = result.current_sequence ?? since;
+  if (current < since || result.has_more) return null;
+
+  for (const change of result.changes ?? []) {
+    applyChange(entries, change, root);
+  }
+  return current;
+}
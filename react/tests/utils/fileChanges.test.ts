@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { applyChanges } from '../../src/utils/fileChanges';
+import { WsFileChangeType, type WsFileChange, type WsFileEntry } from '../../src/ws/generated/types';
+
+function entry(path: string): WsFileEntry {
+  return {
+    name: path.slice(path.lastIndexOf('/') + 1),
+    path,
+    type: 'file',
+    size: 0,
+    modified_at: '',
+    permissions: '',
+    owner: '',
+    is_hidden: false,
+    is_readable: true,
+    is_writable: true,
+  };
+}
+
+function created(path: string): WsFileChange {
+  return { change_type: WsFileChangeType.CREATE, item: entry(path) };
+}
+
+describe('applyChanges', () => {
+  it('applies the changes and returns the new sequence', () => {
+    const entries = new Map([['/srv/old.txt', entry('/srv/old.txt')]]);
+    const sequence = applyChanges(
+      entries,
+      {
+        changes: [created('/srv/a.txt'), { change_type: WsFileChangeType.DELETE, old_path: '/srv/old.txt' }],
+        current_sequence: 12,
+      },
+      10,
+      '/srv'
+    );
+
+    expect(sequence).toBe(12);
+    expect([...entries.keys()]).toEqual(['/srv/a.txt']);
+  });
+
+  it('ignores entries outside the root', () => {
+    const entries = new Map<string, WsFileEntry>();
+    applyChanges(entries, { changes: [created('/srv/a.txt'), created('/etc/passwd')], current_sequence: 2 }, 0, '/srv');
+
+    expect([...entries.keys()]).toEqual(['/srv/a.txt']);
+  });
+
+  it('asks for a rebuild instead of skipping changes when has_more is set', () => {
+    const entries = new Map<string, WsFileEntry>();
+    const sequence = applyChanges(
+      entries,
+      { changes: [created('/srv/a.txt')], current_sequence: 50, has_more: true },
+      10,
+      '/srv'
+    );
+
+    expect(sequence).toBeNull();
+    expect(entries.size).toBe(0);
+  });
+
+  it('asks for a rebuild when the sequence goes backwards', () => {
+    const entries = new Map<string, WsFileEntry>();
+    expect(applyChanges(entries, { changes: [created('/srv/a.txt')], current_sequence: 3 }, 10, '/srv')).toBeNull();
+    expect(entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,237 @@
+'use client';
+
+import { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { useTerminal, useWebSocket, APIClient, type TerminalStatus } from '@cmdop/react';
+import { TerminalEmulator } from './TerminalEmulator';
+import { TerminalToolbar } from './TerminalToolbar';
+import type { RemoteTerminalProps, TerminalEmulatorHandle } from './types';
+
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+/**
+ * Remote Terminal Component
+ *
+ * A TerminalEmulator bound to a CMDOP terminal session:
+ * - Attaches to the session's output and status channels
+ * - Replays recent command history before live output
+ * - Forwards keystrokes and every fit/resize to the session
+ * - Toolbar with connect, close and signal buttons plus error display
+ *
+ * Must be rendered inside WebSocketProvider (usually nested in CMDOPProvider).
+ */
+export function RemoteTerminal({
+  sessionId,
+  createOptions,
+  historyLimit = 100,
+  showToolbar = true,
+  onSessionChange,
+  onStatus,
+  onError,
+  theme,
+  displayConfig,
+  className,
+  autoFocus,
+}: RemoteTerminalProps) {
+  const { client, isConnected: isSocketConnected, connect } = useWebSocket();
+  const apiClient = useMemo(() => (client ? new APIClient(client) : null), [client]);
+
+  const emulatorRef = useRef<TerminalEmulatorHandle>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(sessionId ?? null);
+  const [isClosed, setIsClosed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Output that arrives while history is replaying is held back so it lands after it
+  const isReplayingRef = useRef(false);
+  const pendingOutputRef = useRef<string[]>([]);
+  const dimensionsRef = useRef<{ cols: number; rows: number } | null>(null);
+
+  // Store latest callbacks in refs
+  const onSessionChangeRef = useRef(onSessionChange);
+  onSessionChangeRef.current = onSessionChange;
+  const onStatusRef = useRef(onStatus);
+  onStatusRef.current = onStatus;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const reportError = useCallback((err: unknown) => {
+    const e = err instanceof Error ? err : new Error(String(err));
+    setError(e.message);
+    onErrorRef.current?.(e);
+  }, []);
+
+  // Follow the sessionId prop
+  useEffect(() => {
+    setActiveSessionId(sessionId ?? null);
+    setIsClosed(false);
+  }, [sessionId]);
+
+  const handleOutput = useCallback((data: string) => {
+    if (isReplayingRef.current) {
+      pendingOutputRef.current.push(data);
+    } else {
+      emulatorRef.current?.write(data);
+    }
+  }, []);
+
+  const handleStatus = useCallback((status: TerminalStatus) => {
+    onStatusRef.current?.(status);
+    if (status.state === 'active') return;
+
+    setIsClosed(true);
+    const exit = status.exitCode !== undefined ? `, exit code ${status.exitCode}` : '';
+    emulatorRef.current?.write(`\r\n${DIM}[session ${status.state}${exit}]${RESET}\r\n`);
+  }, []);
+
+  const terminal = useTerminal({
+    sessionId: activeSessionId ?? '',
+    enabled: !!activeSessionId && !isClosed,
+    onOutput: handleOutput,
+    onStatus: handleStatus,
+    // The RPC error is already reported here; callers only swallow the rejection
+    onError: reportError,
+  });
+  const { isConnected, sendInput, resize, signal } = terminal;
+
+  // Replay history when attaching to a session
+  useEffect(() => {
+    if (!activeSessionId || !apiClient || !isSocketConnected) return;
+
+    emulatorRef.current?.clear();
+    if (historyLimit <= 0) return;
+
+    let cancelled = false;
+    isReplayingRef.current = true;
+    pendingOutputRef.current = [];
+
+    apiClient
+      .terminalHistory({ session_id: activeSessionId, limit: historyLimit })
+      .then((history) => {
+        if (cancelled) return;
+        for (const command of history.commands) {
+          emulatorRef.current?.write(`${DIM}$ ${command}${RESET}\r\n`);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) reportError(err);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        isReplayingRef.current = false;
+        for (const data of pendingOutputRef.current) {
+          emulatorRef.current?.write(data);
+        }
+        pendingOutputRef.current = [];
+      });
+
+    return () => {
+      cancelled = true;
+      isReplayingRef.current = false;
+    };
+  }, [activeSessionId, apiClient, isSocketConnected, historyLimit, reportError]);
+
+  // Send the current size once attached; the emulator measured it before that
+  useEffect(() => {
+    if (!isConnected) return;
+    emulatorRef.current?.fit();
+    const dims = emulatorRef.current?.getDimensions() ?? dimensionsRef.current;
+    if (dims) {
+      dimensionsRef.current = dims;
+      resize(dims.cols, dims.rows).catch(() => {});
+    }
+  }, [isConnected, resize]);
+
+  const handleInput = useCallback(
+    (data: string) => {
+      if (!isConnected || isClosed) return;
+      sendInput(data).catch(() => {});
+    },
+    [isConnected, isClosed, sendInput]
+  );
+
+  const handleResize = useCallback(
+    (cols: number, rows: number) => {
+      dimensionsRef.current = { cols, rows };
+      if (isConnected) {
+        resize(cols, rows).catch(() => {});
+      }
+    },
+    [isConnected, resize]
+  );
+
+  const handleCreateShell = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (!isSocketConnected) {
+        await connect();
+        // A live session only needed the socket back; a closed one needs replacing
+        if (activeSessionId && !isClosed) return;
+      }
+      if (!apiClient) throw new Error('WebSocket not connected');
+
+      const session = await apiClient.terminalCreateSession(createOptions ?? {});
+      setIsClosed(false);
+      setActiveSessionId(session.session_id);
+      onSessionChangeRef.current?.(session.session_id);
+    } catch (err) {
+      reportError(err);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [isSocketConnected, connect, activeSessionId, isClosed, apiClient, createOptions, reportError]);
+
+  const handleCloseShell = useCallback(async () => {
+    if (!activeSessionId || !apiClient) return;
+    setIsBusy(true);
+    try {
+      await apiClient.terminalClose({ session_id: activeSessionId });
+      setIsClosed(true);
+      setActiveSessionId(null);
+      onSessionChangeRef.current?.(null);
+    } catch (err) {
+      reportError(err);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [activeSessionId, apiClient, reportError]);
+
+  const handleSignal = useCallback(
+    (sig: 'SIGINT' | 'SIGTERM' | 'SIGKILL') => {
+      signal(sig).catch(() => {});
+    },
+    [signal]
+  );
+
+  return (
+    <div
+      className={className}
+      style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%' }}
+    >
+      {showToolbar && (
+        <TerminalToolbar
+          isConnected={isConnected && !isClosed}
+          isLoading={isBusy}
+          sessionId={activeSessionId ?? undefined}
+          error={error}
+          onCreateShell={handleCreateShell}
+          onCloseShell={handleCloseShell}
+          onSignal={handleSignal}
+          onClearError={() => setError(null)}
+          theme={theme}
+        />
+      )}
+      <div style={{ flex: 1, minHeight: 0 }}>
+        <TerminalEmulator
+          ref={emulatorRef}
+          onInput={handleInput}
+          onResize={handleResize}
+          theme={theme}
+          displayConfig={displayConfig}
+          autoFocus={autoFocus}
+        />
+      </div>
+    </div>
+  );
+}
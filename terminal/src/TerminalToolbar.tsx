@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo, type CSSProperties } from 'react';
+import { defaultTheme } from './config';
+import type { TerminalToolbarProps, TerminalTheme } from './types';
+
+const SIGNALS = [
+  { signal: 'SIGINT', label: 'Ctrl+C', title: 'Interrupt (SIGINT)' },
+  { signal: 'SIGTERM', label: 'Term', title: 'Terminate (SIGTERM)' },
+  { signal: 'SIGKILL', label: 'Kill', title: 'Kill (SIGKILL)' },
+] as const;
+
+/**
+ * Terminal Toolbar Component
+ *
+ * Header bar for a terminal pane:
+ * - Connection indicator and session ID
+ * - Connect / close buttons
+ * - Signal buttons while connected
+ * - Dismissible error line
+ */
+export function TerminalToolbar({
+  isConnected,
+  isLoading = false,
+  sessionId,
+  error,
+  onCreateShell,
+  onCloseShell,
+  onSignal,
+  onClearError,
+  theme,
+  className,
+}: TerminalToolbarProps) {
+  const colors = useMemo<TerminalTheme>(
+    () => ({ ...defaultTheme, ...theme }),
+    [theme]
+  );
+
+  const buttonStyle: CSSProperties = {
+    padding: '2px 8px',
+    fontSize: 12,
+    fontFamily: 'inherit',
+    color: colors.foreground,
+    background: 'transparent',
+    border: `1px solid ${colors.brightBlack}`,
+    borderRadius: 4,
+    cursor: isLoading ? 'wait' : 'pointer',
+    opacity: isLoading ? 0.6 : 1,
+  };
+
+  return (
+    <div
+      className={className}
+      style={{
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: 12,
+        color: colors.foreground,
+        backgroundColor: colors.black,
+        borderBottom: `1px solid ${colors.brightBlack}`,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 8px' }}>
+        <span
+          title={isConnected ? 'Connected' : 'Disconnected'}
+          style={{
+            width: 8,
+            height: 8,
+            borderRadius: '50%',
+            backgroundColor: isConnected ? colors.green : colors.brightBlack,
+          }}
+        />
+        <code
+          title={sessionId}
+          style={{
+            flex: 1,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            color: colors.white,
+          }}
+        >
+          {sessionId ?? 'No session'}
+        </code>
+
+        {isConnected &&
+          onSignal &&
+          SIGNALS.map(({ signal, label, title }) => (
+            <button
+              key={signal}
+              type="button"
+              title={title}
+              disabled={isLoading}
+              onClick={() => onSignal(signal)}
+              style={buttonStyle}
+            >
+              {label}
+            </button>
+          ))}
+
+        {isConnected
+          ? onCloseShell && (
+              <button
+                type="button"
+                disabled={isLoading}
+                onClick={onCloseShell}
+                style={{ ...buttonStyle, borderColor: colors.red, color: colors.red }}
+              >
+                Close
+              </button>
+            )
+          : onCreateShell && (
+              <button
+                type="button"
+                disabled={isLoading}
+                onClick={onCreateShell}
+                style={{ ...buttonStyle, borderColor: colors.green, color: colors.green }}
+              >
+                {isLoading ? 'Connecting…' : 'Connect'}
+              </button>
+            )}
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '4px 8px',
+            color: colors.red,
+            borderTop: `1px solid ${colors.brightBlack}`,
+          }}
+        >
+          <span style={{ flex: 1 }}>{error}</span>
+          {onClearError && (
+            <button
+              type="button"
+              title="Dismiss"
+              onClick={onClearError}
+              style={{ ...buttonStyle, border: 'none', color: colors.red }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@
 
 // Components
 export { TerminalEmulator } from './TerminalEmulator';
+export { TerminalToolbar } from './TerminalToolbar';
+export { RemoteTerminal } from './RemoteTerminal';
 
 // Config
 export {
@@ -22,4 +24,5 @@ export type {
   TerminalEmulatorProps,
   TerminalEmulatorHandle,
   TerminalToolbarProps,
+  RemoteTerminalProps,
 } from './types';
@@ -2,6 +2,8 @@
  * Terminal Types
  */
 
+import type { TerminalStatus, WsTerminalCreateSessionParams } from '@cmdop/react';
+
 /**
  * Terminal theme (xterm.js compatible)
  */
@@ -102,6 +104,36 @@ export interface TerminalToolbarProps {
   onSignal?: (signal: 'SIGINT' | 'SIGTERM' | 'SIGKILL') => void;
   /** Called to clear error */
   onClearError?: () => void;
+  /** Custom theme (colors follow the terminal below it) */
+  theme?: Partial<TerminalTheme>;
   /** Additional CSS class */
   className?: string;
 }
+
+/**
+ * Remote terminal props
+ */
+export interface RemoteTerminalProps {
+  /** Session to attach to; without one, Connect creates a new session */
+  sessionId?: string;
+  /** Options for sessions created from the toolbar */
+  createOptions?: WsTerminalCreateSessionParams;
+  /** Number of history commands replayed on attach (0 disables replay) */
+  historyLimit?: number;
+  /** Whether to render the toolbar */
+  showToolbar?: boolean;
+  /** Called when a session is created or closed from the toolbar */
+  onSessionChange?: (sessionId: string | null) => void;
+  /** Called when the session status changes */
+  onStatus?: (status: TerminalStatus) => void;
+  /** Called on connection or RPC errors */
+  onError?: (error: Error) => void;
+  /** Custom theme */
+  theme?: Partial<TerminalTheme>;
+  /** Custom display config */
+  displayConfig?: Partial<TerminalDisplayConfig>;
+  /** Additional CSS class */
+  className?: string;
+  /** Whether terminal should auto-focus */
+  autoFocus?: boolean;
+}